@@ -22,12 +22,91 @@ export interface AudioClipConfig {
    * 初始音量（0-1）
    */
   gain?: number;
+  /**
+   * 淡入 / 淡出时长（秒，按时间轴时长计），增益线性变化
+   */
+  fadeIn?: number;
+  fadeOut?: number;
+  /**
+   * 音量包络：time 为相对 start 的秒数，两点之间线性过渡，
+   * 首点之前取首点、末点之后取末点；设置后覆盖 gain。
+   */
+  envelope?: AudioEnvelopePoint[];
+}
+
+export interface AudioEnvelopePoint {
+  time: number;
+  /** 0-1 */
+  gain: number;
 }
 
 export interface AudioTimelineConfig {
   clips: AudioClipConfig[];
 }
 
+/** 淡入淡出区间内增益排程的采样间隔（秒） */
+const FADE_RAMP_STEP = 0.05;
+
+/**
+ * 片段在时间轴时间 t 处的增益：包络（或静态 gain）× 淡入淡出系数。
+ */
+function getClipGainAt(clip: AudioClipConfig, t: number): number {
+  const { start, end, gain = 1, fadeIn = 0, fadeOut = 0, envelope } = clip;
+  let value = gain;
+  if (envelope && envelope.length > 0) {
+    const local = t - start;
+    value = envelope[envelope.length - 1].gain;
+    if (local <= envelope[0].time) {
+      value = envelope[0].gain;
+    } else {
+      for (let i = 0; i < envelope.length - 1; i++) {
+        const a = envelope[i];
+        const b = envelope[i + 1];
+        if (local < b.time) {
+          const span = b.time - a.time;
+          const p = span > 0 ? (local - a.time) / span : 1;
+          value = a.gain + (b.gain - a.gain) * p;
+          break;
+        }
+      }
+    }
+  }
+  let fade = 1;
+  if (fadeIn > 0) fade = Math.min(fade, (t - start) / fadeIn);
+  if (fadeOut > 0) fade = Math.min(fade, (end - t) / fadeOut);
+  return value * Math.min(1, Math.max(0, fade));
+}
+
+/**
+ * 以线性斜坡排程片段从 from 到 end 的增益：包络点处折线相接，
+ * 淡入淡出区间内按 FADE_RAMP_STEP 细分（与包络相乘后不再是直线）。
+ */
+function scheduleClipGain(
+  param: AudioParam,
+  clip: AudioClipConfig,
+  from: number,
+  when: number
+): void {
+  const { start, end, fadeIn = 0, fadeOut = 0, envelope = [] } = clip;
+  const times = new Set<number>([end]);
+  for (const point of envelope) times.add(start + point.time);
+  const fadeRanges: [number, number][] = [
+    [start, start + fadeIn],
+    [end - fadeOut, end],
+  ];
+  for (const [a, b] of fadeRanges) {
+    for (let t = a; t < b; t += FADE_RAMP_STEP) times.add(t);
+    times.add(b);
+  }
+  param.setValueAtTime(getClipGainAt(clip, from), when);
+  [...times]
+    .filter((t) => t > from && t <= end)
+    .sort((a, b) => a - b)
+    .forEach((t) => {
+      param.linearRampToValueAtTime(getClipGainAt(clip, t), when + t - from);
+    });
+}
+
 export class AudioEngine {
   private audioContext: AudioContext | null = null;
   private currentSources: Map<
@@ -76,7 +155,7 @@ export class AudioEngine {
     this._offset = time;
 
     for (const clip of timeline.clips) {
-      const { id, buffer, start, end, inPoint = 0, outPoint, gain = 1 } = clip;
+      const { id, buffer, start, end, inPoint = 0, outPoint } = clip;
 
       const clipDuration = (outPoint ?? buffer.duration) - inPoint;
       if (clipDuration <= 0) continue;
@@ -87,14 +166,14 @@ export class AudioEngine {
       const source = ctx.createBufferSource();
       source.buffer = buffer;
 
+      const offsetInClip = Math.max(0, time - start);
+      const when = ctx.currentTime;
+
       const gainNode = ctx.createGain();
-      gainNode.gain.value = gain;
+      scheduleClipGain(gainNode.gain, clip, start + offsetInClip, when);
 
       source.connect(gainNode);
       gainNode.connect(ctx.destination);
-
-      const offsetInClip = Math.max(0, time - start);
-      const when = ctx.currentTime;
       const duration = Math.min(clipDuration - offsetInClip, end - time);
 
       source.start(when, inPoint + offsetInClip, duration);
@@ -167,6 +167,10 @@ export class CanvasEditor {
     this.selectionManager.setSelectedElement(id);
   }
 
+  setSelectedElements(ids: string[]): void {
+    this.selectionManager.setSelectedElements(ids);
+  }
+
   getSelectedTransform() {
     return this.selectionManager.getSelectedTransform();
   }
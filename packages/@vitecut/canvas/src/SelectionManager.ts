@@ -24,9 +24,15 @@ export class SelectionManager {
   private getNodeTypeById: (id: string) => "text" | "image" | "video" | null;
 
   private selectedId: string | null = null;
+  /** 多选时的全部选中 id（单选时为空） */
+  private selectedIds: string[] = [];
   private transformer: Konva.Transformer | null = null;
   private callbacks: CanvasEditorCallbacks = {};
   private transformStartState: TransformEvent | null = null;
+  /** 拖拽开始时各节点的状态（多选拖动时多个节点同时拖拽） */
+  private dragStartStates = new Map<string, TransformEvent>();
+  /** 多选拖动中已结束、待统一提交的节点变换 */
+  private pendingDragEnds: TransformEvent[] = [];
 
   constructor(options: SelectionManagerOptions) {
     this.elementLayer = options.elementLayer;
@@ -52,7 +58,7 @@ export class SelectionManager {
    * 设置选中元素
    */
   setSelectedElement(id: string | null): void {
-    if (this.selectedId === id) return;
+    if (this.selectedId === id && this.selectedIds.length === 0) return;
 
     this.clearSelection();
 
@@ -72,6 +78,39 @@ export class SelectionManager {
     this.callbacks.onElementSelect?.(id);
   }
 
+  /**
+   * 设置多个选中元素（时间轴多选同步）：编辑框同时框住全部节点，只能整体拖动。
+   *
+   * 由外部同步调用，不触发 onElementSelect；找不到节点的 id 会被忽略，
+   * 只剩一个节点时同样使用不可缩放/旋转的多选编辑框。
+   */
+  setSelectedElements(ids: string[]): void {
+    const nodes = ids
+      .map((id) => ({ id, node: this.getElementNodeById(id) }))
+      .filter((item): item is { id: string; node: Konva.Node } => !!item.node);
+    const nextIds = nodes.map((item) => item.id);
+    if (
+      this.selectedId === null &&
+      nextIds.length === this.selectedIds.length &&
+      nextIds.every((id, i) => id === this.selectedIds[i])
+    ) {
+      return;
+    }
+
+    this.clearSelection();
+    if (nodes.length === 0) return;
+
+    this.selectedIds = nextIds;
+    this.transformer = new Konva.Transformer({
+      ...createTransformerConfig(nodes[0].node),
+      nodes: nodes.map((item) => item.node),
+      resizeEnabled: false,
+      rotateEnabled: false,
+    });
+    this.elementLayer.add(this.transformer);
+    this.elementLayer.batchDraw();
+  }
+
   /**
    * 获取当前选中元素的变换状态
    */
@@ -99,6 +138,7 @@ export class SelectionManager {
    */
   clearSelection(): void {
     this.selectedId = null;
+    this.selectedIds = [];
     this.transformStartState = null;
 
     if (this.transformer) {
@@ -157,15 +197,22 @@ export class SelectionManager {
     id: string,
     onTransformStart?: () => void
   ): void {
-    // 点击选中
+    // 点击选中；按住 Shift 时切换该元素的多选状态
     node.on("click tap", (e) => {
       e.cancelBubble = true;
+      if (
+        (e.evt as MouseEvent).shiftKey &&
+        this.callbacks.onElementToggleSelect
+      ) {
+        this.callbacks.onElementToggleSelect(id);
+        return;
+      }
       this.setSelectedElement(id);
     });
 
-    // 拖拽事件
+    // 拖拽事件（多选时 Transformer 会带动其余选中节点一起拖拽）
     node.on("dragstart", () => {
-      this.transformStartState = nodeToTransformEvent(id, node);
+      this.dragStartStates.set(id, nodeToTransformEvent(id, node));
       onTransformStart?.();
     });
 
@@ -176,13 +223,31 @@ export class SelectionManager {
 
     node.on("dragend", () => {
       const transform = nodeToTransformEvent(id, node);
-      if (
-        this.transformStartState &&
-        hasTransformChanged(this.transformStartState, transform)
-      ) {
+      const startState = this.dragStartStates.get(id);
+      this.dragStartStates.delete(id);
+      const changed =
+        !!startState && hasTransformChanged(startState, transform);
+
+      if (this.selectedIds.includes(id)) {
+        // 多选拖动：等所有节点都结束拖拽后一次性提交
+        if (changed) this.pendingDragEnds.push(transform);
+        if (this.dragStartStates.size > 0) return;
+        const events = this.pendingDragEnds;
+        this.pendingDragEnds = [];
+        if (events.length === 0) return;
+        if (this.callbacks.onElementsTransformEnd) {
+          this.callbacks.onElementsTransformEnd(events);
+        } else {
+          events.forEach((event) =>
+            this.callbacks.onElementTransformEnd?.(event)
+          );
+        }
+        return;
+      }
+
+      if (changed) {
         this.callbacks.onElementTransformEnd?.(transform);
       }
-      this.transformStartState = null;
     });
   }
 
@@ -28,6 +28,10 @@ export interface CanvasEditorCallbacks {
   onElementTransform?: (event: TransformEvent) => void;
   /** 元素变换结束时触发（用于提交历史记录） */
   onElementTransformEnd?: (event: TransformEvent) => void;
+  /** 按住 Shift 点击元素时触发，用于切换多选 */
+  onElementToggleSelect?: (id: string) => void;
+  /** 多选整体拖动结束时触发，一次给出所有发生变化的元素 */
+  onElementsTransformEnd?: (events: TransformEvent[]) => void;
 }
 
 /**
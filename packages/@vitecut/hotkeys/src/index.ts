@@ -6,6 +6,12 @@ export type TimelineHotkeyCommandId =
   | "timeline.clip.split"
   | "timeline.clip.trimLeft"
   | "timeline.clip.trimRight"
+  | "timeline.clip.selectAllOnTrack"
+  | "timeline.marker.add"
+  | "timeline.marker.next"
+  | "timeline.marker.prev"
+  | "timeline.region.setIn"
+  | "timeline.region.setOut"
   | "timeline.playback.toggle"
   | "timeline.undo"
   | "timeline.redo"
@@ -24,6 +30,12 @@ export const TimelineHotkeyCommand: Record<
   CLIP_SPLIT: "timeline.clip.split",
   CLIP_TRIM_LEFT: "timeline.clip.trimLeft",
   CLIP_TRIM_RIGHT: "timeline.clip.trimRight",
+  CLIP_SELECT_ALL_ON_TRACK: "timeline.clip.selectAllOnTrack",
+  MARKER_ADD: "timeline.marker.add",
+  MARKER_NEXT: "timeline.marker.next",
+  MARKER_PREV: "timeline.marker.prev",
+  REGION_SET_IN: "timeline.region.setIn",
+  REGION_SET_OUT: "timeline.region.setOut",
   PLAYBACK_TOGGLE: "timeline.playback.toggle",
   UNDO: "timeline.undo",
   REDO: "timeline.redo",
@@ -40,6 +52,12 @@ export interface TimelineHotkeyHandlers {
   onSplitClip?: () => void;
   onTrimClipLeft?: () => void;
   onTrimClipRight?: () => void;
+  onSelectAllOnTrack?: () => void;
+  onAddMarker?: () => void;
+  onNextMarker?: () => void;
+  onPrevMarker?: () => void;
+  onSetInPoint?: () => void;
+  onSetOutPoint?: () => void;
   onTogglePlay?: () => void;
   onUndo?: () => void;
   onRedo?: () => void;
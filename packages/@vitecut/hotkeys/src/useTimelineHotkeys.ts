@@ -17,6 +17,12 @@ export function useTimelineHotkeys(options: UseTimelineHotkeysOptions): void {
     onSplitClip,
     onTrimClipLeft,
     onTrimClipRight,
+    onSelectAllOnTrack,
+    onAddMarker,
+    onNextMarker,
+    onPrevMarker,
+    onSetInPoint,
+    onSetOutPoint,
     onTogglePlay,
     onUndo,
     onRedo,
@@ -163,6 +169,108 @@ export function useTimelineHotkeys(options: UseTimelineHotkeysOptions): void {
     [enabled, onDeleteClip]
   );
 
+  // 全选当前轨道 clip：Cmd/Ctrl + A
+  useHotkeys(
+    "mod+a",
+    (event) => {
+      if (!enabled || !onSelectAllOnTrack) {
+        return;
+      }
+      if (isFromEditableTarget(event)) {
+        return;
+      }
+      event.preventDefault();
+      onSelectAllOnTrack();
+    },
+    { enableOnFormTags: ["INPUT", "TEXTAREA", "SELECT"] },
+    [enabled, onSelectAllOnTrack]
+  );
+
+  // 在播放头处添加标记：M
+  useHotkeys(
+    "m",
+    (event) => {
+      if (!enabled || !onAddMarker) {
+        return;
+      }
+      if (isFromEditableTarget(event)) {
+        return;
+      }
+      event.preventDefault();
+      onAddMarker();
+    },
+    { enableOnFormTags: ["INPUT", "TEXTAREA", "SELECT"] },
+    [enabled, onAddMarker]
+  );
+
+  // 跳到下一个标记：Shift + M
+  useHotkeys(
+    "shift+m",
+    (event) => {
+      if (!enabled || !onNextMarker) {
+        return;
+      }
+      if (isFromEditableTarget(event)) {
+        return;
+      }
+      event.preventDefault();
+      onNextMarker();
+    },
+    { enableOnFormTags: ["INPUT", "TEXTAREA", "SELECT"] },
+    [enabled, onNextMarker]
+  );
+
+  // 跳到上一个标记：Cmd/Ctrl + Shift + M
+  useHotkeys(
+    "mod+shift+m",
+    (event) => {
+      if (!enabled || !onPrevMarker) {
+        return;
+      }
+      if (isFromEditableTarget(event)) {
+        return;
+      }
+      event.preventDefault();
+      onPrevMarker();
+    },
+    { enableOnFormTags: ["INPUT", "TEXTAREA", "SELECT"] },
+    [enabled, onPrevMarker]
+  );
+
+  // 设置入点：I
+  useHotkeys(
+    "i",
+    (event) => {
+      if (!enabled || !onSetInPoint) {
+        return;
+      }
+      if (isFromEditableTarget(event)) {
+        return;
+      }
+      event.preventDefault();
+      onSetInPoint();
+    },
+    { enableOnFormTags: ["INPUT", "TEXTAREA", "SELECT"] },
+    [enabled, onSetInPoint]
+  );
+
+  // 设置出点并创建区间：O
+  useHotkeys(
+    "o",
+    (event) => {
+      if (!enabled || !onSetOutPoint) {
+        return;
+      }
+      if (isFromEditableTarget(event)) {
+        return;
+      }
+      event.preventDefault();
+      onSetOutPoint();
+    },
+    { enableOnFormTags: ["INPUT", "TEXTAREA", "SELECT"] },
+    [enabled, onSetOutPoint]
+  );
+
   // 撤销：Cmd/Ctrl + Z
   useHotkeys(
     "mod+z",
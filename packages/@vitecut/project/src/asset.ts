@@ -1,4 +1,5 @@
 import type { AssetId } from "./ids";
+import type { Track } from "./track";
 
 /**
  * 媒体资源信息描述结构。
@@ -15,7 +16,10 @@ export interface Asset {
    * 原始媒体路径或标识（URL、相对路径等）
    */
   source: string;
-  kind: "video" | "audio" | "image" | "text";
+  /**
+   * compound 为复合片段的子时间轴（source 为空串），见 compound.ts。
+   */
+  kind: "video" | "audio" | "image" | "text" | "compound";
   /**
    * 媒体本身的时长（秒），图片为 0 或 1 视业务而定。
    */
@@ -72,6 +76,12 @@ export interface Asset {
   textMeta?: {
     initialText?: string;
   };
+  /**
+   * 复合片段的子时间轴，时间从 0 开始；duration 为其最后一个片段的结束时间。
+   */
+  compoundMeta?: {
+    tracks: Track[];
+  };
   /**
    * 资源是否正在加载中（探测媒体信息 / 拉取远程文件等异步阶段）。
    * 为 true 时 timeline 上对应的 clip 应显示加载状态。
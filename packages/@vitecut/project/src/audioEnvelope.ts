@@ -0,0 +1,146 @@
+import type { Clip } from "./clip";
+import type { Track } from "./track";
+import { getClipKeyframeValue } from "./keyframes";
+import { getActiveTransitions, getClipTransitionState } from "./transition";
+import { isClipMuted } from "./link";
+
+/**
+ * 片段音量包络：淡入 / 淡出与音量曲线。
+ *
+ * - 淡入 / 淡出时长存放在 params.fadeIn / params.fadeOut（时间轴秒数），
+ *   增益按线性变化，与 ffmpeg afade 的默认曲线（tri）一致；
+ * - 音量曲线即 volume 关键帧（见 keyframes.ts），时间轴波形上画出的点直接写入 keyframes.volume；
+ * - 最终增益 = 音量（关键帧或 params.volume）× 转场交叉淡化 × 淡入淡出系数。
+ *
+ * 导出端 api/src/lib/renderGraph.ts 以 afade 滤镜实现同样的淡入淡出，调整规则时需同步。
+ */
+
+/** 片段淡入 / 淡出时长（秒） */
+export interface ClipFade {
+  fadeIn: number;
+  fadeOut: number;
+}
+
+/** 折线化后的增益拐点 */
+export interface GainRampPoint {
+  /** 时间轴时间（秒） */
+  time: number;
+  gain: number;
+}
+
+/** 单段折线的最大细分数，避免长缓动区间产生过多排程事件 */
+const MAX_RAMP_SEGMENTS = 200;
+
+/** 折线与真实曲线的允许误差 */
+const RAMP_TOLERANCE = 1e-3;
+
+function readSeconds(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/**
+ * 读取片段的淡入 / 淡出时长：非法值视为 0，
+ * 两者之和超过片段时长时按比例缩短（裁剪片段后旧的淡入淡出仍然有效）。
+ */
+export function getClipFade(
+  clip: Pick<Clip, "start" | "end" | "params">
+): ClipFade {
+  const duration = Math.max(0, clip.end - clip.start);
+  const fadeIn = readSeconds(clip.params?.fadeIn);
+  const fadeOut = readSeconds(clip.params?.fadeOut);
+  const total = fadeIn + fadeOut;
+  if (total <= duration || total === 0) return { fadeIn, fadeOut };
+  const ratio = duration / total;
+  return { fadeIn: fadeIn * ratio, fadeOut: fadeOut * ratio };
+}
+
+/**
+ * 片段在时间轴时间 t 处的淡入淡出系数（0~1）；片段区间外（如转场延伸部分）按边界外推为 0。
+ */
+export function getClipFadeGain(
+  clip: Pick<Clip, "start" | "end" | "params">,
+  t: number
+): number {
+  const { fadeIn, fadeOut } = getClipFade(clip);
+  let gain = 1;
+  if (fadeIn > 0) gain = Math.min(gain, (t - clip.start) / fadeIn);
+  if (fadeOut > 0) gain = Math.min(gain, (clip.end - t) / fadeOut);
+  return Math.min(1, Math.max(0, gain));
+}
+
+/**
+ * 片段在时间轴时间 t 处的最终增益（0~1）：
+ * 轨道或片段静音为 0，否则为音量（含关键帧）× 转场交叉淡化 × 淡入淡出。
+ */
+export function getClipGainAtTime(track: Track, clip: Clip, t: number): number {
+  if ((track.muted ?? false) || isClipMuted(clip)) return 0;
+  const raw =
+    getClipKeyframeValue(clip, "volume", t) ?? Number(clip.params?.volume);
+  let gain = Number.isFinite(raw) ? Math.min(1, Math.max(0, raw)) : 1;
+  // 与 applyTransitionToClip 一致：转出片段淡出、转入片段淡入
+  const state = getClipTransitionState(track, clip, t);
+  if (state) {
+    gain *= state.role === "from" ? 1 - state.progress : state.progress;
+  }
+  return gain * getClipFadeGain(clip, t);
+}
+
+/**
+ * 片段增益曲线必经的拐点（时间轴秒，升序去重）：
+ * 片段起止、淡入淡出边界、音量关键帧与转场区间边界。
+ */
+export function getClipGainBreakpoints(track: Track, clip: Clip): number[] {
+  const { fadeIn, fadeOut } = getClipFade(clip);
+  const times = [clip.start, clip.end, clip.start + fadeIn, clip.end - fadeOut];
+  for (const k of clip.keyframes?.volume ?? []) {
+    times.push(clip.start + k.time);
+  }
+  for (const transition of getActiveTransitions(track)) {
+    const half = transition.duration / 2;
+    if (transition.toClipId === clip.id) {
+      times.push(clip.start - half, clip.start + half);
+    }
+    if (transition.fromClipId === clip.id) {
+      times.push(clip.end - half, clip.end + half);
+    }
+  }
+  times.sort((a, b) => a - b);
+  return times.filter((t, i) => i === 0 || t - times[i - 1] > 1e-6);
+}
+
+/**
+ * 将 [from, to] 内的增益曲线近似为折线，供 Web Audio 的 linearRampToValueAtTime 排程。
+ *
+ * 相邻拐点之间若不是直线（缓动关键帧、淡入淡出与音量曲线叠加等），
+ * 按 maxStep 秒细分（每段最多 MAX_RAMP_SEGMENTS 份）。
+ */
+export function sampleGainRamp(
+  gainAt: (t: number) => number,
+  from: number,
+  to: number,
+  breakpoints: readonly number[],
+  maxStep = 0.05
+): GainRampPoint[] {
+  if (to <= from) return [{ time: from, gain: gainAt(from) }];
+  const times = [from, ...breakpoints.filter((t) => t > from && t < to), to];
+  const points: GainRampPoint[] = [{ time: from, gain: gainAt(from) }];
+  for (let i = 1; i < times.length; i++) {
+    const a = points[points.length - 1];
+    const b = { time: times[i], gain: gainAt(times[i]) };
+    const span = b.time - a.time;
+    const isLinear = [0.25, 0.5, 0.75].every((p) => {
+      const expected = a.gain + (b.gain - a.gain) * p;
+      return Math.abs(gainAt(a.time + span * p) - expected) < RAMP_TOLERANCE;
+    });
+    if (!isLinear) {
+      const segments = Math.min(MAX_RAMP_SEGMENTS, Math.ceil(span / maxStep));
+      for (let s = 1; s < segments; s++) {
+        const time = a.time + (span * s) / segments;
+        points.push({ time, gain: gainAt(time) });
+      }
+    }
+    points.push(b);
+  }
+  return points;
+}
@@ -1,4 +1,5 @@
 import type { AssetId, ClipId, ClipKind, TrackId } from "./ids";
+import type { ClipKeyframes } from "./keyframes";
 
 /**
  * 片段在画布上的变换信息。
@@ -44,6 +45,14 @@ export interface Clip {
    * 额外参数（透明度、变换、特效 id 等）
    */
   params?: Record<string, unknown>;
+  /**
+   * 按属性分组的关键帧动画，有关键帧的属性覆盖 transform / params 中的静态值。
+   */
+  keyframes?: ClipKeyframes;
+  /**
+   * 联动组 id：同组片段（如视频与其分离出的音频）一起移动、裁剪，见 link.ts。
+   */
+  linkId?: string;
 }
 
 /**
@@ -57,4 +66,5 @@ export interface UpdateClipPatch {
   outPoint?: number;
   transform?: ClipTransform;
   params?: Record<string, unknown>;
+  keyframes?: ClipKeyframes;
 }
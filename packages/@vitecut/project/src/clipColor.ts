@@ -0,0 +1,60 @@
+/**
+ * 片段画面调整（clip.params 中由 SelectionToolbarFixed 写入的亮度 / 对比度等）。
+ *
+ * 预览端 usePreviewVideo.shared 的 getClipCanvasFilter 转成 CSS filter，
+ * 导出端 api/src/lib/clipColorFilters.ts 转成 ffmpeg 滤镜，两端都经这里解析与限制取值。
+ * 本模块不依赖其他模块，api 通过 "@vitecut/project/clip-color" 子路径直接加载。
+ */
+export interface ClipColorAdjustments {
+  /** 亮度百分比 0~200，100 为原样 */
+  brightness: number;
+  /** 对比度百分比 0~200，100 为原样 */
+  contrast: number;
+  /** 饱和度百分比 0~200，100 为原样 */
+  saturation: number;
+  /** 色相旋转角度 0~360 */
+  hueRotate: number;
+  /** 模糊半径（工程像素）0~30 */
+  blur: number;
+}
+
+/** 各参数的取值范围与默认值（默认值即“无影响”） */
+export const CLIP_COLOR_RANGES: Record<
+  keyof ClipColorAdjustments,
+  { min: number; max: number; default: number }
+> = {
+  brightness: { min: 0, max: 200, default: 100 },
+  contrast: { min: 0, max: 200, default: 100 },
+  saturation: { min: 0, max: 200, default: 100 },
+  hueRotate: { min: 0, max: 360, default: 0 },
+  blur: { min: 0, max: 30, default: 0 },
+};
+
+/**
+ * 从 clip.params 解析画面调整参数：超出范围的值截断，缺失或非法值回退为默认值。纯函数。
+ */
+export function getClipColorAdjustments(params: unknown): ClipColorAdjustments {
+  const p = (params ?? {}) as Record<string, unknown>;
+  const next = {} as ClipColorAdjustments;
+  for (const key of Object.keys(
+    CLIP_COLOR_RANGES
+  ) as (keyof ClipColorAdjustments)[]) {
+    const range = CLIP_COLOR_RANGES[key];
+    const value = Number(p[key] ?? range.default);
+    next[key] = Number.isFinite(value)
+      ? Math.min(range.max, Math.max(range.min, value))
+      : range.default;
+  }
+  return next;
+}
+
+/** 画面调整是否全部为默认值（预览与导出均可跳过滤镜） */
+export function isDefaultClipColor(adj: ClipColorAdjustments): boolean {
+  return (
+    adj.brightness === 100 &&
+    adj.contrast === 100 &&
+    adj.saturation === 100 &&
+    (adj.hueRotate === 0 || adj.hueRotate === 360) &&
+    adj.blur === 0
+  );
+}
@@ -0,0 +1,341 @@
+import type { AssetId, ClipId } from "./ids";
+import type { Asset } from "./asset";
+import type { Clip, ClipTransform } from "./clip";
+import type { Track } from "./track";
+import type { Project } from "./project";
+import { getClipFade } from "./audioEnvelope";
+import { shiftClipKeyframes } from "./keyframes";
+
+/**
+ * 复合片段（嵌套序列）：把若干片段折叠成一个片段。
+ *
+ * - 内部子时间轴存放在 kind 为 "compound" 的 Asset.compoundMeta.tracks 中，时间从 0 开始；
+ * - 复合片段是 kind 为 "compound" 的 Clip，inPoint / outPoint 指向子时间轴上的区间，
+ *   可以像普通片段一样移动、裁剪，transform 作用于整个子时间轴画面；
+ * - 预览与导出都先用 flattenCompoundClips 把复合片段展开成普通片段，
+ *   渲染端始终只看到扁平的轨道结构；
+ * - 复合片段不支持关键帧与变速：展开时只叠加其静态 transform，子时间轴按原速截取，
+ *   编辑端（projectStore 的 setClipKeyframe / updateClipParams）也不允许写入。
+ */
+
+/** 展开后内部轨道 / 片段 id 的分隔符：`${复合片段 id}/${内部 id}` */
+export const COMPOUND_ID_SEPARATOR = "/";
+
+/** 复合片段嵌套的最大展开深度，防止数据异常时无限递归 */
+const MAX_COMPOUND_DEPTH = 8;
+
+/** 子时间轴时长：最后一个片段的结束时间 */
+export function getCompoundDuration(tracks: readonly Track[]): number {
+  let end = 0;
+  for (const track of tracks) {
+    for (const clip of track.clips) {
+      end = Math.max(end, clip.end);
+    }
+  }
+  return end;
+}
+
+/** 片段播放速度（params.speed），缺省或非法时为 1 */
+function getClipSpeed(clip: Clip): number {
+  const speed = Number(clip.params?.speed);
+  return Number.isFinite(speed) && speed > 0 ? speed : 1;
+}
+
+/**
+ * 裁剪后的淡入 / 淡出：被裁掉的一端不再淡入淡出（区间边界处直接切入 / 切出），
+ * 保留的一端固定为裁剪前的实际时长，避免片段变短后按比例缩放改变原有淡变。
+ */
+function trimClipFades(
+  clip: Clip,
+  headCut: number,
+  tailCut: number
+): Clip["params"] {
+  if (clip.params?.fadeIn === undefined && clip.params?.fadeOut === undefined) {
+    return clip.params;
+  }
+  const fade = getClipFade(clip);
+  const params = { ...clip.params };
+  delete params.fadeIn;
+  delete params.fadeOut;
+  if (headCut === 0 && fade.fadeIn > 0) params.fadeIn = fade.fadeIn;
+  if (tailCut === 0 && fade.fadeOut > 0) params.fadeOut = fade.fadeOut;
+  return params;
+}
+
+/**
+ * 将片段裁到时间轴区间 [start, end]，同步调整入点 / 出点、关键帧与淡入淡出。
+ * @returns 片段与区间不相交时返回 null
+ */
+export function trimClipToRange(
+  clip: Clip,
+  start: number,
+  end: number
+): Clip | null {
+  if (clip.end <= start || clip.start >= end) return null;
+  const headCut = Math.max(0, start - clip.start);
+  const tailCut = Math.max(0, clip.end - end);
+  if (headCut === 0 && tailCut === 0) return clip;
+  const speed = getClipSpeed(clip);
+  return {
+    ...clip,
+    start: clip.start + headCut,
+    end: clip.end - tailCut,
+    inPoint:
+      clip.inPoint === undefined && headCut === 0
+        ? undefined
+        : (clip.inPoint ?? 0) + headCut * speed,
+    outPoint:
+      clip.outPoint === undefined ? undefined : clip.outPoint - tailCut * speed,
+    keyframes:
+      headCut > 0
+        ? shiftClipKeyframes(clip.keyframes, -headCut)
+        : clip.keyframes,
+    params: trimClipFades(clip, headCut, tailCut),
+  };
+}
+
+/**
+ * 将片段整体平移 delta 秒（关键帧相对片段起点，无需调整）。
+ */
+function offsetClip(clip: Clip, delta: number): Clip {
+  return { ...clip, start: clip.start + delta, end: clip.end + delta };
+}
+
+/**
+ * 以子时间轴为画布的一个“图层”：内部元素左上角 p 映射为
+ * 复合片段坐标 (x + p.x * scaleX, y + p.y * scaleY)，再绕复合画面中心旋转。
+ *
+ * 视频节点在画布内居中 contain，base 为其相对画布左上角的偏移。
+ */
+function composeTransform(
+  outer: ClipTransform,
+  inner: ClipTransform,
+  base: { x: number; y: number },
+  size: { width: number; height: number }
+): ClipTransform {
+  const outerScaleX = outer.scaleX ?? 1;
+  const outerScaleY = outer.scaleY ?? 1;
+  const outerX = outer.x ?? 0;
+  const outerY = outer.y ?? 0;
+  let px = outerX + (base.x + (inner.x ?? 0)) * outerScaleX;
+  let py = outerY + (base.y + (inner.y ?? 0)) * outerScaleY;
+  const rotation = outer.rotation ?? 0;
+  if (rotation !== 0) {
+    const cx = outerX + (size.width * outerScaleX) / 2;
+    const cy = outerY + (size.height * outerScaleY) / 2;
+    const rad = (rotation * Math.PI) / 180;
+    const dx = px - cx;
+    const dy = py - cy;
+    px = cx + dx * Math.cos(rad) - dy * Math.sin(rad);
+    py = cy + dx * Math.sin(rad) + dy * Math.cos(rad);
+  }
+  return {
+    ...inner,
+    x: px - base.x,
+    y: py - base.y,
+    scaleX: (inner.scaleX ?? 1) * outerScaleX,
+    scaleY: (inner.scaleY ?? 1) * outerScaleY,
+    rotation: (inner.rotation ?? 0) + rotation,
+    opacity: (inner.opacity ?? 1) * (outer.opacity ?? 1),
+  };
+}
+
+/** 视频节点在画布内 contain 居中时相对左上角的偏移，其余类型为 0 */
+function getNodeBaseOffset(
+  asset: Asset | undefined,
+  size: { width: number; height: number }
+): { x: number; y: number } {
+  const meta = asset?.kind === "video" ? asset.videoMeta : undefined;
+  if (!meta || meta.width <= 0 || meta.height <= 0) return { x: 0, y: 0 };
+  const aspect = meta.width / meta.height;
+  if (aspect > size.width / size.height) {
+    return { x: 0, y: (size.height - size.width / aspect) / 2 };
+  }
+  return { x: (size.width - size.height * aspect) / 2, y: 0 };
+}
+
+/**
+ * 将复合片段的变换、透明度与音量叠加到内部片段上（关键帧中的位置 / 缩放同样换算）。
+ *
+ * 复合片段不支持关键帧（见文件头说明），只使用其静态 transform。
+ */
+function applyCompoundToClip(
+  compound: Clip,
+  clip: Clip,
+  asset: Asset | undefined,
+  size: { width: number; height: number }
+): Clip {
+  const outer = compound.transform ?? {};
+  const base = getNodeBaseOffset(asset, size);
+  const transform =
+    clip.kind === "audio"
+      ? clip.transform
+      : composeTransform(outer, clip.transform ?? {}, base, size);
+
+  let params = clip.params;
+  const outerVolume = Number(compound.params?.volume ?? 1);
+  if (outerVolume !== 1 && (clip.kind === "video" || clip.kind === "audio")) {
+    params = {
+      ...params,
+      volume: Number(params?.volume ?? 1) * outerVolume,
+    };
+  }
+  if (clip.kind === "text" && outer.opacity !== undefined) {
+    params = {
+      ...params,
+      opacity: Number(params?.opacity ?? 1) * outer.opacity,
+    };
+  }
+
+  let keyframes = clip.keyframes;
+  if (keyframes && clip.kind !== "audio") {
+    const sx = outer.scaleX ?? 1;
+    const sy = outer.scaleY ?? 1;
+    const map = {
+      x: (v: number) => (outer.x ?? 0) + (base.x + v) * sx - base.x,
+      y: (v: number) => (outer.y ?? 0) + (base.y + v) * sy - base.y,
+      scaleX: (v: number) => v * sx,
+      scaleY: (v: number) => v * sy,
+      rotation: (v: number) => v + (outer.rotation ?? 0),
+      opacity: (v: number) => v * (outer.opacity ?? 1),
+    };
+    keyframes = { ...keyframes };
+    for (const [property, fn] of Object.entries(map)) {
+      const list = keyframes[property as keyof typeof map];
+      if (list) {
+        keyframes[property as keyof typeof map] = list.map((k) => ({
+          ...k,
+          value: fn(k.value),
+        }));
+      }
+    }
+  }
+  return { ...clip, transform, params, keyframes };
+}
+
+/**
+ * 展开单个复合片段：按其入点与时间轴时长（原速）截取子时间轴，平移到复合片段所在位置，
+ * 每条内部轨道生成一条临时轨道，order 落在复合片段所在轨道与上一条轨道之间。
+ */
+function expandCompoundClip(
+  project: Project,
+  track: Track,
+  compound: Clip,
+  asset: Asset
+): Track[] {
+  const innerTracks = [...(asset.compoundMeta?.tracks ?? [])].sort(
+    (a, b) => a.order - b.order
+  );
+  const inPoint = compound.inPoint ?? 0;
+  const outPoint = inPoint + (compound.end - compound.start);
+  const delta = compound.start - inPoint;
+  const size = { width: project.width, height: project.height };
+  const prefix = (id: string) => `${compound.id}${COMPOUND_ID_SEPARATOR}${id}`;
+
+  return innerTracks.map((inner, i) => {
+    const trackId = prefix(inner.id);
+    const clips = inner.clips.flatMap((clip) => {
+      const trimmed = trimClipToRange(clip, inPoint, outPoint);
+      if (!trimmed) return [];
+      const innerAsset = project.assets.find((a) => a.id === clip.assetId);
+      const composed = applyCompoundToClip(compound, trimmed, innerAsset, size);
+      return [
+        {
+          ...offsetClip(composed, delta),
+          id: prefix(clip.id) as ClipId,
+          trackId,
+        },
+      ];
+    });
+    return {
+      ...inner,
+      id: trackId,
+      order: track.order + (i + 1) / (innerTracks.length + 1),
+      muted: !!(track.muted || inner.muted),
+      hidden: !!(track.hidden || inner.hidden),
+      clips,
+      ducking: inner.ducking && {
+        ...inner.ducking,
+        sourceTrackId: prefix(inner.ducking.sourceTrackId),
+      },
+      transitions: inner.transitions?.map((t) => ({
+        ...t,
+        id: prefix(t.id),
+        fromClipId: prefix(t.fromClipId) as ClipId,
+        toClipId: prefix(t.toClipId) as ClipId,
+      })),
+    };
+  });
+}
+
+/**
+ * 将工程中的复合片段递归展开为普通片段（纯函数，不含复合片段时原样返回）。
+ *
+ * 展开后的片段 / 轨道 id 带有复合片段 id 前缀，只用于预览与导出，不应写回工程。
+ */
+export function flattenCompoundClips(project: Project, depth = 0): Project {
+  const hasCompound = project.tracks.some((track) =>
+    track.clips.some((clip) => clip.kind === "compound")
+  );
+  if (!hasCompound || depth >= MAX_COMPOUND_DEPTH) return project;
+
+  const tracks: Track[] = [];
+  for (const track of project.tracks) {
+    const compounds = track.clips.filter((clip) => clip.kind === "compound");
+    if (compounds.length === 0) {
+      tracks.push(track);
+      continue;
+    }
+    tracks.push({
+      ...track,
+      clips: track.clips.filter((clip) => clip.kind !== "compound"),
+    });
+    for (const compound of compounds) {
+      const asset = project.assets.find((a) => a.id === compound.assetId);
+      if (asset?.kind !== "compound") continue;
+      tracks.push(...expandCompoundClip(project, track, compound, asset));
+    }
+  }
+  // 内部可能还有复合片段，继续展开
+  return flattenCompoundClips({ ...project, tracks }, depth + 1);
+}
+
+/**
+ * 以复合片段的子时间轴构造一个可编辑的子工程（画布参数、资源池与外层一致）。
+ */
+export function createCompoundSubProject(
+  project: Project,
+  assetId: AssetId
+): Project | null {
+  const asset = project.assets.find((a) => a.id === assetId);
+  if (asset?.kind !== "compound") return null;
+  return {
+    ...project,
+    tracks: asset.compoundMeta?.tracks ?? [],
+    markers: undefined,
+    regions: undefined,
+  };
+}
+
+/**
+ * 替换复合片段资源的子时间轴，并同步资源时长。
+ */
+export function setCompoundTracks(
+  project: Project,
+  assetId: AssetId,
+  tracks: Track[]
+): Project {
+  return {
+    ...project,
+    assets: project.assets.map((asset) =>
+      asset.id === assetId
+        ? {
+            ...asset,
+            duration: getCompoundDuration(tracks),
+            compoundMeta: { tracks },
+          }
+        : asset
+    ),
+    updatedAt: new Date().toISOString(),
+  };
+}
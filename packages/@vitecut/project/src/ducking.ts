@@ -0,0 +1,98 @@
+import type { TrackId } from "./ids";
+import type { Project } from "./project";
+import type { Track } from "./track";
+
+/**
+ * 音频闪避（ducking）：某条轨道（如背景音乐）在另一条轨道（如旁白）有声音时自动压低音量。
+ *
+ * - 设置挂在被压低的轨道上（Track.ducking），sourceTrackId 指向触发闪避的轨道；
+ * - 触发轨道电平高于阈值时，被闪避轨道按 attack 压低 amount dB，电平回落后按 release 恢复；
+ * - 闪避只有一层：作为触发源的轨道自身的闪避设置不生效，避免互相触发形成环。
+ *
+ * 预览端用 Web Audio 的 AnalyserNode 检测电平、驱动轨道总线 GainNode；
+ * 导出端 api/src/lib/renderGraph.ts 用 sidechaincompress 实现，调整参数含义时需同步。
+ */
+export interface TrackDucking {
+  /** 触发闪避的轨道 id（通常为旁白 / 人声轨） */
+  sourceTrackId: TrackId;
+  /** 触发阈值（dBFS），触发轨道电平高于该值时开始压低 */
+  threshold: number;
+  /** 压低幅度（dB） */
+  amount: number;
+  /** 压低所需时间（毫秒） */
+  attack: number;
+  /** 恢复所需时间（毫秒） */
+  release: number;
+}
+
+/** 可调参数（不含触发轨道） */
+export type TrackDuckingParams = Omit<TrackDucking, "sourceTrackId">;
+
+/** 新建闪避时的默认参数：旁白压低背景音乐 12dB */
+export const DEFAULT_DUCKING_PARAMS: TrackDuckingParams = {
+  threshold: -36,
+  amount: 12,
+  attack: 20,
+  release: 400,
+};
+
+/** 各参数的取值范围，与 ffmpeg sidechaincompress 的可用范围一致 */
+export const DUCKING_PARAM_RANGES: Record<
+  keyof TrackDuckingParams,
+  { min: number; max: number; step: number }
+> = {
+  threshold: { min: -60, max: 0, step: 1 },
+  amount: { min: 1, max: 40, step: 1 },
+  attack: { min: 1, max: 2000, step: 1 },
+  release: { min: 10, max: 5000, step: 10 },
+};
+
+/**
+ * 将闪避参数限制在取值范围内（非法值回退到默认值）。纯函数。
+ */
+export function normalizeTrackDucking(ducking: TrackDucking): TrackDucking {
+  const next = { ...ducking };
+  for (const key of Object.keys(
+    DUCKING_PARAM_RANGES
+  ) as (keyof TrackDuckingParams)[]) {
+    const { min, max } = DUCKING_PARAM_RANGES[key];
+    const value = Number(ducking[key]);
+    next[key] = Number.isFinite(value)
+      ? Math.min(max, Math.max(min, value))
+      : DEFAULT_DUCKING_PARAMS[key];
+  }
+  return next;
+}
+
+/** 闪避时被压低轨道的线性增益 */
+export function getDuckingGain(ducking: Pick<TrackDucking, "amount">): number {
+  return Math.pow(10, -Math.max(0, ducking.amount) / 20);
+}
+
+/** dBFS 换算为线性电平 */
+export function dbToLinear(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/** 生效中的闪避：被压低的轨道与触发源轨道 */
+export interface ActiveDucking {
+  track: Track;
+  source: Track;
+  ducking: TrackDucking;
+}
+
+/**
+ * 工程中生效的闪避设置：触发轨道必须存在、不是自身，且自身不是被闪避的轨道。
+ */
+export function getActiveDuckings(project: Project): ActiveDucking[] {
+  const byId = new Map(project.tracks.map((t) => [t.id, t]));
+  const out: ActiveDucking[] = [];
+  for (const track of project.tracks) {
+    const ducking = track.ducking;
+    if (!ducking || ducking.sourceTrackId === track.id) continue;
+    const source = byId.get(ducking.sourceTrackId);
+    if (!source || source.ducking) continue;
+    out.push({ track, source, ducking: normalizeTrackDucking(ducking) });
+  }
+  return out;
+}
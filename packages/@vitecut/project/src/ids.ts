@@ -10,12 +10,24 @@ export type TrackId = string;
  * 片段唯一标识符类型。
  */
 export type ClipId = string;
+/**
+ * 转场唯一标识符类型。
+ */
+export type TransitionId = string;
+/**
+ * 时间轴标记唯一标识符类型。
+ */
+export type MarkerId = string;
+/**
+ * 时间轴区间唯一标识符类型。
+ */
+export type RegionId = string;
 /**
  * 媒体资源唯一标识符类型。
  */
 export type AssetId = string;
 
 /**
- * 片段类型：视频 / 音频 / 图片 / 文本。
+ * 片段类型：视频 / 音频 / 图片 / 文本 / 复合片段。
  */
-export type ClipKind = "video" | "audio" | "image" | "text";
+export type ClipKind = "video" | "audio" | "image" | "text" | "compound";
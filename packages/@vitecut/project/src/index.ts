@@ -1,6 +1,17 @@
 export * from "./ids";
 export * from "./asset";
 export * from "./clip";
+export * from "./clipColor";
+export * from "./keyframes";
 export * from "./track";
+export * from "./transition";
+export * from "./ripple";
+export * from "./marker";
+export * from "./compound";
+export * from "./link";
+export * from "./audioEnvelope";
+export * from "./ducking";
 export * from "./project";
 export * from "./render";
+export * from "./migrations";
+export * from "./validate";
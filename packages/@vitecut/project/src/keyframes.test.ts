@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Clip } from "./clip";
+import {
+  interpolateKeyframes,
+  removeClipKeyframe,
+  resolveClipAtTime,
+  setClipKeyframe,
+  shiftClipKeyframes,
+} from "./keyframes";
+
+function clip(extra: Partial<Clip> = {}): Clip {
+  return {
+    id: "c1",
+    trackId: "t1",
+    assetId: "a1",
+    kind: "video",
+    start: 10,
+    end: 14,
+    ...extra,
+  };
+}
+
+describe("interpolateKeyframes", () => {
+  it("两帧之间按前一帧的 easing 插值，端点外保持端点值", () => {
+    const keyframes = [
+      { time: 1, value: 0, easing: "ease-out" as const },
+      { time: 3, value: 100 },
+    ];
+    assert.equal(interpolateKeyframes(keyframes, 0), 0);
+    // ease-out：p = 0.5 → 0.75
+    assert.equal(interpolateKeyframes(keyframes, 2), 75);
+    assert.equal(interpolateKeyframes(keyframes, 5), 100);
+    assert.equal(interpolateKeyframes(undefined, 2), undefined);
+  });
+
+  it("hold 保持前一帧的值直到下一帧", () => {
+    const keyframes = [
+      { time: 0, value: 1, easing: "hold" as const },
+      { time: 1, value: 0 },
+    ];
+    assert.equal(interpolateKeyframes(keyframes, 0.99), 1);
+    assert.equal(interpolateKeyframes(keyframes, 1), 0);
+  });
+});
+
+describe("setClipKeyframe / removeClipKeyframe", () => {
+  it("写入时替换同一时间的关键帧并保持升序", () => {
+    let keyframes = setClipKeyframe(undefined, "x", { time: 2, value: 20 });
+    keyframes = setClipKeyframe(keyframes, "x", { time: 0, value: 0 });
+    keyframes = setClipKeyframe(keyframes, "x", { time: 2.0004, value: 30 });
+
+    assert.deepEqual(keyframes.x, [
+      { time: 0, value: 0 },
+      { time: 2.0004, value: 30 },
+    ]);
+  });
+
+  it("删空的属性一并移除", () => {
+    const keyframes = setClipKeyframe(
+      { opacity: [{ time: 1, value: 0.5 }] },
+      "x",
+      { time: 0, value: 0 }
+    );
+    const next = removeClipKeyframe(keyframes, "opacity", 1);
+
+    assert.deepEqual(next, { x: [{ time: 0, value: 0 }] });
+  });
+});
+
+describe("shiftClipKeyframes", () => {
+  it("所有属性的关键帧整体平移", () => {
+    assert.deepEqual(
+      shiftClipKeyframes(
+        {
+          x: [{ time: 1, value: 0 }],
+          volume: [{ time: 3, value: 1, easing: "ease-in" }],
+        },
+        -1
+      ),
+      {
+        x: [{ time: 0, value: 0 }],
+        volume: [{ time: 2, value: 1, easing: "ease-in" }],
+      }
+    );
+    assert.equal(shiftClipKeyframes(undefined, 1), undefined);
+  });
+});
+
+describe("resolveClipAtTime", () => {
+  it("无关键帧时原样返回同一对象", () => {
+    const c = clip({ keyframes: { x: [] } });
+    assert.equal(resolveClipAtTime(c, 11), c);
+  });
+
+  it("关键帧时间相对片段起点，结果写回 transform 与 params", () => {
+    const c = clip({
+      kind: "text",
+      transform: { x: 5, y: 6 },
+      params: { text: "hi" },
+      keyframes: {
+        x: [
+          { time: 0, value: 0 },
+          { time: 2, value: 100 },
+        ],
+        opacity: [{ time: 0, value: 0.4 }],
+        volume: [{ time: 0, value: 0.5 }],
+      },
+    });
+    const resolved = resolveClipAtTime(c, 11);
+
+    assert.deepEqual(resolved.transform, { x: 50, y: 6, opacity: 0.4 });
+    // 文本片段的透明度同时写入 params.opacity
+    assert.deepEqual(resolved.params, {
+      text: "hi",
+      opacity: 0.4,
+      volume: 0.5,
+    });
+  });
+});
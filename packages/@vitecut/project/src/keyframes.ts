@@ -0,0 +1,214 @@
+import type { Clip, ClipTransform } from "./clip";
+
+/**
+ * 片段关键帧动画。
+ *
+ * 每个可动画属性独立维护一条按时间升序的关键帧列表：
+ * - time 为相对片段起点（clip.start）的时间轴秒数，与片段倍速无关；
+ * - 两帧之间按前一帧的 easing 插值，首帧之前取首帧值，末帧之后取末帧值；
+ * - 属性有关键帧时覆盖 transform / params 中的静态值。
+ *
+ * 导出端 api/src/lib/keyframes.ts 按同样的规则生成 ffmpeg 表达式，调整插值曲线时需同步。
+ */
+
+/**
+ * 关键帧之间的插值曲线（二次缓动）。hold 表示保持前一帧的值直到下一帧。
+ */
+export type KeyframeEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | "hold";
+
+/**
+ * 单个关键帧。
+ */
+export interface Keyframe {
+  /** 相对片段起点的时间（秒） */
+  time: number;
+  value: number;
+  /** 从本帧到下一帧的插值曲线，默认 linear */
+  easing?: KeyframeEasing;
+}
+
+/**
+ * 支持关键帧的属性：画布变换（x/y/scaleX/scaleY/rotation/opacity）与音量。
+ */
+export const KEYFRAME_PROPERTIES = [
+  "x",
+  "y",
+  "scaleX",
+  "scaleY",
+  "rotation",
+  "opacity",
+  "volume",
+] as const;
+
+export type KeyframeProperty = (typeof KEYFRAME_PROPERTIES)[number];
+
+/**
+ * 片段上按属性分组的关键帧列表。
+ */
+export type ClipKeyframes = Partial<Record<KeyframeProperty, Keyframe[]>>;
+
+export const KEYFRAME_EASINGS: readonly KeyframeEasing[] = [
+  "linear",
+  "ease-in",
+  "ease-out",
+  "ease-in-out",
+  "hold",
+];
+
+/** 同一属性上时间差小于该值的关键帧视为同一帧 */
+const KEYFRAME_TIME_EPSILON = 1e-3;
+
+/**
+ * 按缓动曲线映射插值进度。
+ * @param p 线性进度（0~1）
+ */
+export function applyKeyframeEasing(
+  easing: KeyframeEasing | undefined,
+  p: number
+): number {
+  switch (easing) {
+    case "ease-in":
+      return p * p;
+    case "ease-out":
+      return p * (2 - p);
+    case "ease-in-out":
+      return p < 0.5 ? 2 * p * p : 1 - 2 * (1 - p) * (1 - p);
+    case "hold":
+      return 0;
+    default:
+      return p;
+  }
+}
+
+/**
+ * 计算关键帧列表在 time（相对片段起点）处的值。
+ * @returns 列表为空时返回 undefined
+ */
+export function interpolateKeyframes(
+  keyframes: readonly Keyframe[] | undefined,
+  time: number
+): number | undefined {
+  if (!keyframes || keyframes.length === 0) return undefined;
+  const first = keyframes[0];
+  if (time <= first.time) return first.value;
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const a = keyframes[i];
+    const b = keyframes[i + 1];
+    if (time < b.time) {
+      const span = b.time - a.time;
+      const p = span > 0 ? (time - a.time) / span : 1;
+      return a.value + (b.value - a.value) * applyKeyframeEasing(a.easing, p);
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+/**
+ * 片段是否有任意属性带关键帧。
+ */
+export function hasClipKeyframes(clip: Pick<Clip, "keyframes">): boolean {
+  const keyframes = clip.keyframes;
+  if (!keyframes) return false;
+  return KEYFRAME_PROPERTIES.some((p) => (keyframes[p]?.length ?? 0) > 0);
+}
+
+/**
+ * 计算片段某属性在时间轴时间 timelineTime 处的关键帧值。
+ * @returns 该属性没有关键帧时返回 undefined，由调用方回退到静态值
+ */
+export function getClipKeyframeValue(
+  clip: Clip,
+  property: KeyframeProperty,
+  timelineTime: number
+): number | undefined {
+  return interpolateKeyframes(
+    clip.keyframes?.[property],
+    timelineTime - clip.start
+  );
+}
+
+/**
+ * 返回在 timelineTime 处求值后的片段：有关键帧的属性写回 transform / params。
+ *
+ * - opacity 同时写入 transform.opacity 与（文本片段的）params.opacity
+ * - volume 写入 params.volume
+ * - 无关键帧时原样返回同一个对象，便于调用方做引用比较
+ */
+export function resolveClipAtTime(clip: Clip, timelineTime: number): Clip {
+  if (!hasClipKeyframes(clip)) return clip;
+
+  const transform: ClipTransform = { ...clip.transform };
+  let params = clip.params;
+  for (const property of KEYFRAME_PROPERTIES) {
+    const value = getClipKeyframeValue(clip, property, timelineTime);
+    if (value === undefined) continue;
+    if (property === "volume") {
+      params = { ...params, volume: value };
+    } else {
+      transform[property] = value;
+      if (property === "opacity" && clip.kind === "text") {
+        params = { ...params, opacity: value };
+      }
+    }
+  }
+  return { ...clip, transform, params };
+}
+
+/**
+ * 写入（或替换同一时间的）关键帧，保持列表按时间升序。纯函数。
+ */
+export function setClipKeyframe(
+  keyframes: ClipKeyframes | undefined,
+  property: KeyframeProperty,
+  keyframe: Keyframe
+): ClipKeyframes {
+  const list = (keyframes?.[property] ?? []).filter(
+    (k) => Math.abs(k.time - keyframe.time) >= KEYFRAME_TIME_EPSILON
+  );
+  list.push(keyframe);
+  list.sort((a, b) => a.time - b.time);
+  return { ...keyframes, [property]: list };
+}
+
+/**
+ * 删除某属性在 time 处的关键帧；属性列表删空后一并移除。纯函数。
+ */
+export function removeClipKeyframe(
+  keyframes: ClipKeyframes | undefined,
+  property: KeyframeProperty,
+  time: number
+): ClipKeyframes {
+  const list = (keyframes?.[property] ?? []).filter(
+    (k) => Math.abs(k.time - time) >= KEYFRAME_TIME_EPSILON
+  );
+  const next: ClipKeyframes = { ...keyframes };
+  if (list.length > 0) {
+    next[property] = list;
+  } else {
+    delete next[property];
+  }
+  return next;
+}
+
+/**
+ * 将所有关键帧整体平移 delta 秒（片段起点变化但画面需保持不动时使用，如在播放头处切分）。
+ */
+export function shiftClipKeyframes(
+  keyframes: ClipKeyframes | undefined,
+  delta: number
+): ClipKeyframes | undefined {
+  if (!keyframes) return undefined;
+  const next: ClipKeyframes = {};
+  for (const property of KEYFRAME_PROPERTIES) {
+    const list = keyframes[property];
+    if (list) {
+      next[property] = list.map((k) => ({ ...k, time: k.time + delta }));
+    }
+  }
+  return next;
+}
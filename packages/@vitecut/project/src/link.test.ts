@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Asset } from "./asset";
+import type { Clip } from "./clip";
+import {
+  expandLinkedClipIds,
+  getLinkedClips,
+  hasDetachableAudio,
+  isClipMuted,
+  setClipsLinkId,
+} from "./link";
+import { createEmptyProject, type Project } from "./project";
+
+function clip(id: string, trackId: string, extra: Partial<Clip> = {}): Clip {
+  return {
+    id,
+    trackId,
+    assetId: "a1",
+    kind: trackId === "a1" ? "audio" : "video",
+    start: 0,
+    end: 5,
+    ...extra,
+  };
+}
+
+/** v-a 与 a-a 联动（L1），v-b 与 a-b 联动（L2），v-c 独立 */
+function sampleProject(): Project {
+  return {
+    ...createEmptyProject({ id: "p1", name: "test" }),
+    tracks: [
+      {
+        id: "v1",
+        kind: "video",
+        order: 0,
+        clips: [
+          clip("v-a", "v1", { linkId: "L1" }),
+          clip("v-b", "v1", { linkId: "L2" }),
+          clip("v-c", "v1"),
+        ],
+      },
+      {
+        id: "a1",
+        kind: "audio",
+        order: 1,
+        clips: [
+          clip("a-a", "a1", { linkId: "L1" }),
+          clip("a-b", "a1", { linkId: "L2" }),
+        ],
+      },
+    ],
+  };
+}
+
+describe("getLinkedClips", () => {
+  it("返回同一联动组中的其他片段，未联动时为空", () => {
+    const project = sampleProject();
+    const [va, , vc] = project.tracks[0].clips;
+
+    assert.deepEqual(
+      getLinkedClips(project, va).map((c) => c.id),
+      ["a-a"]
+    );
+    assert.deepEqual(getLinkedClips(project, vc), []);
+  });
+});
+
+describe("expandLinkedClipIds", () => {
+  it("保持原顺序，联动片段按轨道顺序追加在末尾", () => {
+    assert.deepEqual(
+      expandLinkedClipIds(sampleProject(), ["a-b", "v-c", "v-a"]),
+      ["a-b", "v-c", "v-a", "v-b", "a-a"]
+    );
+  });
+
+  it("没有联动片段时返回副本", () => {
+    const ids = ["v-c"];
+    const expanded = expandLinkedClipIds(sampleProject(), ids);
+    assert.deepEqual(expanded, ids);
+    assert.notEqual(expanded, ids);
+  });
+});
+
+describe("setClipsLinkId", () => {
+  it("设置或移除联动组 id", () => {
+    const project = sampleProject();
+    const linked = setClipsLinkId(project, ["v-c", "a-b"], "L3");
+    assert.equal(linked.tracks[0].clips[2].linkId, "L3");
+    assert.equal(linked.tracks[1].clips[1].linkId, "L3");
+
+    const unlinked = setClipsLinkId(project, ["v-a", "a-a"], undefined);
+    assert.ok(!("linkId" in unlinked.tracks[0].clips[0]));
+    assert.ok(!("linkId" in unlinked.tracks[1].clips[0]));
+    assert.equal(unlinked.tracks[0].clips[1].linkId, "L2");
+  });
+});
+
+describe("isClipMuted / hasDetachableAudio", () => {
+  it("只有 params.muted === true 视为静音", () => {
+    assert.ok(isClipMuted(clip("c", "v1", { params: { muted: true } })));
+    assert.ok(!isClipMuted(clip("c", "v1", { params: { muted: "true" } })));
+    assert.ok(!isClipMuted(clip("c", "v1")));
+  });
+
+  it("带音轨的视频素材上的视频片段可分离音频", () => {
+    const video: Asset = {
+      id: "a1",
+      name: "clip.mp4",
+      source: "https://cdn.example.com/clip.mp4",
+      kind: "video",
+      audioMeta: { sampleRate: 48000, channels: 2 },
+    };
+    assert.ok(hasDetachableAudio(clip("c", "v1"), video));
+    assert.ok(
+      !hasDetachableAudio(clip("c", "v1"), { ...video, audioMeta: undefined })
+    );
+    assert.ok(!hasDetachableAudio(clip("c", "a1"), video));
+    assert.ok(!hasDetachableAudio(clip("c", "v1"), undefined));
+  });
+});
@@ -0,0 +1,94 @@
+import type { Asset } from "./asset";
+import type { Clip } from "./clip";
+import type { Project } from "./project";
+
+/**
+ * 片段联动：视频分离音频后，视频片段与新建的音频片段共享同一个 linkId，
+ * 在时间轴上移动、裁剪其中一个时另一个随之变化，取消联动后各自独立。
+ *
+ * 片段自身声音的静音开关存放在 params.muted（视频原声、音频片段均适用），
+ * 与 params.volume 相互独立：取消静音后恢复原音量。
+ */
+
+/** 片段是否被单独静音（params.muted） */
+export function isClipMuted(clip: Clip): boolean {
+  return clip.params?.muted === true;
+}
+
+/** 视频片段是否带有可分离的音轨 */
+export function hasDetachableAudio(
+  clip: Clip,
+  asset: Asset | undefined
+): boolean {
+  return clip.kind === "video" && asset?.kind === "video" && !!asset.audioMeta;
+}
+
+/**
+ * 与指定片段联动的其他片段（不含自身）；未联动时返回空数组。
+ */
+export function getLinkedClips(project: Project, clip: Clip): Clip[] {
+  if (!clip.linkId) return [];
+  const linked: Clip[] = [];
+  for (const track of project.tracks) {
+    for (const other of track.clips) {
+      if (other.linkId === clip.linkId && other.id !== clip.id) {
+        linked.push(other);
+      }
+    }
+  }
+  return linked;
+}
+
+/**
+ * 把 id 集合扩展为包含所有联动片段（保持原顺序，联动片段追加在后）。
+ */
+export function expandLinkedClipIds(
+  project: Project,
+  clipIds: readonly string[]
+): string[] {
+  const linkIds = new Set<string>();
+  for (const track of project.tracks) {
+    for (const clip of track.clips) {
+      if (clip.linkId && clipIds.includes(clip.id)) linkIds.add(clip.linkId);
+    }
+  }
+  if (linkIds.size === 0) return [...clipIds];
+  const out = [...clipIds];
+  for (const track of project.tracks) {
+    for (const clip of track.clips) {
+      if (clip.linkId && linkIds.has(clip.linkId) && !out.includes(clip.id)) {
+        out.push(clip.id);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * 设置一组片段的联动组 id，linkId 为 undefined 时取消联动。
+ */
+export function setClipsLinkId(
+  project: Project,
+  clipIds: readonly string[],
+  linkId: string | undefined
+): Project {
+  const ids = new Set(clipIds);
+  return {
+    ...project,
+    tracks: project.tracks.map((track) =>
+      track.clips.some((clip) => ids.has(clip.id))
+        ? {
+            ...track,
+            clips: track.clips.map((clip) => {
+              if (!ids.has(clip.id)) return clip;
+              if (linkId) return { ...clip, linkId };
+              const { linkId: _removed, ...rest } = clip;
+              void _removed;
+              return rest;
+            }),
+          }
+        : track
+    ),
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,122 @@
+import type { MarkerId, RegionId } from "./ids";
+import type { Project } from "./project";
+
+/**
+ * 时间轴标记与命名区间，用于审片时标注时间点、留下反馈，以及指定导出范围。
+ *
+ * 二者都挂在工程顶层（不属于任何轨道），时间为时间轴绝对时间（秒）。
+ */
+
+/**
+ * 时间轴标记：某个时间点上的命名标注。
+ */
+export interface Marker {
+  id: MarkerId;
+  /** 标记所在的时间轴时间（秒） */
+  time: number;
+  name: string;
+  /** 标记颜色（CSS 颜色字符串） */
+  color: string;
+  /** 备注（审片反馈等） */
+  note?: string;
+}
+
+/**
+ * 命名区间：由入点 / 出点围成的一段时间，可作为导出范围。
+ */
+export interface Region {
+  id: RegionId;
+  name: string;
+  /** 入点（秒） */
+  start: number;
+  /** 出点（秒），大于 start */
+  end: number;
+  /** 区间颜色（CSS 颜色字符串），缺省使用默认色 */
+  color?: string;
+}
+
+/** 标记可选颜色 */
+export const MARKER_COLORS: readonly string[] = [
+  "#feca28",
+  "#ef4444",
+  "#22c55e",
+  "#3b82f6",
+  "#a855f7",
+];
+
+/** 新建标记的默认颜色 */
+export const DEFAULT_MARKER_COLOR = MARKER_COLORS[0];
+
+/** 时间比较容差（秒），避免跳转到当前所在的标记 */
+const MARKER_EPSILON = 1e-3;
+
+/** 按时间升序排列标记（返回新数组） */
+export function sortMarkers(markers: readonly Marker[]): Marker[] {
+  return [...markers].sort((a, b) => a.time - b.time);
+}
+
+/** time 之后的第一个标记 */
+export function findNextMarker(
+  markers: readonly Marker[],
+  time: number
+): Marker | undefined {
+  return sortMarkers(markers).find((m) => m.time > time + MARKER_EPSILON);
+}
+
+/** time 之前的最后一个标记 */
+export function findPrevMarker(
+  markers: readonly Marker[],
+  time: number
+): Marker | undefined {
+  return sortMarkers(markers)
+    .reverse()
+    .find((m) => m.time < time - MARKER_EPSILON);
+}
+
+/**
+ * 将时间吸附到距离不超过 threshold 的最近标记，没有可吸附的标记时原样返回。
+ */
+export function snapTimeToMarkers(
+  time: number,
+  markers: readonly Marker[],
+  threshold: number
+): number {
+  let best = time;
+  let bestDistance = threshold;
+  for (const marker of markers) {
+    const distance = Math.abs(marker.time - time);
+    if (distance <= bestDistance) {
+      best = marker.time;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * 替换工程的标记列表（按时间排序后写入）。
+ */
+export function setProjectMarkers(
+  project: Project,
+  markers: Marker[]
+): Project {
+  return {
+    ...project,
+    markers: sortMarkers(markers),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 替换工程的区间列表。
+ */
+export function setProjectRegions(
+  project: Project,
+  regions: Region[]
+): Project {
+  return {
+    ...project,
+    regions,
+    updatedAt: new Date().toISOString(),
+  };
+}
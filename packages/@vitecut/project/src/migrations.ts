@@ -0,0 +1,122 @@
+/**
+ * 工程 schema 版本与迁移注册表。
+ *
+ * 每当 Project 的持久化结构发生不兼容变化时：
+ * 1. 将 CURRENT_PROJECT_VERSION 加 1；
+ * 2. 在 projectMigrations 中追加一条 from = 旧版本 的迁移，把 N 版数据升级为 N+1 版。
+ *
+ * 迁移只处理纯 JSON 数据（尚未校验），因此入参与返回值均为普通对象。
+ */
+
+/**
+ * 当前工程 schema 版本号。
+ */
+export const CURRENT_PROJECT_VERSION = 1;
+
+/**
+ * 当前工程 schema 版本号的字面量类型。
+ */
+export type ProjectVersion = typeof CURRENT_PROJECT_VERSION;
+
+/**
+ * 未经校验的工程 JSON 数据。
+ */
+export type RawProjectData = Record<string, unknown>;
+
+/**
+ * 单步迁移：把 from 版本的数据升级到 from + 1 版本。
+ */
+export interface ProjectMigration {
+  /** 迁移前的版本号 */
+  from: number;
+  /** 迁移说明，便于排查问题 */
+  description: string;
+  /** 返回升级后的数据（无需设置 version，由 migrateProjectData 统一写入） */
+  migrate: (data: RawProjectData) => RawProjectData;
+}
+
+/**
+ * 迁移注册表，按 from 升序排列，每个版本最多一条。
+ */
+export const projectMigrations: readonly ProjectMigration[] = [];
+
+/**
+ * 迁移失败的原因。
+ */
+export type ProjectMigrationError =
+  | {
+      code: "unsupported-version";
+      message: string;
+      /** 数据中的原始版本号 */
+      version: unknown;
+    }
+  | {
+      code: "migration-failed";
+      message: string;
+      /** 出错迁移的起始版本号 */
+      fromVersion: number;
+    };
+
+/**
+ * 将任意旧版本的工程数据逐级迁移到 CURRENT_PROJECT_VERSION。
+ *
+ * - 缺少 version、版本号非正整数、版本高于当前代码支持的版本时返回 unsupported-version
+ * - 中间某一级缺少迁移或迁移抛错时返回 migration-failed
+ */
+export function migrateProjectData(
+  data: RawProjectData
+):
+  | { ok: true; data: RawProjectData }
+  | { ok: false; error: ProjectMigrationError } {
+  const version = data.version;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > CURRENT_PROJECT_VERSION
+  ) {
+    return {
+      ok: false,
+      error: {
+        code: "unsupported-version",
+        message:
+          typeof version === "number" &&
+          Number.isInteger(version) &&
+          version > CURRENT_PROJECT_VERSION
+            ? `工程版本 ${version} 高于当前支持的版本 ${CURRENT_PROJECT_VERSION}，请升级编辑器`
+            : `无法识别的工程版本：${JSON.stringify(version)}`,
+        version,
+      },
+    };
+  }
+
+  let current = data;
+  for (let from = version; from < CURRENT_PROJECT_VERSION; from++) {
+    const migration = projectMigrations.find((m) => m.from === from);
+    if (!migration) {
+      return {
+        ok: false,
+        error: {
+          code: "migration-failed",
+          message: `缺少版本 ${from} → ${from + 1} 的迁移`,
+          fromVersion: from,
+        },
+      };
+    }
+    try {
+      current = { ...migration.migrate(current), version: from + 1 };
+    } catch (err) {
+      return {
+        ok: false,
+        error: {
+          code: "migration-failed",
+          message: `版本 ${from} → ${from + 1} 迁移失败（${migration.description}）：${
+            err instanceof Error ? err.message : String(err)
+          }`,
+          fromVersion: from,
+        },
+      };
+    }
+  }
+  return { ok: true, data: current };
+}
@@ -0,0 +1,179 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CURRENT_PROJECT_VERSION, migrateProjectData } from "./migrations";
+import {
+  createEmptyProject,
+  deserializeProject,
+  serializeProject,
+  type Project,
+} from "./project";
+import { validateProject } from "./validate";
+
+function sampleProject(): Project {
+  return {
+    ...createEmptyProject({ id: "p1", name: "测试工程" }),
+    assets: [
+      {
+        id: "a1",
+        name: "clip.mp4",
+        source: "https://cdn.example.com/clip.mp4",
+        kind: "video",
+        duration: 10,
+        videoMeta: { width: 1920, height: 1080 },
+      },
+    ],
+    tracks: [
+      {
+        id: "t1",
+        kind: "video",
+        order: 0,
+        clips: [
+          {
+            id: "c1",
+            trackId: "t1",
+            assetId: "a1",
+            kind: "video",
+            start: 0,
+            end: 5,
+            keyframes: {
+              opacity: [
+                { time: 0, value: 0 },
+                { time: 1, value: 1 },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/** 深拷贝为普通 JSON 对象，便于构造损坏的数据 */
+function raw(project: Project): Record<string, unknown> {
+  return JSON.parse(serializeProject(project)) as Record<string, unknown>;
+}
+
+describe("migrateProjectData", () => {
+  it("当前版本的数据原样返回", () => {
+    const data = raw(sampleProject());
+    assert.deepEqual(migrateProjectData(data), { ok: true, data });
+  });
+
+  it("缺少版本号或版本号不是正整数时返回 unsupported-version", () => {
+    for (const version of [undefined, 0, 1.5, 2.5, "1", null]) {
+      const result = migrateProjectData({ version });
+      assert.ok(!result.ok);
+      assert.equal(result.error.code, "unsupported-version");
+      assert.match(result.error.message, /无法识别的工程版本/);
+    }
+  });
+
+  it("版本高于当前支持的版本时提示升级编辑器", () => {
+    const result = migrateProjectData({ version: CURRENT_PROJECT_VERSION + 1 });
+    assert.ok(!result.ok);
+    assert.deepEqual(result.error, {
+      code: "unsupported-version",
+      message: `工程版本 ${CURRENT_PROJECT_VERSION + 1} 高于当前支持的版本 ${CURRENT_PROJECT_VERSION}，请升级编辑器`,
+      version: CURRENT_PROJECT_VERSION + 1,
+    });
+  });
+});
+
+describe("validateProject", () => {
+  it("合法工程没有问题", () => {
+    assert.deepEqual(validateProject(raw(sampleProject())), []);
+  });
+
+  it("非对象数据只报告根节点", () => {
+    assert.deepEqual(validateProject([]), [
+      { path: "", message: "工程数据应为对象" },
+    ]);
+  });
+
+  it("问题带出错字段的完整路径", () => {
+    const data = raw(sampleProject());
+    const track = (data.tracks as Record<string, unknown>[])[0];
+    const clip = (track.clips as Record<string, unknown>[])[0];
+    clip.trackId = "t2";
+    clip.end = -1;
+    clip.keyframes = {
+      opacity: [
+        { time: 1, value: 1 },
+        { time: 0, value: "0" },
+      ],
+      volume2: [],
+    };
+    track.ducking = { sourceTrackId: "t0", threshold: -30 };
+    data.fps = 0;
+
+    assert.deepEqual(validateProject(data), [
+      { path: "fps", message: "应为正数" },
+      { path: "tracks[0].clips[0].trackId", message: "与所在轨道 id 不一致" },
+      { path: "tracks[0].clips[0].end", message: "不能小于 start" },
+      {
+        path: "tracks[0].clips[0].keyframes.opacity[1].time",
+        message: "关键帧应按时间升序排列",
+      },
+      {
+        path: "tracks[0].clips[0].keyframes.opacity[1].value",
+        message: "应为有限数字",
+      },
+      {
+        path: "tracks[0].clips[0].keyframes.volume2",
+        message: "不支持关键帧的属性",
+      },
+      { path: "tracks[0].ducking.amount", message: "应为有限数字" },
+      { path: "tracks[0].ducking.attack", message: "应为有限数字" },
+      { path: "tracks[0].ducking.release", message: "应为有限数字" },
+    ]);
+  });
+});
+
+describe("deserializeProject", () => {
+  it("序列化后可原样读回", () => {
+    const project = sampleProject();
+    assert.deepEqual(deserializeProject(serializeProject(project)), {
+      ok: true,
+      project: raw(project),
+    });
+  });
+
+  it("不是合法 JSON 时返回 invalid-json", () => {
+    const result = deserializeProject("{");
+    assert.ok(!result.ok);
+    assert.equal(result.error.code, "invalid-json");
+  });
+
+  it("顶层不是对象时返回 invalid-project", () => {
+    const result = deserializeProject("[]");
+    assert.ok(!result.ok);
+    assert.deepEqual(result.error, {
+      code: "invalid-project",
+      message: "工程数据应为对象",
+      issues: [{ path: "", message: "工程数据应为对象" }],
+    });
+  });
+
+  it("版本无法识别时透传迁移错误", () => {
+    const result = deserializeProject(
+      JSON.stringify({ ...raw(sampleProject()), version: 99 })
+    );
+    assert.ok(!result.ok);
+    assert.equal(result.error.code, "unsupported-version");
+  });
+
+  it("结构不合法时返回 invalid-project，message 给出首个问题与总数", () => {
+    const data = raw(sampleProject());
+    delete data.name;
+    data.tracks = [{ id: "t1", kind: "subtitle", order: 0, clips: [] }];
+
+    const result = deserializeProject(JSON.stringify(data));
+    assert.ok(!result.ok);
+    assert.ok(result.error.code === "invalid-project");
+    assert.equal(result.error.issues.length, 2);
+    assert.equal(
+      result.error.message,
+      "工程数据不合法：name 应为字符串 等 2 处问题"
+    );
+  });
+});
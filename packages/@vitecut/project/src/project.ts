@@ -2,6 +2,16 @@ import type { ProjectId, TrackId, ClipId } from "./ids";
 import type { Asset } from "./asset";
 import type { Clip, UpdateClipPatch } from "./clip";
 import type { Track } from "./track";
+import type { Transition } from "./transition";
+import type { TrackDucking } from "./ducking";
+import type { Marker, Region } from "./marker";
+import {
+  CURRENT_PROJECT_VERSION,
+  migrateProjectData,
+  type ProjectMigrationError,
+  type ProjectVersion,
+} from "./migrations";
+import { validateProject, type ProjectValidationIssue } from "./validate";
 
 /**
  * 工程导出相关的配置。
@@ -25,9 +35,9 @@ export interface Project {
   id: ProjectId;
   name: string;
   /**
-   * 工程版本号，用于后续做 schema 迁移。
+   * 工程 schema 版本号，旧版本数据由 deserializeProject 逐级迁移到当前版本。
    */
-  version: 1;
+  version: ProjectVersion;
   createdAt: string;
   updatedAt: string;
   /**
@@ -57,6 +67,14 @@ export interface Project {
    * 时间轴轨道列表。
    */
   tracks: Track[];
+  /**
+   * 时间轴标记（按时间升序），缺省视为没有标记。
+   */
+  markers?: Marker[];
+  /**
+   * 命名区间（入点 / 出点），可作为导出范围。
+   */
+  regions?: Region[];
 }
 
 /**
@@ -82,7 +100,7 @@ export function createEmptyProject(options: CreateProjectOptions): Project {
   return {
     id: options.id,
     name: options.name,
-    version: 1,
+    version: CURRENT_PROJECT_VERSION,
     createdAt: now,
     updatedAt: now,
     fps: options.fps ?? 30,
@@ -165,6 +183,7 @@ export function updateClip(
       ...(patch.outPoint !== undefined && { outPoint: patch.outPoint }),
       ...(patch.transform !== undefined && { transform: patch.transform }),
       ...(patch.params !== undefined && { params: patch.params }),
+      ...(patch.keyframes !== undefined && { keyframes: patch.keyframes }),
       ...(patch.trackId !== undefined && { trackId: patch.trackId }),
     };
 
@@ -265,6 +284,42 @@ export function setTrackMuted(
   };
 }
 
+/**
+ * 替换指定轨道的转场列表。
+ */
+export function setTrackTransitions(
+  project: Project,
+  trackId: TrackId,
+  transitions: Transition[]
+): Project {
+  const tracks = project.tracks.map((track) =>
+    track.id === trackId ? { ...track, transitions } : track
+  );
+  return {
+    ...project,
+    tracks,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 设置（或在 ducking 为 undefined 时清除）指定轨道的音频闪避。
+ */
+export function setTrackDucking(
+  project: Project,
+  trackId: TrackId,
+  ducking: TrackDucking | undefined
+): Project {
+  const tracks = project.tracks.map((track) =>
+    track.id === trackId ? { ...track, ducking } : track
+  );
+  return {
+    ...project,
+    tracks,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
 /**
  * 按拖拽后的新顺序更新轨道 order。
  * @param project 当前工程
@@ -311,11 +366,77 @@ export function serializeProject(project: Project): string {
   return JSON.stringify(project);
 }
 
+/**
+ * deserializeProject 的失败原因。
+ *
+ * - invalid-json：不是合法 JSON
+ * - unsupported-version / migration-failed：版本无法识别或迁移出错
+ * - invalid-project：迁移后的数据不符合当前 Project 结构，issues 给出具体字段路径
+ */
+export type DeserializeProjectError =
+  | { code: "invalid-json"; message: string }
+  | ProjectMigrationError
+  | {
+      code: "invalid-project";
+      message: string;
+      issues: ProjectValidationIssue[];
+    };
+
+/**
+ * deserializeProject 的返回值。
+ */
+export type DeserializeProjectResult =
+  | { ok: true; project: Project }
+  | { ok: false; error: DeserializeProjectError };
+
 /**
  * 从 JSON 字符串反序列化为 Project。
- * 未来如果有版本迁移逻辑，可以在这里处理。
+ *
+ * 依次执行：JSON 解析 → 按 version 逐级迁移到当前版本 → 运行时结构校验。
+ * 任一步失败都不会抛错，而是返回带 code 的错误。
  */
-export function deserializeProject(json: string): Project {
-  const parsed = JSON.parse(json) as Project;
-  return parsed;
+export function deserializeProject(json: string): DeserializeProjectResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return {
+      ok: false,
+      error: {
+        code: "invalid-json",
+        message: err instanceof Error ? err.message : "JSON 解析失败",
+      },
+    };
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return {
+      ok: false,
+      error: {
+        code: "invalid-project",
+        message: "工程数据应为对象",
+        issues: [{ path: "", message: "工程数据应为对象" }],
+      },
+    };
+  }
+
+  const migrated = migrateProjectData(parsed as Record<string, unknown>);
+  if (!migrated.ok) {
+    return { ok: false, error: migrated.error };
+  }
+
+  const issues = validateProject(migrated.data);
+  if (issues.length > 0) {
+    const first = issues[0];
+    return {
+      ok: false,
+      error: {
+        code: "invalid-project",
+        message: `工程数据不合法：${first.path || "(根)"} ${first.message}${
+          issues.length > 1 ? ` 等 ${issues.length} 处问题` : ""
+        }`,
+        issues,
+      },
+    };
+  }
+  return { ok: true, project: migrated.data as unknown as Project };
 }
@@ -3,6 +3,7 @@ import type { Asset } from "./asset";
 import type { Clip } from "./clip";
 import type { Track } from "./track";
 import type { ProjectExportSettings } from "./project";
+import type { ProjectVersion } from "./migrations";
 
 /**
  * 为导出/后端渲染准备的精简资源结构。
@@ -24,7 +25,7 @@ export interface RenderAsset {
 /**
  * 为导出/后端渲染准备的精简片段结构。
  *
- * 保留时间轴区间、素材引用、裁剪点与画布变换等信息。
+ * 保留时间轴区间、素材引用、裁剪点、画布变换与关键帧等信息。
  */
 export interface RenderClip {
   id: Clip["id"];
@@ -37,12 +38,13 @@ export interface RenderClip {
   outPoint?: Clip["outPoint"];
   transform?: Clip["transform"];
   params?: Clip["params"];
+  keyframes?: Clip["keyframes"];
 }
 
 /**
  * 为导出/后端渲染准备的精简轨道结构。
  *
- * 仅保留轨道类型、顺序、可见性与包含的片段。
+ * 仅保留轨道类型、顺序、可见性、包含的片段、转场与生效中的音频闪避。
  */
 export interface RenderTrack {
   id: Track["id"];
@@ -52,6 +54,9 @@ export interface RenderTrack {
   muted?: Track["muted"];
   hidden?: Track["hidden"];
   clips: RenderClip[];
+  transitions?: Track["transitions"];
+  /** 生效中的音频闪避（触发轨道存在且未静音，参数已规范化） */
+  ducking?: Track["ducking"];
 }
 
 /**
@@ -63,7 +68,7 @@ export interface RenderTrack {
 export interface RenderProject {
   id: ProjectId;
   name: string;
-  version: 1;
+  version: ProjectVersion;
   fps: number;
   width: number;
   height: number;
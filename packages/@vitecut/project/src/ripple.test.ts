@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Clip } from "./clip";
+import { createEmptyProject, type Project } from "./project";
+import { getRippleClipIds, getRippleCloseDistance, shiftClips } from "./ripple";
+
+function clip(id: string, trackId: string, start: number, end: number): Clip {
+  return { id, trackId, assetId: "a1", kind: "video", start, end };
+}
+
+/** v1: [0,2] [4,6] [7,9]；a1: [1,3] [6,8] */
+function sampleProject(): Project {
+  return {
+    ...createEmptyProject({ id: "p1", name: "test" }),
+    tracks: [
+      {
+        id: "v1",
+        kind: "video",
+        order: 0,
+        clips: [
+          clip("v-a", "v1", 0, 2),
+          clip("v-b", "v1", 4, 6),
+          clip("v-c", "v1", 7, 9),
+        ],
+      },
+      {
+        id: "a1",
+        kind: "audio",
+        order: 1,
+        clips: [clip("a-a", "a1", 1, 3), clip("a-b", "a1", 6, 8)],
+      },
+    ],
+  };
+}
+
+describe("getRippleClipIds", () => {
+  it("只收集指定轨道上起点不早于编辑点的片段", () => {
+    const project = sampleProject();
+    assert.deepEqual(getRippleClipIds(project, ["v1"], 4), ["v-b", "v-c"]);
+    assert.deepEqual(getRippleClipIds(project, ["v1", "a1"], 4), [
+      "v-b",
+      "v-c",
+      "a-b",
+    ]);
+  });
+
+  it("编辑点容差内的片段也参与平移，排除列表中的片段不参与", () => {
+    const project = sampleProject();
+    assert.deepEqual(getRippleClipIds(project, ["v1"], 4 + 1e-7, ["v-c"]), [
+      "v-b",
+    ]);
+  });
+});
+
+describe("getRippleCloseDistance", () => {
+  it("单轨道时为空隙长度", () => {
+    assert.equal(getRippleCloseDistance(sampleProject(), ["v1"], 2, 4), 2);
+  });
+
+  it("多轨道同步平移时取各轨道可用距离的最小值", () => {
+    // a1 上 [1,3] 不平移，a-b 最多前移到 3
+    assert.equal(
+      getRippleCloseDistance(sampleProject(), ["v1", "a1"], 2, 4),
+      1
+    );
+  });
+
+  it("空隙被其他片段占满时为 0，排除的片段不限制距离", () => {
+    const project = sampleProject();
+    // a-a [1,3] 占满了空隙 [2,3]
+    assert.equal(getRippleCloseDistance(project, ["a1"], 2, 3), 0);
+    assert.equal(getRippleCloseDistance(project, ["a1"], 2, 3, ["a-a"]), 1);
+  });
+});
+
+describe("shiftClips", () => {
+  it("只平移指定片段，其余轨道保持同一引用", () => {
+    const project = sampleProject();
+    const next = shiftClips(project, ["v-b", "v-c"], -2);
+
+    assert.deepEqual(
+      next.tracks[0].clips.map((c) => [c.start, c.end]),
+      [
+        [0, 2],
+        [2, 4],
+        [5, 7],
+      ]
+    );
+    assert.equal(next.tracks[1], project.tracks[1]);
+  });
+
+  it("没有片段或平移量为 0 时原样返回", () => {
+    const project = sampleProject();
+    assert.equal(shiftClips(project, [], 1), project);
+    assert.equal(shiftClips(project, ["v-a"], 0), project);
+  });
+});
@@ -0,0 +1,89 @@
+import type { ClipId, TrackId } from "./ids";
+import type { Project } from "./project";
+
+/**
+ * 波纹编辑（ripple）：删除、裁剪片段后把后续片段前移收拢空隙，插入片段时把后续片段后推。
+ *
+ * 这里只提供纯函数：挑选需要平移的片段、计算可收拢的距离、整体平移。
+ * 参与的轨道由调用方决定（仅当前轨道，或全部未锁定轨道）。
+ */
+
+/** 时间比较容差（秒） */
+const RIPPLE_EPSILON = 1e-6;
+
+/**
+ * 收集指定轨道上起点不早于 from 的片段 id（即位于编辑点之后、需要跟随平移的片段）。
+ */
+export function getRippleClipIds(
+  project: Project,
+  trackIds: TrackId[],
+  from: number,
+  excludeClipIds: ClipId[] = []
+): ClipId[] {
+  const ids: ClipId[] = [];
+  for (const track of project.tracks) {
+    if (!trackIds.includes(track.id)) continue;
+    for (const clip of track.clips) {
+      if (excludeClipIds.includes(clip.id)) continue;
+      if (clip.start >= from - RIPPLE_EPSILON) {
+        ids.push(clip.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * 计算收拢 [gapStart, gapEnd] 空隙时实际可前移的距离。
+ *
+ * 多轨道一起平移时必须保持同步，因此取各轨道可用距离的最小值：
+ * gapEnd 之前开始的片段不参与平移，其结束时间不能被后续片段越过。
+ */
+export function getRippleCloseDistance(
+  project: Project,
+  trackIds: TrackId[],
+  gapStart: number,
+  gapEnd: number,
+  excludeClipIds: ClipId[] = []
+): number {
+  let distance = gapEnd - gapStart;
+  for (const track of project.tracks) {
+    if (!trackIds.includes(track.id)) continue;
+    for (const clip of track.clips) {
+      if (excludeClipIds.includes(clip.id)) continue;
+      if (clip.start < gapEnd - RIPPLE_EPSILON) {
+        distance = Math.min(distance, gapEnd - clip.end);
+      }
+    }
+  }
+  return Math.max(0, distance);
+}
+
+/**
+ * 将指定片段整体平移 delta 秒（start/end 同步平移；关键帧时间相对片段起点，无需调整）。
+ */
+export function shiftClips(
+  project: Project,
+  clipIds: ClipId[],
+  delta: number
+): Project {
+  if (clipIds.length === 0 || delta === 0) return project;
+  const ids = new Set(clipIds);
+  const tracks = project.tracks.map((track) =>
+    track.clips.some((clip) => ids.has(clip.id))
+      ? {
+          ...track,
+          clips: track.clips.map((clip) =>
+            ids.has(clip.id)
+              ? { ...clip, start: clip.start + delta, end: clip.end + delta }
+              : clip
+          ),
+        }
+      : track
+  );
+  return {
+    ...project,
+    tracks,
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -1,5 +1,7 @@
 import type { TrackId } from "./ids";
 import type { Clip } from "./clip";
+import type { Transition } from "./transition";
+import type { TrackDucking } from "./ducking";
 
 /**
  * 时间轴中的一条轨道。
@@ -37,4 +39,12 @@ export interface Track {
    * 轨道中的片段列表。
    */
   clips: Clip[];
+  /**
+   * 轨道上相邻片段之间的转场（见 transition.ts）。
+   */
+  transitions?: Transition[];
+  /**
+   * 音频闪避：触发轨道有声音时自动压低本轨道音量（见 ducking.ts）。
+   */
+  ducking?: TrackDucking;
 }
@@ -0,0 +1,252 @@
+import type { ClipId, TransitionId } from "./ids";
+import type { Clip } from "./clip";
+import type { Track } from "./track";
+import { resolveClipAtTime } from "./keyframes";
+
+/**
+ * 同一轨道上首尾相接的两个片段之间的转场。
+ *
+ * 转场以两片段的接缝为中心，时长为 duration：
+ * - 转出片段（from）向后延伸 duration / 2，转入片段（to）向前延伸 duration / 2；
+ * - 延伸部分的画面定格在片段的尾帧 / 首帧，不改变片段自身的 start/end；
+ * - 片段被移动、裁剪到不再相接时转场自动失效（数据保留，重新相接后恢复）。
+ *
+ * 导出端 api/src/lib/renderGraph.ts 按同样的区间生成 xfade / acrossfade，调整规则时需同步。
+ */
+
+/**
+ * 转场类型：叠化 / 擦除 / 滑动 / 闪黑。
+ */
+export type TransitionType = "crossfade" | "wipe" | "slide" | "dip-to-black";
+
+export const TRANSITION_TYPES: readonly TransitionType[] = [
+  "crossfade",
+  "wipe",
+  "slide",
+  "dip-to-black",
+];
+
+/**
+ * 轨道上的一个转场。
+ */
+export interface Transition {
+  id: TransitionId;
+  /** 转出片段（在前） */
+  fromClipId: ClipId;
+  /** 转入片段（在后），其 start 应等于 from 的 end */
+  toClipId: ClipId;
+  type: TransitionType;
+  /** 转场时长（秒） */
+  duration: number;
+}
+
+/** 新建转场的默认时长（秒） */
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+/** 转场最短时长（秒） */
+export const MIN_TRANSITION_DURATION = 0.1;
+
+/** 两片段首尾时间差小于该值视为相接 */
+const ADJACENT_EPSILON = 1e-3;
+
+/** 可以做画面转场的片段类型 */
+const VISUAL_CLIP_KINDS: readonly Clip["kind"][] = ["video", "image", "text"];
+
+/**
+ * 两个片段之间能否添加转场：首尾相接，且同为画面片段或同为音频片段。
+ */
+export function canAddTransition(from: Clip, to: Clip): boolean {
+  if (from.id === to.id || from.trackId !== to.trackId) return false;
+  if (Math.abs(from.end - to.start) > ADJACENT_EPSILON) return false;
+  const fromVisual = VISUAL_CLIP_KINDS.includes(from.kind);
+  const toVisual = VISUAL_CLIP_KINDS.includes(to.kind);
+  return fromVisual === toVisual && (fromVisual || from.kind === "audio");
+}
+
+/**
+ * 转场的最大时长：不超过两片段中较短的一个，保证延伸区间不越过片段另一端的转场。
+ */
+export function getMaxTransitionDuration(from: Clip, to: Clip): number {
+  return Math.max(0, Math.min(from.end - from.start, to.end - to.start));
+}
+
+/**
+ * 查找片段在同一轨道上紧随其后（首尾相接）的片段。
+ */
+export function findNextAdjacentClip(
+  track: Track,
+  clip: Clip
+): Clip | undefined {
+  return track.clips.find(
+    (c) => c.id !== clip.id && Math.abs(c.start - clip.end) <= ADJACENT_EPSILON
+  );
+}
+
+/**
+ * 返回轨道上当前生效的转场：两端片段都在本轨道、仍然相接，时长按片段长度收紧。
+ */
+export function getActiveTransitions(track: Track): Transition[] {
+  const transitions = track.transitions;
+  if (!transitions || transitions.length === 0) return [];
+  const out: Transition[] = [];
+  for (const transition of transitions) {
+    const from = track.clips.find((c) => c.id === transition.fromClipId);
+    const to = track.clips.find((c) => c.id === transition.toClipId);
+    if (!from || !to || !canAddTransition(from, to)) continue;
+    const duration = Math.min(
+      transition.duration,
+      getMaxTransitionDuration(from, to)
+    );
+    if (duration < MIN_TRANSITION_DURATION) continue;
+    out.push(
+      duration === transition.duration
+        ? transition
+        : { ...transition, duration }
+    );
+  }
+  return out;
+}
+
+/**
+ * 片段是否参与了轨道上任一生效的转场。
+ */
+export function hasClipTransition(track: Track, clipId: ClipId): boolean {
+  return getActiveTransitions(track).some(
+    (t) => t.fromClipId === clipId || t.toClipId === clipId
+  );
+}
+
+/**
+ * 片段因转场延伸后的可见区间 [start, end)。
+ */
+export function getClipActiveRange(
+  track: Track,
+  clip: Clip
+): { start: number; end: number } {
+  let start = clip.start;
+  let end = clip.end;
+  for (const transition of getActiveTransitions(track)) {
+    if (transition.toClipId === clip.id) {
+      start = clip.start - transition.duration / 2;
+    }
+    if (transition.fromClipId === clip.id) {
+      end = clip.end + transition.duration / 2;
+    }
+  }
+  return { start, end };
+}
+
+/**
+ * 片段在时间 t 所处的转场状态。
+ */
+export interface ClipTransitionState {
+  transition: Transition;
+  /** from 为转出片段，to 为转入片段 */
+  role: "from" | "to";
+  /** 转场进度，0 为开始、1 为结束 */
+  progress: number;
+}
+
+/**
+ * 计算片段在时间 t 的转场状态；不处于任何转场区间时返回 null。
+ */
+export function getClipTransitionState(
+  track: Track,
+  clip: Clip,
+  t: number
+): ClipTransitionState | null {
+  for (const transition of getActiveTransitions(track)) {
+    const role =
+      transition.fromClipId === clip.id
+        ? "from"
+        : transition.toClipId === clip.id
+          ? "to"
+          : null;
+    if (!role) continue;
+    // 接缝即转入片段的 start
+    const cut = role === "to" ? clip.start : clip.end;
+    const start = cut - transition.duration / 2;
+    if (t < start || t >= start + transition.duration) continue;
+    return {
+      transition,
+      role,
+      progress: Math.min(1, Math.max(0, (t - start) / transition.duration)),
+    };
+  }
+  return null;
+}
+
+/**
+ * 按转场状态调整片段的透明度、位置与音量，供预览混合两段画面。
+ *
+ * - crossfade / wipe：转入片段透明度从 0 过渡到 1（预览中 wipe 以叠化近似）
+ * - dip-to-black：前半段转出片段淡出、后半段转入片段淡入
+ * - slide：两段画面一起向左推移一个画布宽度
+ * - 视频 / 音频片段的音量始终做交叉淡入淡出
+ *
+ * 调用方需保证同一轨道上转入片段叠在转出片段之上。
+ */
+export function applyTransitionToClip(
+  clip: Clip,
+  state: ClipTransitionState,
+  projectWidth: number
+): Clip {
+  const { role, progress } = state;
+  const transform = { ...clip.transform };
+  // 文本片段的透明度存放在 params.opacity
+  const opacity =
+    clip.kind === "text"
+      ? Number(clip.params?.opacity ?? transform.opacity ?? 1)
+      : (transform.opacity ?? 1);
+  let nextOpacity = opacity;
+  switch (state.transition.type) {
+    case "dip-to-black":
+      nextOpacity =
+        role === "from"
+          ? opacity * Math.max(0, 1 - 2 * progress)
+          : opacity * Math.max(0, 2 * progress - 1);
+      break;
+    case "slide":
+      transform.x =
+        (transform.x ?? 0) +
+        (role === "from" ? -progress : 1 - progress) * projectWidth;
+      break;
+    default:
+      if (role === "to") {
+        nextOpacity = opacity * progress;
+      }
+      break;
+  }
+  let params = clip.params;
+  if (nextOpacity !== opacity) {
+    transform.opacity = nextOpacity;
+    if (clip.kind === "text") {
+      params = { ...params, opacity: nextOpacity };
+    }
+  }
+  // 声音与导出 acrossfade 一致：转出片段淡出、转入片段淡入
+  if (clip.kind === "video" || clip.kind === "audio") {
+    const raw = Number(params?.volume);
+    const volume = Number.isFinite(raw) ? raw : 1;
+    params = {
+      ...params,
+      volume: volume * (role === "from" ? 1 - progress : progress),
+    };
+  }
+  return { ...clip, transform, params };
+}
+
+/**
+ * 在时间 t 求值片段：先求关键帧，再叠加所在转场的透明度 / 位移。
+ */
+export function resolveTrackClipAtTime(
+  track: Track,
+  clip: Clip,
+  t: number,
+  projectWidth: number
+): Clip {
+  const resolved = resolveClipAtTime(clip, t);
+  const state = getClipTransitionState(track, clip, t);
+  return state
+    ? applyTransitionToClip(resolved, state, projectWidth)
+    : resolved;
+}
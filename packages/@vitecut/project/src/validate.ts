@@ -0,0 +1,392 @@
+/**
+ * 工程数据的运行时校验。
+ *
+ * 反序列化得到的是不可信 JSON，这里按 Project 的结构逐字段检查，
+ * 返回带路径（如 tracks[0].clips[2].start）的问题列表，便于定位损坏的数据。
+ */
+
+import { KEYFRAME_EASINGS, KEYFRAME_PROPERTIES } from "./keyframes";
+import { TRANSITION_TYPES } from "./transition";
+import { DUCKING_PARAM_RANGES } from "./ducking";
+
+/**
+ * 单条校验问题。
+ */
+export interface ProjectValidationIssue {
+  /** 出错字段路径，根节点为空字符串 */
+  path: string;
+  message: string;
+}
+
+const ASSET_KINDS = ["video", "audio", "image", "text", "compound"];
+const TRACK_KINDS = ["video", "audio", "mixed"];
+const CLIP_KINDS = ["video", "audio", "image", "text", "compound"];
+const TRANSFORM_FIELDS = [
+  "x",
+  "y",
+  "scaleX",
+  "scaleY",
+  "rotation",
+  "opacity",
+  "anchorX",
+  "anchorY",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const joinPath = (base: string, key: string | number): string =>
+  typeof key === "number" ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+/**
+ * 收集问题的小工具：每个 expect* 方法在不满足时记录一条问题并返回 false。
+ */
+class IssueCollector {
+  readonly issues: ProjectValidationIssue[] = [];
+
+  add(path: string, message: string): false {
+    this.issues.push({ path, message });
+    return false;
+  }
+
+  expectString(
+    obj: Record<string, unknown>,
+    key: string,
+    base: string,
+    optional = false
+  ): boolean {
+    const value = obj[key];
+    if (value === undefined && optional) return true;
+    if (typeof value !== "string") {
+      return this.add(joinPath(base, key), "应为字符串");
+    }
+    return true;
+  }
+
+  expectNumber(
+    obj: Record<string, unknown>,
+    key: string,
+    base: string,
+    options: { optional?: boolean; positive?: boolean } = {}
+  ): boolean {
+    const value = obj[key];
+    if (value === undefined && options.optional) return true;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return this.add(joinPath(base, key), "应为有限数字");
+    }
+    if (options.positive && value <= 0) {
+      return this.add(joinPath(base, key), "应为正数");
+    }
+    return true;
+  }
+
+  expectBoolean(
+    obj: Record<string, unknown>,
+    key: string,
+    base: string
+  ): boolean {
+    const value = obj[key];
+    if (value === undefined || typeof value === "boolean") return true;
+    return this.add(joinPath(base, key), "应为布尔值");
+  }
+
+  expectOneOf(
+    obj: Record<string, unknown>,
+    key: string,
+    base: string,
+    allowed: string[]
+  ): boolean {
+    const value = obj[key];
+    if (typeof value === "string" && allowed.includes(value)) return true;
+    return this.add(
+      joinPath(base, key),
+      `应为 ${allowed.map((v) => `"${v}"`).join(" | ")} 之一`
+    );
+  }
+
+  expectRecord(
+    obj: Record<string, unknown>,
+    key: string,
+    base: string,
+    optional = false
+  ): boolean {
+    const value = obj[key];
+    if (value === undefined && optional) return true;
+    if (!isRecord(value)) {
+      return this.add(joinPath(base, key), "应为对象");
+    }
+    return true;
+  }
+
+  expectArray(
+    obj: Record<string, unknown>,
+    key: string,
+    base: string
+  ): boolean {
+    if (Array.isArray(obj[key])) return true;
+    return this.add(joinPath(base, key), "应为数组");
+  }
+}
+
+function validateAsset(c: IssueCollector, asset: unknown, path: string): void {
+  if (!isRecord(asset)) {
+    c.add(path, "应为对象");
+    return;
+  }
+  c.expectString(asset, "id", path);
+  c.expectString(asset, "name", path, true);
+  c.expectString(asset, "source", path);
+  c.expectOneOf(asset, "kind", path, ASSET_KINDS);
+  c.expectNumber(asset, "duration", path, { optional: true });
+  c.expectBoolean(asset, "loading", path);
+
+  if (c.expectRecord(asset, "videoMeta", path, true) && asset.videoMeta) {
+    const metaPath = joinPath(path, "videoMeta");
+    const meta = asset.videoMeta as Record<string, unknown>;
+    c.expectNumber(meta, "width", metaPath);
+    c.expectNumber(meta, "height", metaPath);
+    c.expectNumber(meta, "rotation", metaPath, { optional: true });
+    c.expectNumber(meta, "fps", metaPath, { optional: true });
+    c.expectString(meta, "codec", metaPath, true);
+  }
+  if (c.expectRecord(asset, "audioMeta", path, true) && asset.audioMeta) {
+    const metaPath = joinPath(path, "audioMeta");
+    const meta = asset.audioMeta as Record<string, unknown>;
+    c.expectNumber(meta, "sampleRate", metaPath);
+    c.expectNumber(meta, "channels", metaPath);
+    c.expectString(meta, "codec", metaPath, true);
+  }
+  if (c.expectRecord(asset, "imageMeta", path, true) && asset.imageMeta) {
+    const metaPath = joinPath(path, "imageMeta");
+    const meta = asset.imageMeta as Record<string, unknown>;
+    c.expectNumber(meta, "width", metaPath);
+    c.expectNumber(meta, "height", metaPath);
+  }
+  if (c.expectRecord(asset, "textMeta", path, true) && asset.textMeta) {
+    const meta = asset.textMeta as Record<string, unknown>;
+    c.expectString(meta, "initialText", joinPath(path, "textMeta"), true);
+  }
+  if (c.expectRecord(asset, "compoundMeta", path, true) && asset.compoundMeta) {
+    const metaPath = joinPath(path, "compoundMeta");
+    const meta = asset.compoundMeta as Record<string, unknown>;
+    if (c.expectArray(meta, "tracks", metaPath)) {
+      (meta.tracks as unknown[]).forEach((track, i) =>
+        validateTrack(c, track, joinPath(joinPath(metaPath, "tracks"), i))
+      );
+    }
+  }
+}
+
+function validateKeyframes(
+  c: IssueCollector,
+  keyframes: Record<string, unknown>,
+  path: string
+): void {
+  for (const [property, list] of Object.entries(keyframes)) {
+    const listPath = joinPath(path, property);
+    if (!(KEYFRAME_PROPERTIES as readonly string[]).includes(property)) {
+      c.add(listPath, "不支持关键帧的属性");
+      continue;
+    }
+    if (!Array.isArray(list)) {
+      c.add(listPath, "应为数组");
+      continue;
+    }
+    let prevTime = -Infinity;
+    list.forEach((keyframe: unknown, i) => {
+      const keyframePath = joinPath(listPath, i);
+      if (!isRecord(keyframe)) {
+        c.add(keyframePath, "应为对象");
+        return;
+      }
+      if (c.expectNumber(keyframe, "time", keyframePath)) {
+        if ((keyframe.time as number) < prevTime) {
+          c.add(joinPath(keyframePath, "time"), "关键帧应按时间升序排列");
+        }
+        prevTime = keyframe.time as number;
+      }
+      c.expectNumber(keyframe, "value", keyframePath);
+      if (keyframe.easing !== undefined) {
+        c.expectOneOf(keyframe, "easing", keyframePath, [...KEYFRAME_EASINGS]);
+      }
+    });
+  }
+}
+
+function validateClip(
+  c: IssueCollector,
+  clip: unknown,
+  path: string,
+  trackId: unknown
+): void {
+  if (!isRecord(clip)) {
+    c.add(path, "应为对象");
+    return;
+  }
+  c.expectString(clip, "id", path);
+  if (c.expectString(clip, "trackId", path) && clip.trackId !== trackId) {
+    c.add(joinPath(path, "trackId"), "与所在轨道 id 不一致");
+  }
+  c.expectString(clip, "assetId", path);
+  c.expectOneOf(clip, "kind", path, CLIP_KINDS);
+  const startOk = c.expectNumber(clip, "start", path);
+  const endOk = c.expectNumber(clip, "end", path);
+  if (startOk && endOk && (clip.end as number) < (clip.start as number)) {
+    c.add(joinPath(path, "end"), "不能小于 start");
+  }
+  c.expectNumber(clip, "inPoint", path, { optional: true });
+  c.expectNumber(clip, "outPoint", path, { optional: true });
+  c.expectString(clip, "linkId", path, true);
+
+  if (c.expectRecord(clip, "transform", path, true) && clip.transform) {
+    const transformPath = joinPath(path, "transform");
+    const transform = clip.transform as Record<string, unknown>;
+    for (const field of TRANSFORM_FIELDS) {
+      c.expectNumber(transform, field, transformPath, { optional: true });
+    }
+  }
+  c.expectRecord(clip, "params", path, true);
+  if (c.expectRecord(clip, "keyframes", path, true) && clip.keyframes) {
+    validateKeyframes(
+      c,
+      clip.keyframes as Record<string, unknown>,
+      joinPath(path, "keyframes")
+    );
+  }
+}
+
+function validateTransition(
+  c: IssueCollector,
+  transition: unknown,
+  path: string
+): void {
+  if (!isRecord(transition)) {
+    c.add(path, "应为对象");
+    return;
+  }
+  c.expectString(transition, "id", path);
+  c.expectString(transition, "fromClipId", path);
+  c.expectString(transition, "toClipId", path);
+  c.expectOneOf(transition, "type", path, [...TRANSITION_TYPES]);
+  c.expectNumber(transition, "duration", path, { positive: true });
+}
+
+function validateTrack(c: IssueCollector, track: unknown, path: string): void {
+  if (!isRecord(track)) {
+    c.add(path, "应为对象");
+    return;
+  }
+  c.expectString(track, "id", path);
+  c.expectOneOf(track, "kind", path, TRACK_KINDS);
+  c.expectString(track, "name", path, true);
+  c.expectNumber(track, "order", path);
+  c.expectBoolean(track, "muted", path);
+  c.expectBoolean(track, "hidden", path);
+  c.expectBoolean(track, "locked", path);
+  if (c.expectArray(track, "clips", path)) {
+    (track.clips as unknown[]).forEach((clip, i) =>
+      validateClip(c, clip, joinPath(joinPath(path, "clips"), i), track.id)
+    );
+  }
+  if (
+    track.transitions !== undefined &&
+    c.expectArray(track, "transitions", path)
+  ) {
+    (track.transitions as unknown[]).forEach((transition, i) =>
+      validateTransition(
+        c,
+        transition,
+        joinPath(joinPath(path, "transitions"), i)
+      )
+    );
+  }
+  if (c.expectRecord(track, "ducking", path, true) && track.ducking) {
+    const ducking = track.ducking as Record<string, unknown>;
+    const duckingPath = joinPath(path, "ducking");
+    c.expectString(ducking, "sourceTrackId", duckingPath);
+    for (const key of Object.keys(DUCKING_PARAM_RANGES)) {
+      c.expectNumber(ducking, key, duckingPath);
+    }
+  }
+}
+
+function validateMarker(
+  c: IssueCollector,
+  marker: unknown,
+  path: string
+): void {
+  if (!isRecord(marker)) {
+    c.add(path, "应为对象");
+    return;
+  }
+  c.expectString(marker, "id", path);
+  c.expectNumber(marker, "time", path);
+  c.expectString(marker, "name", path);
+  c.expectString(marker, "color", path);
+  c.expectString(marker, "note", path, true);
+}
+
+function validateRegion(
+  c: IssueCollector,
+  region: unknown,
+  path: string
+): void {
+  if (!isRecord(region)) {
+    c.add(path, "应为对象");
+    return;
+  }
+  c.expectString(region, "id", path);
+  c.expectString(region, "name", path);
+  const startOk = c.expectNumber(region, "start", path);
+  const endOk = c.expectNumber(region, "end", path);
+  if (startOk && endOk && (region.end as number) <= (region.start as number)) {
+    c.add(joinPath(path, "end"), "应大于 start");
+  }
+  c.expectString(region, "color", path, true);
+}
+
+/**
+ * 校验任意数据是否符合当前版本的 Project 结构。
+ *
+ * @returns 问题列表；为空表示校验通过
+ */
+export function validateProject(value: unknown): ProjectValidationIssue[] {
+  const c = new IssueCollector();
+  if (!isRecord(value)) {
+    c.add("", "工程数据应为对象");
+    return c.issues;
+  }
+
+  c.expectString(value, "id", "");
+  c.expectString(value, "name", "");
+  c.expectNumber(value, "version", "");
+  c.expectString(value, "createdAt", "");
+  c.expectString(value, "updatedAt", "");
+  c.expectNumber(value, "fps", "", { positive: true });
+  c.expectNumber(value, "width", "", { positive: true });
+  c.expectNumber(value, "height", "", { positive: true });
+  c.expectString(value, "backgroundColor", "", true);
+  c.expectRecord(value, "exportSettings", "", true);
+
+  if (c.expectArray(value, "assets", "")) {
+    (value.assets as unknown[]).forEach((asset, i) =>
+      validateAsset(c, asset, joinPath("assets", i))
+    );
+  }
+  if (c.expectArray(value, "tracks", "")) {
+    (value.tracks as unknown[]).forEach((track, i) =>
+      validateTrack(c, track, joinPath("tracks", i))
+    );
+  }
+  if (value.markers !== undefined && c.expectArray(value, "markers", "")) {
+    (value.markers as unknown[]).forEach((marker, i) =>
+      validateMarker(c, marker, joinPath("markers", i))
+    );
+  }
+  if (value.regions !== undefined && c.expectArray(value, "regions", "")) {
+    (value.regions as unknown[]).forEach((region, i) =>
+      validateRegion(c, region, joinPath("regions", i))
+    );
+  }
+  return c.issues;
+}
@@ -7,9 +7,14 @@ import { healthRoutes } from "./routes/health.js";
 import { authRoutes } from "./routes/auth.js";
 import { taskRoutes } from "./routes/tasks.js";
 import { workflowRoutes } from "./routes/workflows.js";
+import { projectRoutes } from "./routes/projects.js";
+import { projectRevisionRoutes } from "./routes/projectRevisions.js";
 import { mediaRoutes } from "./routes/media.js";
 import { renderRoutes } from "./routes/render.js";
+import { exportPresetRoutes } from "./routes/exportPresets.js";
 import { aiRoutes } from "./routes/ai.js";
+import { startRenderQueue, stopRenderQueue } from "./lib/renderQueue.js";
+import { startTaskUpdateRelay } from "./lib/taskUpdateRelay.js";
 import { createStorageAdapterFromEnv } from "@vitecut/storage";
 
 // 服务器端口配置，默认 3001。可通过环境变量 PORT 覆盖
@@ -34,10 +39,25 @@ await fastify.register(healthRoutes); // 健康检查，便于监控与存活探
 await fastify.register(authRoutes); // 用户注册、登录、认证
 await fastify.register(taskRoutes, { storage }); // 任务管理相关 API
 await fastify.register(workflowRoutes); // 工作流管理相关 API
+await fastify.register(projectRoutes); // 剪辑工程保存/打开相关 API
+await fastify.register(projectRevisionRoutes); // 工程修订历史/对比/恢复 API
 await fastify.register(mediaRoutes, { storage }); // 媒体上传/下载，注入存储适配器
-await fastify.register(renderRoutes, { storage }); // 渲染、视频处理服务
+await fastify.register(renderRoutes); // 提交渲染任务（写入渲染队列）
+await fastify.register(exportPresetRoutes); // 导出预设（内置平台预设 + 用户自建）
 await fastify.register(aiRoutes, { storage }); // AI 生成图片等 API，含存储
 
+// 渲染队列：默认随 API 进程启动，按 RENDER_CONCURRENCY 并发执行导出，并回收重启前中断的任务；
+// RENDER_QUEUE_IN_API=false 时渲染交给独立 worker（src/worker.ts），API 只负责入队与转发进度
+if (process.env.RENDER_QUEUE_IN_API !== "false") {
+  startRenderQueue({ storage, logger: fastify.log });
+  // 服务关闭时把执行中的任务放回队列，与 worker 的退出处理一致
+  fastify.addHook("onClose", async () => {
+    await stopRenderQueue();
+  });
+} else {
+  startTaskUpdateRelay(fastify.log);
+}
+
 try {
   // 启动服务，监听在所有 IPv4 网卡上的指定端口（默认 3001）
   await fastify.listen({ port: PORT, host: "0.0.0.0" });
@@ -46,3 +66,17 @@ try {
   fastify.log.error(err);
   process.exit(1);
 }
+
+// 收到退出信号时先关闭服务（触发 onClose 停止渲染队列），再退出进程
+let shuttingDown = false;
+const shutdown = (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  fastify.log.info(`收到 ${signal}，正在关闭服务…`);
+  fastify
+    .close()
+    .catch((err) => fastify.log.error(err))
+    .finally(() => process.exit(0));
+};
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
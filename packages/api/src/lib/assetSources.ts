@@ -0,0 +1,286 @@
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { randomUUID } from "node:crypto";
+import { createCanvas, Image } from "@napi-rs/canvas";
+import type { StorageAdapter } from "@vitecut/storage";
+import type { RenderAsset, RenderProject } from "../types.js";
+import { isUserMediaObject } from "./mediaLibrary.js";
+import { RESOLVED_ASSET_DIR_PREFIX } from "./renderGraph.js";
+
+/**
+ * 渲染前解析素材地址，使 ffmpeg 只需面对 http(s) URL 与本地临时文件：
+ * - http(s) URL 直接交给 ffmpeg 读取（SVG 除外）；
+ * - data URL 解码为临时文件（ElementsPanel 的形状、表情为 SVG data URL）；
+ * - 不带协议的地址视为存储对象 key，须为任务所属用户媒体库中的对象，
+ *   经 StorageAdapter.getBuffer 下载为临时文件（避免凭 key 读取其他用户的素材）；
+ * - SVG 一律光栅化为 PNG（ffmpeg 通常不含 SVG 解码器）；
+ * - blob: 地址只在浏览器内有效，服务器本地路径出于安全考虑不直接读取，均视为无法解析。
+ *
+ * 任一被片段引用的素材无法解析时整体失败，错误信息列出所有失败的素材，
+ * 避免导出结果悄悄缺少预览中可见的元素。
+ */
+
+/** 解析后的工程与临时文件清理函数 */
+export interface ResolvedRenderProject {
+  /** 素材 source 已替换为可读地址的工程 */
+  project: RenderProject;
+  /** 删除解析过程中生成的临时文件，渲染结束后调用 */
+  cleanup: () => void;
+}
+
+/** 光栅化 SVG 的目标尺寸（通常为导出分辨率） */
+export interface RasterSize {
+  width: number;
+  height: number;
+}
+
+/** data URL 的 MIME 类型对应的临时文件扩展名（ffmpeg 按内容探测格式，扩展名仅作参考） */
+const EXT_BY_MIME: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "video/quicktime": ".mov",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/wav": ".wav",
+  "audio/ogg": ".ogg",
+  "audio/webm": ".webm",
+};
+
+/** 素材地址无法解析的原因 */
+class UnresolvableSourceError extends Error {}
+
+/** 是否为带协议的地址（如 https:、data:、blob:） */
+function hasScheme(source: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(source);
+}
+
+/** 解码 data URL，返回 MIME 类型与内容 */
+function decodeDataUrl(source: string): { mime: string; buffer: Buffer } {
+  const comma = source.indexOf(",");
+  if (comma < 0) {
+    throw new UnresolvableSourceError("data URL 格式错误");
+  }
+  const meta = source.slice("data:".length, comma).split(";");
+  const data = source.slice(comma + 1);
+  const mime = (meta[0] || "text/plain").toLowerCase();
+  try {
+    const buffer = meta.includes("base64")
+      ? Buffer.from(data, "base64")
+      : Buffer.from(decodeURIComponent(data), "utf-8");
+    return { mime, buffer };
+  } catch {
+    throw new UnresolvableSourceError("data URL 解码失败");
+  }
+}
+
+/** 按内容判断是否为 SVG（跳过 XML 声明、注释与空白） */
+function isSvgBuffer(buffer: Buffer): boolean {
+  const head = buffer.subarray(0, 1024).toString("utf-8").trimStart();
+  if (!head.startsWith("<")) return false;
+  return /<svg[\s>]/i.test(head);
+}
+
+/**
+ * 把 SVG 光栅化为 PNG：保持原始宽高比，放大到恰好覆盖目标尺寸，
+ * 图层再由 ffmpeg 缩放到实际大小，避免位图放大后模糊。
+ */
+async function rasterizeSvg(
+  buffer: Buffer,
+  size: RasterSize,
+  outputPath: string
+): Promise<void> {
+  const probe = new Image();
+  probe.src = buffer;
+  const naturalW = probe.naturalWidth || probe.width;
+  const naturalH = probe.naturalHeight || probe.height;
+  if (!(naturalW > 0 && naturalH > 0)) {
+    throw new UnresolvableSourceError("SVG 无法解析");
+  }
+  const scale = Math.max(size.width / naturalW, size.height / naturalH);
+  const w = Math.max(1, Math.round(naturalW * scale));
+  const h = Math.max(1, Math.round(naturalH * scale));
+
+  // 先设置宽高再加载，SVG 按目标尺寸矢量绘制
+  const image = new Image();
+  image.width = w;
+  image.height = h;
+  image.src = buffer;
+  const canvas = createCanvas(w, h);
+  canvas.getContext("2d").drawImage(image, 0, 0, w, h);
+  await fs.promises.writeFile(outputPath, await canvas.encode("png"));
+}
+
+/** 解析单个素材地址的上下文 */
+interface ResolveContext {
+  /** 任务所属用户，存储对象 key 只能引用该用户的媒体 */
+  userId: string;
+  storage: StorageAdapter;
+  size: RasterSize;
+  /** 临时文件目录，首次写入时创建 */
+  tempDir: string;
+}
+
+/** 把素材内容写入临时文件（SVG 光栅化为 PNG），返回文件路径 */
+async function writeTempFile(
+  ctx: ResolveContext,
+  asset: RenderAsset,
+  buffer: Buffer,
+  ext: string
+): Promise<string> {
+  await fs.promises.mkdir(ctx.tempDir, { recursive: true });
+  const base = path.join(ctx.tempDir, asset.id.replace(/\W/g, "_"));
+  if (asset.kind === "image" && (ext === ".svg" || isSvgBuffer(buffer))) {
+    const outputPath = `${base}.png`;
+    await rasterizeSvg(buffer, ctx.size, outputPath);
+    return outputPath;
+  }
+  const outputPath = `${base}${ext}`;
+  await fs.promises.writeFile(outputPath, buffer);
+  return outputPath;
+}
+
+/** 下载 http(s) 地址的内容 */
+async function fetchBuffer(url: string): Promise<Buffer> {
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch {
+    throw new UnresolvableSourceError("下载失败");
+  }
+  if (!res.ok) {
+    throw new UnresolvableSourceError(`下载失败（HTTP ${res.status}）`);
+  }
+  return Buffer.from(await res.arrayBuffer());
+}
+
+/**
+ * 解析单个素材地址
+ * @returns ffmpeg 可读取的 http(s) URL 或本地临时文件路径
+ * @throws UnresolvableSourceError 无法解析时抛出，message 为原因
+ */
+async function resolveSource(
+  ctx: ResolveContext,
+  asset: RenderAsset
+): Promise<string> {
+  const source = asset.source.trim();
+  if (!source) {
+    throw new UnresolvableSourceError("地址为空");
+  }
+
+  if (/^https?:\/\//i.test(source)) {
+    const isSvg = /\.svg$/i.test(source.split(/[?#]/)[0]);
+    if (asset.kind !== "image" || !isSvg) return source;
+    return writeTempFile(ctx, asset, await fetchBuffer(source), ".svg");
+  }
+
+  if (/^data:/i.test(source)) {
+    const { mime, buffer } = decodeDataUrl(source);
+    return writeTempFile(ctx, asset, buffer, EXT_BY_MIME[mime] ?? ".bin");
+  }
+
+  if (/^blob:/i.test(source)) {
+    throw new UnresolvableSourceError(
+      "blob 地址仅在浏览器内有效，请重新上传素材"
+    );
+  }
+
+  if (hasScheme(source) || path.isAbsolute(source)) {
+    throw new UnresolvableSourceError("不支持的地址类型");
+  }
+
+  // 存储对象 key：只允许读取该用户媒体库中的对象
+  if (!(await isUserMediaObject(ctx.userId, source))) {
+    throw new UnresolvableSourceError("不是当前用户媒体库中的素材");
+  }
+  let buffer: Buffer;
+  try {
+    buffer = Buffer.from(await ctx.storage.getBuffer(source));
+  } catch {
+    throw new UnresolvableSourceError("存储中不存在该对象");
+  }
+  return writeTempFile(ctx, asset, buffer, path.extname(source).toLowerCase());
+}
+
+/** 错误信息中素材地址的简短展示（data URL 只保留类型） */
+function describeSource(source: string): string {
+  if (/^data:/i.test(source)) {
+    const end = source.search(/[;,]/);
+    return `${end > 0 ? source.slice(0, end) : "data:"}…`;
+  }
+  return source.length > 80 ? `${source.slice(0, 77)}…` : source;
+}
+
+/**
+ * 解析工程中被片段引用的素材地址（文本素材无需解析）。
+ * @param userId 任务所属用户，存储对象 key 须属于该用户的媒体库
+ * @param size SVG 光栅化的目标尺寸，通常为导出分辨率
+ * @throws 有素材无法解析时抛错，message 列出全部失败的素材及原因
+ */
+export async function resolveAssetSources(
+  project: RenderProject,
+  userId: string,
+  storage: StorageAdapter,
+  size: RasterSize,
+  signal?: AbortSignal
+): Promise<ResolvedRenderProject> {
+  const ctx: ResolveContext = {
+    userId,
+    storage,
+    size,
+    tempDir: path.join(
+      os.tmpdir(),
+      `${RESOLVED_ASSET_DIR_PREFIX}${randomUUID()}`
+    ),
+  };
+  const cleanup = () => {
+    fs.rmSync(ctx.tempDir, { recursive: true, force: true });
+  };
+
+  const usedAssetIds = new Set(
+    project.tracks.flatMap((t) => t.clips.map((c) => c.assetId))
+  );
+  const resolved = new Map<string, string>();
+  const failures: string[] = [];
+  try {
+    for (const asset of project.assets) {
+      if (asset.kind === "text" || !usedAssetIds.has(asset.id)) continue;
+      signal?.throwIfAborted();
+      try {
+        resolved.set(asset.id, await resolveSource(ctx, asset));
+      } catch (err) {
+        if (!(err instanceof UnresolvableSourceError)) throw err;
+        failures.push(
+          `${asset.kind} ${asset.id}（${describeSource(asset.source)}）：${err.message}`
+        );
+      }
+    }
+  } catch (err) {
+    cleanup();
+    throw err;
+  }
+
+  if (failures.length > 0) {
+    cleanup();
+    throw new Error(
+      `以下 ${failures.length} 个素材无法读取，导出已终止：\n${failures.join("\n")}`
+    );
+  }
+
+  return {
+    project: {
+      ...project,
+      assets: project.assets.map((asset) =>
+        resolved.has(asset.id)
+          ? { ...asset, source: resolved.get(asset.id)! }
+          : asset
+      ),
+    },
+    cleanup,
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ExportOptions, RenderProject } from "../types.js";
+import { getClipColorFilters } from "./clipColorFilters.js";
+import { buildRenderGraph } from "./renderGraph.js";
+
+describe("getClipColorFilters", () => {
+  it("默认值或缺省参数不产生滤镜", () => {
+    assert.deepEqual(getClipColorFilters(undefined, 1), []);
+    assert.deepEqual(
+      getClipColorFilters(
+        {
+          brightness: 100,
+          contrast: 100,
+          saturation: 100,
+          hueRotate: 360,
+          blur: 0,
+        },
+        1
+      ),
+      []
+    );
+  });
+
+  it("亮度与对比度合并为一条 lutrgb", () => {
+    const expr = "(val*1.5-128)*0.8+128";
+    assert.deepEqual(
+      getClipColorFilters({ brightness: 150, contrast: 80 }, 1),
+      [`lutrgb=r='${expr}':g='${expr}':b='${expr}'`]
+    );
+  });
+
+  it("饱和度、色相、模糊依次对应 eq / hue / gblur", () => {
+    assert.deepEqual(
+      getClipColorFilters({ saturation: 50, hueRotate: 90, blur: 4 }, 1),
+      ["eq=saturation=0.5", "hue=h=90", "gblur=sigma=4"]
+    );
+  });
+
+  it("模糊半径按导出像素比例换算", () => {
+    assert.deepEqual(getClipColorFilters({ blur: 3 }, 1.5), [
+      "gblur=sigma=4.5",
+    ]);
+  });
+
+  it("超出范围的值截断，非法值按默认值处理", () => {
+    const expr = "(val*2-128)*0+128";
+    assert.deepEqual(
+      getClipColorFilters(
+        { brightness: 500, contrast: -20, saturation: "abc", blur: 99 },
+        1
+      ),
+      [`lutrgb=r='${expr}':g='${expr}':b='${expr}'`, "gblur=sigma=30"]
+    );
+  });
+});
+
+describe("buildRenderGraph 画面调整", () => {
+  const options: ExportOptions = {
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    title: "test",
+    format: "mp4",
+    videoBitrateKbps: 8000,
+    videoCodec: "h264",
+    audioCodec: "aac",
+    audioBitrateKbps: 192,
+    audioSampleRate: 48000,
+  };
+
+  it("图片图层在缩放之后、变换之前应用画面调整", () => {
+    const project: RenderProject = {
+      id: "p1",
+      name: "test",
+      version: 1,
+      fps: 30,
+      width: 1280,
+      height: 720,
+      duration: 5,
+      assets: [
+        {
+          id: "img",
+          source: "https://cdn.example.com/img.png",
+          kind: "image",
+        },
+      ],
+      tracks: [
+        {
+          id: "t1",
+          kind: "video",
+          order: 0,
+          clips: [
+            {
+              id: "c1",
+              trackId: "t1",
+              assetId: "img",
+              kind: "image",
+              start: 0,
+              end: 5,
+              transform: { opacity: 0.5 },
+              params: { saturation: 0, hueRotate: 180, blur: 2 },
+            },
+          ],
+        },
+      ],
+    };
+
+    const graph = buildRenderGraph(project, options, "/tmp/black.png");
+    const imageChain = graph.filterComplex
+      .split(";")
+      .find((chain) => chain.startsWith("[1:v]loop="));
+    assert.ok(imageChain);
+    const filters = imageChain.replace(/\[[^\]]+\]$/, "").split(",");
+    const scaleIndex = filters.findIndex((f) => f.startsWith("scale="));
+    // 工程 1280 → 导出 1920，模糊半径 2 换算为 3
+    assert.deepEqual(filters.slice(scaleIndex + 1, scaleIndex + 4), [
+      "eq=saturation=0",
+      "hue=h=180",
+      "gblur=sigma=3",
+    ]);
+    assert.ok(
+      filters.slice(scaleIndex + 4).some((f) => f.includes("colorchannelmixer"))
+    );
+  });
+});
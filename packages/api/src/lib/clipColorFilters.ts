@@ -0,0 +1,44 @@
+import { getClipColorAdjustments } from "@vitecut/project/clip-color";
+import { ff } from "./ffmpegFormat.js";
+
+/**
+ * 将画面调整参数转换为 ffmpeg 滤镜链，视频与图片图层共用。
+ * 参数解析与取值范围见 @vitecut/project 的 getClipColorAdjustments（与预览共用）。
+ *
+ * 对应关系（按 CSS filter 的应用顺序）：
+ * - brightness/contrast → lutrgb：CSS 中二者均为逐通道乘法（contrast 以 0.5 为中心），
+ *   eq 的 brightness 是加法偏移，无法还原，因此合并为一条逐通道查找表
+ * - saturation → eq=saturation
+ * - hueRotate → hue=h
+ * - blur → gblur，sigma 按 工程像素 × pixelScale 换算到导出分辨率
+ *
+ * @param params clip.params
+ * @param pixelScale 导出像素 / 工程像素
+ * @returns 滤镜列表；全部为默认值时为空数组
+ */
+export function getClipColorFilters(
+  params: unknown,
+  pixelScale: number
+): string[] {
+  const adj = getClipColorAdjustments(params);
+  const filters: string[] = [];
+
+  const b = adj.brightness / 100;
+  const c = adj.contrast / 100;
+  if (b !== 1 || c !== 1) {
+    // out = ((in × b) - 128) × c + 128；lut 类滤镜会自动截断到 0~255
+    const expr = `(val*${ff(b)}-128)*${ff(c)}+128`;
+    filters.push(`lutrgb=r='${expr}':g='${expr}':b='${expr}'`);
+  }
+  if (adj.saturation !== 100) {
+    filters.push(`eq=saturation=${ff(adj.saturation / 100)}`);
+  }
+  if (adj.hueRotate !== 0 && adj.hueRotate !== 360) {
+    filters.push(`hue=h=${ff(adj.hueRotate)}`);
+  }
+  const sigma = adj.blur * pixelScale;
+  if (sigma > 0) {
+    filters.push(`gblur=sigma=${ff(sigma, 2)}`);
+  }
+  return filters;
+}
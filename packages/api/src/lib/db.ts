@@ -1,4 +1,4 @@
-import mysql from "mysql2/promise";
+import mysql, { type Connection, type PoolConnection } from "mysql2/promise";
 
 // 创建 MySQL 连接池（全局唯一，供整个项目复用，提高连接效率）
 const pool = mysql.createPool({
@@ -15,11 +15,35 @@ const pool = mysql.createPool({
 // 导出pool为 db（统一项目中数据库访问写法）
 export { pool as db };
 
+/** 可执行查询的对象：连接池或事务中的连接（仓储函数默认使用连接池） */
+export type Queryable = Pick<Connection, "query">;
+
+/**
+ * 在同一个事务中执行 fn：fn 内的查询需使用传入的连接，
+ * fn 正常返回时提交，抛错时回滚并继续抛出。
+ */
+export async function withTransaction<T>(
+  fn: (conn: PoolConnection) => Promise<T>
+): Promise<T> {
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const result = await fn(conn);
+    await conn.commit();
+    return result;
+  } catch (err) {
+    await conn.rollback().catch(() => undefined);
+    throw err;
+  } finally {
+    conn.release();
+  }
+}
+
 /**
  * 数据库初始化函数（一般项目启动时调用，仅需调用一次）
  * 包括：
  * 1. 若目标数据库不存在则自动创建数据库
- * 2. 自动建表：users、media、tasks 三个核心表
+ * 2. 自动建表：users、media、tasks、workflows、projects、project_revisions、export_presets 等核心表
  * 3. 自动创建常用索引，加速常用查询（如类型/用户/更新时间等）
  */
 export async function initDb(): Promise<void> {
@@ -93,6 +117,7 @@ export async function initDb(): Promise<void> {
       progress INT NULL,                         -- 进度（百分比）
       message TEXT NULL,                         -- 错误消息/运行日志
       results TEXT NULL,                         -- 任务结果(JSON)
+      payload LONGTEXT NULL,                     -- 排队中的渲染请求(JSON)，任务结束后清空
       created_at BIGINT NOT NULL,                -- 创建时间（ms）
       updated_at BIGINT NOT NULL                 -- 最后更新时间（ms）
     )
@@ -113,6 +138,52 @@ export async function initDb(): Promise<void> {
     )
   `);
 
+  // projects 剪辑工程表（存储 @vitecut/project serializeProject 的输出，按用户隔离）
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS projects (
+      id VARCHAR(64) PRIMARY KEY,               -- 工程唯一ID（与工程数据中的 project.id 一致）
+      user_id VARCHAR(36) NOT NULL,             -- 归属用户ID
+      name VARCHAR(128) NOT NULL,               -- 工程名称
+      version INT NOT NULL,                     -- 工程 schema 版本号
+      data_json LONGTEXT NOT NULL,              -- 序列化后的工程数据（JSON 字符串）
+      created_at BIGINT NOT NULL,               -- 创建时间（ms）
+      updated_at BIGINT NOT NULL                -- 更新时间（ms）
+    )
+  `);
+
+  // project_revisions 工程修订表（每次保存/恢复生成一条不可变快照，用于回溯历史版本）
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS project_revisions (
+      id VARCHAR(36) PRIMARY KEY,               -- 修订唯一ID
+      project_id VARCHAR(64) NOT NULL,          -- 所属工程ID
+      author_id VARCHAR(36) NOT NULL,           -- 作者用户ID
+      author_name VARCHAR(64) NOT NULL,         -- 作者用户名（冗余存储，便于列表展示）
+      label VARCHAR(128) NULL,                  -- 修订标签（可空，如“初剪定稿”）
+      restored_from VARCHAR(36) NULL,           -- 由哪条修订恢复而来（可空）
+      version INT NOT NULL,                     -- 工程 schema 版本号
+      data_json LONGTEXT NOT NULL,              -- 序列化后的工程数据（JSON 字符串）
+      created_at BIGINT NOT NULL                -- 创建时间（ms）
+    )
+  `);
+
+  // export_presets 用户自建的导出预设（内置平台预设定义在 exportPresetRepository.ts，不入库）
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS export_presets (
+      id VARCHAR(64) PRIMARY KEY,               -- 预设唯一ID
+      user_id VARCHAR(36) NOT NULL,             -- 归属用户ID
+      name VARCHAR(128) NOT NULL,               -- 预设名称
+      platform VARCHAR(64) NULL,                -- 对应的画布平台预设（如 douyin-9:16，可空）
+      options_json JSON NOT NULL,               -- 导出参数(JSON对象)
+      created_at BIGINT NOT NULL,               -- 创建时间（ms）
+      updated_at BIGINT NOT NULL                -- 更新时间（ms）
+    )
+  `);
+
+  // 旧库补列：tasks.payload 供渲染队列持久化排队中的导出请求（列已存在时忽略错误）
+  await pool
+    .query("ALTER TABLE tasks ADD COLUMN payload LONGTEXT NULL AFTER results")
+    .catch(() => {});
+
   // 创建常用索引（MySQL 不支持 IF NOT EXISTS，所以catch忽略重复错误即可）
   // 加快常见筛选条件查询：媒体类型、媒体添加时间、媒体归属用户、任务归属用户、任务更新时间
   await pool
@@ -130,6 +201,9 @@ export async function initDb(): Promise<void> {
   await pool
     .query("CREATE INDEX idx_tasks_updated_at ON tasks(updated_at)") // 按更新时间查任务
     .catch(() => {});
+  await pool
+    .query("CREATE INDEX idx_tasks_type_status ON tasks(type, status)") // 渲染队列按类型和状态取任务
+    .catch(() => {});
   await pool
     .query(
       "CREATE INDEX idx_workflows_user_updated ON workflows(user_id, updated_at)"
@@ -143,4 +217,19 @@ export async function initDb(): Promise<void> {
   await pool
     .query("CREATE INDEX idx_workflows_user_name ON workflows(user_id, name)") // 按用户和名称搜索工作流
     .catch(() => {});
+  await pool
+    .query(
+      "CREATE INDEX idx_projects_user_updated ON projects(user_id, updated_at)"
+    ) // 按用户和更新时间查询工程
+    .catch(() => {});
+  await pool
+    .query(
+      "CREATE INDEX idx_project_revisions_project_created ON project_revisions(project_id, created_at)"
+    ) // 按工程和时间查询修订
+    .catch(() => {});
+  await pool
+    .query(
+      "CREATE INDEX idx_export_presets_user_updated ON export_presets(user_id, updated_at)"
+    ) // 按用户和更新时间查询导出预设
+    .catch(() => {});
 }
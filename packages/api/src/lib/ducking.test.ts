@@ -0,0 +1,164 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  RenderProject,
+  RenderTrack,
+  RenderTrackDucking,
+} from "../types.js";
+import {
+  applyDuckingToMix,
+  buildSidechainCompress,
+  getActiveDuckings,
+} from "./ducking.js";
+
+const DUCKING: RenderTrackDucking = {
+  sourceTrackId: "vo",
+  threshold: -36,
+  amount: 12,
+  attack: 20,
+  release: 400,
+};
+
+const COMPRESS =
+  "sidechaincompress=threshold=0.015849:ratio=20:attack=20:release=400:mix=0.7488";
+
+function audioTrack(id: string, ducking?: RenderTrackDucking): RenderTrack {
+  return { id, kind: "audio", order: 0, clips: [], ducking };
+}
+
+function project(tracks: RenderTrack[]): RenderProject {
+  return {
+    id: "p1",
+    name: "test",
+    version: 1,
+    fps: 30,
+    width: 1280,
+    height: 720,
+    duration: 10,
+    assets: [],
+    tracks,
+  };
+}
+
+describe("buildSidechainCompress", () => {
+  it("阈值 dB 换算为线性值，压低幅度换算为 mix", () => {
+    assert.equal(buildSidechainCompress(DUCKING), COMPRESS);
+  });
+
+  it("阈值 0 dB 对应线性值 1", () => {
+    assert.match(
+      buildSidechainCompress({ ...DUCKING, threshold: 0, amount: 40 }),
+      /^sidechaincompress=threshold=1:ratio=20:.*:mix=0\.99$/
+    );
+  });
+});
+
+describe("getActiveDuckings", () => {
+  it("触发轨道不存在、为自身或自身也设置了闪避时不生效", () => {
+    const result = getActiveDuckings(
+      project([
+        audioTrack("bgm", DUCKING),
+        audioTrack("vo"),
+        audioTrack("self", { ...DUCKING, sourceTrackId: "self" }),
+        audioTrack("orphan", { ...DUCKING, sourceTrackId: "missing" }),
+        // 触发轨道 bgm 自身被闪避：闪避只有一层
+        audioTrack("sfx", { ...DUCKING, sourceTrackId: "bgm" }),
+      ])
+    );
+
+    assert.deepEqual(result, [
+      { trackId: "bgm", sourceTrackId: "vo", ducking: DUCKING },
+    ]);
+  });
+
+  it("超出范围的参数截断，非法值回退为默认值", () => {
+    const [active] = getActiveDuckings(
+      project([
+        audioTrack("bgm", {
+          sourceTrackId: "vo",
+          threshold: -100,
+          amount: Number.NaN,
+          attack: 0,
+          release: 99999,
+        }),
+        audioTrack("vo"),
+      ])
+    );
+
+    assert.deepEqual(active.ducking, {
+      sourceTrackId: "vo",
+      threshold: -60,
+      amount: 12,
+      attack: 1,
+      release: 5000,
+    });
+  });
+});
+
+describe("applyDuckingToMix", () => {
+  it("没有生效的闪避时原样返回混音输入", () => {
+    const filterParts = ["[0:a]anull[a0]"];
+    const labels = applyDuckingToMix(
+      project([audioTrack("bgm", DUCKING), audioTrack("vo")]),
+      // 触发轨道没有可混音的片段
+      [{ label: "a0", trackId: "bgm" }],
+      filterParts
+    );
+
+    assert.deepEqual(labels, ["a0"]);
+    assert.deepEqual(filterParts, ["[0:a]anull[a0]"]);
+  });
+
+  it("被闪避轨道先混成总线，触发轨道 asplit 出侧链后经 sidechaincompress 压低", () => {
+    const filterParts = ["[0:a]anull[o0]"];
+    const labels = applyDuckingToMix(
+      project([
+        audioTrack("bgm", DUCKING),
+        audioTrack("vo"),
+        audioTrack("other"),
+      ]),
+      [
+        { label: "m0", trackId: "bgm" },
+        { label: "m1", trackId: "bgm" },
+        { label: "v0", trackId: "vo" },
+        { label: "o0", trackId: "other" },
+      ],
+      filterParts
+    );
+
+    assert.deepEqual(filterParts.slice(1), [
+      "[m0][m1]amix=inputs=2:duration=longest:dropout_transition=0:normalize=0[adb1]",
+      "[v0]asplit=2[asc2_0][asc2_1]",
+      "[asc2_1]apad[asc2_1p]",
+      `[adb1][asc2_1p]${COMPRESS}[ad3]`,
+    ]);
+    // 不涉及闪避的轨道在前，其后依次为被闪避轨道与触发轨道的输出
+    assert.deepEqual(labels, ["o0", "ad3", "asc2_0"]);
+  });
+
+  it("同一触发轨道闪避多条轨道时按数量拆出侧链", () => {
+    const filterParts: string[] = [];
+    const labels = applyDuckingToMix(
+      project([
+        audioTrack("bgm", DUCKING),
+        audioTrack("amb", DUCKING),
+        audioTrack("vo"),
+      ]),
+      [
+        { label: "m0", trackId: "bgm" },
+        { label: "b0", trackId: "amb" },
+        { label: "v0", trackId: "vo" },
+      ],
+      filterParts
+    );
+
+    assert.deepEqual(filterParts, [
+      "[v0]asplit=3[asc0_0][asc0_1][asc0_2]",
+      "[asc0_1]apad[asc0_1p]",
+      `[m0][asc0_1p]${COMPRESS}[ad1]`,
+      "[asc0_2]apad[asc0_2p]",
+      `[b0][asc0_2p]${COMPRESS}[ad3]`,
+    ]);
+    assert.deepEqual(labels, ["ad1", "asc0_0", "ad3"]);
+  });
+});
@@ -0,0 +1,154 @@
+import type {
+  RenderProject,
+  RenderTrack,
+  RenderTrackDucking,
+} from "../types.js";
+import { ff } from "./ffmpegFormat.js";
+
+/**
+ * 音频闪避的导出支持，生效规则与 @vitecut/project 的 ducking.ts 一致：
+ * 触发轨道必须存在、不是自身，且自身没有设置闪避（闪避只有一层）。
+ *
+ * 导出用 sidechaincompress：被闪避轨道为主输入、触发轨道为侧链。
+ * 压缩比取最大值 20，再用 mix 把压缩结果与原声按比例混合，
+ * 使压低量封顶为 amount dB，近似预览端“越过阈值即压低 amount dB”的行为。
+ */
+
+/** 各参数范围，与 @vitecut/project 的 DUCKING_PARAM_RANGES 一致 */
+const PARAM_RANGES: Record<
+  Exclude<keyof RenderTrackDucking, "sourceTrackId">,
+  { min: number; max: number; fallback: number }
+> = {
+  threshold: { min: -60, max: 0, fallback: -36 },
+  amount: { min: 1, max: 40, fallback: 12 },
+  attack: { min: 1, max: 2000, fallback: 20 },
+  release: { min: 10, max: 5000, fallback: 400 },
+};
+
+/** sidechaincompress 的最大压缩比 */
+const DUCKING_RATIO = 20;
+
+/** 生效中的闪避：被闪避轨道 id、触发轨道 id 与规范化后的参数 */
+export type ActiveDucking = {
+  trackId: string;
+  sourceTrackId: string;
+  ducking: RenderTrackDucking;
+};
+
+function normalizeDucking(ducking: RenderTrackDucking): RenderTrackDucking {
+  const next = { ...ducking };
+  for (const key of Object.keys(
+    PARAM_RANGES
+  ) as (keyof typeof PARAM_RANGES)[]) {
+    const { min, max, fallback } = PARAM_RANGES[key];
+    const value = Number(ducking[key]);
+    next[key] = Number.isFinite(value)
+      ? Math.min(max, Math.max(min, value))
+      : fallback;
+  }
+  return next;
+}
+
+/** 工程中生效的闪避设置 */
+export function getActiveDuckings(project: RenderProject): ActiveDucking[] {
+  const byId = new Map<string, RenderTrack>(
+    project.tracks.map((t) => [t.id, t])
+  );
+  const out: ActiveDucking[] = [];
+  for (const track of project.tracks) {
+    const ducking = track.ducking;
+    if (!ducking || ducking.sourceTrackId === track.id) continue;
+    const source = byId.get(ducking.sourceTrackId);
+    if (!source || source.ducking) continue;
+    out.push({
+      trackId: track.id,
+      sourceTrackId: source.id,
+      ducking: normalizeDucking(ducking),
+    });
+  }
+  return out;
+}
+
+/** 单个闪避的 sidechaincompress 滤镜参数 */
+export function buildSidechainCompress(ducking: RenderTrackDucking): string {
+  const threshold = Math.pow(10, ducking.threshold / 20);
+  const mix = 1 - Math.pow(10, -ducking.amount / 20);
+  return [
+    `sidechaincompress=threshold=${ff(threshold, 6)}`,
+    `ratio=${DUCKING_RATIO}`,
+    `attack=${ff(ducking.attack)}`,
+    `release=${ff(ducking.release)}`,
+    `mix=${ff(mix, 4)}`,
+  ].join(":");
+}
+
+/** 参与混音的一路音频及其所属轨道 */
+export type MixInput = { label: string; trackId: string };
+
+/**
+ * 在最终 amix 之前插入闪避：
+ * - 涉及闪避的轨道先把各自的片段混成一路总线；
+ * - 触发轨道总线 asplit 成“进混音的一路 + 每个被闪避轨道一路侧链”，侧链 apad 补足时长，
+ *   避免侧链提前结束导致被闪避轨道被截断；
+ * - 被闪避轨道总线与侧链经 sidechaincompress 输出。
+ * @returns 替换后的混音输入标签
+ */
+export function applyDuckingToMix(
+  project: RenderProject,
+  inputs: MixInput[],
+  filterParts: string[]
+): string[] {
+  const hasTrack = (trackId: string) =>
+    inputs.some((i) => i.trackId === trackId);
+  const rules = getActiveDuckings(project).filter(
+    (r) => hasTrack(r.trackId) && hasTrack(r.sourceTrackId)
+  );
+  if (rules.length === 0) {
+    return inputs.map((i) => i.label);
+  }
+
+  const involved = new Set(rules.flatMap((r) => [r.trackId, r.sourceTrackId]));
+  const busByTrackId = new Map<string, string>();
+  for (const trackId of involved) {
+    const labels = inputs
+      .filter((i) => i.trackId === trackId)
+      .map((i) => i.label);
+    if (labels.length === 1) {
+      busByTrackId.set(trackId, labels[0]);
+      continue;
+    }
+    const bus = `adb${filterParts.length}`;
+    filterParts.push(
+      `${labels.map((l) => `[${l}]`).join("")}amix=inputs=${labels.length}:duration=longest:dropout_transition=0:normalize=0[${bus}]`
+    );
+    busByTrackId.set(trackId, bus);
+  }
+
+  const sidechainsBySource = new Map<string, string[]>();
+  for (const sourceTrackId of new Set(rules.map((r) => r.sourceTrackId))) {
+    const count = rules.filter((r) => r.sourceTrackId === sourceTrackId).length;
+    const prefix = `asc${filterParts.length}`;
+    const outs = Array.from({ length: count + 1 }, (_, i) => `${prefix}_${i}`);
+    filterParts.push(
+      `[${busByTrackId.get(sourceTrackId)}]asplit=${count + 1}${outs.map((o) => `[${o}]`).join("")}`
+    );
+    busByTrackId.set(sourceTrackId, outs[0]);
+    sidechainsBySource.set(sourceTrackId, outs.slice(1));
+  }
+
+  for (const rule of rules) {
+    const sidechain = sidechainsBySource.get(rule.sourceTrackId)!.shift()!;
+    const padded = `${sidechain}p`;
+    const out = `ad${filterParts.length}`;
+    filterParts.push(`[${sidechain}]apad[${padded}]`);
+    filterParts.push(
+      `[${busByTrackId.get(rule.trackId)}][${padded}]${buildSidechainCompress(rule.ducking)}[${out}]`
+    );
+    busByTrackId.set(rule.trackId, out);
+  }
+
+  return [
+    ...inputs.filter((i) => !involved.has(i.trackId)).map((i) => i.label),
+    ...[...involved].map((trackId) => busByTrackId.get(trackId)!),
+  ];
+}
@@ -0,0 +1,426 @@
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+import { randomUUID } from "node:crypto";
+import { db } from "./db.js";
+import { isValidLoudnessTarget } from "./loudness.js";
+import type { ExportOptions } from "../types.js";
+
+/**
+ * 导出预设：内置的平台交付规格（代码中定义，只读）+ 用户自建预设（export_presets 表）。
+ * platform 与前端 CanvasPanel 的画布预设 value 一致（如 "douyin-9:16"），
+ * 导出弹窗据此默认选中与当前画布平台对应的预设。
+ */
+
+/** 预设保存的导出参数（标题、倍速等与单次导出相关的字段不在预设内） */
+export type ExportPresetOptions = Pick<
+  ExportOptions,
+  | "width"
+  | "height"
+  | "fps"
+  | "format"
+  | "videoBitrateKbps"
+  | "videoCodec"
+  | "audioCodec"
+  | "audioBitrateKbps"
+  | "audioSampleRate"
+  | "loudnessTarget"
+>;
+
+export interface ExportPresetRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  name: string;
+  platform: string | null;
+  options_json: string | unknown;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  /** 对应的画布平台预设 value，通用预设为 null */
+  platform: string | null;
+  /** 是否为内置预设（不可修改、删除） */
+  builtin: boolean;
+  options: ExportPresetOptions;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateExportPresetInput {
+  userId: string;
+  name: string;
+  platform?: string | null;
+  options: unknown;
+}
+
+export interface UpdateExportPresetInput {
+  name?: string;
+  platform?: string | null;
+  options?: unknown;
+}
+
+/** 内置预设 id 前缀，用户预设 id 以 ep_ 开头，不会冲突 */
+const BUILTIN_ID_PREFIX = "builtin-";
+
+/** 社交平台通用的音频参数：AAC 192 kbps / 48 kHz，响度 -14 LUFS */
+const SOCIAL_AUDIO = {
+  audioCodec: "aac",
+  audioBitrateKbps: 192,
+  audioSampleRate: 48000,
+  loudnessTarget: -14,
+} as const;
+
+/** 内置预设，按 CanvasPanel 中社交平台预设的顺序排列，最后为通用预设 */
+const BUILTIN_EXPORT_PRESETS: ExportPreset[] = (
+  [
+    {
+      id: "douyin",
+      name: "抖音 1080×1920",
+      platform: "douyin-9:16",
+      options: { width: 1080, height: 1920, videoBitrateKbps: 8000 },
+    },
+    {
+      id: "douyin-landscape",
+      name: "抖音横屏 1920×1080",
+      platform: "douyin-landscape-16:9",
+      options: { width: 1920, height: 1080, videoBitrateKbps: 8000 },
+    },
+    {
+      id: "kuaishou",
+      name: "快手 1080×1920",
+      platform: "kuaishou-9:16",
+      options: { width: 1080, height: 1920, videoBitrateKbps: 8000 },
+    },
+    {
+      id: "xiaohongshu",
+      name: "小红书 1080×1440",
+      platform: "xiaohongshu-3:4",
+      options: { width: 1080, height: 1440, videoBitrateKbps: 6000 },
+    },
+    {
+      id: "xiaohongshu-square",
+      name: "小红书方形 1080×1080",
+      platform: "xiaohongshu-square-1:1",
+      options: { width: 1080, height: 1080, videoBitrateKbps: 5000 },
+    },
+    {
+      id: "wechat-video",
+      name: "视频号 1920×1080",
+      platform: "wechat-video-16:9",
+      options: { width: 1920, height: 1080, videoBitrateKbps: 6000 },
+    },
+    {
+      id: "wechat-video-vertical",
+      name: "视频号竖屏 1080×1920",
+      platform: "wechat-video-9:16",
+      options: { width: 1080, height: 1920, videoBitrateKbps: 6000 },
+    },
+    {
+      id: "bilibili-4k",
+      name: "B站 4K HEVC",
+      platform: "bilibili-16:9",
+      options: {
+        width: 3840,
+        height: 2160,
+        fps: 60,
+        videoCodec: "hevc",
+        videoBitrateKbps: 20000,
+        audioBitrateKbps: 320,
+      },
+    },
+    {
+      id: "bilibili-vertical",
+      name: "B站竖屏 1080×1920",
+      platform: "bilibili-9:16",
+      options: { width: 1080, height: 1920, videoBitrateKbps: 8000 },
+    },
+    {
+      id: "gif-preview",
+      name: "GIF 预览",
+      platform: null,
+      options: {
+        width: 640,
+        height: 360,
+        fps: 15,
+        format: "gif",
+        videoBitrateKbps: 2500,
+        loudnessTarget: undefined,
+      },
+    },
+  ] satisfies {
+    id: string;
+    name: string;
+    platform: string | null;
+    options: Partial<ExportPresetOptions>;
+  }[]
+).map((preset) => ({
+  id: `${BUILTIN_ID_PREFIX}${preset.id}`,
+  name: preset.name,
+  platform: preset.platform,
+  builtin: true,
+  options: normalizeExportPresetOptions({
+    fps: 30,
+    format: "mp4",
+    videoCodec: "h264",
+    ...SOCIAL_AUDIO,
+    ...preset.options,
+  }),
+  createdAt: 0,
+  updatedAt: 0,
+}));
+
+export function isBuiltinExportPresetId(id: string): boolean {
+  return id.startsWith(BUILTIN_ID_PREFIX);
+}
+
+function normalizeName(name: unknown): string {
+  if (typeof name !== "string") {
+    throw new Error("name 必须是字符串");
+  }
+  const trimmed = name.trim();
+  if (trimmed.length < 1 || trimmed.length > 128) {
+    throw new Error("name 长度必须在 1 到 128 个字符之间");
+  }
+  return trimmed;
+}
+
+function normalizePlatform(platform: unknown): string | null {
+  if (platform === null || platform === undefined || platform === "") {
+    return null;
+  }
+  if (typeof platform !== "string" || platform.length > 64) {
+    throw new Error("platform 必须是不超过 64 个字符的字符串");
+  }
+  return platform;
+}
+
+function ensureInteger(
+  value: unknown,
+  fieldName: string,
+  min: number,
+  max: number
+): number {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new Error(`${fieldName} 必须是 ${min} 到 ${max} 之间的整数`);
+  }
+  return value;
+}
+
+function ensureOneOf<T extends string | number>(
+  value: unknown,
+  fieldName: string,
+  allowed: readonly T[]
+): T {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${fieldName} 必须是 ${allowed.join(" / ")} 之一`);
+  }
+  return value as T;
+}
+
+/**
+ * 校验并规范化预设的导出参数，只保留 ExportPresetOptions 中的字段。
+ * 宽高需为偶数（编码器要求），PCM 音频的码率固定为 0。
+ */
+export function normalizeExportPresetOptions(
+  value: unknown
+): ExportPresetOptions {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("options 必须是对象");
+  }
+  const obj = value as Record<string, unknown>;
+  const width = ensureInteger(obj.width, "width", 16, 7680);
+  const height = ensureInteger(obj.height, "height", 16, 7680);
+  if (width % 2 !== 0 || height % 2 !== 0) {
+    throw new Error("width、height 必须是偶数");
+  }
+  if (
+    typeof obj.fps !== "number" ||
+    !Number.isFinite(obj.fps) ||
+    obj.fps <= 0 ||
+    obj.fps > 120
+  ) {
+    throw new Error("fps 必须在 0 到 120 之间");
+  }
+  const audioCodec = ensureOneOf(obj.audioCodec, "audioCodec", [
+    "aac",
+    "pcm",
+  ] as const);
+  if (
+    obj.loudnessTarget !== undefined &&
+    obj.loudnessTarget !== null &&
+    !isValidLoudnessTarget(obj.loudnessTarget)
+  ) {
+    throw new Error("loudnessTarget 无效");
+  }
+  return {
+    width,
+    height,
+    fps: obj.fps,
+    format: ensureOneOf(obj.format, "format", ["mp4", "mov", "gif"] as const),
+    videoBitrateKbps: ensureInteger(
+      obj.videoBitrateKbps,
+      "videoBitrateKbps",
+      100,
+      200000
+    ),
+    videoCodec: ensureOneOf(obj.videoCodec, "videoCodec", [
+      "h264",
+      "hevc",
+    ] as const),
+    audioCodec,
+    audioBitrateKbps:
+      audioCodec === "pcm"
+        ? 0
+        : ensureInteger(obj.audioBitrateKbps, "audioBitrateKbps", 32, 512),
+    audioSampleRate: ensureOneOf(obj.audioSampleRate, "audioSampleRate", [
+      44100, 48000,
+    ] as const),
+    loudnessTarget:
+      typeof obj.loudnessTarget === "number" ? obj.loudnessTarget : undefined,
+  };
+}
+
+function parseJsonOptions(value: unknown): ExportPresetOptions | null {
+  try {
+    return normalizeExportPresetOptions(
+      typeof value === "string" ? (JSON.parse(value) as unknown) : value
+    );
+  } catch {
+    return null;
+  }
+}
+
+function exportPresetRowToPreset(row: ExportPresetRow): ExportPreset | null {
+  const options = parseJsonOptions(row.options_json);
+  if (!options) {
+    return null;
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    platform: row.platform,
+    builtin: false,
+    options,
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+/**
+ * 列出内置预设与用户自建预设（内置在前，自建按更新时间倒序）
+ */
+export async function listByUserId(userId: string): Promise<ExportPreset[]> {
+  const [rows] = await db.query<ExportPresetRow[]>(
+    `SELECT *
+       FROM export_presets
+      WHERE user_id = ?
+      ORDER BY updated_at DESC`,
+    [userId]
+  );
+  const presets = (rows ?? [])
+    .map((row) => exportPresetRowToPreset(row))
+    .filter((preset): preset is ExportPreset => preset !== null);
+  return [...BUILTIN_EXPORT_PRESETS, ...presets];
+}
+
+export async function findById(
+  id: string,
+  userId: string
+): Promise<ExportPreset | null> {
+  if (isBuiltinExportPresetId(id)) {
+    return BUILTIN_EXPORT_PRESETS.find((preset) => preset.id === id) ?? null;
+  }
+  const [rows] = await db.query<ExportPresetRow[]>(
+    "SELECT * FROM export_presets WHERE id = ? AND user_id = ? LIMIT 1",
+    [id, userId]
+  );
+  const row = rows?.[0];
+  return row ? exportPresetRowToPreset(row) : null;
+}
+
+export async function createExportPreset(
+  input: CreateExportPresetInput
+): Promise<ExportPreset> {
+  const id = `ep_${randomUUID().replace(/-/g, "")}`;
+  const name = normalizeName(input.name);
+  const platform = normalizePlatform(input.platform);
+  const options = normalizeExportPresetOptions(input.options);
+  const now = Date.now();
+
+  await db.query(
+    `INSERT INTO export_presets
+      (id, user_id, name, platform, options_json, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [id, input.userId, name, platform, JSON.stringify(options), now, now]
+  );
+
+  const preset = await findById(id, input.userId);
+  if (!preset) {
+    throw new Error("创建导出预设失败");
+  }
+  return preset;
+}
+
+/**
+ * 更新用户自建预设；内置预设不可修改（调用方应先用 isBuiltinExportPresetId 拦截）
+ */
+export async function updateExportPreset(
+  id: string,
+  userId: string,
+  updates: UpdateExportPresetInput
+): Promise<ExportPreset | null> {
+  if (isBuiltinExportPresetId(id)) {
+    throw new Error("内置预设不可修改");
+  }
+  const sets: string[] = [];
+  const params: unknown[] = [];
+
+  if (updates.name !== undefined) {
+    sets.push("name = ?");
+    params.push(normalizeName(updates.name));
+  }
+  if (updates.platform !== undefined) {
+    sets.push("platform = ?");
+    params.push(normalizePlatform(updates.platform));
+  }
+  if (updates.options !== undefined) {
+    sets.push("options_json = ?");
+    params.push(JSON.stringify(normalizeExportPresetOptions(updates.options)));
+  }
+
+  if (sets.length === 0) {
+    return findById(id, userId);
+  }
+
+  sets.push("updated_at = ?");
+  params.push(Date.now(), id, userId);
+
+  const [result] = await db.query(
+    `UPDATE export_presets SET ${sets.join(", ")} WHERE id = ? AND user_id = ?`,
+    params
+  );
+  const affected = (result as ResultSetHeader)?.affectedRows ?? 0;
+  if (affected === 0) {
+    return null;
+  }
+
+  return findById(id, userId);
+}
+
+export async function deleteExportPreset(
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const [result] = await db.query(
+    "DELETE FROM export_presets WHERE id = ? AND user_id = ?",
+    [id, userId]
+  );
+  const affected = (result as ResultSetHeader)?.affectedRows ?? 0;
+  return affected > 0;
+}
@@ -0,0 +1,5 @@
+/** 限制小数位，避免 FFmpeg 解析超长浮点报错 */
+export function ff(v: number, decimals = 3): string {
+  // 转字符串保留指定小数位
+  return Number(v.toFixed(decimals)).toString();
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import type ffmpeg from "fluent-ffmpeg";
+import {
+  parseTimemark,
+  trackFfmpegProgress,
+  type FfmpegProgress,
+} from "./ffmpegProgress.js";
+
+describe("parseTimemark", () => {
+  it("HH:MM:SS.xx 转为秒", () => {
+    assert.equal(parseTimemark("00:00:05.50"), 5.5);
+    assert.equal(parseTimemark("01:02:03.25"), 3723.25);
+  });
+
+  it("缺省或格式错误时返回 0", () => {
+    assert.equal(parseTimemark(undefined), 0);
+    assert.equal(parseTimemark(""), 0);
+    assert.equal(parseTimemark("N/A"), 0);
+    assert.equal(parseTimemark("00:05.50"), 0);
+    assert.equal(parseTimemark("00:aa:01.00"), 0);
+  });
+});
+
+describe("trackFfmpegProgress", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date"], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  /** 用 EventEmitter 模拟 fluent-ffmpeg 命令的 start / progress 事件 */
+  function track(duration: number) {
+    const cmd = new EventEmitter();
+    const updates: FfmpegProgress[] = [];
+    trackFfmpegProgress(
+      cmd as unknown as ffmpeg.FfmpegCommand,
+      duration,
+      (progress) => updates.push(progress)
+    );
+    return { cmd, updates };
+  }
+
+  it("按时间码 / 预期时长换算比例，并按已用时间推算剩余时间", () => {
+    const { cmd, updates } = track(20);
+    mock.timers.tick(1000);
+    cmd.emit("start");
+    mock.timers.tick(4000);
+    cmd.emit("progress", { timemark: "00:00:05.00", currentFps: 60 });
+
+    assert.deepEqual(updates, [{ ratio: 0.25, fps: 60, etaSeconds: 12 }]);
+  });
+
+  it("比例封顶为 1，进度过小时不估算剩余时间", () => {
+    const { cmd, updates } = track(100);
+    cmd.emit("start");
+    mock.timers.tick(1000);
+    cmd.emit("progress", { timemark: "00:00:01.00", currentFps: 0 });
+    cmd.emit("progress", { timemark: "00:02:00.00" });
+
+    assert.deepEqual(updates, [
+      { ratio: 0.01, fps: undefined, etaSeconds: undefined },
+      { ratio: 1, fps: undefined, etaSeconds: 0 },
+    ]);
+  });
+
+  it("预期时长无效时不监听进度", () => {
+    const { cmd } = track(0);
+    assert.equal(cmd.listenerCount("progress"), 0);
+  });
+});
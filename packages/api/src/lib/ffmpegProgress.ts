@@ -0,0 +1,61 @@
+import type ffmpeg from "fluent-ffmpeg";
+
+/**
+ * ffmpeg 进度解析：按输出时间码（timemark）与预期输出时长计算完成比例。
+ *
+ * filter_complex 合成时 fluent-ffmpeg 拿不到准确的输入时长，自带的 percent 不可靠，
+ * 因此统一用 timemark / 预期时长，并按已用时间推算剩余时间。
+ */
+
+/** 单个 ffmpeg 进程的进度 */
+export interface FfmpegProgress {
+  /** 完成比例 0~1 */
+  ratio: number;
+  /** 当前处理帧率（仅含视频时有值） */
+  fps?: number;
+  /** 预计剩余时间（秒），进度过小时无法估算 */
+  etaSeconds?: number;
+}
+
+/** 进度低于该比例时不估算剩余时间，避免开头的估算大幅跳动 */
+const MIN_RATIO_FOR_ETA = 0.02;
+
+/**
+ * ffmpeg 时间码（HH:MM:SS.xx）转为秒，无法解析时返回 0
+ */
+export function parseTimemark(timemark: string | undefined): number {
+  if (!timemark) return 0;
+  const parts = timemark.split(":").map(Number);
+  if (parts.length !== 3 || parts.some((n) => !Number.isFinite(n))) return 0;
+  const [h, m, s] = parts;
+  return Math.max(0, h * 3600 + m * 60 + s);
+}
+
+/**
+ * 监听 ffmpeg 进度并换算为 FfmpegProgress
+ * @param cmd fluent-ffmpeg 命令（需在 run 之前调用）
+ * @param duration 预期输出时长（秒）
+ */
+export function trackFfmpegProgress(
+  cmd: ffmpeg.FfmpegCommand,
+  duration: number,
+  onProgress: (progress: FfmpegProgress) => void
+): void {
+  if (!(duration > 0)) return;
+  let startedAt = Date.now();
+  cmd.on("start", () => {
+    startedAt = Date.now();
+  });
+  cmd.on("progress", (progress: { timemark?: string; currentFps?: number }) => {
+    const ratio = Math.min(1, parseTimemark(progress.timemark) / duration);
+    const elapsed = (Date.now() - startedAt) / 1000;
+    onProgress({
+      ratio,
+      fps: progress.currentFps || undefined,
+      etaSeconds:
+        ratio >= MIN_RATIO_FOR_ETA
+          ? Math.max(0, (elapsed * (1 - ratio)) / ratio)
+          : undefined,
+    });
+  });
+}
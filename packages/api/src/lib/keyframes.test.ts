@@ -0,0 +1,146 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RenderClip } from "../types.js";
+import {
+  getClipKeyframes,
+  interpolateKeyframes,
+  keyframesExpr,
+  maxAbsPropertyValue,
+  propertyExpr,
+  type Keyframe,
+} from "./keyframes.js";
+
+function clip(keyframes: RenderClip["keyframes"]): RenderClip {
+  return {
+    id: "c1",
+    trackId: "t1",
+    assetId: "a1",
+    kind: "video",
+    start: 2,
+    end: 6,
+    keyframes,
+  };
+}
+
+/**
+ * 在 JS 中求值 keyframesExpr 生成的 ffmpeg 表达式（只用到 if / lt 与四则运算）
+ */
+function evalExpr(expr: string, t: number): number {
+  const fn = new Function(
+    "t",
+    "IF",
+    "lt",
+    `return ${expr.replace(/\bif\(/g, "IF(")};`
+  ) as (
+    t: number,
+    IF: (c: boolean, a: number, b: number) => number,
+    lt: (a: number, b: number) => boolean
+  ) => number;
+  return fn(
+    t,
+    (c, a, b) => (c ? a : b),
+    (a, b) => a < b
+  );
+}
+
+const KEYFRAMES: Keyframe[] = [
+  { time: 0.5, value: 0, easing: "ease-in" },
+  { time: 1.5, value: 1, easing: "hold" },
+  { time: 2.5, value: 0.2, easing: "ease-in-out" },
+  { time: 3.5, value: 0.8 },
+];
+
+describe("interpolateKeyframes", () => {
+  it("首帧之前 / 末帧之后保持端点值，列表为空时返回 undefined", () => {
+    assert.equal(interpolateKeyframes(KEYFRAMES, 0), 0);
+    assert.equal(interpolateKeyframes(KEYFRAMES, 10), 0.8);
+    assert.equal(interpolateKeyframes([], 1), undefined);
+  });
+
+  it("按前一帧的 easing 插值", () => {
+    // ease-in：p = 0.5 → 0.25
+    assert.equal(interpolateKeyframes(KEYFRAMES, 1), 0.25);
+    // hold：保持前一帧的值直到下一帧
+    assert.equal(interpolateKeyframes(KEYFRAMES, 2.4), 1);
+    assert.equal(interpolateKeyframes(KEYFRAMES, 2.5), 0.2);
+    // ease-in-out：p = 0.25 → 0.125
+    assert.ok(
+      Math.abs(interpolateKeyframes(KEYFRAMES, 2.75)! - (0.2 + 0.6 * 0.125)) <
+        1e-9
+    );
+  });
+
+  it("未指定 easing 时线性插值", () => {
+    const linear: Keyframe[] = [
+      { time: 0, value: 10 },
+      { time: 2, value: 20 },
+    ];
+    assert.equal(interpolateKeyframes(linear, 0.5), 12.5);
+  });
+});
+
+describe("keyframesExpr", () => {
+  it("ffmpeg 表达式与 interpolateKeyframes 的取值一致", () => {
+    const expr = keyframesExpr(KEYFRAMES, "t");
+    for (let t = 0; t <= 4; t += 0.125) {
+      assert.ok(
+        Math.abs(evalExpr(expr, t) - interpolateKeyframes(KEYFRAMES, t)!) <
+          1e-3,
+        `t=${t}`
+      );
+    }
+  });
+});
+
+describe("getClipKeyframes", () => {
+  it("过滤非法项并按时间排序", () => {
+    const keyframes = getClipKeyframes(
+      clip({
+        opacity: [
+          { time: 2, value: 1 },
+          { time: "1", value: 0 },
+          null,
+          { time: 0, value: Number.NaN },
+          { time: 1, value: 0.5 },
+        ],
+      } as unknown as RenderClip["keyframes"]),
+      "opacity"
+    );
+    assert.deepEqual(keyframes, [
+      { time: 1, value: 0.5 },
+      { time: 2, value: 1 },
+    ]);
+  });
+});
+
+describe("propertyExpr", () => {
+  it("无关键帧时为静态值常量", () => {
+    assert.equal(propertyExpr(clip(undefined), "x", 12.5, "t", 2), "(12.5)");
+  });
+
+  it("按片段起点换算为相对时间", () => {
+    const c = clip({
+      x: [
+        { time: 0, value: 0 },
+        { time: 2, value: 100 },
+      ],
+    });
+    const expr = propertyExpr(c, "x", 0, "t", c.start);
+    assert.match(expr, /\(t-2\)/);
+    // 时间轴 3 秒 = 片段内 1 秒
+    assert.ok(Math.abs(evalExpr(expr, 3) - 50) < 1e-6);
+  });
+});
+
+describe("maxAbsPropertyValue", () => {
+  it("有关键帧时取关键帧绝对值的最大值，否则取静态值", () => {
+    const c = clip({
+      rotation: [
+        { time: 0, value: -270 },
+        { time: 1, value: 90 },
+      ],
+    });
+    assert.equal(maxAbsPropertyValue(c, "rotation", 10), 270);
+    assert.equal(maxAbsPropertyValue(c, "x", -40), 40);
+  });
+});
@@ -0,0 +1,187 @@
+import type { RenderClip } from "../types.js";
+import { ff } from "./ffmpegFormat.js";
+
+/**
+ * 片段关键帧的导出支持：把 @vitecut/project 的关键帧列表转成 ffmpeg 表达式。
+ *
+ * 插值规则与预览 interpolateKeyframes 一致：time 相对片段起点（时间轴秒），
+ * 两帧之间按前一帧的 easing 做二次缓动，首帧之前 / 末帧之后保持端点值。
+ */
+
+export type KeyframeEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | "hold";
+
+export interface Keyframe {
+  time: number;
+  value: number;
+  easing?: KeyframeEasing;
+}
+
+export type KeyframeProperty =
+  | "x"
+  | "y"
+  | "scaleX"
+  | "scaleY"
+  | "rotation"
+  | "opacity"
+  | "volume";
+
+/** 作用于画面变换的关键帧属性 */
+const TRANSFORM_PROPERTIES: KeyframeProperty[] = [
+  "x",
+  "y",
+  "scaleX",
+  "scaleY",
+  "rotation",
+  "opacity",
+];
+
+/** 读取片段某属性的关键帧列表（过滤非法项并按时间排序），无关键帧时返回空数组 */
+export function getClipKeyframes(
+  clip: RenderClip,
+  property: KeyframeProperty
+): Keyframe[] {
+  const all = clip.keyframes as
+    | Partial<Record<KeyframeProperty, unknown>>
+    | undefined;
+  const list = all?.[property];
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter(
+      (k): k is Keyframe =>
+        typeof k === "object" &&
+        k !== null &&
+        Number.isFinite((k as Keyframe).time) &&
+        Number.isFinite((k as Keyframe).value)
+    )
+    .sort((a, b) => a.time - b.time);
+}
+
+/** 片段是否有任意属性带关键帧 */
+export function hasClipKeyframes(clip: RenderClip): boolean {
+  return (
+    hasTransformKeyframes(clip) || getClipKeyframes(clip, "volume").length > 0
+  );
+}
+
+/** 片段是否有画面变换（位置/缩放/旋转/透明度）关键帧 */
+export function hasTransformKeyframes(clip: RenderClip): boolean {
+  return TRANSFORM_PROPERTIES.some((p) => getClipKeyframes(clip, p).length > 0);
+}
+
+/** 关键帧在 localTime（相对片段起点）处的值，与预览 interpolateKeyframes 一致 */
+export function interpolateKeyframes(
+  keyframes: Keyframe[],
+  localTime: number
+): number | undefined {
+  if (keyframes.length === 0) return undefined;
+  if (localTime <= keyframes[0].time) return keyframes[0].value;
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const a = keyframes[i];
+    const b = keyframes[i + 1];
+    if (localTime < b.time) {
+      const span = b.time - a.time;
+      const p = span > 0 ? (localTime - a.time) / span : 1;
+      return a.value + (b.value - a.value) * easeProgress(a.easing, p);
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+function easeProgress(easing: KeyframeEasing | undefined, p: number): number {
+  switch (easing) {
+    case "ease-in":
+      return p * p;
+    case "ease-out":
+      return p * (2 - p);
+    case "ease-in-out":
+      return p < 0.5 ? 2 * p * p : 1 - 2 * (1 - p) * (1 - p);
+    case "hold":
+      return 0;
+    default:
+      return p;
+  }
+}
+
+/** 缓动曲线的 ffmpeg 表达式，p 为 0~1 的线性进度表达式 */
+function easeExpr(easing: KeyframeEasing | undefined, p: string): string {
+  switch (easing) {
+    case "ease-in":
+      return `(${p})*(${p})`;
+    case "ease-out":
+      return `(${p})*(2-(${p}))`;
+    case "ease-in-out":
+      return `if(lt(${p},0.5),2*(${p})*(${p}),1-2*(1-(${p}))*(1-(${p})))`;
+    case "hold":
+      return "0";
+    default:
+      return p;
+  }
+}
+
+/**
+ * 关键帧列表的分段 ffmpeg 表达式。
+ * @param keyframes 非空、按时间升序的关键帧
+ * @param localTime 相对片段起点的时间表达式（如 "(t-2.5)"）
+ */
+export function keyframesExpr(
+  keyframes: Keyframe[],
+  localTime: string
+): string {
+  const last = keyframes[keyframes.length - 1];
+  // 从末帧向前嵌套 if(lt(T,下一帧时间),本段插值,后续)
+  let expr = `(${ff(last.value, 4)})`;
+  for (let i = keyframes.length - 2; i >= 0; i--) {
+    const a = keyframes[i];
+    const b = keyframes[i + 1];
+    const span = b.time - a.time;
+    const segment =
+      span > 0 && a.value !== b.value
+        ? `(${ff(a.value, 4)})+(${ff(b.value - a.value, 4)})*${easeExpr(
+            a.easing,
+            `(${localTime}-(${ff(a.time, 4)}))/${ff(span, 4)}`
+          )}`
+        : `(${ff(a.value, 4)})`;
+    expr = `if(lt(${localTime},${ff(b.time, 4)}),${segment},${expr})`;
+  }
+  return `if(lt(${localTime},${ff(keyframes[0].time, 4)}),(${ff(
+    keyframes[0].value,
+    4
+  )}),${expr})`;
+}
+
+/**
+ * 片段某属性的时间表达式：有关键帧时为分段表达式，否则为静态值常量。
+ * @param timeVar 所在滤镜的时间变量（多数滤镜为 t，geq 为 T），取值为时间轴时间
+ * @param clipStart 片段起点；传 0 表示 timeVar 已是相对片段起点的时间
+ */
+export function propertyExpr(
+  clip: RenderClip,
+  property: KeyframeProperty,
+  staticValue: number,
+  timeVar: string,
+  clipStart: number
+): string {
+  const keyframes = getClipKeyframes(clip, property);
+  if (keyframes.length === 0) {
+    return `(${ff(staticValue, 4)})`;
+  }
+  const localTime =
+    clipStart === 0 ? timeVar : `(${timeVar}-${ff(clipStart, 4)})`;
+  return keyframesExpr(keyframes, localTime);
+}
+
+/** 属性在片段内可能取到的最大绝对值（关键帧值与静态值中取），用于预留图层尺寸 */
+export function maxAbsPropertyValue(
+  clip: RenderClip,
+  property: KeyframeProperty,
+  staticValue: number
+): number {
+  const keyframes = getClipKeyframes(clip, property);
+  if (keyframes.length === 0) return Math.abs(staticValue);
+  return Math.max(...keyframes.map((k) => Math.abs(k.value)));
+}
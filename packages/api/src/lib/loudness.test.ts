@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildLoudnormFilter,
+  formatLoudnessReport,
+  isValidLoudnessTarget,
+  parseLoudnormOutput,
+} from "./loudness.js";
+
+/** loudnorm print_format=json 打印在 stderr 末尾的统计 */
+function loudnormStderr(stats: Record<string, string>): string {
+  return [
+    "size=N/A time=00:00:10.00 bitrate=N/A speed= 120x",
+    "[Parsed_loudnorm_0 @ 0x600000f8c000] ",
+    JSON.stringify(stats, null, "\t"),
+    "",
+  ].join("\n");
+}
+
+describe("buildLoudnormFilter", () => {
+  it("第一遍只带目标参数，末尾重采样回导出采样率", () => {
+    assert.equal(
+      buildLoudnormFilter(-14, 48000),
+      "loudnorm=I=-14:TP=-1:LRA=11:print_format=json,aresample=48000"
+    );
+  });
+
+  it("第二遍回填测量值并开启 linear 模式", () => {
+    assert.equal(
+      buildLoudnormFilter(-23.04, 44100, {
+        input_i: "-27.61",
+        input_tp: "-4.47",
+        input_lra: "18.06",
+        input_thresh: "-39.20",
+        target_offset: "0.58",
+      }),
+      "loudnorm=I=-23:TP=-1:LRA=11:measured_I=-27.61:measured_TP=-4.47:measured_LRA=18.06:measured_thresh=-39.20:offset=0.58:linear=true:print_format=json,aresample=44100"
+    );
+  });
+});
+
+describe("parseLoudnormOutput", () => {
+  it("取最后一段 loudnorm 统计", () => {
+    const stderr =
+      loudnormStderr({ input_i: "-30.00" }) +
+      loudnormStderr({ input_i: "-20.50", output_i: "-14.02" });
+    assert.deepEqual(parseLoudnormOutput(stderr), {
+      input_i: "-20.50",
+      output_i: "-14.02",
+    });
+  });
+
+  it("静音时的 -inf 原样保留为字符串", () => {
+    assert.deepEqual(parseLoudnormOutput(loudnormStderr({ input_i: "-inf" })), {
+      input_i: "-inf",
+    });
+  });
+
+  it("找不到统计或 JSON 不完整时抛错", () => {
+    assert.throws(
+      () => parseLoudnormOutput("ffmpeg version 6.1\nsize=N/A"),
+      /未能读取响度分析结果/
+    );
+    assert.throws(
+      () => parseLoudnormOutput('[Parsed_loudnorm_0 @ 0x1] {\n"input_i": }'),
+      /响度分析结果格式错误/
+    );
+  });
+});
+
+describe("isValidLoudnessTarget", () => {
+  it("只接受 -70 ~ -5 LUFS 之间的数值", () => {
+    assert.ok(isValidLoudnessTarget(-14));
+    assert.ok(isValidLoudnessTarget(-70));
+    assert.ok(isValidLoudnessTarget(-5));
+    assert.ok(!isValidLoudnessTarget(-4));
+    assert.ok(!isValidLoudnessTarget(-71));
+    assert.ok(!isValidLoudnessTarget(Number.NaN));
+    assert.ok(!isValidLoudnessTarget("-14"));
+  });
+});
+
+describe("formatLoudnessReport", () => {
+  it("按标准化后的统计生成提示", () => {
+    const stats = { integrated: -14.04, truePeak: -1.23, lra: 6.5 };
+    assert.equal(
+      formatLoudnessReport({ target: -14, input: stats, output: stats }),
+      "响度 -14.0 LUFS · 真峰值 -1.2 dBTP · LRA 6.5 LU"
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import ffmpeg from "fluent-ffmpeg";
+import { ff } from "./ffmpegFormat.js";
+import { trackFfmpegProgress, type FfmpegProgress } from "./ffmpegProgress.js";
+
+/**
+ * 响度标准化（EBU R128，两遍 loudnorm）。
+ *
+ * 第一遍只分析成片音轨，得到整体响度 / 真峰值 / 响度范围；
+ * 第二遍把测量值回填给 loudnorm 并开启 linear 模式，整体增益一次到位，
+ * 同时再输出一次统计作为标准化后的结果。视频流直接 copy，不重新编码。
+ */
+
+/** 真峰值上限（dBTP），留出有损编码的余量 */
+const TRUE_PEAK_LIMIT = -1;
+
+/** 目标响度范围（LU） */
+const LRA_TARGET = 11;
+
+/** 目标响度的允许范围（LUFS），与 loudnorm 的 I 参数一致 */
+const TARGET_RANGE = { min: -70, max: -5 };
+
+/** 一次响度统计 */
+export interface LoudnessStats {
+  /** 整体响度（LUFS） */
+  integrated: number;
+  /** 真峰值（dBTP） */
+  truePeak: number;
+  /** 响度范围（LU） */
+  lra: number;
+}
+
+/** 写入任务 results 的响度报告 */
+export interface LoudnessReport {
+  /** 目标整体响度（LUFS） */
+  target: number;
+  /** 标准化前的成片统计 */
+  input: LoudnessStats;
+  /** 标准化后的成片统计 */
+  output: LoudnessStats;
+}
+
+/** loudnorm print_format=json 输出的原始字段（数值均为字符串） */
+type LoudnormJson = Record<string, string>;
+
+/** 第一遍测量值，第二遍回填给 loudnorm */
+type LoudnormMeasurement = {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+};
+
+/** 目标响度是否合法 */
+export function isValidLoudnessTarget(target: unknown): target is number {
+  return (
+    typeof target === "number" &&
+    Number.isFinite(target) &&
+    target >= TARGET_RANGE.min &&
+    target <= TARGET_RANGE.max
+  );
+}
+
+/**
+ * 构建 loudnorm 滤镜；传入第一遍测量值时为第二遍（linear 模式）。
+ * loudnorm 内部会升采样到 192kHz，末尾重采样回导出采样率。
+ */
+export function buildLoudnormFilter(
+  target: number,
+  sampleRate: number,
+  measured?: LoudnormMeasurement
+): string {
+  const params = [
+    `I=${ff(target, 1)}`,
+    `TP=${ff(TRUE_PEAK_LIMIT, 1)}`,
+    `LRA=${ff(LRA_TARGET, 1)}`,
+  ];
+  if (measured) {
+    params.push(
+      `measured_I=${measured.input_i}`,
+      `measured_TP=${measured.input_tp}`,
+      `measured_LRA=${measured.input_lra}`,
+      `measured_thresh=${measured.input_thresh}`,
+      `offset=${measured.target_offset}`,
+      "linear=true"
+    );
+  }
+  params.push("print_format=json");
+  return `loudnorm=${params.join(":")},aresample=${sampleRate}`;
+}
+
+/**
+ * 从 ffmpeg stderr 中取出 loudnorm 打印的 JSON 统计（取最后一段）。
+ * @throws 找不到或无法解析时抛错
+ */
+export function parseLoudnormOutput(stderr: string): LoudnormJson {
+  const start = stderr.lastIndexOf("[Parsed_loudnorm");
+  const jsonStart = start >= 0 ? stderr.indexOf("{", start) : -1;
+  const jsonEnd = jsonStart >= 0 ? stderr.indexOf("}", jsonStart) : -1;
+  if (jsonStart < 0 || jsonEnd < 0) {
+    throw new Error("未能读取响度分析结果");
+  }
+  try {
+    return JSON.parse(stderr.slice(jsonStart, jsonEnd + 1)) as LoudnormJson;
+  } catch {
+    throw new Error("响度分析结果格式错误");
+  }
+}
+
+/** 把 loudnorm 的字符串统计转为数值（静音时为 -inf，按 -Infinity 处理） */
+function toStats(
+  json: LoudnormJson,
+  prefix: "input" | "output"
+): LoudnessStats {
+  const num = (key: string) => {
+    const value = json[`${prefix}_${key}`];
+    return value === "-inf" ? -Infinity : Number(value);
+  };
+  return { integrated: num("i"), truePeak: num("tp"), lra: num("lra") };
+}
+
+/** normalizeLoudness 的执行控制 */
+export interface LoudnessControl {
+  /** 取消信号，触发时结束 ffmpeg 子进程 */
+  signal?: AbortSignal;
+  /** 成片时长（秒），用于换算进度 */
+  duration?: number;
+  /** 进度回调，pass 为第几遍（1 分析 / 2 调整） */
+  onProgress?: (pass: 1 | 2, progress: FfmpegProgress) => void;
+}
+
+/**
+ * 运行 ffmpeg 并收集 stderr（loudnorm 的统计打印在 stderr 中）
+ */
+function runCollectingStderr(
+  cmd: ffmpeg.FfmpegCommand,
+  pass: 1 | 2,
+  control: LoudnessControl
+): Promise<string> {
+  const { signal, duration, onProgress } = control;
+  return new Promise((resolve, reject) => {
+    const lines: string[] = [];
+    const onAbort = () => cmd.kill("SIGKILL");
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (onProgress && duration) {
+      trackFfmpegProgress(cmd, duration, (p) => onProgress(pass, p));
+    }
+    cmd
+      .on("stderr", (line: string) => {
+        lines.push(line);
+      })
+      .on("end", () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(lines.join("\n"));
+      })
+      .on("error", (err) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(err);
+      })
+      .run();
+  });
+}
+
+/**
+ * 对已渲染的成片做两遍响度标准化，输出到 outputPath。
+ * @param inputPath 已渲染的成片（需含音轨）
+ * @param outputPath 标准化后的输出路径（扩展名与 inputPath 相同）
+ * @param audioOutputOptions 音频编码参数，与首次渲染一致
+ * @param control 取消信号与进度回调
+ * @returns 标准化前后的响度统计；成片静音时返回 null，不生成输出
+ */
+export async function normalizeLoudness(
+  inputPath: string,
+  outputPath: string,
+  target: number,
+  sampleRate: number,
+  audioOutputOptions: string[],
+  control: LoudnessControl = {}
+): Promise<LoudnessReport | null> {
+  // 第一遍：只分析音轨，丢弃输出
+  const firstPass = parseLoudnormOutput(
+    await runCollectingStderr(
+      ffmpeg(inputPath)
+        .outputOptions(["-vn", "-af", buildLoudnormFilter(target, sampleRate)])
+        .format("null")
+        .output("-"),
+      1,
+      control
+    )
+  );
+  const measured: LoudnormMeasurement = {
+    input_i: firstPass.input_i,
+    input_tp: firstPass.input_tp,
+    input_lra: firstPass.input_lra,
+    input_thresh: firstPass.input_thresh,
+    target_offset: firstPass.target_offset,
+  };
+  if (Object.values(measured).some((v) => !Number.isFinite(Number(v)))) {
+    // 成片为静音（测量值为 -inf）时无从标准化，保留原片
+    return null;
+  }
+
+  // 第二遍：按测量值线性调整增益，视频流直接复制
+  const secondPass = parseLoudnormOutput(
+    await runCollectingStderr(
+      ffmpeg(inputPath)
+        .outputOptions([
+          "-map",
+          "0:v?",
+          "-map",
+          "0:a",
+          "-c:v",
+          "copy",
+          "-af",
+          buildLoudnormFilter(target, sampleRate, measured),
+          ...audioOutputOptions,
+          "-movflags",
+          "+faststart",
+        ])
+        .output(outputPath),
+      2,
+      control
+    )
+  );
+  return {
+    target,
+    input: toStats(firstPass, "input"),
+    output: toStats(secondPass, "output"),
+  };
+}
+
+/** 响度报告的简短描述，用作任务完成后的提示信息 */
+export function formatLoudnessReport(report: LoudnessReport): string {
+  const { integrated, truePeak, lra } = report.output;
+  return `响度 ${integrated.toFixed(1)} LUFS · 真峰值 ${truePeak.toFixed(1)} dBTP · LRA ${lra.toFixed(1)} LU`;
+}
@@ -228,6 +228,23 @@ export async function getRecord(id: string): Promise<MediaRecord | null> {
   return row ? rowToRecord(row as Record<string, unknown>) : null;
 }
 
+/**
+ * 判断存储对象是否为指定用户媒体库中的素材
+ * @param userId 用户id
+ * @param objectKey 存储对象key（即媒体记录的 filename）
+ * @returns 存在属于该用户的媒体记录时返回true
+ */
+export async function isUserMediaObject(
+  userId: string,
+  objectKey: string
+): Promise<boolean> {
+  const [rows] = await db.query<RowDataPacket[]>(
+    "SELECT id FROM media WHERE filename = ? AND user_id = ? LIMIT 1",
+    [objectKey, userId]
+  );
+  return (rows?.length ?? 0) > 0;
+}
+
 /**
  * 更新媒体记录（仅支持duration和name字段）
  * @param id 媒体记录id
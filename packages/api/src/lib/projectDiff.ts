@@ -0,0 +1,199 @@
+/**
+ * 工程修订对比：在轨道 / 片段粒度比较两份 serializeProject 输出。
+ *
+ * 服务端不依赖 @vitecut/project 的运行时代码，这里只按 id 匹配轨道与片段，
+ * 对其余字段做结构比较，返回发生变化的字段名。
+ */
+
+type JsonRecord = Record<string, unknown>;
+
+export interface TrackSummary {
+  id: string;
+  name?: string;
+  kind?: string;
+}
+
+export interface ClipSummary {
+  id: string;
+  trackId: string;
+  kind?: string;
+  assetId?: string;
+  start?: number;
+  end?: number;
+}
+
+export interface TrackChange extends TrackSummary {
+  /** 发生变化的轨道字段（不含 clips） */
+  fields: string[];
+}
+
+export interface ClipChange extends ClipSummary {
+  /** 修改前所在轨道（移动到其他轨道时与 trackId 不同） */
+  fromTrackId: string;
+  /** 发生变化的片段字段，如 start / end / transform / params */
+  fields: string[];
+}
+
+export interface ProjectDiff {
+  /** 发生变化的工程级字段（不含 assets / tracks） */
+  project: string[];
+  tracks: {
+    added: TrackSummary[];
+    removed: TrackSummary[];
+    changed: TrackChange[];
+  };
+  clips: {
+    added: ClipSummary[];
+    removed: ClipSummary[];
+    changed: ClipChange[];
+  };
+}
+
+/** 元数据字段每次保存都会变化，不参与对比 */
+const IGNORED_PROJECT_FIELDS = new Set([
+  "id",
+  "createdAt",
+  "updatedAt",
+  "assets",
+  "tracks",
+]);
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** 与键顺序无关的结构相等判断 */
+function isEqualJson(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqualJson(v, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqualJson(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+function changedFields(
+  before: JsonRecord,
+  after: JsonRecord,
+  ignored: Set<string>
+): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter((key) => !ignored.has(key))
+    .filter((key) => !isEqualJson(before[key], after[key]))
+    .sort();
+}
+
+function parseProject(data: string): JsonRecord {
+  const parsed: unknown = JSON.parse(data);
+  if (!isRecord(parsed)) {
+    throw new Error("工程数据必须是对象");
+  }
+  return parsed;
+}
+
+function toTrackSummary(track: JsonRecord): TrackSummary {
+  return {
+    id: String(track.id),
+    name: typeof track.name === "string" ? track.name : undefined,
+    kind: typeof track.kind === "string" ? track.kind : undefined,
+  };
+}
+
+function toClipSummary(clip: JsonRecord, trackId: string): ClipSummary {
+  return {
+    id: String(clip.id),
+    trackId,
+    kind: typeof clip.kind === "string" ? clip.kind : undefined,
+    assetId: typeof clip.assetId === "string" ? clip.assetId : undefined,
+    start: typeof clip.start === "number" ? clip.start : undefined,
+    end: typeof clip.end === "number" ? clip.end : undefined,
+  };
+}
+
+/** 收集轨道与片段，按 id 建索引 */
+function indexProject(project: JsonRecord): {
+  tracks: Map<string, JsonRecord>;
+  clips: Map<string, { clip: JsonRecord; trackId: string }>;
+} {
+  const tracks = new Map<string, JsonRecord>();
+  const clips = new Map<string, { clip: JsonRecord; trackId: string }>();
+  const rawTracks = Array.isArray(project.tracks) ? project.tracks : [];
+  for (const track of rawTracks) {
+    if (!isRecord(track) || typeof track.id !== "string") continue;
+    tracks.set(track.id, track);
+    const rawClips = Array.isArray(track.clips) ? track.clips : [];
+    for (const clip of rawClips) {
+      if (!isRecord(clip) || typeof clip.id !== "string") continue;
+      clips.set(clip.id, { clip, trackId: track.id });
+    }
+  }
+  return { tracks, clips };
+}
+
+/**
+ * 对比两份序列化的工程数据。
+ * @param beforeData 旧修订的工程 JSON
+ * @param afterData 新修订的工程 JSON
+ */
+export function diffProjects(
+  beforeData: string,
+  afterData: string
+): ProjectDiff {
+  const before = parseProject(beforeData);
+  const after = parseProject(afterData);
+  const a = indexProject(before);
+  const b = indexProject(after);
+
+  const diff: ProjectDiff = {
+    project: changedFields(before, after, IGNORED_PROJECT_FIELDS),
+    tracks: { added: [], removed: [], changed: [] },
+    clips: { added: [], removed: [], changed: [] },
+  };
+
+  for (const [id, track] of b.tracks) {
+    const prev = a.tracks.get(id);
+    if (!prev) {
+      diff.tracks.added.push(toTrackSummary(track));
+      continue;
+    }
+    const fields = changedFields(prev, track, new Set(["id", "clips"]));
+    if (fields.length > 0) {
+      diff.tracks.changed.push({ ...toTrackSummary(track), fields });
+    }
+  }
+  for (const [id, track] of a.tracks) {
+    if (!b.tracks.has(id)) {
+      diff.tracks.removed.push(toTrackSummary(track));
+    }
+  }
+
+  for (const [id, { clip, trackId }] of b.clips) {
+    const prev = a.clips.get(id);
+    if (!prev) {
+      diff.clips.added.push(toClipSummary(clip, trackId));
+      continue;
+    }
+    // 片段上的 trackId 字段与所在轨道一致，移动轨道时会体现在 fields 中
+    const fields = changedFields(prev.clip, clip, new Set(["id"]));
+    if (fields.length > 0) {
+      diff.clips.changed.push({
+        ...toClipSummary(clip, trackId),
+        fromTrackId: prev.trackId,
+        fields,
+      });
+    }
+  }
+  for (const [id, { clip, trackId }] of a.clips) {
+    if (!b.clips.has(id)) {
+      diff.clips.removed.push(toClipSummary(clip, trackId));
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,238 @@
+import type { RowDataPacket, ResultSetHeader } from "mysql2";
+import { db, type Queryable } from "./db.js";
+
+export interface ProjectRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  name: string;
+  version: number;
+  data_json: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ProjectListItem {
+  id: string;
+  name: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectDetail extends ProjectListItem {
+  userId: string;
+  /** serializeProject 的输出，原样返回由前端 deserializeProject 迁移与校验 */
+  data: string;
+}
+
+export interface ProjectListOptions {
+  limit?: number;
+  offset?: number;
+  search?: string;
+}
+
+export interface CreateProjectInput {
+  userId: string;
+  name: string;
+  data: string;
+}
+
+export interface UpdateProjectInput {
+  name?: string;
+  data?: string;
+}
+
+/** 工程数据中服务端关心的字段 */
+export interface ProjectDataSummary {
+  id: string;
+  version: number;
+}
+
+/**
+ * 粗略检查序列化后的工程数据：必须是含 id、正整数 version、assets/tracks 数组的 JSON 对象。
+ * 完整的结构校验与版本迁移由 @vitecut/project 的 deserializeProject 在前端完成。
+ */
+export function parseProjectData(data: unknown): ProjectDataSummary {
+  if (typeof data !== "string" || !data) {
+    throw new Error("data 必须是序列化后的工程 JSON 字符串");
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    throw new Error("data 不是合法的 JSON");
+  }
+  const obj = parsed as Record<string, unknown> | null;
+  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+    throw new Error("data 必须是工程对象");
+  }
+  if (typeof obj.id !== "string" || obj.id.length < 1 || obj.id.length > 64) {
+    throw new Error("工程 id 无效");
+  }
+  if (
+    typeof obj.version !== "number" ||
+    !Number.isInteger(obj.version) ||
+    obj.version < 1
+  ) {
+    throw new Error("工程 version 无效");
+  }
+  if (!Array.isArray(obj.assets) || !Array.isArray(obj.tracks)) {
+    throw new Error("工程 assets/tracks 必须是数组");
+  }
+  return { id: obj.id, version: obj.version };
+}
+
+function normalizeName(name: unknown): string {
+  if (typeof name !== "string") {
+    throw new Error("name 必须是字符串");
+  }
+  const trimmed = name.trim();
+  if (trimmed.length < 1 || trimmed.length > 128) {
+    throw new Error("name 长度必须在 1 到 128 个字符之间");
+  }
+  return trimmed;
+}
+
+function projectRowToListItem(row: ProjectRow): ProjectListItem {
+  return {
+    id: row.id,
+    name: row.name,
+    version: Number(row.version),
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+function projectRowToDetail(row: ProjectRow): ProjectDetail {
+  return {
+    ...projectRowToListItem(row),
+    userId: row.user_id,
+    data: row.data_json,
+  };
+}
+
+export async function listByUserId(
+  userId: string,
+  options?: ProjectListOptions
+): Promise<{ items: ProjectListItem[]; total: number }> {
+  const limit = Math.min(100, Math.max(1, options?.limit ?? 20));
+  const offset = Math.max(0, options?.offset ?? 0);
+  const clauses = ["user_id = ?"];
+  const params: unknown[] = [userId];
+  const search = options?.search?.trim();
+  if (search) {
+    clauses.push("name LIKE ?");
+    params.push(`%${search}%`);
+  }
+  const whereSql = clauses.join(" AND ");
+
+  const [countRows] = await db.query<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total FROM projects WHERE ${whereSql}`,
+    params
+  );
+  const total = Number((countRows?.[0] as { total?: number })?.total ?? 0);
+
+  // 列表不返回工程数据本体，避免大工程拖慢列表查询
+  const [rows] = await db.query<ProjectRow[]>(
+    `SELECT id, user_id, name, version, created_at, updated_at
+       FROM projects
+      WHERE ${whereSql}
+      ORDER BY updated_at DESC
+      LIMIT ? OFFSET ?`,
+    [...params, limit, offset]
+  );
+
+  return { items: (rows ?? []).map(projectRowToListItem), total };
+}
+
+export async function findById(
+  id: string,
+  userId: string,
+  conn: Queryable = db
+): Promise<ProjectDetail | null> {
+  const [rows] = await conn.query<ProjectRow[]>(
+    "SELECT * FROM projects WHERE id = ? AND user_id = ? LIMIT 1",
+    [id, userId]
+  );
+  const row = rows?.[0];
+  return row ? projectRowToDetail(row) : null;
+}
+
+/**
+ * 创建工程。行 id 取自工程数据中的 project.id，便于前端用同一个 id 反复保存。
+ */
+export async function createProject(
+  input: CreateProjectInput,
+  conn: Queryable = db
+): Promise<ProjectDetail> {
+  const summary = parseProjectData(input.data);
+  const name = normalizeName(input.name);
+  const now = Date.now();
+
+  await conn.query(
+    `INSERT INTO projects
+      (id, user_id, name, version, data_json, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [summary.id, input.userId, name, summary.version, input.data, now, now]
+  );
+
+  const project = await findById(summary.id, input.userId, conn);
+  if (!project) {
+    throw new Error("创建工程失败");
+  }
+  return project;
+}
+
+export async function updateProject(
+  id: string,
+  userId: string,
+  updates: UpdateProjectInput,
+  conn: Queryable = db
+): Promise<ProjectDetail | null> {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+
+  if (updates.name !== undefined) {
+    sets.push("name = ?");
+    params.push(normalizeName(updates.name));
+  }
+  if (updates.data !== undefined) {
+    const summary = parseProjectData(updates.data);
+    if (summary.id !== id) {
+      throw new Error("工程数据 id 与路径 id 不一致");
+    }
+    sets.push("version = ?", "data_json = ?");
+    params.push(summary.version, updates.data);
+  }
+
+  if (sets.length === 0) {
+    return findById(id, userId, conn);
+  }
+
+  sets.push("updated_at = ?");
+  params.push(Date.now(), id, userId);
+
+  const [result] = await conn.query(
+    `UPDATE projects SET ${sets.join(", ")} WHERE id = ? AND user_id = ?`,
+    params
+  );
+  const affected = (result as ResultSetHeader)?.affectedRows ?? 0;
+  if (affected === 0) {
+    return null;
+  }
+
+  return findById(id, userId, conn);
+}
+
+export async function deleteProject(
+  id: string,
+  userId: string,
+  conn: Queryable = db
+): Promise<boolean> {
+  const [result] = await conn.query(
+    "DELETE FROM projects WHERE id = ? AND user_id = ?",
+    [id, userId]
+  );
+  const affected = (result as ResultSetHeader)?.affectedRows ?? 0;
+  return affected > 0;
+}
@@ -0,0 +1,169 @@
+import type { RowDataPacket } from "mysql2";
+import { randomUUID } from "node:crypto";
+import { db, type Queryable } from "./db.js";
+import { parseProjectData } from "./projectRepository.js";
+
+export interface ProjectRevisionRow extends RowDataPacket {
+  id: string;
+  project_id: string;
+  author_id: string;
+  author_name: string;
+  label: string | null;
+  restored_from: string | null;
+  version: number;
+  data_json: string;
+  created_at: number;
+}
+
+export interface ProjectRevisionListItem {
+  id: string;
+  projectId: string;
+  authorId: string;
+  authorName: string;
+  label: string | null;
+  restoredFrom: string | null;
+  version: number;
+  createdAt: number;
+}
+
+export interface ProjectRevisionDetail extends ProjectRevisionListItem {
+  /** serializeProject 的输出 */
+  data: string;
+}
+
+export interface ProjectRevisionListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface CreateProjectRevisionInput {
+  projectId: string;
+  authorId: string;
+  authorName: string;
+  data: string;
+  label?: string | null;
+  restoredFrom?: string | null;
+}
+
+export function normalizeRevisionLabel(label: unknown): string | null {
+  if (label === undefined || label === null) {
+    return null;
+  }
+  if (typeof label !== "string") {
+    throw new Error("label 必须是字符串");
+  }
+  const trimmed = label.trim();
+  if (trimmed.length > 128) {
+    throw new Error("label 长度不能超过 128 个字符");
+  }
+  return trimmed || null;
+}
+
+function revisionRowToListItem(
+  row: ProjectRevisionRow
+): ProjectRevisionListItem {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    label: row.label ?? null,
+    restoredFrom: row.restored_from ?? null,
+    version: Number(row.version),
+    createdAt: Number(row.created_at),
+  };
+}
+
+function revisionRowToDetail(row: ProjectRevisionRow): ProjectRevisionDetail {
+  return {
+    ...revisionRowToListItem(row),
+    data: row.data_json,
+  };
+}
+
+export async function listByProjectId(
+  projectId: string,
+  options?: ProjectRevisionListOptions
+): Promise<{ items: ProjectRevisionListItem[]; total: number }> {
+  const limit = Math.min(100, Math.max(1, options?.limit ?? 20));
+  const offset = Math.max(0, options?.offset ?? 0);
+
+  const [countRows] = await db.query<RowDataPacket[]>(
+    "SELECT COUNT(*) AS total FROM project_revisions WHERE project_id = ?",
+    [projectId]
+  );
+  const total = Number((countRows?.[0] as { total?: number })?.total ?? 0);
+
+  // 列表不返回工程数据本体
+  const [rows] = await db.query<ProjectRevisionRow[]>(
+    `SELECT id, project_id, author_id, author_name, label, restored_from, version, created_at
+       FROM project_revisions
+      WHERE project_id = ?
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?`,
+    [projectId, limit, offset]
+  );
+
+  return { items: (rows ?? []).map(revisionRowToListItem), total };
+}
+
+export async function findRevisionById(
+  projectId: string,
+  revisionId: string,
+  conn: Queryable = db
+): Promise<ProjectRevisionDetail | null> {
+  const [rows] = await conn.query<ProjectRevisionRow[]>(
+    "SELECT * FROM project_revisions WHERE id = ? AND project_id = ? LIMIT 1",
+    [revisionId, projectId]
+  );
+  const row = rows?.[0];
+  return row ? revisionRowToDetail(row) : null;
+}
+
+/**
+ * 新增一条修订。修订创建后不再修改，恢复旧版本也会生成新的修订。
+ */
+export async function createRevision(
+  input: CreateProjectRevisionInput,
+  conn: Queryable = db
+): Promise<ProjectRevisionDetail> {
+  const summary = parseProjectData(input.data);
+  if (summary.id !== input.projectId) {
+    throw new Error("工程数据 id 与修订所属工程不一致");
+  }
+  const id = `rev_${randomUUID().replace(/-/g, "")}`;
+  const label = normalizeRevisionLabel(input.label);
+  const now = Date.now();
+
+  await conn.query(
+    `INSERT INTO project_revisions
+      (id, project_id, author_id, author_name, label, restored_from, version, data_json, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      input.projectId,
+      input.authorId,
+      input.authorName,
+      label,
+      input.restoredFrom ?? null,
+      summary.version,
+      input.data,
+      now,
+    ]
+  );
+
+  const revision = await findRevisionById(input.projectId, id, conn);
+  if (!revision) {
+    throw new Error("创建修订失败");
+  }
+  return revision;
+}
+
+export async function deleteRevisionsByProjectId(
+  projectId: string,
+  conn: Queryable = db
+): Promise<void> {
+  await conn.query("DELETE FROM project_revisions WHERE project_id = ?", [
+    projectId,
+  ]);
+}
@@ -0,0 +1,348 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import type {
+  ExportOptions,
+  RenderAsset,
+  RenderClip,
+  RenderProject,
+  RenderTrack,
+} from "../types.js";
+import {
+  buildRenderGraph,
+  isFfmpegReadableSource,
+  RESOLVED_ASSET_DIR_PREFIX,
+} from "./renderGraph.js";
+
+const BASE_IMAGE = "/tmp/black.png";
+
+const options: ExportOptions = {
+  width: 1280,
+  height: 720,
+  fps: 30,
+  title: "test",
+  format: "mp4",
+  videoBitrateKbps: 8000,
+  videoCodec: "h264",
+  audioCodec: "aac",
+  audioBitrateKbps: 192,
+  audioSampleRate: 48000,
+};
+
+function videoAsset(id: string, withAudio = false): RenderAsset {
+  return {
+    id,
+    source: `https://cdn.example.com/${id}.mp4`,
+    kind: "video",
+    duration: 20,
+    videoMeta: { width: 1920, height: 1080 },
+    ...(withAudio ? { audioMeta: { sampleRate: 48000, channels: 2 } } : {}),
+  };
+}
+
+function imageAsset(id: string): RenderAsset {
+  return {
+    id,
+    source: `https://cdn.example.com/${id}.png`,
+    kind: "image",
+  };
+}
+
+function clip(
+  id: string,
+  trackId: string,
+  asset: RenderAsset,
+  start: number,
+  end: number,
+  extra: Partial<RenderClip> = {}
+): RenderClip {
+  return {
+    id,
+    trackId,
+    assetId: asset.id,
+    kind: asset.kind,
+    start,
+    end,
+    ...extra,
+  };
+}
+
+function track(id: string, order: number, clips: RenderClip[]): RenderTrack {
+  return { id, kind: "video", order, clips };
+}
+
+function project(assets: RenderAsset[], tracks: RenderTrack[]): RenderProject {
+  return {
+    id: "p1",
+    name: "test",
+    version: 1,
+    fps: 30,
+    width: 1280,
+    height: 720,
+    duration: 10,
+    assets,
+    tracks,
+  };
+}
+
+/** 按 ";" 拆开的滤镜链 */
+function filterChains(filterComplex: string): string[] {
+  return filterComplex.split(";");
+}
+
+describe("buildRenderGraph", () => {
+  it("为每个不同的素材注册一路输入，不做 split", () => {
+    const a = videoAsset("a");
+    const b = videoAsset("b");
+    const graph = buildRenderGraph(
+      project(
+        [a, b],
+        [
+          track("t1", 0, [
+            clip("c1", "t1", a, 0, 5),
+            clip("c2", "t1", b, 5, 10),
+          ]),
+        ]
+      ),
+      options,
+      BASE_IMAGE
+    );
+
+    assert.deepEqual(
+      graph.inputs.map((input) => input.source),
+      [BASE_IMAGE, a.source, b.source]
+    );
+    const chains = filterChains(graph.filterComplex);
+    assert.ok(chains.every((chain) => !/\bsplit=/.test(chain)));
+    assert.ok(chains.some((chain) => chain.startsWith("[1:v]trim=0:5")));
+    assert.ok(chains.some((chain) => chain.startsWith("[2:v]trim=0:5")));
+    assert.equal(graph.audioLabel, null);
+    assert.equal(graph.duration, 10);
+  });
+
+  it("同一素材被两个片段引用（分割）时只注册一次输入并 split", () => {
+    const a = videoAsset("a", true);
+    const graph = buildRenderGraph(
+      project(
+        [a],
+        [
+          track("t1", 0, [
+            clip("c1", "t1", a, 0, 4, { inPoint: 0, outPoint: 4 }),
+            clip("c2", "t1", a, 4, 10, { inPoint: 4, outPoint: 10 }),
+          ]),
+        ]
+      ),
+      options,
+      BASE_IMAGE
+    );
+
+    assert.deepEqual(
+      graph.inputs.map((input) => input.source),
+      [BASE_IMAGE, a.source]
+    );
+    const chains = filterChains(graph.filterComplex);
+    assert.ok(chains.includes("[1:v]split=2[in1v0][in1v1]"));
+    assert.ok(chains.includes("[1:a]asplit=2[in1a0][in1a1]"));
+    // 两个片段各取一路 split 后的流，按各自入出点裁剪
+    assert.ok(chains.some((chain) => chain.startsWith("[in1v0]trim=0:4")));
+    assert.ok(chains.some((chain) => chain.startsWith("[in1v1]trim=4:10")));
+    assert.ok(chains.some((chain) => chain.startsWith("[in1a0]atrim=0:4")));
+    assert.ok(chains.some((chain) => chain.startsWith("[in1a1]atrim=4:10")));
+    assert.notEqual(graph.audioLabel, null);
+  });
+
+  it("按 track.order 升序逐层 overlay，order 大的在上层", () => {
+    const bottom = videoAsset("bottom");
+    const top = imageAsset("top");
+    const graph = buildRenderGraph(
+      project(
+        [bottom, top],
+        [
+          // 故意让上层轨道排在数组前面，叠放顺序只看 order
+          track("upper", 2, [clip("c-top", "upper", top, 0, 10)]),
+          track("lower", 1, [clip("c-bottom", "lower", bottom, 0, 10)]),
+        ]
+      ),
+      options,
+      BASE_IMAGE
+    );
+
+    const inputIndex = (asset: RenderAsset) =>
+      graph.inputs.findIndex((input) => input.source === asset.source);
+    assert.equal(inputIndex(bottom), 1);
+    assert.equal(inputIndex(top), 2);
+
+    const chains = filterChains(graph.filterComplex);
+    const overlays = chains.filter((chain) => chain.includes("overlay="));
+    assert.equal(overlays.length, 2);
+
+    // 第一次 overlay 叠在黑底上的是下层视频，第二次叠在其结果上的是上层图片
+    const layerLabel = (chain: string) =>
+      /^\[[^\]]+\]\[([^\]]+)\]overlay=/.exec(chain)?.[1];
+    const streamOf = (label: string | undefined) =>
+      chains.find((chain) => chain.endsWith(`[${label}]`));
+    assert.ok(overlays[0].startsWith("[base]"));
+    assert.ok(streamOf(layerLabel(overlays[0]))?.startsWith("[1:v]trim="));
+    assert.ok(
+      streamOf(layerLabel(overlays[1]))?.startsWith("[2:v]loop=-1:size=1")
+    );
+    const firstOut = /\[([^\]]+)\]$/.exec(overlays[0])?.[1];
+    assert.ok(overlays[1].startsWith(`[${firstOut}]`));
+    assert.equal(graph.videoLabel, /\[([^\]]+)\]$/.exec(overlays[1])?.[1]);
+  });
+
+  it("设置了闪避的音乐轨经 sidechaincompress 以旁白轨为侧链压低", () => {
+    const music: RenderAsset = {
+      id: "music",
+      source: "https://cdn.example.com/music.mp3",
+      kind: "audio",
+      duration: 10,
+      audioMeta: { sampleRate: 48000, channels: 2 },
+    };
+    const voice: RenderAsset = {
+      ...music,
+      id: "voice",
+      source: "https://cdn.example.com/voice.mp3",
+    };
+    const musicTrack: RenderTrack = {
+      id: "bgm",
+      kind: "audio",
+      order: 0,
+      clips: [clip("c-music", "bgm", music, 0, 10)],
+      ducking: {
+        sourceTrackId: "vo",
+        threshold: -36,
+        amount: 12,
+        attack: 20,
+        release: 400,
+      },
+    };
+    const voiceTrack: RenderTrack = {
+      id: "vo",
+      kind: "audio",
+      order: 1,
+      clips: [clip("c-voice", "vo", voice, 2, 6)],
+    };
+    const graph = buildRenderGraph(
+      project([music, voice], [musicTrack, voiceTrack]),
+      options,
+      BASE_IMAGE
+    );
+
+    const chains = filterChains(graph.filterComplex);
+    const musicLabel = /\[([^\]]+)\]$/.exec(
+      chains.find((chain) => chain.startsWith("[1:a]atrim="))!
+    )?.[1];
+    const voiceLabel = /\[([^\]]+)\]$/.exec(
+      chains.find((chain) => chain.startsWith("[2:a]atrim="))!
+    )?.[1];
+    // 旁白轨拆成进混音的一路与一路侧链，侧链 apad 后作为 sidechaincompress 的第二输入
+    const split = chains.find((chain) =>
+      chain.startsWith(`[${voiceLabel}]asplit=2`)
+    );
+    assert.ok(split);
+    const sidechain = /\[([^\]]+)\]$/.exec(split)?.[1];
+    assert.ok(chains.includes(`[${sidechain}]apad[${sidechain}p]`));
+    const compress = chains.find((chain) =>
+      chain.includes("sidechaincompress=")
+    );
+    assert.ok(compress?.startsWith(`[${musicLabel}][${sidechain}p]`));
+    assert.match(
+      compress!,
+      /threshold=0\.015849:ratio=20:attack=20:release=400/
+    );
+    assert.ok(
+      chains.some(
+        (chain) => chain.includes("amix=") && chain.endsWith("[aout]")
+      )
+    );
+  });
+
+  it("闪避的触发轨道不存在时不插入 sidechaincompress", () => {
+    const music: RenderAsset = {
+      id: "music",
+      source: "https://cdn.example.com/music.mp3",
+      kind: "audio",
+      duration: 10,
+      audioMeta: { sampleRate: 48000, channels: 2 },
+    };
+    const graph = buildRenderGraph(
+      project(
+        [music],
+        [
+          {
+            id: "bgm",
+            kind: "audio",
+            order: 0,
+            clips: [clip("c-music", "bgm", music, 0, 10)],
+            ducking: {
+              sourceTrackId: "missing",
+              threshold: -36,
+              amount: 12,
+              attack: 20,
+              release: 400,
+            },
+          },
+        ]
+      ),
+      options,
+      BASE_IMAGE
+    );
+
+    assert.ok(!graph.filterComplex.includes("sidechaincompress"));
+  });
+
+  it("隐藏轨道不参与合成", () => {
+    const a = videoAsset("a");
+    const b = videoAsset("b");
+    const hidden = track("t2", 2, [clip("c2", "t2", b, 0, 10)]);
+    hidden.hidden = true;
+    const graph = buildRenderGraph(
+      project([a, b], [track("t1", 1, [clip("c1", "t1", a, 0, 10)]), hidden]),
+      options,
+      BASE_IMAGE
+    );
+
+    assert.deepEqual(
+      graph.inputs.map((input) => input.source),
+      [BASE_IMAGE, a.source]
+    );
+  });
+});
+
+describe("isFfmpegReadableSource", () => {
+  it("接受 http(s) 地址与素材解析生成的临时文件", () => {
+    assert.ok(isFfmpegReadableSource("https://cdn.example.com/a.mp4"));
+    assert.ok(isFfmpegReadableSource("http://cdn.example.com/a.mp4"));
+    assert.ok(
+      isFfmpegReadableSource(
+        path.join(os.tmpdir(), `${RESOLVED_ASSET_DIR_PREFIX}abc`, "a.png")
+      )
+    );
+  });
+
+  it("拒绝其他本地路径、对象 key 与 data URL", () => {
+    assert.ok(!isFfmpegReadableSource("/etc/passwd"));
+    assert.ok(!isFfmpegReadableSource(path.join(os.tmpdir(), "a.png")));
+    assert.ok(
+      !isFfmpegReadableSource(
+        path.join(os.tmpdir(), `${RESOLVED_ASSET_DIR_PREFIX}abc`)
+      )
+    );
+    assert.ok(
+      !isFfmpegReadableSource(
+        path.join(
+          os.tmpdir(),
+          `${RESOLVED_ASSET_DIR_PREFIX}abc`,
+          "..",
+          "..",
+          "etc",
+          "passwd"
+        )
+      )
+    );
+    assert.ok(!isFfmpegReadableSource("uploads/a.png"));
+    assert.ok(!isFfmpegReadableSource("data:image/png;base64,AAAA"));
+  });
+});
@@ -0,0 +1,990 @@
+import path from "node:path";
+import os from "node:os";
+import type {
+  RenderProject,
+  RenderTrack,
+  RenderAsset,
+  RenderClip,
+  ExportOptions,
+} from "../types.js";
+import { getClipColorFilters } from "./clipColorFilters.js";
+import { applyDuckingToMix, type MixInput } from "./ducking.js";
+import { ff } from "./ffmpegFormat.js";
+import {
+  getClipKeyframes,
+  hasTransformKeyframes,
+  interpolateKeyframes,
+  maxAbsPropertyValue,
+  propertyExpr,
+  type KeyframeProperty,
+} from "./keyframes.js";
+import {
+  buildTransitionChains,
+  getChainExtension,
+  getXfadeTransition,
+} from "./transitions.js";
+
+/**
+ * 渲染滤镜图构建（纯函数，不依赖 ffmpeg 进程）。
+ *
+ * renderVideo 只负责把这里产出的输入列表与 filter_complex 交给 fluent-ffmpeg 执行，
+ * 因此多轨合成的结构可以脱离 ffmpeg 单独校验。
+ */
+
+/** assetSources.ts 解析素材时在系统临时目录下创建的目录名前缀 */
+export const RESOLVED_ASSET_DIR_PREFIX = "vitecut-assets-";
+
+/**
+ * 检查 asset.source 是否为 FFmpeg 可读取的：http/https URL，
+ * 或 assetSources.ts 解析生成的临时文件（系统临时目录下 vitecut-assets-* 目录中的文件）。
+ * 其他本地路径一律不读取，避免工程数据引用服务器上的任意文件。
+ */
+export function isFfmpegReadableSource(source: string): boolean {
+  if (source.startsWith("http://") || source.startsWith("https://"))
+    return true;
+  if (!path.isAbsolute(source)) return false;
+  const relative = path.relative(os.tmpdir(), path.resolve(source));
+  const [dir, ...rest] = relative.split(path.sep);
+  return rest.length > 0 && dir.startsWith(RESOLVED_ASSET_DIR_PREFIX);
+}
+
+/** 片段 transform 中导出会用到的字段 */
+type TransformLike = {
+  x?: number;
+  y?: number;
+  scaleX?: number;
+  scaleY?: number;
+  rotation?: number;
+  opacity?: number;
+  anchorX?: number;
+  anchorY?: number;
+};
+
+/** 图层在导出画面中的几何信息（导出像素） */
+export interface LayerGeometry {
+  /** 未旋转时的显示宽高（绝对值） */
+  w: number;
+  h: number;
+  /** 旋转后图层包围盒的中心点 */
+  cx: number;
+  cy: number;
+  flipX: boolean;
+  flipY: boolean;
+  /** 顺时针旋转角度（度），与 Konva 一致 */
+  rotation: number;
+  opacity: number;
+}
+
+/** transform 是否为默认值（不平移、不缩放、不旋转、不透明） */
+export function isDefaultTransform(transform: unknown): boolean {
+  const t = (transform ?? {}) as TransformLike;
+  return (
+    (t.x ?? 0) === 0 &&
+    (t.y ?? 0) === 0 &&
+    (t.scaleX ?? 1) === 1 &&
+    (t.scaleY ?? 1) === 1 &&
+    (t.rotation ?? 0) === 0 &&
+    (t.opacity ?? 1) === 1
+  );
+}
+
+/**
+ * 按预览（Konva）的坐标约定计算视频/图片图层的几何信息。
+ *
+ * 工程坐标（project 像素）下：
+ * - 图片：x/y 为左上角，宽高 = 工程宽高 × |scale|，负 scale 原地翻转
+ * - 视频：先按 contain 等比放入画布居中，x/y 为相对居中位置的偏移，
+ *   节点以 (居中偏移 + x/y) 为起点、沿 scale 符号方向延伸
+ * - 旋转以 anchorX/anchorY 为轴心（相对未旋转框左上角），未设置时为框中心
+ */
+export function getLayerGeometry(
+  op: LayerOp,
+  projW: number,
+  projH: number,
+  outW: number,
+  outH: number
+): LayerGeometry {
+  const t = (op.clip.transform ?? {}) as TransformLike;
+  const scaleX = t.scaleX ?? 1;
+  const scaleY = t.scaleY ?? 1;
+  const x = t.x ?? 0;
+  const y = t.y ?? 0;
+
+  let w: number;
+  let h: number;
+  let centerX: number;
+  let centerY: number;
+  if (op.type === "video") {
+    // 视频节点基准尺寸：按源视频宽高比 contain 到工程画布
+    let nodeW = projW;
+    let nodeH = projH;
+    const meta = op.asset.videoMeta;
+    if (meta && meta.width > 0 && meta.height > 0) {
+      const videoAspect = meta.width / meta.height;
+      if (videoAspect > projW / projH) {
+        nodeH = projW / videoAspect;
+      } else {
+        nodeW = projH * videoAspect;
+      }
+    }
+    w = nodeW * Math.abs(scaleX);
+    h = nodeH * Math.abs(scaleY);
+    centerX = (projW - nodeW) / 2 + x + (nodeW * scaleX) / 2;
+    centerY = (projH - nodeH) / 2 + y + (nodeH * scaleY) / 2;
+  } else {
+    w = projW * Math.abs(scaleX);
+    h = projH * Math.abs(scaleY);
+    centerX = x + w / 2;
+    centerY = y + h / 2;
+  }
+
+  // 绕轴心旋转后，包围盒中心 = 轴心 + R·(中心 - 轴心)
+  const rotation = t.rotation ?? 0;
+  if (rotation !== 0 && (t.anchorX !== undefined || t.anchorY !== undefined)) {
+    const pivotX = centerX - w / 2 + (t.anchorX ?? w / 2);
+    const pivotY = centerY - h / 2 + (t.anchorY ?? h / 2);
+    const rad = (rotation * Math.PI) / 180;
+    const dx = centerX - pivotX;
+    const dy = centerY - pivotY;
+    centerX = pivotX + dx * Math.cos(rad) - dy * Math.sin(rad);
+    centerY = pivotY + dx * Math.sin(rad) + dy * Math.cos(rad);
+  }
+
+  const sx = outW / projW;
+  const sy = outH / projH;
+  return {
+    w: Math.max(1, Math.round(w * sx)),
+    h: Math.max(1, Math.round(h * sy)),
+    cx: centerX * sx,
+    cy: centerY * sy,
+    flipX: scaleX < 0,
+    flipY: scaleY < 0,
+    rotation,
+    opacity: Math.min(1, Math.max(0, t.opacity ?? 1)),
+  };
+}
+
+/**
+ * 图层缩放之后的变换滤镜链：翻转 → 透明度 → 旋转。
+ * 旋转输出为包围盒大小、空白处透明，中心保持不变。
+ */
+function buildLayerTransformFilters(geom: LayerGeometry): string[] {
+  const filters: string[] = [];
+  if (geom.flipX) filters.push("hflip");
+  if (geom.flipY) filters.push("vflip");
+  if (geom.opacity < 1 || geom.rotation % 360 !== 0) {
+    filters.push("format=rgba");
+  }
+  if (geom.opacity < 1) {
+    filters.push(`colorchannelmixer=aa=${ff(geom.opacity)}`);
+  }
+  if (geom.rotation % 360 !== 0) {
+    const rad = ff((geom.rotation * Math.PI) / 180, 6);
+    filters.push(`rotate=${rad}:ow=rotw(${rad}):oh=roth(${rad}):c=none`);
+  }
+  return filters;
+}
+
+/** 以图层中心定位的 overlay 坐标表达式（w/h 为叠加层实际尺寸） */
+function overlayCenterPosition(geom: LayerGeometry): string {
+  return `x=${ff(geom.cx, 2)}-w/2:y=${ff(geom.cy, 2)}-h/2`;
+}
+
+/** 带关键帧图层的逐帧滤镜与定位 */
+interface AnimatedLayerFilters {
+  /** 逐帧求值的缩放滤镜 */
+  scale: string;
+  /** 缩放（与画面调整）之后的滤镜链：补边 → 翻转 → 透明度 → 旋转 */
+  transforms: string[];
+  /** overlay 的 x/y 表达式（t 为时间轴时间） */
+  position: string;
+}
+
+/**
+ * 为带关键帧的图层生成逐帧滤镜，几何约定与 getLayerGeometry / rasterizeTextLayer 一致。
+ *
+ * 尺寸随时间变化的图层先 pad 到片段内的最大尺寸并居中，使旋转与 overlay 的输入尺寸恒定；
+ * 翻转方向取片段起点处的缩放符号。文本层在光栅化 PNG 的基础上缩放，raster 必传。
+ */
+function buildAnimatedLayer(
+  op: LayerOp,
+  projW: number,
+  projH: number,
+  outW: number,
+  outH: number,
+  raster?: TextRaster
+): AnimatedLayerFilters {
+  const { clip } = op;
+  const t = (clip.transform ?? {}) as TransformLike;
+  const sx = outW / projW;
+  const sy = outH / projH;
+  // 片段流已平移到 clip.start，scale/rotate/overlay 的 t 即时间轴时间
+  const at = (property: KeyframeProperty, value: number, timeVar = "t") =>
+    propertyExpr(clip, property, value, timeVar, clip.start);
+  const X = at("x", t.x ?? 0);
+  const Y = at("y", t.y ?? 0);
+  const SX = at("scaleX", t.scaleX ?? 1);
+  const SY = at("scaleY", t.scaleY ?? 1);
+  const rad = `${at("rotation", t.rotation ?? 0)}*PI/180`;
+
+  // scale=1 时的图层尺寸（工程像素）
+  let nodeW = projW;
+  let nodeH = projH;
+  if (raster) {
+    nodeW = raster.box.width / sx;
+    nodeH = raster.box.height / sy;
+  } else if (op.type === "video") {
+    const meta = op.asset.videoMeta;
+    if (meta && meta.width > 0 && meta.height > 0) {
+      const videoAspect = meta.width / meta.height;
+      if (videoAspect > projW / projH) {
+        nodeH = projW / videoAspect;
+      } else {
+        nodeW = projH * videoAspect;
+      }
+    }
+  }
+  const baseW = nodeW * sx;
+  const baseH = nodeH * sy;
+  const maxW = Math.max(
+    1,
+    Math.ceil(baseW * maxAbsPropertyValue(clip, "scaleX", t.scaleX ?? 1))
+  );
+  const maxH = Math.max(
+    1,
+    Math.ceil(baseH * maxAbsPropertyValue(clip, "scaleY", t.scaleY ?? 1))
+  );
+  const scale =
+    `scale=w='max(1,round(${ff(baseW, 4)}*abs(${SX})))'` +
+    `:h='max(1,round(${ff(baseH, 4)}*abs(${SY})))':eval=frame` +
+    (op.type === "video" && !op.asset.videoMeta
+      ? ":force_original_aspect_ratio=decrease"
+      : "");
+
+  const transforms = [
+    "format=rgba",
+    `pad=w=${maxW}:h=${maxH}:x='(ow-iw)/2':y='(oh-ih)/2':color=black@0:eval=frame`,
+  ];
+  // 文本 PNG 已画入静态缩放的翻转
+  if (!raster) {
+    const startScale = (property: KeyframeProperty, value: number) =>
+      interpolateKeyframes(getClipKeyframes(clip, property), 0) ?? value;
+    if (startScale("scaleX", t.scaleX ?? 1) < 0) transforms.push("hflip");
+    if (startScale("scaleY", t.scaleY ?? 1) < 0) transforms.push("vflip");
+  }
+
+  const staticOpacity = raster ? raster.geometry.opacity : (t.opacity ?? 1);
+  if (getClipKeyframes(clip, "opacity").length > 0) {
+    // geq 的时间变量为 T
+    const O = at("opacity", staticOpacity, "T");
+    transforms.push(
+      `geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='alpha(X,Y)*clip(${O},0,1)'`
+    );
+  } else if (staticOpacity < 1) {
+    transforms.push(`colorchannelmixer=aa=${ff(Math.max(0, staticOpacity))}`);
+  }
+
+  const hasRotation =
+    getClipKeyframes(clip, "rotation").length > 0 ||
+    (t.rotation ?? 0) % 360 !== 0;
+  if (hasRotation) {
+    // 输出取补边后尺寸的对角线，任意角度都不裁切
+    const diag = Math.ceil(Math.hypot(maxW, maxH));
+    transforms.push(`rotate=a='${rad}':ow=${diag}:oh=${diag}:c=none`);
+  }
+
+  let cx: string;
+  let cy: string;
+  if (raster) {
+    // 节点原点 + R·S·(框中心 - offset)，与 rasterizeTextLayer 一致
+    const { pixelScale } = raster.box;
+    const vx = `(${ff(raster.box.width / 2 - (t.anchorX ?? 0) * pixelScale, 4)})*${SX}`;
+    const vy = `(${ff(raster.box.height / 2 - (t.anchorY ?? 0) * pixelScale, 4)})*${SY}`;
+    cx = `${X}*${ff(sx, 6)}+${vx}*cos(${rad})-${vy}*sin(${rad})`;
+    cy = `${Y}*${ff(sy, 6)}+${vx}*sin(${rad})+${vy}*cos(${rad})`;
+  } else {
+    const halfW = `${ff(nodeW / 2, 4)}*abs(${SX})`;
+    const halfH = `${ff(nodeH / 2, 4)}*abs(${SY})`;
+    let centerX =
+      op.type === "video"
+        ? `${ff((projW - nodeW) / 2, 4)}+${X}+${ff(nodeW / 2, 4)}*${SX}`
+        : `${X}+${halfW}`;
+    let centerY =
+      op.type === "video"
+        ? `${ff((projH - nodeH) / 2, 4)}+${Y}+${ff(nodeH / 2, 4)}*${SY}`
+        : `${Y}+${halfH}`;
+    if (hasRotation && (t.anchorX !== undefined || t.anchorY !== undefined)) {
+      // 绕轴心旋转：中心 = 轴心 + R·(中心 - 轴心)
+      const dx =
+        t.anchorX === undefined ? "0" : `(${halfW}-(${ff(t.anchorX, 4)}))`;
+      const dy =
+        t.anchorY === undefined ? "0" : `(${halfH}-(${ff(t.anchorY, 4)}))`;
+      centerX = `${centerX}-${dx}+${dx}*cos(${rad})-${dy}*sin(${rad})`;
+      centerY = `${centerY}-${dy}+${dx}*sin(${rad})+${dy}*cos(${rad})`;
+    }
+    cx = `(${centerX})*${ff(sx, 6)}`;
+    cy = `(${centerY})*${ff(sy, 6)}`;
+  }
+
+  return {
+    scale,
+    transforms,
+    position: `x='${cx}-w/2':y='${cy}-h/2'`,
+  };
+}
+
+/** 将 CSS 十六进制颜色 (#rgb 或 #rrggbb) 转为 FFmpeg drawbox 的 0xRRGGBB 格式 */
+function hexToFfmpegColor(hex: string): string {
+  // 将3位色转为6位色，非法自动为黑色
+  let h = hex.replace(/^#/, "");
+  if (h.length === 3) h = h[0] + h[0] + h[1] + h[1] + h[2] + h[2];
+  if (h.length !== 6 || !/^[0-9a-fA-F]{6}$/.test(h)) return "0x000000";
+  return "0x" + h.toLowerCase();
+}
+
+/** 片段在时间轴上可见区间的 enable 表达式 */
+function enableBetween(clip: RenderClip): string {
+  return `enable='gte(t,${ff(clip.start)})*lte(t,${ff(clip.end)})'`;
+}
+
+/** 每一层的操作类型 */
+export type LayerOp = {
+  type: "video" | "image" | "text";
+  clip: RenderClip;
+  asset: RenderAsset;
+  track: RenderTrack;
+};
+
+/**
+ * 按轨道顺序收集可渲染的图层。
+ * track.order 越大越上层，按升序叠放；隐藏轨道与无法读取的媒资会被剔除。
+ */
+export function collectLayers(project: RenderProject): LayerOp[] {
+  // tracks 排序，剔除隐藏轨道
+  const tracksByOrder = [...project.tracks]
+    .filter((t) => !t.hidden)
+    .sort((a, b) => a.order - b.order);
+
+  const layers: LayerOp[] = [];
+  // 遍历所有轨道的片段，并按类型分组
+  for (const track of tracksByOrder) {
+    for (const clip of track.clips) {
+      const asset = project.assets.find((a) => a.id === clip.assetId);
+      if (!asset) continue; // 无媒资跳过
+
+      if (
+        clip.kind === "video" &&
+        asset.kind === "video" &&
+        isFfmpegReadableSource(asset.source)
+      ) {
+        layers.push({ type: "video", clip, asset, track });
+      } else if (
+        clip.kind === "image" &&
+        asset.kind === "image" &&
+        isFfmpegReadableSource(asset.source)
+      ) {
+        layers.push({ type: "image", clip, asset, track });
+      } else if (clip.kind === "text" && asset.kind === "text") {
+        layers.push({ type: "text", clip, asset, track });
+      }
+    }
+  }
+  return layers;
+}
+
+/** 文本片段光栅化后的 PNG 及其在导出画面中的几何信息（见 textRaster.ts） */
+export interface TextRaster {
+  /** 本地 PNG 路径 */
+  source: string;
+  /** 已计入缩放/翻转的 PNG 尺寸与定位，旋转与透明度由滤镜处理 */
+  geometry: LayerGeometry;
+  /** 未缩放的文本框尺寸（导出像素）与字号缩放比，关键帧动画逐帧定位时使用 */
+  box: { width: number; height: number; pixelScale: number };
+}
+
+/** ffmpeg 的一路输入：源地址 + 需放在 -i 之前的输入参数 */
+export interface RenderInput {
+  source: string;
+  options: string[];
+}
+
+/** buildRenderGraph 的产物，直接对应一条 ffmpeg 命令 */
+export interface RenderGraph {
+  /** 按 ffmpeg 输入序号排列的输入列表（0 号固定为黑底） */
+  inputs: RenderInput[];
+  /** 以 ";" 连接的 filter_complex 内容 */
+  filterComplex: string;
+  /** 最终视频输出的滤镜标签 */
+  videoLabel: string;
+  /** 混音输出的滤镜标签，工程无声音时为 null */
+  audioLabel: string | null;
+  /** 输出时长（秒），已计入导出整体倍速 */
+  duration: number;
+}
+
+/** 输入流类型：v 视频、a 音频 */
+type StreamType = "v" | "a";
+
+/**
+ * 媒资输入表：同一 asset 只注册一次 ffmpeg 输入。
+ * 被多个片段引用的输入流在图首部 split/asplit，保证每个片段拿到独立的流标签。
+ */
+class InputRegistry {
+  readonly inputs: RenderInput[] = [];
+  private readonly indexByAssetId = new Map<string, number>();
+  private readonly uses = new Map<string, number>();
+  private readonly labels = new Map<string, string[]>();
+
+  add(input: RenderInput): number {
+    this.inputs.push(input);
+    return this.inputs.length - 1;
+  }
+
+  /** 注册（或复用）asset 对应的输入，并记录一次指定类型流的引用 */
+  useAsset(asset: RenderAsset, stream: StreamType): number {
+    let index = this.indexByAssetId.get(asset.id);
+    if (index === undefined) {
+      index = this.add({ source: asset.source, options: [] });
+      this.indexByAssetId.set(asset.id, index);
+    }
+    const key = `${index}:${stream}`;
+    this.uses.set(key, (this.uses.get(key) ?? 0) + 1);
+    return index;
+  }
+
+  /** 生成多次引用输入的 split/asplit 滤镜 */
+  buildSplits(): string[] {
+    const parts: string[] = [];
+    for (const [key, count] of this.uses) {
+      if (count <= 1) {
+        this.labels.set(key, [key]);
+        continue;
+      }
+      const [index, stream] = key.split(":");
+      const labels = Array.from(
+        { length: count },
+        (_, i) => `in${index}${stream}${i}`
+      );
+      const splitFilter = stream === "a" ? "asplit" : "split";
+      parts.push(
+        `[${key}]${splitFilter}=${count}${labels.map((l) => `[${l}]`).join("")}`
+      );
+      this.labels.set(key, labels);
+    }
+    return parts;
+  }
+
+  /** 取出该输入下一个尚未消费的流标签 */
+  take(index: number, stream: StreamType): string {
+    const label = this.labels.get(`${index}:${stream}`)?.shift();
+    if (!label) {
+      throw new Error(`输入 ${index} 的 ${stream} 流引用次数不足`);
+    }
+    return label;
+  }
+}
+
+/** 轨道静音，或片段自身静音（params.muted，如分离音频后的视频原声） */
+function isClipSilenced(clip: RenderClip, track: RenderTrack): boolean {
+  return (
+    (track.muted ?? false) ||
+    (clip.params as { muted?: unknown } | undefined)?.muted === true
+  );
+}
+
+/**
+ * 片段音量：静音轨或静音片段为 0，否则取 params.volume 并限制在 0~1。
+ * 与 @vitecut/project 的 getClipGainAtTime（预览 GainNode 排程）保持一致。
+ */
+export function getClipGain(clip: RenderClip, track: RenderTrack): number {
+  if (isClipSilenced(clip, track)) {
+    return 0;
+  }
+  const raw = Number((clip.params as { volume?: unknown } | undefined)?.volume);
+  return Number.isFinite(raw) ? Math.min(1, Math.max(0, raw)) : 1;
+}
+
+/** 倍速取值范围，与预览 projectStore.updateClipParams 的限制一致 */
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 2;
+
+/** 片段倍速：取 params.speed 并限制在 0.5~2，非法值为原速 */
+export function getClipSpeed(clip: RenderClip): number {
+  const raw = Number((clip.params as { speed?: unknown } | undefined)?.speed);
+  if (!Number.isFinite(raw) || raw <= 0) {
+    return 1;
+  }
+  return Math.min(MAX_SPEED, Math.max(MIN_SPEED, raw));
+}
+
+/**
+ * 片段对应的素材区间（秒）。
+ * 时间轴时长 = (outPoint - inPoint) / speed，未设置出点时按该关系反推。
+ */
+export function getClipSourceRange(clip: RenderClip): {
+  inPoint: number;
+  outPoint: number;
+} {
+  const inPoint = clip.inPoint ?? 0;
+  const outPoint =
+    clip.outPoint ?? inPoint + (clip.end - clip.start) * getClipSpeed(clip);
+  return { inPoint, outPoint };
+}
+
+/**
+ * 变速的 atempo 滤镜链。单个 atempo 只接受 0.5~2，超出范围时拆成多级相乘。
+ * speed 为 1 时返回空数组。
+ */
+export function buildAtempoFilters(speed: number): string[] {
+  const filters: string[] = [];
+  let rest = speed;
+  while (rest > MAX_SPEED) {
+    filters.push(`atempo=${MAX_SPEED}`);
+    rest /= MAX_SPEED;
+  }
+  while (rest < MIN_SPEED) {
+    filters.push(`atempo=${MIN_SPEED}`);
+    rest /= MIN_SPEED;
+  }
+  if (Math.abs(rest - 1) > 1e-6) {
+    filters.push(`atempo=${ff(rest, 6)}`);
+  }
+  return filters;
+}
+
+/** 导出整体倍速（ExportOptions.speed），非法值为原速 */
+export function getExportSpeed(options: ExportOptions): number {
+  const speed = typeof options.speed === "number" ? options.speed : 1;
+  return Number.isFinite(speed) && speed > 0 ? speed : 1;
+}
+
+/** 参与混音的音频片段 */
+export type AudioSourceOp = {
+  clip: RenderClip;
+  asset: RenderAsset;
+  track: RenderTrack;
+  gain: number;
+};
+
+/**
+ * 收集所有带声音的片段（音频片段、含音轨的视频片段）。
+ * 与预览一致，隐藏轨道的声音仍然播放；静音轨、静音片段或音量为 0（且无音量关键帧）的片段直接跳过。
+ */
+export function collectAudioSources(project: RenderProject): AudioSourceOp[] {
+  const sources: AudioSourceOp[] = [];
+  for (const track of project.tracks) {
+    for (const clip of track.clips) {
+      const asset = project.assets.find((a) => a.id === clip.assetId);
+      if (!asset || !isFfmpegReadableSource(asset.source)) continue;
+
+      const hasAudio =
+        (clip.kind === "audio" && asset.kind === "audio") ||
+        (clip.kind === "video" && asset.kind === "video" && !!asset.audioMeta);
+      if (!hasAudio) continue;
+
+      const gain = getClipGain(clip, track);
+      // 音量有关键帧时即使静态音量为 0 也可能发声
+      const hasVolumeKeyframes =
+        !isClipSilenced(clip, track) &&
+        getClipKeyframes(clip, "volume").length > 0;
+      if (gain <= 0 && !hasVolumeKeyframes) continue;
+      sources.push({ clip, asset, track, gain });
+    }
+  }
+  return sources;
+}
+
+/**
+ * 片段淡入 / 淡出时长（params.fadeIn / fadeOut，秒）：非法值视为 0，
+ * 两者之和超过片段时长时按比例缩短。与 @vitecut/project 的 getClipFade 保持一致。
+ */
+export function getClipFade(clip: RenderClip): {
+  fadeIn: number;
+  fadeOut: number;
+} {
+  const params = clip.params as
+    | { fadeIn?: unknown; fadeOut?: unknown }
+    | undefined;
+  const read = (value: unknown) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : 0;
+  };
+  const duration = Math.max(0, clip.end - clip.start);
+  const fadeIn = read(params?.fadeIn);
+  const fadeOut = read(params?.fadeOut);
+  const total = fadeIn + fadeOut;
+  if (total <= duration || total === 0) return { fadeIn, fadeOut };
+  const ratio = duration / total;
+  return { fadeIn: fadeIn * ratio, fadeOut: fadeOut * ratio };
+}
+
+/**
+ * 片段增益滤镜：音量（有音量关键帧时逐帧求值，否则为静态增益）后接淡入 / 淡出 afade。
+ * afade 默认 tri 曲线为线性增益，与预览 GainNode 的线性斜坡一致。
+ * @param clipStart 片段起点在流内的时间；流从片段起点开始时为 0（t 即片段内时间）
+ */
+function buildGainFilters(op: AudioSourceOp, clipStart = 0): string[] {
+  const filters: string[] = [];
+  if (getClipKeyframes(op.clip, "volume").length === 0) {
+    filters.push(`volume=${ff(op.gain)}`);
+  } else {
+    const expr = propertyExpr(op.clip, "volume", op.gain, "t", clipStart);
+    filters.push(`volume='clip(${expr},0,1)':eval=frame`);
+  }
+  const { fadeIn, fadeOut } = getClipFade(op.clip);
+  if (fadeIn > 0) {
+    filters.push(`afade=t=in:st=${ff(clipStart)}:d=${ff(fadeIn)}`);
+  }
+  if (fadeOut > 0) {
+    const clipEnd = clipStart + (op.clip.end - op.clip.start);
+    filters.push(`afade=t=out:st=${ff(clipEnd - fadeOut)}:d=${ff(fadeOut)}`);
+  }
+  return filters;
+}
+
+/**
+ * 构建多轨合成的 ffmpeg 输入与滤镜图。
+ *
+ * - 0 号输入为 1x1 黑图，loop 到工程时长作为画布底
+ * - 每个不同的视频/图片 asset 注册一个输入，片段各自映射到自己的流
+ * - 文本片段使用 textRasters 中预先光栅化的 PNG，每个片段一路输入
+ * - 片段流按 params.speed 变速（视频 setpts、音频 atempo），平移到 clip.start，再按轨道顺序逐层 overlay
+ * - 带关键帧的片段改用逐帧求值的 scale/rotate/overlay/volume 表达式（见 keyframes.ts）
+ * - 转场串起的片段各自叠到透明画布上，经 xfade / acrossfade 过渡后整体叠加（见 transitions.ts）
+ * - 带声音的片段各自 atrim/volume/afade/adelay 后经 amix 混音，重采样到导出采样率
+ * - 设置了音频闪避的轨道在混音前经 sidechaincompress 压低（见 ducking.ts）
+ * - 导出整体倍速在合成结果上统一处理，无需再对成片做后处理
+ */
+export function buildRenderGraph(
+  project: RenderProject,
+  options: ExportOptions,
+  baseImagePath: string,
+  textRasters: ReadonlyMap<string, TextRaster> = new Map()
+): RenderGraph {
+  // 项目基础参数
+  const projW = project.width;
+  const projH = project.height;
+  const outW = options.width;
+  const outH = options.height;
+  const fps = options.fps || 30;
+  const duration = project.duration;
+
+  const layers = collectLayers(project);
+  const audioSources = collectAudioSources(project);
+
+  // 没有任何合法可渲染媒体时给出明确报错
+  if (layers.length === 0 && audioSources.length === 0) {
+    throw new Error("工程中无可渲染的媒体（需 HTTP URL）或文本");
+  }
+
+  const registry = new InputRegistry();
+  // 第一个输入：1x1 黑底图片
+  registry.add({
+    source: baseImagePath,
+    options: ["-loop", "1", "-t", ff(duration), "-r", String(fps)],
+  });
+
+  // 先登记全部媒资输入，才能知道哪些流需要 split
+  const inputIndexByClipId = new Map<string, number>();
+  for (const op of layers) {
+    if (op.type === "text") continue;
+    inputIndexByClipId.set(op.clip.id, registry.useAsset(op.asset, "v"));
+  }
+  const audioInputIndexByClipId = new Map<string, number>();
+  for (const op of audioSources) {
+    audioInputIndexByClipId.set(op.clip.id, registry.useAsset(op.asset, "a"));
+  }
+
+  // 复杂滤镜脚本片段累加
+  const filterParts: string[] = registry.buildSplits();
+  let lastLabel = "base";
+
+  // 使用 project.backgroundColor 作为画布底；无或黑色时直接 copy，否则用 drawbox 填色
+  const bgHex = project.backgroundColor ?? "#000000";
+  const ffmpegColor = hexToFfmpegColor(bgHex);
+  const isBlack = ffmpegColor === "0x000000";
+  // 1x1 黑图需先 scale 到输出尺寸
+  filterParts.push(
+    isBlack
+      ? `[0:v]scale=${outW}:${outH}[${lastLabel}]`
+      : `[0:v]scale=${outW}:${outH},drawbox=x=0:y=0:w=iw:h=ih:color=${ffmpegColor}@1:t=fill[${lastLabel}]`
+  );
+
+  /**
+   * 构建单个图层的片段流（缩放与变换之后、overlay 之前），返回流标签与 overlay 定位。
+   * ext 为转场带来的前后延伸：静态图层直接加长，视频用 tpad 定格首尾帧；
+   * 流时间戳从 clip.start - ext.before 开始。
+   */
+  const buildLayerStream = (
+    op: LayerOp,
+    ext: { before: number; after: number }
+  ): { label: string; position: string } => {
+    const { clip, asset } = op;
+    const extended = ext.before > 0 || ext.after > 0;
+    const streamStart = clip.start - ext.before;
+    const streamDuration = clip.end - clip.start + ext.before + ext.after;
+    // 片段流时间戳从 clip.start 开始，overlay 按时间戳对齐到正确位置
+    const shiftPts = `setpts=PTS-STARTPTS+${ff(streamStart)}/TB`;
+
+    if (op.type === "text") {
+      // 文本层：使用预先光栅化的透明 PNG，按图片方式补帧
+      const raster = textRasters.get(clip.id)!;
+      const textIndex = registry.add({ source: raster.source, options: [] });
+      const txtLabel = `txt${filterParts.length}`;
+      const animated = hasTransformKeyframes(clip)
+        ? buildAnimatedLayer(op, projW, projH, outW, outH, raster)
+        : null;
+      filterParts.push(
+        [
+          `[${textIndex}:v]loop=-1:size=1:start=0`,
+          `trim=0:${ff(streamDuration)}`,
+          `fps=${fps}`,
+          shiftPts,
+          ...(animated
+            ? [animated.scale, ...animated.transforms]
+            : buildLayerTransformFilters(raster.geometry)),
+        ].join(",") + `[${txtLabel}]`
+      );
+      return {
+        label: txtLabel,
+        position: animated?.position ?? overlayCenterPosition(raster.geometry),
+      };
+    }
+
+    const inputLabel = registry.take(inputIndexByClipId.get(clip.id)!, "v");
+    const geom = getLayerGeometry(op, projW, projH, outW, outH);
+    // 有关键帧时缩放、变换与定位改为逐帧表达式
+    const animated = hasTransformKeyframes(clip)
+      ? buildAnimatedLayer(op, projW, projH, outW, outH)
+      : null;
+    // 缩放后依次：画面调整（亮度/对比度等）→ 翻转/透明度/旋转
+    const transformFilters = [
+      ...getClipColorFilters(clip.params, outW / projW),
+      ...(animated?.transforms ?? buildLayerTransformFilters(geom)),
+    ];
+    const position = animated?.position ?? overlayCenterPosition(geom);
+
+    if (op.type === "image") {
+      const imgLabel = `img${filterParts.length}`;
+      // 图片先loop补帧，trim对齐出现时长，scale缩放，再做画面调整与变换
+      filterParts.push(
+        [
+          `[${inputLabel}]loop=-1:size=1:start=0`,
+          `trim=0:${ff(streamDuration)}`,
+          `fps=${fps}`,
+          shiftPts,
+          animated?.scale ?? `scale=${geom.w}:${geom.h}`,
+          ...transformFilters,
+        ].join(",") + `[${imgLabel}]`
+      );
+      return { label: imgLabel, position };
+    }
+
+    // 视频层处理（可做in/out裁剪、变速和缩放）
+    const { inPoint, outPoint } = getClipSourceRange(clip);
+    const speed = getClipSpeed(clip);
+    // 素材时间 / speed = 时间轴时间，再平移到 clip.start；
+    // 有转场延伸时先从 0 起算，tpad 定格首尾帧后再平移
+    const localPts =
+      speed === 1
+        ? "setpts=PTS-STARTPTS"
+        : `setpts=(PTS-STARTPTS)/${ff(speed, 6)}`;
+    const timingFilters = extended
+      ? [
+          localPts,
+          `tpad=start_mode=clone:start_duration=${ff(ext.before)}` +
+            `:stop_mode=clone:stop_duration=${ff(ext.after)}`,
+          shiftPts,
+        ]
+      : [
+          speed === 1
+            ? shiftPts
+            : `setpts=(PTS-STARTPTS)/${ff(speed, 6)}+${ff(clip.start)}/TB`,
+        ];
+    // 无源宽高信息时按 contain 缩放，定位仍以实际尺寸居中
+    const scaleFilter =
+      animated?.scale ??
+      (asset.videoMeta
+        ? `scale=${geom.w}:${geom.h}`
+        : `scale=${geom.w}:${geom.h}:force_original_aspect_ratio=decrease`);
+
+    const vidLabel = `vid${filterParts.length}`;
+    // 视频裁剪trim，变速并平移 pts，缩放，再做画面调整与变换
+    filterParts.push(
+      [
+        `[${inputLabel}]trim=${ff(inPoint)}:${ff(outPoint)}`,
+        ...timingFilters,
+        scaleFilter,
+        ...transformFilters,
+      ].join(",") + `[${vidLabel}]`
+    );
+    return { label: vidLabel, position };
+  };
+
+  // 按层叠加处理文本、图片、视频；空文本没有光栅化结果，不参与合成
+  const chains = buildTransitionChains(
+    layers.filter((op) => op.type !== "text" || textRasters.has(op.clip.id))
+  );
+  for (const chain of chains) {
+    if (chain.items.length === 1) {
+      const { clip } = chain.items[0];
+      const stream = buildLayerStream(chain.items[0], {
+        before: 0,
+        after: 0,
+      });
+      const outLabel = `o${filterParts.length}`;
+      // overlay 合成到叠底；片段结束后 eof_action=pass 直接透出下层
+      filterParts.push(
+        `[${lastLabel}][${stream.label}]overlay=${stream.position}:eof_action=pass:${enableBetween(clip)}[${outLabel}]`
+      );
+      lastLabel = outLabel;
+      continue;
+    }
+
+    // 转场链：每个片段先叠到与画布同尺寸的透明底上，再用 xfade 依次过渡，最后整体叠加
+    // 链首不向前延伸、链尾不向后延伸，链的区间即首尾片段的区间
+    const chainStart = chain.items[0].clip.start;
+    const chainEnd = chain.items[chain.items.length - 1].clip.end;
+    let xfadeLabel = "";
+    chain.items.forEach((op, i) => {
+      const ext = getChainExtension(chain, i);
+      const stream = buildLayerStream(op, ext);
+      const memberStart = op.clip.start - ext.before;
+      const memberDuration =
+        op.clip.end - op.clip.start + ext.before + ext.after;
+      const canvasLabel = `cv${filterParts.length}`;
+      filterParts.push(
+        `color=c=black@0:s=${outW}x${outH}:r=${fps}:d=${ff(memberDuration)},format=rgba,setpts=PTS+${ff(memberStart)}/TB[${canvasLabel}]`
+      );
+      const memberLabel = `m${filterParts.length}`;
+      // xfade 要求各路从 0 开始、尺寸与格式一致
+      filterParts.push(
+        `[${canvasLabel}][${stream.label}]overlay=${stream.position}:eof_action=pass:format=auto,setpts=PTS-STARTPTS,format=yuva444p[${memberLabel}]`
+      );
+      if (i === 0) {
+        xfadeLabel = memberLabel;
+        return;
+      }
+      const transition = chain.transitions[i - 1];
+      // 过渡起点 = 接缝 - duration/2，相对链起点
+      const offset = op.clip.start - transition.duration / 2 - chainStart;
+      const outLabel = `x${filterParts.length}`;
+      filterParts.push(
+        `[${xfadeLabel}][${memberLabel}]xfade=transition=${getXfadeTransition(transition.type)}:duration=${ff(transition.duration)}:offset=${ff(offset)}[${outLabel}]`
+      );
+      xfadeLabel = outLabel;
+    });
+    const chainLabel = `c${filterParts.length}`;
+    filterParts.push(
+      `[${xfadeLabel}]setpts=PTS-STARTPTS+${ff(chainStart)}/TB[${chainLabel}]`
+    );
+    const outLabel = `o${filterParts.length}`;
+    filterParts.push(
+      `[${lastLabel}][${chainLabel}]overlay=0:0:eof_action=pass:enable='gte(t,${ff(chainStart)})*lte(t,${ff(chainEnd)})'[${outLabel}]`
+    );
+    lastLabel = outLabel;
+  }
+  // 导出整体倍速：对合成后的画面统一变速
+  const exportSpeed = getExportSpeed(options);
+  if (exportSpeed !== 1) {
+    filterParts.push(`[${lastLabel}]setpts=PTS/${ff(exportSpeed, 6)}[vout]`);
+    lastLabel = "vout";
+  }
+
+  // 音频：每个片段裁剪到入出点、变速、乘以音量、延迟到 clip.start，最后统一混音
+  let audioLabel: string | null = null;
+  if (audioSources.length > 0) {
+    const mixInputs: MixInput[] = [];
+    for (const chain of buildTransitionChains(audioSources)) {
+      if (chain.items.length === 1) {
+        const op = chain.items[0];
+        const { clip } = op;
+        const inputLabel = registry.take(
+          audioInputIndexByClipId.get(clip.id)!,
+          "a"
+        );
+        const { inPoint, outPoint } = getClipSourceRange(clip);
+        const delayMs = Math.max(0, Math.round(clip.start * 1000));
+        const label = `a${filterParts.length}`;
+        filterParts.push(
+          [
+            `[${inputLabel}]atrim=${ff(inPoint)}:${ff(outPoint)}`,
+            "asetpts=PTS-STARTPTS",
+            ...buildAtempoFilters(getClipSpeed(clip)),
+            ...buildGainFilters(op),
+            `adelay=${delayMs}:all=1`,
+          ].join(",") + `[${label}]`
+        );
+        mixInputs.push({ label, trackId: op.track.id });
+        continue;
+      }
+
+      // 转场链：片段按延伸区间多取素材（不足处补静音），相邻片段 acrossfade 后整体延迟
+      let fadeLabel = "";
+      chain.items.forEach((op, i) => {
+        const { clip } = op;
+        const ext = getChainExtension(chain, i);
+        const inputLabel = registry.take(
+          audioInputIndexByClipId.get(clip.id)!,
+          "a"
+        );
+        const speed = getClipSpeed(clip);
+        const { inPoint, outPoint } = getClipSourceRange(clip);
+        const sourceStart = Math.max(0, inPoint - ext.before * speed);
+        const sourceEnd = outPoint + ext.after * speed;
+        // 素材开头不够向前延伸时，在前面补静音
+        const leadMs = Math.round(
+          (ext.before - (inPoint - sourceStart) / speed) * 1000
+        );
+        const memberDuration = clip.end - clip.start + ext.before + ext.after;
+        const label = `a${filterParts.length}`;
+        filterParts.push(
+          [
+            `[${inputLabel}]atrim=${ff(sourceStart)}:${ff(sourceEnd)}`,
+            "asetpts=PTS-STARTPTS",
+            ...buildAtempoFilters(speed),
+            ...(leadMs > 0 ? [`adelay=${leadMs}:all=1`] : []),
+            ...buildGainFilters(op, ext.before),
+            `apad=whole_dur=${ff(memberDuration)}`,
+            `atrim=0:${ff(memberDuration)}`,
+            "asetpts=PTS-STARTPTS",
+          ].join(",") + `[${label}]`
+        );
+        if (i === 0) {
+          fadeLabel = label;
+          return;
+        }
+        const outLabel = `af${filterParts.length}`;
+        filterParts.push(
+          `[${fadeLabel}][${label}]acrossfade=d=${ff(chain.transitions[i - 1].duration)}:c1=tri:c2=tri[${outLabel}]`
+        );
+        fadeLabel = outLabel;
+      });
+      const chainStart = chain.items[0].clip.start;
+      const label = `a${filterParts.length}`;
+      filterParts.push(
+        `[${fadeLabel}]adelay=${Math.max(0, Math.round(chainStart * 1000))}:all=1[${label}]`
+      );
+      mixInputs.push({ label, trackId: chain.items[0].track.id });
+    }
+    const mixLabels = applyDuckingToMix(project, mixInputs, filterParts);
+    audioLabel = "aout";
+    // normalize=0：各路直接相加，与预览 Web Audio 的叠加方式一致
+    const mixChain = [
+      `amix=inputs=${mixLabels.length}:duration=longest:dropout_transition=0:normalize=0`,
+      ...buildAtempoFilters(exportSpeed),
+      `aresample=${options.audioSampleRate}`,
+    ];
+    filterParts.push(
+      `${mixLabels.map((l) => `[${l}]`).join("")}${mixChain.join(",")}[${audioLabel}]`
+    );
+  }
+
+  return {
+    inputs: registry.inputs,
+    filterComplex: filterParts.join(";"),
+    videoLabel: lastLabel,
+    audioLabel,
+    duration: duration / exportSpeed,
+  };
+}
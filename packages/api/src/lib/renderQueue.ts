@@ -0,0 +1,445 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { FastifyBaseLogger } from "fastify";
+import type { StorageAdapter } from "@vitecut/storage";
+import type { RenderJobRequest } from "../types.js";
+import {
+  renderVideo,
+  type RenderProgress,
+  type RenderResult,
+} from "./render.js";
+import { formatLoudnessReport } from "./loudness.js";
+import { resolveAssetSources } from "./assetSources.js";
+import {
+  claimNextRenderJob,
+  clearRenderPayload,
+  findById,
+  findStaleRenderJobs,
+  requeueRenderJob,
+  saveRenderPayload,
+  touchRunningTask,
+  update,
+  type QueuedRenderJob,
+  type TaskStatus,
+} from "./taskRepository.js";
+import { broadcastTaskUpdate } from "./taskEvents.js";
+
+/**
+ * 渲染队列：以 tasks 表为持久化队列，按配置的并发数领取导出任务执行。
+ *
+ * - POST /api/render-jobs 只把渲染请求写入 tasks.payload 并置为 pending，由队列按创建时间领取；
+ * - 执行中的任务定时刷新 updated_at 作为心跳，心跳发现任务已被取消或删除时结束 ffmpeg；
+ * - 进程重启或 worker 异常退出后，心跳超时的 running 任务会被重新放回队列；
+ * - 队列可随 API 进程启动，也可只在独立 worker 进程（src/worker.ts）中启动，
+ *   此时 API 进程通过 taskUpdateRelay.ts 向 SSE 连接转发 worker 写入的进度。
+ */
+
+/** 队列存放的渲染请求 */
+type RenderJobPayload = Pick<RenderJobRequest, "project" | "exportOptions">;
+
+/** 队列使用的日志接口：API 进程传入 Fastify logger，独立 worker 传入 console */
+export type RenderQueueLogger = Pick<
+  FastifyBaseLogger,
+  "info" | "warn" | "error"
+>;
+
+/** 渲染队列配置 */
+export interface RenderQueueOptions {
+  storage: StorageAdapter;
+  logger: RenderQueueLogger;
+  /** 同时执行的渲染任务数，默认取环境变量 RENDER_CONCURRENCY（缺省为 1） */
+  concurrency?: number;
+}
+
+/** 心跳间隔（ms），也决定了其他进程发起的取消多久后生效 */
+const HEARTBEAT_INTERVAL_MS = 5_000;
+
+/** 心跳超时（ms），超过该时长未更新的 running 任务视为遗留任务 */
+const STALE_AFTER_MS = 60_000;
+
+/** 轮询间隔（ms），用于领取其他进程写入的任务与回收超时任务 */
+const POLL_INTERVAL_MS = 5_000;
+
+/** 渲染进度写入任务的最小间隔（ms），ffmpeg 每秒会输出多次进度 */
+const PROGRESS_THROTTLE_MS = 1_000;
+
+/** 渲染阶段在任务进度中的区间：10% 开始渲染，80% 开始上传 */
+const RENDER_PROGRESS_START = 10;
+const RENDER_PROGRESS_END = 80;
+
+/** 取消后写入任务的提示信息 */
+const CANCELLED_MESSAGE = "已取消";
+
+/** 进程退出时中止任务使用的 abort reason，与用户取消区分 */
+const SHUTDOWN_REASON = "render-queue-shutdown";
+
+let queueOptions: (RenderQueueOptions & { concurrency: number }) | null = null;
+
+/** 本进程执行中的任务 id → 取消控制器与执行结束的 Promise */
+const runningJobs = new Map<
+  string,
+  { controller: AbortController; finished: Promise<void> }
+>();
+
+/** 定时轮询的句柄，stopRenderQueue 时清除 */
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+/** 正在退出：不再领取新任务 */
+let stopping = false;
+
+/** 正在领取任务；领取期间又有新任务入队时标记 drainAgain，结束后再领取一轮 */
+let draining = false;
+let drainAgain = false;
+
+/** 读取环境变量中的并发数，非法时回退为 1 */
+function getConcurrencyFromEnv(): number {
+  const value = Number.parseInt(process.env.RENDER_CONCURRENCY || "", 10);
+  return Number.isFinite(value) ? Math.max(1, Math.min(16, value)) : 1;
+}
+
+/** 剩余时间的简短描述，如“1分20秒” */
+function formatEta(seconds: number): string {
+  const total = Math.max(1, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}小时${m}分`;
+  if (m > 0) return `${m}分${s}秒`;
+  return `${s}秒`;
+}
+
+/** 渲染进度写入任务 message 的描述：阶段、百分比、帧率与剩余时间 */
+function formatRenderProgressMessage(progress: RenderProgress): string {
+  const parts = [
+    progress.stage === "loudness" ? "正在标准化响度…" : "正在渲染视频…",
+    `${Math.floor(progress.ratio * 100)}%`,
+  ];
+  if (progress.fps) parts.push(`${Math.round(progress.fps)} fps`);
+  if (progress.etaSeconds != null) {
+    parts.push(`剩余约 ${formatEta(progress.etaSeconds)}`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * 更新任务并向所属用户推送最新状态
+ * @returns 是否实际写入（指定 onlyIfStatus 且状态不符时为 false，不推送）
+ */
+async function updateAndBroadcast(
+  taskId: string,
+  userId: string,
+  updates: Parameters<typeof update>[2],
+  onlyIfStatus?: TaskStatus[]
+): Promise<boolean> {
+  const updatedAt = await update(taskId, userId, updates, onlyIfStatus);
+  if (updatedAt == null) return false;
+  const task = await findById(taskId);
+  if (task) broadcastTaskUpdate(userId, task);
+  return true;
+}
+
+/**
+ * 执行一条渲染任务：渲染、上传存储、写入结果
+ */
+async function runJob(
+  job: QueuedRenderJob,
+  controller: AbortController
+): Promise<void> {
+  const { storage, logger } = queueOptions!;
+  const { id: taskId, userId } = job;
+  const signal = controller.signal;
+
+  // 心跳：任务被取消（status 不再是 running）或删除时结束渲染
+  const heartbeat = setInterval(() => {
+    touchRunningTask(taskId)
+      .then((running) => {
+        if (!running) controller.abort();
+      })
+      .catch((err) => logger.warn(err, "渲染任务心跳失败"));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // 更新任务进度并广播（已取消的任务不再写入，避免覆盖取消状态）
+  const setTaskProgress = async (updates: {
+    progress?: number;
+    message?: string;
+  }) => {
+    if (signal.aborted) return;
+    await updateAndBroadcast(taskId, userId, updates, ["running"]);
+  };
+
+  // ffmpeg 进度节流后按顺序写入，避免并发写入导致进度回退
+  let lastProgressAt = 0;
+  let progressWrites = Promise.resolve();
+  const reportRenderProgress = (progress: RenderProgress) => {
+    const now = Date.now();
+    if (now - lastProgressAt < PROGRESS_THROTTLE_MS) return;
+    lastProgressAt = now;
+    const percent = Math.floor(
+      RENDER_PROGRESS_START +
+        (RENDER_PROGRESS_END - RENDER_PROGRESS_START) * progress.overall
+    );
+    progressWrites = progressWrites
+      .then(() =>
+        setTaskProgress({
+          progress: Math.min(RENDER_PROGRESS_END - 1, percent),
+          message: formatRenderProgressMessage(progress),
+        })
+      )
+      .catch((err) => logger.warn(err, "渲染进度写入失败"));
+  };
+
+  try {
+    const { project, exportOptions } = JSON.parse(
+      job.payload
+    ) as RenderJobPayload;
+
+    // 5%：解析素材地址（data URL、存储对象 key 落盘，SVG 光栅化），有素材无法读取时直接失败
+    await setTaskProgress({ progress: 5, message: "正在准备素材…" });
+    const resolved = await resolveAssetSources(
+      project,
+      userId,
+      storage,
+      exportOptions,
+      signal
+    );
+
+    // 10%：渲染阶段，之后按 ffmpeg 实际进度推进到 80%
+    await setTaskProgress({
+      progress: RENDER_PROGRESS_START,
+      message: "正在渲染视频…",
+    });
+    // 先本地渲染，再上传 OSS，避免 API 依赖本地 /output 静态文件。
+    // 片段倍速与导出整体倍速均在合成阶段一次完成；开启响度标准化时，成片渲染后再做两遍 loudnorm
+    let renderResult: RenderResult;
+    try {
+      renderResult = await renderVideo(resolved.project, exportOptions, {
+        signal,
+        onProgress: reportRenderProgress,
+      });
+    } finally {
+      resolved.cleanup();
+    }
+    const { outputPath, loudness } = renderResult;
+    // 等待已排队的进度写入完成，避免其晚于后续阶段写入
+    await progressWrites;
+
+    let resultObjectKey = "";
+    try {
+      signal.throwIfAborted();
+      // 80%：上传中
+      await setTaskProgress({
+        progress: RENDER_PROGRESS_END,
+        message: "正在上传导出文件…",
+      });
+
+      // 输出文件名后缀
+      const ext = path.extname(outputPath).toLowerCase();
+      // 构建 OSS 文件 objectKey
+      const objectKey = storage.buildObjectKey(
+        "system",
+        `render${ext || ".mp4"}`
+      );
+      // 根据不同格式设置 contentType
+      const contentType =
+        ext === ".gif"
+          ? "image/gif"
+          : ext === ".mov"
+            ? "video/quicktime"
+            : "video/mp4";
+      // 上传到 OSS，返回上传结果
+      await storage.putBuffer({
+        objectKey,
+        buffer: fs.readFileSync(outputPath),
+        contentType,
+      });
+      resultObjectKey = objectKey;
+      // 95%：整理任务结果
+      await setTaskProgress({ progress: 95, message: "正在整理任务结果…" });
+    } finally {
+      // 无论是否成功，始终尝试清理临时输出文件
+      fs.rmSync(outputPath, { force: true });
+    }
+
+    signal.throwIfAborted();
+    // 100%：成功，更新任务为 success，结果中包含访问链接与响度测量值
+    // 仅在任务仍为 running 时写入：与取消并发时以先写入者为准
+    const completed = await updateAndBroadcast(
+      taskId,
+      userId,
+      {
+        status: "success",
+        progress: 100,
+        message: loudness ? formatLoudnessReport(loudness) : null,
+        results: JSON.stringify([
+          { objectKey: resultObjectKey, ...(loudness ? { loudness } : {}) },
+        ]),
+      },
+      ["running"]
+    );
+    if (!completed) {
+      // 上传期间任务已被取消或删除，丢弃渲染结果
+      logger.info({ taskId }, "渲染任务已取消，丢弃渲染结果");
+      await storage
+        .deleteObject(resultObjectKey)
+        .catch((err) => logger.warn(err, "删除已取消任务的渲染结果失败"));
+    }
+  } catch (err) {
+    // 先等未完成的进度写入，避免其覆盖失败信息
+    await progressWrites;
+    if (signal.aborted && signal.reason === SHUTDOWN_REASON) {
+      // 进程退出：放回队列由其他 worker（或重启后的本进程）继续执行，保留渲染请求
+      await requeueRenderJob(taskId, "渲染进程退出，已重新排队…");
+      logger.warn({ taskId }, "进程退出，渲染任务重新排队");
+      return;
+    }
+    if (signal.aborted) {
+      // 取消时任务状态已由 cancelRenderJob 写入
+      logger.info({ taskId }, "渲染任务已取消");
+    } else {
+      // 出现异常，记录日志，将任务标记为失败
+      logger.error(err, "导出后台任务异常");
+      const message = err instanceof Error ? err.message : "导出失败";
+      await updateAndBroadcast(taskId, userId, { status: "failed", message }, [
+        "running",
+      ]);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+  await clearRenderPayload(taskId);
+}
+
+/**
+ * 在并发数允许的范围内领取排队中的任务并启动执行
+ */
+async function drainQueue(): Promise<void> {
+  if (!queueOptions || stopping) return;
+  if (draining) {
+    drainAgain = true;
+    return;
+  }
+  draining = true;
+  const { logger, concurrency } = queueOptions;
+  try {
+    do {
+      drainAgain = false;
+      while (!stopping && runningJobs.size < concurrency) {
+        const job = await claimNextRenderJob();
+        if (!job) break;
+        const controller = new AbortController();
+        const finished = runJob(job, controller)
+          .catch((err) => logger.error(err, "导出后台任务未捕获错误"))
+          .finally(() => {
+            runningJobs.delete(job.id);
+            void drainQueue();
+          });
+        runningJobs.set(job.id, { controller, finished });
+      }
+    } while (drainAgain && !stopping && runningJobs.size < concurrency);
+  } catch (err) {
+    logger.error(err, "领取渲染任务失败");
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * 回收心跳超时的 running 任务，重新放回队列
+ */
+async function requeueStaleJobs(): Promise<void> {
+  const staleBefore = Date.now() - STALE_AFTER_MS;
+  for (const job of await findStaleRenderJobs(staleBefore)) {
+    // 本进程仍在执行的任务由心跳维护，不回收
+    if (runningJobs.has(job.id)) continue;
+    const requeued = await requeueRenderJob(
+      job.id,
+      "渲染中断，已重新排队…",
+      staleBefore
+    );
+    if (!requeued) continue;
+    queueOptions?.logger.warn({ taskId: job.id }, "渲染任务心跳超时，重新排队");
+    const task = await findById(job.id);
+    if (task) broadcastTaskUpdate(job.userId, task);
+  }
+}
+
+/**
+ * 启动渲染队列（每个进程调用一次）：
+ * 立即回收遗留任务并领取排队任务，之后定时轮询。
+ */
+export function startRenderQueue(options: RenderQueueOptions): void {
+  if (queueOptions) return;
+  queueOptions = {
+    ...options,
+    concurrency: options.concurrency ?? getConcurrencyFromEnv(),
+  };
+  const tick = () => {
+    requeueStaleJobs()
+      .catch((err) => options.logger.error(err, "回收渲染任务失败"))
+      .finally(() => void drainQueue());
+  };
+  tick();
+  pollTimer = setInterval(tick, POLL_INTERVAL_MS);
+}
+
+/**
+ * 停止渲染队列（进程退出前调用）：不再领取新任务，
+ * 中止本进程执行中的任务并放回队列，等待其清理完成。
+ */
+export async function stopRenderQueue(): Promise<void> {
+  stopping = true;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  const jobs = [...runningJobs.values()];
+  for (const { controller } of jobs) {
+    controller.abort(SHUTDOWN_REASON);
+  }
+  await Promise.all(jobs.map((job) => job.finished));
+}
+
+/**
+ * 渲染请求入队：写入 tasks.payload 并置为 pending，随后尝试立即领取
+ * @returns 是否入队成功（任务不存在、不属于该用户、不是导出任务或已开始执行时为 false）
+ */
+export async function enqueueRenderJob(
+  taskId: string,
+  userId: string,
+  payload: RenderJobPayload
+): Promise<boolean> {
+  const saved = await saveRenderPayload(
+    taskId,
+    userId,
+    JSON.stringify(payload),
+    "排队中…"
+  );
+  if (!saved) return false;
+  const task = await findById(taskId);
+  if (task) broadcastTaskUpdate(userId, task);
+  void drainQueue();
+  return true;
+}
+
+/**
+ * 取消渲染任务：标记为失败（已取消），本进程正在执行时立即结束 ffmpeg；
+ * 其他进程执行中的任务由其心跳发现状态变化后自行结束。
+ * @returns 是否取消成功（任务已结束时为 false，状态保持不变）
+ */
+export async function cancelRenderJob(
+  taskId: string,
+  userId: string
+): Promise<boolean> {
+  const cancelled = await updateAndBroadcast(
+    taskId,
+    userId,
+    { status: "failed", message: CANCELLED_MESSAGE },
+    ["pending", "running"]
+  );
+  if (!cancelled) return false;
+  runningJobs.get(taskId)?.controller.abort();
+  if (!runningJobs.has(taskId)) {
+    await clearRenderPayload(taskId);
+  }
+  return true;
+}
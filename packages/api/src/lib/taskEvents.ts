@@ -27,6 +27,13 @@ export function subscribe(userId: string, send: SendFunction): () => void {
   };
 }
 
+/**
+ * 当前有 SSE 连接的用户 id 列表
+ */
+export function getSubscribedUserIds(): string[] {
+  return [...subscriptions.keys()];
+}
+
 /**
  * 向指定用户的所有已连接客户端广播任务更新
  * @param userId 用户 id
@@ -0,0 +1,164 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "./db.js";
+import {
+  claimNextRenderJob,
+  listExportTasksUpdatedSince,
+  requeueRenderJob,
+  touchRunningTask,
+  update,
+} from "./taskRepository.js";
+
+type QueryCall = { sql: string; params: unknown[] };
+
+/**
+ * 将 db.query 替换为按顺序返回给定结果的桩：
+ * SELECT 传行数组，UPDATE 传受影响行数
+ */
+function stubQueries(results: (unknown[] | number)[]): QueryCall[] {
+  const calls: QueryCall[] = [];
+  const queue = [...results];
+  mock.method(
+    db as unknown as { query: (sql: string, params?: unknown[]) => unknown },
+    "query",
+    async (sql: string, params: unknown[] = []) => {
+      calls.push({ sql, params });
+      const next = queue.shift();
+      if (next === undefined) throw new Error(`未预期的查询：${sql}`);
+      return [typeof next === "number" ? { affectedRows: next } : next, []];
+    }
+  );
+  return calls;
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("claimNextRenderJob", () => {
+  it("队列为空时返回 null", async () => {
+    stubQueries([[]]);
+    assert.equal(await claimNextRenderJob(), null);
+  });
+
+  it("以 status = 'pending' 为条件领取，已被其他 worker 领取时继续取下一条", async () => {
+    const calls = stubQueries([
+      [{ id: "t1", user_id: "u1", payload: "{}" }],
+      0,
+      [{ id: "t2", user_id: "u2", payload: '{"a":1}' }],
+      1,
+    ]);
+
+    assert.deepEqual(await claimNextRenderJob(), {
+      id: "t2",
+      userId: "u2",
+      payload: '{"a":1}',
+    });
+    assert.equal(calls.length, 4);
+    for (const call of [calls[1], calls[3]]) {
+      assert.match(
+        call.sql,
+        /^UPDATE tasks SET status = 'running'.*WHERE id = \? AND status = 'pending'$/
+      );
+    }
+    assert.equal(calls[1].params[1], "t1");
+    assert.equal(calls[3].params[1], "t2");
+  });
+});
+
+describe("update", () => {
+  it("指定 onlyIfStatus 时在 SQL 中判断当前状态（取消 / 完成不互相覆盖）", async () => {
+    const calls = stubQueries([0]);
+
+    const result = await update(
+      "t1",
+      "u1",
+      { status: "failed", message: "已取消" },
+      ["pending", "running"]
+    );
+
+    assert.equal(result, null);
+    assert.match(
+      calls[0].sql,
+      /WHERE id = \? AND user_id = \? AND status IN \(\?\)$/
+    );
+    assert.deepEqual(calls[0].params.slice(0, 2), ["failed", "已取消"]);
+    assert.deepEqual(calls[0].params.slice(3), [
+      "t1",
+      "u1",
+      ["pending", "running"],
+    ]);
+  });
+
+  it("未指定 onlyIfStatus 时只按任务与用户更新", async () => {
+    const calls = stubQueries([1]);
+
+    assert.notEqual(await update("t1", "u1", { progress: 50 }), null);
+    assert.match(calls[0].sql, /WHERE id = \? AND user_id = \?$/);
+  });
+});
+
+describe("touchRunningTask", () => {
+  it("任务不再是 running 时返回 false，供心跳结束渲染", async () => {
+    const calls = stubQueries([0]);
+
+    assert.equal(await touchRunningTask("t1"), false);
+    assert.match(calls[0].sql, /WHERE id = \? AND status = 'running'$/);
+  });
+});
+
+describe("requeueRenderJob", () => {
+  it("只把 running 的任务放回队列", async () => {
+    const calls = stubQueries([1]);
+
+    assert.equal(await requeueRenderJob("t1", "重新排队…"), true);
+    assert.match(
+      calls[0].sql,
+      /^UPDATE tasks SET status = 'pending', progress = 0.*WHERE id = \? AND status = 'running'$/s
+    );
+    assert.equal(calls[0].params.length, 3);
+  });
+
+  it("指定 staleBefore 时只放回心跳超时的任务", async () => {
+    const calls = stubQueries([0]);
+
+    assert.equal(await requeueRenderJob("t1", "重新排队…", 1000), false);
+    assert.match(calls[0].sql, /AND updated_at < \?$/);
+    assert.deepEqual(calls[0].params.slice(2), ["t1", 1000]);
+  });
+});
+
+describe("listExportTasksUpdatedSince", () => {
+  it("包含 updated_at 等于 since 的任务，避免漏掉同一毫秒内的更新", async () => {
+    const calls = stubQueries([
+      [
+        {
+          id: "t1",
+          user_id: "u1",
+          type: "export",
+          status: "running",
+          label: "导出",
+          progress: 40,
+          message: null,
+          results: null,
+          created_at: 900,
+          updated_at: 1000,
+        },
+      ],
+    ]);
+
+    const updates = await listExportTasksUpdatedSince(["u1"], 1000);
+    assert.match(calls[0].sql, /updated_at >= \?/);
+    assert.deepEqual(calls[0].params, [["u1"], 1000]);
+    assert.deepEqual(
+      updates.map(({ userId, task }) => [userId, task.id, task.updatedAt]),
+      [["u1", "t1", 1000]]
+    );
+  });
+
+  it("没有订阅用户时不查询", async () => {
+    const calls = stubQueries([]);
+    assert.deepEqual(await listExportTasksUpdatedSince([], 0), []);
+    assert.equal(calls.length, 0);
+  });
+});
@@ -185,14 +185,16 @@ export async function create(
  * @param id 任务ID
  * @param userId 用户ID（确保只能改自己的任务）
  * @param updates 可更新的字段集合
- * @returns 更新时间戳或 null（无权限/未更新）
+ * @param onlyIfStatus 可选：仅当任务当前处于这些状态时才更新（在 SQL 中判断，避免并发写入互相覆盖）
+ * @returns 更新时间戳或 null（无权限/状态不符/未更新）
  */
 export async function update(
   id: string,
   userId: string,
   updates: Partial<
     Pick<TaskRow, "status" | "progress" | "message" | "results" | "label">
-  >
+  >,
+  onlyIfStatus?: TaskStatus[]
 ): Promise<number | null> {
   const sets: string[] = [];
   const params: unknown[] = [];
@@ -231,10 +233,12 @@ export async function update(
   params.push(id, userId);
 
   // 拼 SQL
-  const [result] = await db.query(
-    `UPDATE tasks SET ${sets.join(", ")} WHERE id = ? AND user_id = ?`,
-    params
-  );
+  let sql = `UPDATE tasks SET ${sets.join(", ")} WHERE id = ? AND user_id = ?`;
+  if (onlyIfStatus) {
+    sql += " AND status IN (?)";
+    params.push(onlyIfStatus);
+  }
+  const [result] = await db.query(sql, params);
   const affected = (result as ResultSetHeader)?.affectedRows;
   if (affected === 0) return null;
   return Date.now();
@@ -276,3 +280,143 @@ export async function clearByUserId(
   const affected = (result as ResultSetHeader)?.affectedRows;
   return affected ?? 0;
 }
+
+/** 渲染队列中的一条任务：任务ID、归属用户与序列化的渲染请求 */
+export interface QueuedRenderJob {
+  id: string;
+  userId: string;
+  payload: string; // JSON 字符串，内容为 { project, exportOptions }
+}
+
+/**
+ * 写入渲染请求并将任务置为排队中（pending）
+ * @param id 任务ID
+ * @param userId 用户ID（确保只能操作自己的任务）
+ * @param payload 序列化的渲染请求
+ * @param message 排队提示信息
+ * @returns 是否写入成功（任务不存在、无权限或已开始执行时为 false）
+ */
+export async function saveRenderPayload(
+  id: string,
+  userId: string,
+  payload: string,
+  message: string
+): Promise<boolean> {
+  const [result] = await db.query(
+    `UPDATE tasks SET status = 'pending', progress = 0, message = ?, payload = ?, updated_at = ?
+     WHERE id = ? AND user_id = ? AND type = 'export' AND status = 'pending'`,
+    [message, payload, Date.now(), id, userId]
+  );
+  return ((result as ResultSetHeader)?.affectedRows ?? 0) > 0;
+}
+
+/**
+ * 领取最早排队的渲染任务并置为 running
+ * 以 status = 'pending' 为条件更新，多个 worker 同时领取时只有一个成功
+ * @returns 领取到的任务，队列为空时返回 null
+ */
+export async function claimNextRenderJob(): Promise<QueuedRenderJob | null> {
+  for (;;) {
+    const [rows] = await db.query<RowDataPacket[]>(
+      `SELECT id, user_id, payload FROM tasks
+       WHERE type = 'export' AND status = 'pending' AND payload IS NOT NULL
+       ORDER BY created_at ASC LIMIT 1`
+    );
+    const row = rows?.[0] as
+      | { id: string; user_id: string; payload: string }
+      | undefined;
+    if (!row) return null;
+    const [result] = await db.query(
+      "UPDATE tasks SET status = 'running', updated_at = ? WHERE id = ? AND status = 'pending'",
+      [Date.now(), row.id]
+    );
+    if (((result as ResultSetHeader)?.affectedRows ?? 0) > 0) {
+      return { id: row.id, userId: row.user_id, payload: row.payload };
+    }
+    // 已被其他 worker 领取，继续取下一条
+  }
+}
+
+/**
+ * 渲染中任务的心跳：刷新 updated_at
+ * @param id 任务ID
+ * @returns 任务是否仍在 running（已取消或已删除时为 false）
+ */
+export async function touchRunningTask(id: string): Promise<boolean> {
+  const [result] = await db.query(
+    "UPDATE tasks SET updated_at = ? WHERE id = ? AND status = 'running'",
+    [Date.now(), id]
+  );
+  return ((result as ResultSetHeader)?.affectedRows ?? 0) > 0;
+}
+
+/**
+ * 查询心跳超时的渲染中任务（进程重启或 worker 异常退出后遗留）
+ * @param staleBefore 早于该时间（ms）未更新即视为超时
+ */
+export async function findStaleRenderJobs(
+  staleBefore: number
+): Promise<{ id: string; userId: string }[]> {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT id, user_id FROM tasks
+     WHERE type = 'export' AND status = 'running' AND payload IS NOT NULL AND updated_at < ?`,
+    [staleBefore]
+  );
+  return (rows ?? []).map((r) => ({
+    id: r.id as string,
+    userId: r.user_id as string,
+  }));
+}
+
+/**
+ * 将渲染中的任务重新放回队列（worker 退出或心跳超时）
+ * @param staleBefore 可选：仅当 updated_at 早于该时间时才放回，避免把刚恢复心跳的任务重复排队
+ * @returns 是否重新排队成功
+ */
+export async function requeueRenderJob(
+  id: string,
+  message: string,
+  staleBefore?: number
+): Promise<boolean> {
+  let sql = `UPDATE tasks SET status = 'pending', progress = 0, message = ?, updated_at = ?
+     WHERE id = ? AND status = 'running'`;
+  const params: unknown[] = [message, Date.now(), id];
+  if (staleBefore != null) {
+    sql += " AND updated_at < ?";
+    params.push(staleBefore);
+  }
+  const [result] = await db.query(sql, params);
+  return ((result as ResultSetHeader)?.affectedRows ?? 0) > 0;
+}
+
+/**
+ * 任务结束后清空渲染请求，释放存储
+ * @param id 任务ID
+ */
+export async function clearRenderPayload(id: string): Promise<void> {
+  await db.query("UPDATE tasks SET payload = NULL WHERE id = ?", [id]);
+}
+
+/**
+ * 查询指定用户在某时间之后更新过的导出任务
+ * （渲染在独立 worker 进程执行时，API 进程据此向 SSE 连接转发进度）
+ * @param userIds 用户ID列表
+ * @param since 时间戳（ms），返回 updated_at 不小于该值的任务
+ * （含等于：同一毫秒内可能还有未转发的更新，由调用方按任务去重）
+ */
+export async function listExportTasksUpdatedSince(
+  userIds: string[],
+  since: number
+): Promise<{ userId: string; task: Task }[]> {
+  if (userIds.length === 0) return [];
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT * FROM tasks
+     WHERE user_id IN (?) AND type = 'export' AND updated_at >= ?
+     ORDER BY updated_at ASC`,
+    [userIds, since]
+  );
+  return (rows ?? []).map((r) => ({
+    userId: r.user_id as string,
+    task: rowToTask(r as Record<string, unknown>),
+  }));
+}
@@ -0,0 +1,56 @@
+import type { FastifyBaseLogger } from "fastify";
+import { listExportTasksUpdatedSince } from "./taskRepository.js";
+import { broadcastTaskUpdate, getSubscribedUserIds } from "./taskEvents.js";
+
+/**
+ * 跨进程任务更新转发。
+ *
+ * 渲染在独立 worker 进程执行时，worker 中的 broadcastTaskUpdate 没有 SSE 订阅者；
+ * API 进程定时查询有 SSE 连接的用户自上次查询后更新过的导出任务，再经 broadcastTaskUpdate 推送。
+ */
+
+/** 默认轮询间隔（ms），与渲染进度的写入节流同量级 */
+const DEFAULT_RELAY_INTERVAL_MS = 1_000;
+
+/**
+ * 启动任务更新转发（仅在渲染队列不随 API 进程启动时需要）
+ */
+export function startTaskUpdateRelay(
+  logger: FastifyBaseLogger,
+  intervalMs = DEFAULT_RELAY_INTERVAL_MS
+): void {
+  // 只转发启动之后的更新，连接建立时的全量状态由 GET /api/tasks 提供
+  let since = Date.now();
+  // 已转发过的 updated_at 恰为 since 的任务：查询含等于 since，
+  // 以免漏掉与上次最后一条同一毫秒的更新，这里跳过已转发的那些
+  let sentAtSince = new Set<string>();
+  let polling = false;
+  setInterval(() => {
+    const userIds = getSubscribedUserIds();
+    if (userIds.length === 0) {
+      // 没有连接时无需转发，之后建立的连接由 GET /api/tasks 拿到最新状态
+      since = Date.now();
+      sentAtSince = new Set();
+      return;
+    }
+    if (polling) return;
+    polling = true;
+    listExportTasksUpdatedSince(userIds, since)
+      .then((updates) => {
+        for (const { userId, task } of updates) {
+          if (task.updatedAt > since) {
+            since = task.updatedAt;
+            sentAtSince = new Set();
+          } else if (sentAtSince.has(task.id)) {
+            continue;
+          }
+          sentAtSince.add(task.id);
+          broadcastTaskUpdate(userId, task);
+        }
+      })
+      .catch((err) => logger.warn(err, "转发任务更新失败"))
+      .finally(() => {
+        polling = false;
+      });
+  }, intervalMs);
+}
@@ -0,0 +1,251 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  createCanvas,
+  GlobalFonts,
+  type SKRSContext2D,
+} from "@napi-rs/canvas";
+import type { RenderAsset, RenderClip } from "../types.js";
+import type { LayerOp, TextRaster } from "./renderGraph.js";
+
+/**
+ * 文本图层光栅化：按预览（Konva.Text）的排版规则把文本片段画成透明 PNG，
+ * 再作为普通图层参与 overlay，避免 drawtext 无法支持的字体/样式/对齐等属性。
+ */
+
+/** 与 @vitecut/canvas 的默认值保持一致 */
+const DEFAULT_FONT_SIZE = 32;
+const DEFAULT_FONT_FAMILY = "sans-serif";
+const DEFAULT_FILL = "#ffffff";
+
+/** 文本片段的样式参数（clip.params 中由 SelectionToolbarFixed 写入） */
+export interface TextStyle {
+  text: string;
+  /** 字号（工程像素） */
+  fontSize: number;
+  fontFamily: string;
+  /** normal | italic | bold | italic bold */
+  fontStyle: string;
+  /** underline | line-through | "" */
+  textDecoration: string;
+  /** 行高倍数 */
+  lineHeight: number;
+  /** 字间距（工程像素） */
+  letterSpacing: number;
+  /** left | center | right | justify */
+  align: string;
+  fill: string;
+  opacity: number;
+}
+
+/** 解析文本片段样式，缺省值与预览 usePreviewTextSync 一致 */
+export function getTextStyle(clip: RenderClip, asset: RenderAsset): TextStyle {
+  const p = (clip.params ?? {}) as Partial<TextStyle>;
+  const num = (value: unknown, fallback: number): number => {
+    const n = Number(value);
+    return value !== undefined && Number.isFinite(n) ? n : fallback;
+  };
+  return {
+    text:
+      p.text ??
+      (asset.textMeta as { initialText?: string } | undefined)?.initialText ??
+      "",
+    fontSize: num(p.fontSize, DEFAULT_FONT_SIZE),
+    fontFamily: p.fontFamily || DEFAULT_FONT_FAMILY,
+    fontStyle: p.fontStyle || "normal",
+    textDecoration: p.textDecoration ?? "",
+    lineHeight: num(p.lineHeight, 1),
+    letterSpacing: num(p.letterSpacing, 1),
+    align: p.align || "left",
+    fill: p.fill || DEFAULT_FILL,
+    opacity: Math.min(1, Math.max(0, num(p.opacity, 1))),
+  };
+}
+
+let fontsRegistered = false;
+
+/**
+ * 注册导出可用的字体目录（递归加载 ttf/otf/ttc/woff2）。
+ * 目录由 RENDER_FONT_DIR 指定，默认为 API 工作目录下的 fonts；系统字体始终可用。
+ */
+function ensureFontsRegistered(): void {
+  if (fontsRegistered) return;
+  fontsRegistered = true;
+  const fontDir =
+    process.env.RENDER_FONT_DIR || path.join(process.cwd(), "fonts");
+  if (fs.existsSync(fontDir)) {
+    const count = GlobalFonts.loadFontsFromDir(fontDir);
+    console.log(`[textRaster] 已从 ${fontDir} 加载 ${count} 个字体`);
+  }
+}
+
+/** 与 Konva 一致：含空格且未加引号的字体名需要加引号 */
+function normalizeFontFamily(fontFamily: string): string {
+  return fontFamily
+    .split(",")
+    .map((family) => {
+      const name = family.trim();
+      const hasSpace = name.includes(" ");
+      const quoted = name.includes('"') || name.includes("'");
+      return hasSpace && !quoted ? `"${name}"` : name;
+    })
+    .join(", ");
+}
+
+/** 排版后的一行文本 */
+type TextLine = { text: string; width: number; lastInParagraph: boolean };
+
+/** 单行宽度：measureText + 每个字符后的字间距（Konva._getTextWidth） */
+function measureLine(
+  ctx: SKRSContext2D,
+  text: string,
+  letterSpacing: number
+): number {
+  return ctx.measureText(text).width + letterSpacing * text.length;
+}
+
+/**
+ * 在 (0,0) 起的未缩放文本框内按 Konva.Text._sceneFunc 的规则逐行绘制。
+ */
+function drawTextLines(
+  ctx: SKRSContext2D,
+  lines: TextLine[],
+  style: TextStyle,
+  fontSize: number,
+  letterSpacing: number,
+  totalWidth: number
+): void {
+  const lineHeightPx = style.lineHeight * fontSize;
+  const shouldUnderline = style.textDecoration.includes("underline");
+  const shouldLineThrough = style.textDecoration.includes("line-through");
+  const isJustify = style.align === "justify";
+
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "left";
+  ctx.fillStyle = style.fill;
+  ctx.strokeStyle = style.fill;
+
+  lines.forEach((line, n) => {
+    const y = lineHeightPx / 2 + n * lineHeightPx;
+    let x = 0;
+    if (style.align === "right") {
+      x = totalWidth - line.width;
+    } else if (style.align === "center") {
+      x = (totalWidth - line.width) / 2;
+    }
+    const decorationWidth = Math.round(
+      isJustify && !line.lastInParagraph ? totalWidth : line.width
+    );
+    const drawDecoration = (lineY: number) => {
+      ctx.beginPath();
+      ctx.moveTo(x, lineY);
+      ctx.lineTo(x + decorationWidth, lineY);
+      ctx.lineWidth = fontSize / 15;
+      ctx.stroke();
+    };
+    if (shouldUnderline) drawDecoration(y + Math.round(fontSize / 2));
+    if (shouldLineThrough) drawDecoration(y);
+
+    if (letterSpacing !== 0 || isJustify) {
+      // 逐字绘制以叠加字间距；两端对齐时把剩余宽度平均分给空格
+      const spaces = line.text.split(" ").length - 1;
+      for (const letter of Array.from(line.text)) {
+        if (letter === " " && isJustify && !line.lastInParagraph) {
+          x += (totalWidth - line.width) / spaces;
+        }
+        ctx.fillText(letter, x, y);
+        x += ctx.measureText(letter).width + letterSpacing;
+      }
+    } else {
+      ctx.fillText(line.text, x, y);
+    }
+  });
+}
+
+/**
+ * 将文本片段光栅化为透明 PNG，并计算其在导出画面中的几何信息。
+ *
+ * 坐标约定与预览一致：transform.x/y 为节点原点（工程像素），anchorX/anchorY 为
+ * Konva offset，字号、字间距、锚点按 min(导出宽/工程宽, 导出高/工程高) 缩放；
+ * 缩放/翻转直接画进 PNG，旋转与透明度交给 renderGraph 的变换滤镜。
+ *
+ * @returns 文本为空时返回 null
+ */
+export async function rasterizeTextLayer(
+  op: LayerOp,
+  projW: number,
+  projH: number,
+  outW: number,
+  outH: number,
+  outputPath: string
+): Promise<TextRaster | null> {
+  const style = getTextStyle(op.clip, op.asset);
+  if (!style.text) return null;
+  ensureFontsRegistered();
+
+  const sx = outW / projW;
+  const sy = outH / projH;
+  const pixelScale = Math.min(sx, sy);
+  const fontSize = style.fontSize * pixelScale;
+  const letterSpacing = style.letterSpacing * pixelScale;
+  const font = `${style.fontStyle} normal ${fontSize}px ${normalizeFontFamily(style.fontFamily)}`;
+
+  // 先用 1x1 画布测量排版尺寸
+  const measureCtx = createCanvas(1, 1).getContext("2d");
+  measureCtx.font = font;
+  const lines: TextLine[] = style.text.split("\n").map((raw) => {
+    const text = style.align === "justify" ? raw.trim() : raw;
+    return {
+      text,
+      width: measureLine(measureCtx, text, letterSpacing),
+      lastInParagraph: true,
+    };
+  });
+  const boxW = Math.max(...lines.map((l) => l.width));
+  const boxH = lines.length * style.lineHeight * fontSize;
+  if (boxW <= 0 || boxH <= 0) return null;
+
+  const t = (op.clip.transform ?? {}) as {
+    x?: number;
+    y?: number;
+    scaleX?: number;
+    scaleY?: number;
+    rotation?: number;
+    anchorX?: number;
+    anchorY?: number;
+  };
+  const scaleX = t.scaleX ?? 1;
+  const scaleY = t.scaleY ?? 1;
+  const w = Math.max(1, Math.ceil(boxW * Math.abs(scaleX)));
+  const h = Math.max(1, Math.ceil(boxH * Math.abs(scaleY)));
+
+  const canvas = createCanvas(w, h);
+  const ctx = canvas.getContext("2d");
+  ctx.font = font;
+  // 以画布中心为原点缩放（含负值翻转），再回到文本框左上角
+  ctx.translate(w / 2, h / 2);
+  ctx.scale(scaleX, scaleY);
+  ctx.translate(-boxW / 2, -boxH / 2);
+  drawTextLines(ctx, lines, style, fontSize, letterSpacing, boxW);
+  await fs.promises.writeFile(outputPath, await canvas.encode("png"));
+
+  // 节点原点 + R·S·(框中心 - offset) 即为旋转后包围盒中心
+  const rotation = t.rotation ?? 0;
+  const rad = (rotation * Math.PI) / 180;
+  const vx = (boxW / 2 - (t.anchorX ?? 0) * pixelScale) * scaleX;
+  const vy = (boxH / 2 - (t.anchorY ?? 0) * pixelScale) * scaleY;
+  return {
+    source: outputPath,
+    geometry: {
+      w,
+      h,
+      cx: (t.x ?? 0) * sx + vx * Math.cos(rad) - vy * Math.sin(rad),
+      cy: (t.y ?? 0) * sy + vx * Math.sin(rad) + vy * Math.cos(rad),
+      flipX: false,
+      flipY: false,
+      rotation,
+      opacity: style.opacity,
+    },
+    box: { width: boxW, height: boxH, pixelScale },
+  };
+}
@@ -0,0 +1,109 @@
+import type { RenderClip, RenderTrack, RenderTransition } from "../types.js";
+
+/**
+ * 转场的导出支持，区间规则与 @vitecut/project 的 transition.ts 一致：
+ * 转场以接缝为中心，转出片段向后、转入片段向前各延伸 duration / 2，
+ * 两端片段不再相接或时长过短的转场视为失效。
+ */
+
+/** 转场最短时长（秒） */
+const MIN_TRANSITION_DURATION = 0.1;
+
+/** 两片段首尾时间差小于该值视为相接 */
+const ADJACENT_EPSILON = 1e-3;
+
+const VISUAL_CLIP_KINDS = ["video", "image", "text"];
+
+/** 转场类型对应的 xfade 过渡名，未知类型按叠化处理 */
+const XFADE_TRANSITIONS: Record<string, string> = {
+  crossfade: "fade",
+  wipe: "wipeleft",
+  slide: "slideleft",
+  "dip-to-black": "fadeblack",
+};
+
+export function getXfadeTransition(type: string): string {
+  return XFADE_TRANSITIONS[type] ?? "fade";
+}
+
+function canTransition(from: RenderClip, to: RenderClip): boolean {
+  if (from.id === to.id || from.trackId !== to.trackId) return false;
+  if (Math.abs(from.end - to.start) > ADJACENT_EPSILON) return false;
+  const fromVisual = VISUAL_CLIP_KINDS.includes(from.kind);
+  const toVisual = VISUAL_CLIP_KINDS.includes(to.kind);
+  return fromVisual === toVisual && (fromVisual || from.kind === "audio");
+}
+
+/** 轨道上生效的转场：两端片段仍相接，时长按两片段中较短的一个收紧 */
+export function getActiveTransitions(track: RenderTrack): RenderTransition[] {
+  const out: RenderTransition[] = [];
+  for (const transition of track.transitions ?? []) {
+    const from = track.clips.find((c) => c.id === transition.fromClipId);
+    const to = track.clips.find((c) => c.id === transition.toClipId);
+    if (!from || !to || !canTransition(from, to)) continue;
+    const raw = Number(transition.duration);
+    if (!Number.isFinite(raw)) continue;
+    const duration = Math.min(raw, from.end - from.start, to.end - to.start);
+    if (duration < MIN_TRANSITION_DURATION) continue;
+    out.push({ ...transition, duration });
+  }
+  return out;
+}
+
+/** 由转场串起来的一组片段，transitions[i] 连接 items[i] 与 items[i + 1] */
+export interface TransitionChain<T> {
+  items: T[];
+  transitions: RenderTransition[];
+}
+
+/**
+ * 按转场把片段串成链；没有转场的片段自成一条长度为 1 的链。
+ * 只有两端片段都在 items 中的转场才会生效，链按链首在 items 中的位置输出，保持叠放顺序。
+ */
+export function buildTransitionChains<
+  T extends { clip: RenderClip; track: RenderTrack },
+>(items: T[]): TransitionChain<T>[] {
+  const itemByClipId = new Map(items.map((item) => [item.clip.id, item]));
+  const next = new Map<string, { item: T; transition: RenderTransition }>();
+  const hasPrev = new Set<string>();
+  const seenTracks = new Set<string>();
+  for (const { track } of items) {
+    if (seenTracks.has(track.id)) continue;
+    seenTracks.add(track.id);
+    for (const transition of getActiveTransitions(track)) {
+      const from = itemByClipId.get(transition.fromClipId);
+      const to = itemByClipId.get(transition.toClipId);
+      if (!from || !to) continue;
+      next.set(from.clip.id, { item: to, transition });
+      hasPrev.add(to.clip.id);
+    }
+  }
+
+  const chains: TransitionChain<T>[] = [];
+  for (const item of items) {
+    if (hasPrev.has(item.clip.id)) continue;
+    const chain: TransitionChain<T> = { items: [item], transitions: [] };
+    let link = next.get(item.clip.id);
+    while (link) {
+      chain.items.push(link.item);
+      chain.transitions.push(link.transition);
+      link = next.get(link.item.clip.id);
+    }
+    chains.push(chain);
+  }
+  return chains;
+}
+
+/** 链中第 index 个片段因转场向前（before）/ 向后（after）延伸的秒数 */
+export function getChainExtension<T>(
+  chain: TransitionChain<T>,
+  index: number
+): { before: number; after: number } {
+  return {
+    before: index > 0 ? chain.transitions[index - 1].duration / 2 : 0,
+    after:
+      index < chain.transitions.length
+        ? chain.transitions[index].duration / 2
+        : 0,
+  };
+}
@@ -0,0 +1,225 @@
+import type { FastifyInstance } from "fastify";
+import {
+  createExportPreset,
+  deleteExportPreset,
+  findById,
+  isBuiltinExportPresetId,
+  listByUserId,
+  normalizeExportPresetOptions,
+  updateExportPreset,
+} from "../lib/exportPresetRepository.js";
+import { requireAuth } from "../lib/requireAuth.js";
+
+type ExportPresetBody = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 校验请求体：create 时 name 与 options 必填，update 时至少包含一个字段。
+ * @returns 校验结果；无效时 error 为提示信息
+ */
+function parseExportPresetBody(
+  body: unknown,
+  mode: "create" | "update"
+):
+  | {
+      payload: {
+        name?: string;
+        platform?: string | null;
+        options?: unknown;
+      };
+    }
+  | { error: string } {
+  if (!isRecord(body)) {
+    return { error: "请求体无效" };
+  }
+
+  const payload: {
+    name?: string;
+    platform?: string | null;
+    options?: unknown;
+  } = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string") {
+      return { error: "name 必须是字符串" };
+    }
+    const name = body.name.trim();
+    if (name.length < 1 || name.length > 128) {
+      return { error: "name 长度必须在 1 到 128 个字符之间" };
+    }
+    payload.name = name;
+  } else if (mode === "create") {
+    return { error: "缺少 name" };
+  }
+
+  if (body.platform !== undefined) {
+    if (
+      body.platform !== null &&
+      (typeof body.platform !== "string" || body.platform.length > 64)
+    ) {
+      return { error: "platform 必须是不超过 64 个字符的字符串" };
+    }
+    payload.platform = body.platform || null;
+  }
+
+  if (body.options !== undefined) {
+    try {
+      payload.options = normalizeExportPresetOptions(body.options);
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : "options 无效",
+      };
+    }
+  } else if (mode === "create") {
+    return { error: "缺少 options" };
+  }
+
+  if (mode === "update" && Object.keys(payload).length === 0) {
+    return { error: "请求体无效" };
+  }
+
+  return { payload };
+}
+
+function getUserId(request: unknown): string | null {
+  const userId = (request as { user?: { userId?: unknown } }).user?.userId;
+  return typeof userId === "string" && userId.trim() ? userId : null;
+}
+
+/**
+ * 导出预设路由：列表（含内置预设）/ 详情 / 创建 / 更新 / 删除，自建预设按当前用户隔离，内置预设只读。
+ */
+export async function exportPresetRoutes(
+  fastify: FastifyInstance
+): Promise<void> {
+  fastify.get(
+    "/api/export-presets",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      try {
+        return { items: await listByUserId(userId) };
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.get<{ Params: { id: string } }>(
+    "/api/export-presets/:id",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      try {
+        const preset = await findById(request.params.id, userId);
+        if (!preset) {
+          return reply.status(404).send({ error: "导出预设不存在" });
+        }
+        return preset;
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.post<{ Body: ExportPresetBody }>(
+    "/api/export-presets",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      const parsed = parseExportPresetBody(request.body, "create");
+      if ("error" in parsed) {
+        return reply.status(400).send({ error: parsed.error });
+      }
+      const { name, platform, options } = parsed.payload;
+
+      try {
+        return await createExportPreset({
+          userId,
+          name: name!,
+          platform,
+          options,
+        });
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.put<{ Params: { id: string }; Body: ExportPresetBody }>(
+    "/api/export-presets/:id",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+      if (isBuiltinExportPresetId(request.params.id)) {
+        return reply.status(403).send({ error: "内置预设不可修改" });
+      }
+
+      const parsed = parseExportPresetBody(request.body, "update");
+      if ("error" in parsed) {
+        return reply.status(400).send({ error: parsed.error });
+      }
+
+      try {
+        const preset = await updateExportPreset(
+          request.params.id,
+          userId,
+          parsed.payload
+        );
+        if (!preset) {
+          return reply.status(404).send({ error: "导出预设不存在" });
+        }
+        return preset;
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.delete<{ Params: { id: string } }>(
+    "/api/export-presets/:id",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+      if (isBuiltinExportPresetId(request.params.id)) {
+        return reply.status(403).send({ error: "内置预设不可删除" });
+      }
+
+      try {
+        const ok = await deleteExportPreset(request.params.id, userId);
+        if (!ok) {
+          return reply.status(404).send({ error: "导出预设不存在" });
+        }
+        return { ok: true };
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+}
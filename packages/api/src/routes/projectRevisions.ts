@@ -0,0 +1,268 @@
+import type { FastifyInstance } from "fastify";
+import { withTransaction } from "../lib/db.js";
+import { diffProjects } from "../lib/projectDiff.js";
+import { findById, updateProject } from "../lib/projectRepository.js";
+import {
+  createRevision,
+  findRevisionById,
+  listByProjectId,
+  normalizeRevisionLabel,
+} from "../lib/projectRevisionRepository.js";
+import { requireAuth, type AuthUser } from "../lib/requireAuth.js";
+
+type RevisionListQuery = {
+  page?: string;
+  limit?: string;
+};
+
+type RevisionDiffQuery = {
+  from?: string;
+  /** 缺省时与工程当前版本对比 */
+  to?: string;
+};
+
+type RevisionBody = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parsePageAndLimit(query: RevisionListQuery): {
+  limit: number;
+  offset: number;
+} | null {
+  const page = Number(query.page ?? "1");
+  const limit = Number(query.limit ?? "20");
+  if (
+    !Number.isInteger(page) ||
+    !Number.isInteger(limit) ||
+    page < 1 ||
+    limit < 1 ||
+    limit > 100
+  ) {
+    return null;
+  }
+  return { limit, offset: (page - 1) * limit };
+}
+
+function getAuthUser(request: unknown): AuthUser | null {
+  const user = (request as { user?: Partial<AuthUser> }).user;
+  if (typeof user?.userId !== "string" || !user.userId.trim()) {
+    return null;
+  }
+  return { userId: user.userId, username: user.username ?? "" };
+}
+
+function formatRevisionTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * 工程修订路由：列出修订、手动创建还原点、对比两个修订、将某个修订恢复为当前版本。
+ * 修订只能由工程所有者访问；保存工程时的自动修订见 projects.ts。
+ */
+export async function projectRevisionRoutes(
+  fastify: FastifyInstance
+): Promise<void> {
+  fastify.get<{
+    Params: { id: string };
+    Querystring: RevisionListQuery;
+  }>(
+    "/api/projects/:id/revisions",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const user = getAuthUser(request);
+      if (!user) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      const paging = parsePageAndLimit(request.query);
+      if (!paging) {
+        return reply.status(400).send({ error: "page 或 limit 参数无效" });
+      }
+
+      try {
+        const project = await findById(request.params.id, user.userId);
+        if (!project) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        return await listByProjectId(project.id, paging);
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.post<{
+    Params: { id: string };
+    Body: RevisionBody;
+  }>(
+    "/api/projects/:id/revisions",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const user = getAuthUser(request);
+      if (!user) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      let label: string | null;
+      try {
+        label = normalizeRevisionLabel(
+          isRecord(request.body) ? request.body.label : undefined
+        );
+      } catch {
+        return reply.status(400).send({ error: "请求体无效" });
+      }
+
+      try {
+        const project = await findById(request.params.id, user.userId);
+        if (!project) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        // 以工程当前保存的数据作为还原点
+        return await createRevision({
+          projectId: project.id,
+          authorId: user.userId,
+          authorName: user.username,
+          data: project.data,
+          label,
+        });
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.get<{
+    Params: { id: string };
+    Querystring: RevisionDiffQuery;
+  }>(
+    "/api/projects/:id/revisions/diff",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const user = getAuthUser(request);
+      if (!user) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      const { from, to } = request.query;
+      if (!from) {
+        return reply.status(400).send({ error: "缺少 from 参数" });
+      }
+
+      try {
+        const project = await findById(request.params.id, user.userId);
+        if (!project) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        const fromRevision = await findRevisionById(project.id, from);
+        const toRevision = to ? await findRevisionById(project.id, to) : null;
+        if (!fromRevision || (to && !toRevision)) {
+          return reply.status(404).send({ error: "修订不存在" });
+        }
+        return {
+          from: fromRevision.id,
+          to: toRevision?.id ?? null,
+          diff: diffProjects(
+            fromRevision.data,
+            toRevision?.data ?? project.data
+          ),
+        };
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.get<{ Params: { id: string; revisionId: string } }>(
+    "/api/projects/:id/revisions/:revisionId",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const user = getAuthUser(request);
+      if (!user) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      try {
+        const project = await findById(request.params.id, user.userId);
+        if (!project) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        const revision = await findRevisionById(
+          project.id,
+          request.params.revisionId
+        );
+        if (!revision) {
+          return reply.status(404).send({ error: "修订不存在" });
+        }
+        return revision;
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.post<{ Params: { id: string; revisionId: string } }>(
+    "/api/projects/:id/revisions/:revisionId/restore",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const user = getAuthUser(request);
+      if (!user) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      try {
+        // 先校验工程归属，避免通过不同的 404 信息探测他人工程下的修订
+        const current = await findById(request.params.id, user.userId);
+        if (!current) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        const revision = await findRevisionById(
+          current.id,
+          request.params.revisionId
+        );
+        if (!revision) {
+          return reply.status(404).send({ error: "修订不存在" });
+        }
+        // 覆盖工程数据与记录恢复修订在同一事务中完成，避免只成功一半
+        const project = await withTransaction(async (conn) => {
+          const updated = await updateProject(
+            current.id,
+            user.userId,
+            { data: revision.data },
+            conn
+          );
+          if (!updated) return null;
+          // 恢复本身也记为一条新修订，历史保持只增不改
+          await createRevision(
+            {
+              projectId: updated.id,
+              authorId: user.userId,
+              authorName: user.username,
+              data: revision.data,
+              label:
+                `恢复自 ${revision.label ?? formatRevisionTime(revision.createdAt)}`.slice(
+                  0,
+                  128
+                ),
+              restoredFrom: revision.id,
+            },
+            conn
+          );
+          return updated;
+        });
+        if (!project) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        return project;
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+}
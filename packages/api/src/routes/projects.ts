@@ -0,0 +1,285 @@
+import type { FastifyInstance } from "fastify";
+import { withTransaction } from "../lib/db.js";
+import {
+  createProject,
+  deleteProject,
+  findById,
+  listByUserId,
+  parseProjectData,
+  updateProject,
+} from "../lib/projectRepository.js";
+import {
+  createRevision,
+  deleteRevisionsByProjectId,
+} from "../lib/projectRevisionRepository.js";
+import { requireAuth, type AuthUser } from "../lib/requireAuth.js";
+
+type ProjectListQuery = {
+  page?: string;
+  limit?: string;
+  search?: string;
+};
+
+type ProjectBody = Record<string, unknown>;
+
+/** 工程数据可能包含大量轨道与片段，放宽默认 1MB 的请求体限制 */
+const PROJECT_BODY_LIMIT = 10 * 1024 * 1024;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parsePageAndLimit(query: ProjectListQuery): {
+  page: number;
+  limit: number;
+  offset: number;
+} | null {
+  const page = Number(query.page ?? "1");
+  const limit = Number(query.limit ?? "20");
+  if (
+    !Number.isInteger(page) ||
+    !Number.isInteger(limit) ||
+    page < 1 ||
+    limit < 1 ||
+    limit > 100
+  ) {
+    return null;
+  }
+  return {
+    page,
+    limit,
+    offset: (page - 1) * limit,
+  };
+}
+
+function parseProjectBody(
+  body: unknown,
+  mode: "create" | "update"
+): { name?: string; data?: string } | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+
+  const payload: { name?: string; data?: string } = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string") {
+      return null;
+    }
+    const name = body.name.trim();
+    if (name.length < 1 || name.length > 128) {
+      return null;
+    }
+    payload.name = name;
+  } else if (mode === "create") {
+    return null;
+  }
+
+  if (body.data !== undefined) {
+    try {
+      parseProjectData(body.data);
+    } catch {
+      return null;
+    }
+    payload.data = body.data as string;
+  } else if (mode === "create") {
+    return null;
+  }
+
+  if (mode === "update" && Object.keys(payload).length === 0) {
+    return null;
+  }
+
+  return payload;
+}
+
+function getUserId(request: unknown): string | null {
+  const userId = (request as { user?: { userId?: unknown } }).user?.userId;
+  return typeof userId === "string" && userId.trim() ? userId : null;
+}
+
+function getUsername(request: unknown): string {
+  return (request as { user?: Partial<AuthUser> }).user?.username ?? "";
+}
+
+/**
+ * 剪辑工程的持久化路由：列表 / 详情 / 创建 / 更新 / 删除，均按当前用户隔离。
+ * 每次写入工程数据都会生成一条修订（见 projectRevisions.ts）。
+ */
+export async function projectRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get<{
+    Querystring: ProjectListQuery;
+  }>("/api/projects", { preHandler: requireAuth }, async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) {
+      return reply.status(401).send({ error: "未登录" });
+    }
+
+    const paging = parsePageAndLimit(request.query);
+    if (!paging) {
+      return reply.status(400).send({ error: "page 或 limit 参数无效" });
+    }
+
+    try {
+      return await listByUserId(userId, {
+        limit: paging.limit,
+        offset: paging.offset,
+        search: request.query.search,
+      });
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: "服务器内部错误" });
+    }
+  });
+
+  fastify.get<{ Params: { id: string } }>(
+    "/api/projects/:id",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      try {
+        const project = await findById(request.params.id, userId);
+        if (!project) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        return project;
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.post<{
+    Body: ProjectBody;
+  }>(
+    "/api/projects",
+    { preHandler: requireAuth, bodyLimit: PROJECT_BODY_LIMIT },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      const payload = parseProjectBody(request.body, "create");
+      if (!payload || !payload.name || !payload.data) {
+        return reply.status(400).send({ error: "请求体无效" });
+      }
+
+      const { name, data } = payload;
+      try {
+        // 创建工程与记录首个修订在同一事务中完成，避免只成功一半
+        return await withTransaction(async (conn) => {
+          const project = await createProject({ userId, name, data }, conn);
+          await createRevision(
+            {
+              projectId: project.id,
+              authorId: userId,
+              authorName: getUsername(request),
+              data: project.data,
+            },
+            conn
+          );
+          return project;
+        });
+      } catch (error) {
+        // 同一工程 id 已存在（重复创建或属于其他用户）
+        if ((error as { code?: string })?.code === "ER_DUP_ENTRY") {
+          return reply.status(409).send({ error: "工程已存在" });
+        }
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.put<{
+    Params: { id: string };
+    Body: ProjectBody;
+  }>(
+    "/api/projects/:id",
+    { preHandler: requireAuth, bodyLimit: PROJECT_BODY_LIMIT },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      const payload = parseProjectBody(request.body, "update");
+      if (!payload) {
+        return reply.status(400).send({ error: "请求体无效" });
+      }
+      if (
+        payload.data !== undefined &&
+        parseProjectData(payload.data).id !== request.params.id
+      ) {
+        return reply
+          .status(400)
+          .send({ error: "工程数据 id 与路径 id 不一致" });
+      }
+
+      try {
+        // 更新工程与记录修订在同一事务中完成
+        const project = await withTransaction(async (conn) => {
+          const updated = await updateProject(
+            request.params.id,
+            userId,
+            payload,
+            conn
+          );
+          if (updated && payload.data !== undefined) {
+            await createRevision(
+              {
+                projectId: updated.id,
+                authorId: userId,
+                authorName: getUsername(request),
+                data: updated.data,
+              },
+              conn
+            );
+          }
+          return updated;
+        });
+        if (!project) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        return project;
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+
+  fastify.delete<{ Params: { id: string } }>(
+    "/api/projects/:id",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) {
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      try {
+        const ok = await withTransaction(async (conn) => {
+          const deleted = await deleteProject(request.params.id, userId, conn);
+          if (deleted) {
+            await deleteRevisionsByProjectId(request.params.id, conn);
+          }
+          return deleted;
+        });
+        if (!ok) {
+          return reply.status(404).send({ error: "工程不存在" });
+        }
+        return { ok: true };
+      } catch (error) {
+        request.log.error(error);
+        return reply.status(500).send({ error: "服务器内部错误" });
+      }
+    }
+  );
+}
@@ -1,31 +1,13 @@
-import fs from "node:fs";
-import path from "node:path";
 import type { FastifyInstance } from "fastify";
-import type { StorageAdapter } from "@vitecut/storage";
-import { renderVideo } from "../lib/render.js";
+import { isValidLoudnessTarget } from "../lib/loudness.js";
+import { enqueueRenderJob } from "../lib/renderQueue.js";
 import { requireAuth } from "../lib/requireAuth.js";
-import { findById, update } from "../lib/taskRepository.js";
-import { broadcastTaskUpdate } from "../lib/taskEvents.js";
 import type { RenderJobRequest } from "../types.js";
 
 /**
- * 渲染路由参数配置接口
+ * 渲染相关路由（用于提交渲染任务，执行与上传见 lib/renderQueue.ts）
  */
-export interface RenderRoutesOptions {
-  storage: StorageAdapter;
-}
-
-/**
- * 渲染相关路由（用于发起渲染任务并上传 OSS）
- */
-export async function renderRoutes(
-  fastify: FastifyInstance,
-  opts: RenderRoutesOptions
-): Promise<void> {
-  const { storage } = opts;
-  const postprocessServiceUrl =
-    process.env.POSTPROCESS_SERVICE_URL || "http://127.0.0.1:8010";
-
+export async function renderRoutes(fastify: FastifyInstance): Promise<void> {
   // 注册 POST /api/render-jobs 路由，用于提交渲染任务
   fastify.post<{
     Body: RenderJobRequest & { taskId: string };
@@ -44,163 +26,30 @@ export async function renderRoutes(
           error: "缺少 project、exportOptions 或 taskId",
         });
       }
+      // 校验响度标准化目标（可选）
+      if (
+        exportOptions.loudnessTarget != null &&
+        !isValidLoudnessTarget(exportOptions.loudnessTarget)
+      ) {
+        return reply.status(400).send({ error: "响度标准化目标无效" });
+      }
       // 校验用户是否已登录
       if (!userId) {
         return reply.status(401).send({ error: "未登录" });
       }
 
-      // 任务失败时，设置任务状态并广播
-      const failTask = async (message: string) => {
-        await update(taskId, userId, { status: "failed", message });
-        const task = await findById(taskId);
-        if (task) broadcastTaskUpdate(userId, task);
-      };
-
-      // 更新任务进度并广播
-      const setTaskProgress = async (updates: {
-        progress?: number;
-        message?: string;
-        status?: string;
-      }) => {
-        await update(taskId, userId, updates);
-        const task = await findById(taskId);
-        if (task) broadcastTaskUpdate(userId, task);
-      };
-
-      // 首先将任务状态设置为 running，进度为 0
-      const updated = await update(taskId, userId, {
-        status: "running",
-        progress: 0,
-        message: "正在准备导出…",
+      // 写入渲染队列（tasks.payload），由 renderQueue 按并发数领取执行
+      const queued = await enqueueRenderJob(taskId, userId, {
+        project,
+        exportOptions,
       });
-      if (updated === null) {
-        // 未找到任务
-        return reply.status(404).send({ error: "任务不存在" });
+      if (!queued) {
+        // 未找到可入队的任务（不存在或已开始执行）
+        return reply.status(404).send({ error: "任务不存在或已开始执行" });
       }
-      // 初始主动推送一次任务状态
-      const task = await findById(taskId);
-      if (task) broadcastTaskUpdate(userId, task);
 
       // 按用户要求立即返回 206，后续进度通过 SSE 推送。
-      reply.status(206).send({ taskId });
-
-      // 启动异步后台渲染任务流程
-      (async () => {
-        try {
-          // 10%：渲染阶段
-          await setTaskProgress({ progress: 10, message: "正在渲染视频…" });
-          // 先本地渲染，再上传 OSS，避免 API 依赖本地 /output 静态文件。
-          const outputPath = await renderVideo(project, exportOptions);
-          let finalOutputPath = outputPath;
-
-          let resultObjectKey = "";
-          try {
-            const speed =
-              typeof exportOptions.speed === "number"
-                ? exportOptions.speed
-                : 1;
-            if (Number.isFinite(speed) && speed > 0 && Math.abs(speed - 1) > 1e-6) {
-              try {
-                await setTaskProgress({
-                  progress: 60,
-                  message: "正在处理倍速…",
-                });
-
-                const ext = path.extname(outputPath) || ".mp4";
-                const base = path.basename(outputPath, ext);
-                const speedTag = String(speed).replace(/\./g, "_");
-                const speedOutputPath = path.join(
-                  path.dirname(outputPath),
-                  `${base}.speed_${speedTag}x${ext}`
-                );
-
-                const postRes = await fetch(`${postprocessServiceUrl}/speed`, {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({
-                    input_path: outputPath,
-                    output_path: speedOutputPath,
-                    speed,
-                  }),
-                });
-                if (!postRes.ok) {
-                  const errorText = await postRes.text();
-                  throw new Error(
-                    `后处理服务调用失败(${postRes.status}): ${errorText || "unknown error"}`
-                  );
-                }
-                finalOutputPath = speedOutputPath;
-              } catch (postErr) {
-                request.log.warn(
-                  { err: postErr, speed, outputPath },
-                  "倍速后处理失败，回退原速上传"
-                );
-                await setTaskProgress({
-                  progress: 70,
-                  message: "倍速处理失败，回退原速上传…",
-                });
-              }
-            }
-
-            // 80%：上传中
-            await setTaskProgress({
-              progress: 80,
-              message: "正在上传导出文件…",
-            });
-
-            // 输出文件名后缀
-            const ext = path.extname(finalOutputPath).toLowerCase();
-            // 构建 OSS 文件 objectKey
-            const objectKey = storage.buildObjectKey(
-              "system",
-              `render${ext || ".mp4"}`
-            );
-            // 根据不同格式设置 contentType
-            const contentType =
-              ext === ".gif"
-                ? "image/gif"
-                : ext === ".mov"
-                  ? "video/quicktime"
-                  : "video/mp4";
-            // 上传到 OSS，返回上传结果
-            await storage.putBuffer({
-              objectKey,
-              buffer: fs.readFileSync(finalOutputPath),
-              contentType,
-            });
-            resultObjectKey = objectKey;
-            // 95%：整理任务结果
-            await setTaskProgress({
-              progress: 95,
-              message: "正在整理任务结果…",
-            });
-          } finally {
-            // 无论是否成功，始终尝试清理临时输出文件
-            fs.rmSync(outputPath, { force: true });
-            if (finalOutputPath !== outputPath) {
-              fs.rmSync(finalOutputPath, { force: true });
-            }
-          }
-
-          // 100%：成功，更新任务为 success，结果中包含访问链接
-          await update(taskId, userId, {
-            status: "success",
-            progress: 100,
-            message: null,
-            results: JSON.stringify([{ objectKey: resultObjectKey }]),
-          });
-          const doneTask = await findById(taskId);
-          if (doneTask) broadcastTaskUpdate(userId, doneTask);
-        } catch (err) {
-          // 出现异常，记录日志，将任务标记为失败
-          request.log.error(err, "导出后台任务异常");
-          const msg = err instanceof Error ? err.message : "导出失败";
-          await failTask(msg);
-        }
-      })().catch((err) => {
-        // 异步 IIFE 未捕获的顶层异常，确保日志记录
-        request.log.error(err, "导出后台任务未捕获错误");
-      });
+      return reply.status(206).send({ taskId });
     }
   );
 }
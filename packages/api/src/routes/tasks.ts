@@ -15,6 +15,7 @@ import {
 } from "../lib/taskRepository.js";
 import { requireAuth } from "../lib/requireAuth.js";
 import { subscribe, broadcastTaskUpdate } from "../lib/taskEvents.js";
+import { cancelRenderJob } from "../lib/renderQueue.js";
 import { db } from "../lib/db.js";
 
 /** 支持的任务类型列表 */
@@ -377,6 +378,55 @@ export async function taskRoutes(
     return updated || existing;
   });
 
+  /**
+   * 取消导出任务
+   * POST /api/tasks/:id/cancel
+   * 排队中的任务不再执行，执行中的任务结束 ffmpeg 进程；任务标记为失败（已取消）
+   */
+  fastify.post<{ Params: { id: string } }>(
+    "/api/tasks/:id/cancel",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const userId = (request as { user?: { userId: string } }).user?.userId;
+      if (!userId) {
+        // 未登录
+        return reply.status(401).send({ error: "未登录" });
+      }
+
+      const { id } = request.params;
+      // 检查任务归属，防止越权取消
+      const [rows] = await db.query<RowDataPacket[]>(
+        "SELECT user_id FROM tasks WHERE id = ?",
+        [id]
+      );
+      const taskUserId = (rows?.[0] as { user_id?: string })?.user_id;
+      if (!taskUserId) {
+        return reply.status(404).send({ error: "任务不存在" });
+      }
+      if (taskUserId !== userId) {
+        return reply.status(403).send({ error: "无权限操作该任务" });
+      }
+
+      const existing = await findById(id);
+      if (!existing) {
+        return reply.status(404).send({ error: "任务不存在" });
+      }
+      if (existing.type !== "export") {
+        return reply.status(400).send({ error: "仅导出任务支持取消" });
+      }
+      if (existing.status !== "pending" && existing.status !== "running") {
+        return reply.status(409).send({ error: "任务已结束，无法取消" });
+      }
+
+      // 状态在 SQL 中再次判断：检查之后任务可能已完成，此时不覆盖
+      const cancelled = await cancelRenderJob(id, userId);
+      if (!cancelled) {
+        return reply.status(409).send({ error: "任务已结束，无法取消" });
+      }
+      return (await findById(id)) ?? existing;
+    }
+  );
+
   /**
    * 删除单条任务
    * DELETE /api/tasks/:id
@@ -58,6 +58,8 @@ export interface RenderClip {
   transform?: unknown;
   /** （可选）自定义参数（如滤镜、特效等） */
   params?: unknown;
+  /** （可选）按属性分组的关键帧（结构同 @vitecut/project 的 ClipKeyframes） */
+  keyframes?: unknown;
 }
 
 /**
@@ -78,6 +80,42 @@ export interface RenderTrack {
   hidden?: boolean;
   /** 此轨道下的所有片段 */
   clips: RenderClip[];
+  /** （可选）相邻片段之间的转场 */
+  transitions?: RenderTransition[];
+  /** （可选）音频闪避：触发轨道有声音时压低本轨道 */
+  ducking?: RenderTrackDucking;
+}
+
+/**
+ * 轨道音频闪避设置（结构同 @vitecut/project 的 TrackDucking）
+ */
+export interface RenderTrackDucking {
+  /** 触发闪避的轨道 ID */
+  sourceTrackId: string;
+  /** 触发阈值（dBFS） */
+  threshold: number;
+  /** 压低幅度（dB） */
+  amount: number;
+  /** 压低时间（毫秒） */
+  attack: number;
+  /** 恢复时间（毫秒） */
+  release: number;
+}
+
+/**
+ * 渲染转场：同一轨道上首尾相接的两个片段之间的过渡（结构同 @vitecut/project 的 Transition）
+ */
+export interface RenderTransition {
+  /** 转场唯一 ID */
+  id: string;
+  /** 转出片段 ID */
+  fromClipId: string;
+  /** 转入片段 ID */
+  toClipId: string;
+  /** 转场类型：crossfade / wipe / slide / dip-to-black */
+  type: string;
+  /** 转场时长（秒） */
+  duration: number;
 }
 
 /**
@@ -126,7 +164,7 @@ export interface ExportOptions {
   title: string;
   /** 导出文件格式（mp4/mov/gif） */
   format: "mp4" | "mov" | "gif";
-  /** 导出倍速（1 为原速） */
+  /** 导出整体倍速（1 为原速），在片段各自的 params.speed 之上统一变速 */
   speed?: number;
   /** （可选）视频质量，如 'high', 'medium', 'low' */
   videoQuality?: string;
@@ -140,6 +178,11 @@ export interface ExportOptions {
   audioBitrateKbps: number;
   /** 音频采样率（Hz） */
   audioSampleRate: number;
+  /**
+   * （可选）响度标准化目标（LUFS），如社交平台 -14、广播 -23；
+   * 不传时不做标准化。成片经两遍 loudnorm 调整，测量结果写入任务 results
+   */
+  loudnessTarget?: number;
 }
 
 /**
@@ -0,0 +1,33 @@
+import "./loadEnv.js";
+import { createStorageAdapterFromEnv } from "@vitecut/storage";
+import { initDb } from "./lib/db.js";
+import { startRenderQueue, stopRenderQueue } from "./lib/renderQueue.js";
+
+/**
+ * 独立渲染 worker 入口：不启动 HTTP 服务，只从 tasks 表领取导出任务执行。
+ *
+ * 与 API（RENDER_QUEUE_IN_API=false）共用同一个数据库与对象存储，
+ * 可按需启动多个实例，各实例的并发数由 RENDER_CONCURRENCY 控制。
+ */
+
+// 创建对象存储适配器，渲染结果上传到这里
+const storage = createStorageAdapterFromEnv();
+
+// 初始化数据库（确保 tasks.payload 等列存在）
+await initDb();
+
+startRenderQueue({ storage, logger: console });
+console.log("[worker] 渲染 worker 已启动");
+
+// 收到退出信号时把执行中的任务放回队列，再退出进程
+let shuttingDown = false;
+const shutdown = (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`[worker] 收到 ${signal}，正在停止渲染队列…`);
+  stopRenderQueue()
+    .catch((err) => console.error("[worker] 停止渲染队列失败:", err))
+    .finally(() => process.exit(0));
+};
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
@@ -5,6 +5,7 @@ import { ToasterProvider } from "@/components/Toaster";
 import { useToast } from "@/components/Toaster";
 import { AuthProvider, useAuth } from "@/contexts";
 import { LoginModal } from "@/components/LoginModal";
+import { ProjectRecovery } from "@/components/ProjectRecovery";
 import { EditorLayout } from "@/editor";
 import { subscribeTaskStream } from "@/utils/taskStream";
 
@@ -13,6 +14,7 @@ import { subscribeTaskStream } from "@/utils/taskStream";
  * - 负责渲染主编辑器布局
  * - 检查登录状态，未登录时弹出登录模态框
  * - 监听并订阅任务流（登录后）
+ * - 启动时提示恢复自动保存的工程
  */
 function AppContent() {
   const { token, isLoading } = useAuth();
@@ -37,6 +39,7 @@ function AppContent() {
   return (
     <>
       <EditorLayout />
+      <ProjectRecovery />
       {/* 未登录且已加载完成时弹出登录框 */}
       {!isLoading && !token && <LoginModal />}
     </>
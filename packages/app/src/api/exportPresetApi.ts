@@ -0,0 +1,94 @@
+import { getAuthHeaders } from "@/contexts";
+
+/** 预设保存的导出参数，与 API 的 ExportPresetOptions 一致 */
+export interface ExportPresetOptions {
+  width: number;
+  height: number;
+  fps: number;
+  format: "mp4" | "mov" | "gif";
+  videoBitrateKbps: number;
+  videoCodec: "h264" | "hevc";
+  audioCodec: "aac" | "pcm";
+  audioBitrateKbps: number;
+  audioSampleRate: 44100 | 48000;
+  loudnessTarget?: number;
+}
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  /** 对应的画布平台预设 value（与 CanvasPanel 一致，如 "douyin-9:16"），通用预设为 null */
+  platform: string | null;
+  /** 内置预设不可修改、删除 */
+  builtin: boolean;
+  options: ExportPresetOptions;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateExportPresetPayload {
+  name: string;
+  platform?: string | null;
+  options: ExportPresetOptions;
+}
+
+interface ExportPresetListResponse {
+  items: ExportPreset[];
+}
+
+async function parseJson<T>(
+  response: Response
+): Promise<T | { error?: string }> {
+  return response.json().catch(() => ({}));
+}
+
+async function assertOk<T>(
+  response: Response,
+  fallbackMessage: string
+): Promise<T> {
+  const data = await parseJson<T>(response);
+  if (!response.ok) {
+    throw new Error(
+      (data as { error?: string }).error ??
+        `${fallbackMessage}: ${response.status}`
+    );
+  }
+  return data as T;
+}
+
+/** 获取导出预设（内置预设在前，自建预设按更新时间倒序） */
+export async function getExportPresets(
+  options: { signal?: AbortSignal } = {}
+): Promise<ExportPreset[]> {
+  const response = await fetch("/api/export-presets", {
+    headers: getAuthHeaders(),
+    signal: options.signal,
+  });
+  const data = await assertOk<ExportPresetListResponse>(
+    response,
+    "获取导出预设失败"
+  );
+  return data.items;
+}
+
+export async function createExportPreset(
+  payload: CreateExportPresetPayload
+): Promise<ExportPreset> {
+  const response = await fetch("/api/export-presets", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify(payload),
+  });
+  return assertOk<ExportPreset>(response, "保存导出预设失败");
+}
+
+export async function deleteExportPreset(id: string): Promise<void> {
+  const response = await fetch(
+    `/api/export-presets/${encodeURIComponent(id)}`,
+    {
+      method: "DELETE",
+      headers: getAuthHeaders(),
+    }
+  );
+  await assertOk<{ ok: true }>(response, "删除导出预设失败");
+}
@@ -0,0 +1,124 @@
+import {
+  deserializeProject,
+  serializeProject,
+  type Project,
+} from "@vitecut/project";
+import { getAuthHeaders } from "@/contexts";
+
+export interface ProjectListItem {
+  id: string;
+  name: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface GetProjectListParams {
+  search?: string;
+  page?: number;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+interface ProjectListResponse {
+  items: ProjectListItem[];
+  total: number;
+}
+
+interface ProjectDetailResponse extends ProjectListItem {
+  data: string;
+}
+
+async function parseJson<T>(
+  response: Response
+): Promise<T | { error?: string }> {
+  return response.json().catch(() => ({}));
+}
+
+async function assertOk<T>(
+  response: Response,
+  fallbackMessage: string
+): Promise<T> {
+  const data = await parseJson<T>(response);
+  if (!response.ok) {
+    throw new Error(
+      (data as { error?: string }).error ??
+        `${fallbackMessage}: ${response.status}`
+    );
+  }
+  return data as T;
+}
+
+export async function getProjectList(
+  params: GetProjectListParams = {}
+): Promise<ProjectListItem[]> {
+  const query = new URLSearchParams();
+  query.set("page", String(params.page ?? 1));
+  query.set("limit", String(params.limit ?? 50));
+  if (params.search?.trim()) {
+    query.set("search", params.search.trim());
+  }
+
+  const response = await fetch(`/api/projects?${query.toString()}`, {
+    headers: getAuthHeaders(),
+    signal: params.signal,
+  });
+  const data = await assertOk<ProjectListResponse>(
+    response,
+    "获取工程列表失败"
+  );
+  return data.items;
+}
+
+/**
+ * 读取并反序列化工程：旧版本数据会在这里迁移到当前 schema，结构损坏时抛出带字段路径的错误。
+ */
+export async function getProject(
+  id: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<Project> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, {
+    headers: getAuthHeaders(),
+    signal: options.signal,
+  });
+  const data = await assertOk<ProjectDetailResponse>(response, "获取工程失败");
+  const result = deserializeProject(data.data);
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return result.project;
+}
+
+/**
+ * 保存工程到服务端：以 project.id 为工程 id，已存在则更新，否则创建。
+ */
+export async function saveProject(project: Project): Promise<ProjectListItem> {
+  const body = JSON.stringify({
+    name: project.name,
+    data: serializeProject(project),
+  });
+  const headers = { "Content-Type": "application/json", ...getAuthHeaders() };
+
+  const updateResponse = await fetch(
+    `/api/projects/${encodeURIComponent(project.id)}`,
+    { method: "PUT", headers, body }
+  );
+  if (updateResponse.status !== 404) {
+    return assertOk<ProjectDetailResponse>(updateResponse, "保存工程失败");
+  }
+
+  const createResponse = await fetch("/api/projects", {
+    method: "POST",
+    headers,
+    body,
+  });
+  return assertOk<ProjectDetailResponse>(createResponse, "保存工程失败");
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  await assertOk<{ ok: true }>(response, "删除工程失败");
+}
@@ -138,3 +138,24 @@ export async function deleteTask(id: string): Promise<boolean> {
   }
   return true;
 }
+
+/**
+ * 取消导出任务（排队中或执行中）
+ * @param id 任务 ID
+ * @returns {Promise<ApiTask>} 取消后的任务对象
+ * @throws 取消失败时抛出异常
+ */
+export async function cancelTask(id: string): Promise<ApiTask> {
+  const res = await fetch(`/api/tasks/${encodeURIComponent(id)}/cancel`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    // 取消失败则抛出错误
+    throw new Error(
+      (data as { error?: string }).error || `取消任务失败: ${res.status}`
+    );
+  }
+  return data as ApiTask;
+}
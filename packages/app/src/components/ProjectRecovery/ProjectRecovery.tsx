@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { AlertDialog, Button, Flex } from "@radix-ui/themes";
+import { deserializeProject } from "@vitecut/project";
+import { useToast } from "@/components/Toaster";
+import { useProjectStore } from "@/stores";
+import {
+  clearProjectSnapshot,
+  getProjectSnapshot,
+  type ProjectSnapshot,
+} from "@/utils/projectAutosave";
+
+/**
+ * 启动时检查 IndexedDB 中的自动保存快照，若存在未保存的会话则询问是否恢复。
+ */
+export function ProjectRecovery() {
+  const [snapshot, setSnapshot] = useState<ProjectSnapshot | null>(null);
+  const openProject = useProjectStore((s) => s.openProject);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    getProjectSnapshot()
+      .then((found) => {
+        // 启动期间已经打开了其他工程时不再打扰
+        if (!cancelled && found && !useProjectStore.getState().project) {
+          setSnapshot(found);
+        }
+      })
+      .catch((err) => {
+        console.error("Read autosave snapshot failed:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRestore = () => {
+    if (!snapshot) return;
+    const result = deserializeProject(snapshot.data);
+    if (result.ok) {
+      openProject(result.project);
+      showToast(`已恢复 ${snapshot.projectName}`, "success");
+    } else {
+      showToast(`恢复失败：${result.error.message}`, "error");
+    }
+    setSnapshot(null);
+  };
+
+  const handleDiscard = () => {
+    setSnapshot(null);
+    void clearProjectSnapshot().catch(() => undefined);
+  };
+
+  return (
+    <AlertDialog.Root open={snapshot !== null}>
+      <AlertDialog.Content maxWidth="420px">
+        <AlertDialog.Title>恢复未保存的工程？</AlertDialog.Title>
+        <AlertDialog.Description size="2">
+          {snapshot
+            ? `检测到上次未保存的工程「${snapshot.projectName}」（${new Date(
+                snapshot.savedAt
+              ).toLocaleString()}），是否恢复？`
+            : null}
+        </AlertDialog.Description>
+        <Flex gap="3" mt="4" justify="end">
+          <AlertDialog.Cancel>
+            <Button variant="soft" color="gray" onClick={handleDiscard}>
+              丢弃
+            </Button>
+          </AlertDialog.Cancel>
+          <AlertDialog.Action>
+            <Button variant="solid" onClick={handleRestore}>
+              恢复
+            </Button>
+          </AlertDialog.Action>
+        </Flex>
+      </AlertDialog.Content>
+    </AlertDialog.Root>
+  );
+}
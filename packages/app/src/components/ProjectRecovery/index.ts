@@ -0,0 +1 @@
+export { ProjectRecovery } from "./ProjectRecovery";
@@ -12,9 +12,10 @@ import {
   Mic2,
   Sparkles,
   X,
+  Ban,
 } from "lucide-react";
 import { useTaskStore, type Task, type TaskType } from "@/stores/taskStore";
-import { getTasks, deleteTask } from "@/api/tasksApi";
+import { getTasks, deleteTask, cancelTask } from "@/api/tasksApi";
 import { useToast } from "@/components/Toaster";
 import { Tooltip } from "@/components/Tooltip";
 import { useAuth } from "@/contexts";
@@ -61,9 +62,12 @@ const TASK_TYPE_CONFIG: Record<
 function TaskItem({
   task,
   onRemove,
+  onCancel,
 }: {
   task: Task;
   onRemove: () => void;
+  /** 可取消的任务（排队中 / 执行中的导出）才传入 */
+  onCancel?: () => void;
 }) {
   const config = TASK_TYPE_CONFIG[task.type];
 
@@ -122,6 +126,21 @@ function TaskItem({
           <XCircle size={14} className="task-list__item-error" />
         ) : null}
       </div>
+      {onCancel && (
+        <Tooltip content="取消导出">
+          <button
+            type="button"
+            className="task-list__item-remove"
+            aria-label="取消导出"
+            onClick={(e) => {
+              e.stopPropagation();
+              onCancel();
+            }}
+          >
+            <Ban size={12} />
+          </button>
+        </Tooltip>
+      )}
       <button
         type="button"
         className="task-list__item-remove"
@@ -146,6 +165,7 @@ export function TaskList() {
   const setTasksFromServer = useTaskStore((s) => s.setTasksFromServer);
   const removeTask = useTaskStore((s) => s.removeTask);
   const clearCompleted = useTaskStore((s) => s.clearCompleted);
+  const applyServerTaskUpdate = useTaskStore((s) => s.applyServerTaskUpdate);
 
   const handleRemoveTask = async (taskId: string) => {
     try {
@@ -157,6 +177,16 @@ export function TaskList() {
     }
   };
 
+  // 取消导出任务：服务端结束渲染后返回最新任务状态
+  const handleCancelTask = async (taskId: string) => {
+    try {
+      applyServerTaskUpdate(await cancelTask(taskId));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "取消失败";
+      showToast(msg, "error");
+    }
+  };
+
   // 挂载时拉取任务列表，仅在异步回调中更新 loading（避免 effect 内同步 setState）
   useEffect(() => {
     if (authLoading) {
@@ -275,6 +305,12 @@ export function TaskList() {
                 key={task.id}
                 task={task}
                 onRemove={() => handleRemoveTask(task.id)}
+                onCancel={
+                  task.type === "export" &&
+                  (task.status === "running" || task.status === "pending")
+                    ? () => handleCancelTask(task.id)
+                    : undefined
+                }
               />
             ))
           )}
@@ -2,13 +2,31 @@ import { Tooltip } from "@/components/Tooltip";
 import { TaskList } from "@/components/TaskList";
 import { useToast } from "@/components/Toaster";
 import { createTask } from "@/api/tasksApi";
+import {
+  createExportPreset,
+  deleteExportPreset,
+  getExportPresets,
+  type ExportPreset,
+  type ExportPresetOptions,
+} from "@/api/exportPresetApi";
+import {
+  deleteProject,
+  getProject,
+  getProjectList,
+  saveProject,
+  type ProjectListItem,
+} from "@/api/projectApi";
 import { Button, Dialog, Flex, Heading, Popover, Text } from "@radix-ui/themes";
 import { Select } from "radix-ui";
 import {
+  BookmarkPlus,
+  FolderOpen,
   Github,
   Keyboard,
   LogOut,
   Redo,
+  Save,
+  Trash2,
   Undo,
   Upload,
   User,
@@ -19,8 +37,13 @@ import { useTaskStore } from "@/stores";
 import logoImg from "@/assets/logo.png";
 import { useState } from "react";
 import { useProjectStore } from "@/stores";
-import { projectToRenderProject } from "@/export/projectToRenderProject";
+import { clearProjectSnapshot } from "@/utils/projectAutosave";
+import {
+  getLocalOnlyAssetIds,
+  projectToRenderProject,
+} from "@/export/projectToRenderProject";
 import { getProjectDuration } from "@vitecut/project";
+import { formatTime } from "@vitecut/utils";
 import "./Header.css";
 
 /** 根据码率与时长估算导出文件大小（MB） */
@@ -105,6 +128,7 @@ const RESOLUTION_OPTIONS: {
 
 // 帧率选项
 const FPS_OPTIONS: { value: number; label: string; subtitle?: string }[] = [
+  { value: 15, label: "15 fps" },
   { value: 24, label: "24 fps" },
   { value: 25, label: "25 fps" },
   { value: 29.97, label: "29.97 fps" },
@@ -166,14 +190,18 @@ const VIDEO_CODEC_OPTIONS: {
   },
 ];
 
-// 容器格式选项，mp4 适用性广，mov 针对专业剪辑
+// 容器格式类型
+type ExportContainer = "mp4" | "mov" | "gif";
+
+// 容器格式选项，mp4 适用性广，mov 针对专业剪辑，gif 用于无声预览
 const CONTAINER_OPTIONS: {
-  value: "mp4" | "mov";
+  value: ExportContainer;
   label: string;
   subtitle: string;
 }[] = [
   { value: "mp4", label: "MP4", subtitle: "通用格式，适合大多数平台" },
   { value: "mov", label: "MOV", subtitle: "适合专业剪辑软件" },
+  { value: "gif", label: "GIF", subtitle: "动图预览，不含声音" },
 ];
 
 // 音频码率选项，包含 AAC 与无损 PCM
@@ -194,6 +222,47 @@ const AUDIO_SAMPLE_RATE_OPTIONS: { value: 44100 | 48000; label: string }[] = [
   { value: 48000, label: "48000 Hz" },
 ];
 
+// 响度标准化目标（LUFS），null 为不标准化；服务端两遍 loudnorm 调整成片整体响度
+const LOUDNESS_TARGET_OPTIONS: {
+  value: number | null;
+  label: string;
+  subtitle?: string;
+}[] = [
+  { value: null, label: "不标准化" },
+  { value: -14, label: "-14 LUFS", subtitle: "社交平台 / 流媒体" },
+  { value: -16, label: "-16 LUFS", subtitle: "播客" },
+  { value: -23, label: "-23 LUFS", subtitle: "广播（EBU R128）" },
+  { value: -24, label: "-24 LUFS", subtitle: "广播（ATSC A/85）" },
+];
+
+/** 导出范围：整个工程 */
+const EXPORT_RANGE_ALL = "all";
+
+/** 导出预设：未选择预设或参数已被修改 */
+const EXPORT_PRESET_CUSTOM = "custom";
+
+/** 分辨率取自预设（宽高不随工程比例计算） */
+const EXPORT_RESOLUTION_PRESET = "preset";
+
+/** 当前导出参数是否与预设一致（用于判断预设是否仍处于选中状态） */
+function isSamePresetOptions(
+  a: ExportPresetOptions,
+  b: ExportPresetOptions
+): boolean {
+  return (
+    a.width === b.width &&
+    a.height === b.height &&
+    a.fps === b.fps &&
+    a.format === b.format &&
+    a.videoBitrateKbps === b.videoBitrateKbps &&
+    a.videoCodec === b.videoCodec &&
+    a.audioCodec === b.audioCodec &&
+    a.audioBitrateKbps === b.audioBitrateKbps &&
+    a.audioSampleRate === b.audioSampleRate &&
+    (a.loudnessTarget ?? null) === (b.loudnessTarget ?? null)
+  );
+}
+
 // 通用下拉组件选项类型
 type SimpleOption = { value: string; label: string; subtitle?: string };
 
@@ -325,6 +394,15 @@ export function Header() {
   const canRedo = useProjectStore((s) => s.historyFuture.length > 0);
   const undo = useProjectStore((s) => s.undo);
   const redo = useProjectStore((s) => s.redo);
+  const openProject = useProjectStore((s) => s.openProject);
+  const setProjectName = useProjectStore((s) => s.setProjectName);
+  const preferredCanvasPreset = useProjectStore((s) => s.preferredCanvasPreset);
+
+  // 本地状态：工程保存/打开
+  const [saving, setSaving] = useState(false);
+  const [projectsOpen, setProjectsOpen] = useState(false);
+  const [projectList, setProjectList] = useState<ProjectListItem[]>([]);
+  const [projectListLoading, setProjectListLoading] = useState(false);
 
   // 本地状态：导出弹窗/导出参数
   const [exportOpen, setExportOpen] = useState(false);
@@ -333,8 +411,18 @@ export function Header() {
   const [exportTitle, setExportTitle] = useState<string>(defaultExportTitle);
   const [exportFps, setExportFps] = useState<number>(30);
   const [exportSpeed, setExportSpeed] = useState<number>(1);
-  const [exportContainer, setExportContainer] = useState<"mp4" | "mov">("mp4");
+  const [exportContainer, setExportContainer] =
+    useState<ExportContainer>("mp4");
+  // 导出预设：列表在打开导出弹窗时拉取；选中预设后分辨率固定为预设宽高
+  const [exportPresets, setExportPresets] = useState<ExportPreset[]>([]);
+  const [exportPresetId, setExportPresetId] = useState<string | null>(null);
+  const [presetSize, setPresetSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
   const [openSelectId, setOpenSelectId] = useState<string | null>(null);
+  // 导出范围：EXPORT_RANGE_ALL 为整个工程，否则为命名区间 id
+  const [exportRangeId, setExportRangeId] = useState<string>(EXPORT_RANGE_ALL);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const [videoBitrateKbps, setVideoBitrateKbps] = useState<number>(5000);
   const [videoQualityId, setVideoQualityId] = useState<
@@ -344,6 +432,7 @@ export function Header() {
   const [audioBitrateKbps, setAudioBitrateKbps] = useState<number>(192);
   const [audioCodec, setAudioCodec] = useState<"aac" | "pcm">("aac");
   const [audioSampleRate, setAudioSampleRate] = useState<44100 | 48000>(44100);
+  const [loudnessTarget, setLoudnessTarget] = useState<number | null>(null);
 
   // 当前日期用于项目名称占位显示，格式类似 "11 Feb 2026"
   const todayLabel = new Date().toLocaleDateString("en-GB", {
@@ -357,18 +446,139 @@ export function Header() {
   const { showToast } = useToast();
   const { user, logout } = useAuth();
 
+  // 当前导出参数（不含标题、倍速等单次导出字段），用于保存预设与判断预设是否被修改
+  const currentPresetOptions: ExportPresetOptions | null = project
+    ? {
+        ...(presetSize ??
+          getExportResolution(exportFormat, project.width, project.height)),
+        fps: exportFps,
+        format: exportFormat === "gif" ? "gif" : exportContainer,
+        videoBitrateKbps,
+        videoCodec,
+        audioCodec,
+        audioBitrateKbps,
+        audioSampleRate,
+        loudnessTarget: loudnessTarget ?? undefined,
+      }
+    : null;
+  const activePreset = exportPresets.find(
+    (p) =>
+      p.id === exportPresetId &&
+      !!currentPresetOptions &&
+      isSamePresetOptions(p.options, currentPresetOptions)
+  );
+  // 预设宽高比与工程画布不一致时提示画面会被拉伸
+  const presetAspectMismatch =
+    !!project &&
+    !!presetSize &&
+    project.width > 0 &&
+    project.height > 0 &&
+    Math.abs(
+      presetSize.width / presetSize.height - project.width / project.height
+    ) > 0.01;
+
+  // 打开导出弹窗时拉取导出预设
+  const handleExportOpenChange = async (open: boolean) => {
+    setExportOpen(open);
+    if (!open) return;
+    try {
+      setExportPresets(await getExportPresets());
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "获取导出预设失败",
+        "error"
+      );
+    }
+  };
+
+  // 选择预设：把预设参数写入各项导出设置
+  const applyExportPreset = (preset: ExportPreset) => {
+    const o = preset.options;
+    setExportPresetId(preset.id);
+    setPresetSize({ width: o.width, height: o.height });
+    setExportFps(o.fps);
+    setExportContainer(o.format);
+    setVideoBitrateKbps(o.videoBitrateKbps);
+    setVideoQualityId(
+      VIDEO_QUALITY_OPTIONS.find((q) => q.bitrateKbps === o.videoBitrateKbps)
+        ?.id ?? "custom"
+    );
+    setVideoCodec(o.videoCodec);
+    setAudioCodec(o.audioCodec);
+    setAudioBitrateKbps(o.audioBitrateKbps);
+    setAudioSampleRate(o.audioSampleRate);
+    setLoudnessTarget(o.loudnessTarget ?? null);
+  };
+
+  // 把当前导出参数保存为自建预设，平台取当前画布预设
+  const handleSaveExportPreset = async () => {
+    if (!currentPresetOptions) return;
+    const name = window.prompt("预设名称")?.trim();
+    if (!name) return;
+    try {
+      const preset = await createExportPreset({
+        name,
+        platform: preferredCanvasPreset,
+        options: currentPresetOptions,
+      });
+      setExportPresets((list) => [
+        ...list.filter((p) => p.builtin),
+        preset,
+        ...list.filter((p) => !p.builtin),
+      ]);
+      setExportPresetId(preset.id);
+      showToast(`已保存预设 ${preset.name}`, "info");
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "保存导出预设失败",
+        "error"
+      );
+    }
+  };
+
+  const handleDeleteExportPreset = async (preset: ExportPreset) => {
+    if (!window.confirm(`确定删除预设「${preset.name}」吗？`)) return;
+    try {
+      await deleteExportPreset(preset.id);
+      setExportPresets((list) => list.filter((p) => p.id !== preset.id));
+      setExportPresetId(null);
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "删除导出预设失败",
+        "error"
+      );
+    }
+  };
+
   // 导出按钮点击处理函数
   const handleExport = async () => {
+    // 嵌套编辑复合片段时导出的仍是整个根工程
+    const project = useProjectStore.getState().getRootProject();
     if (!project) {
       return;
     }
     // 将工程转换为后端渲染所需的 RenderProject，并组合导出参数
-    const renderProject = projectToRenderProject(project);
-    const { width, height } = getExportResolution(
-      exportFormat,
-      project.width,
-      project.height
-    );
+    const exportRegion = project.regions?.find((r) => r.id === exportRangeId);
+    const renderProject = projectToRenderProject(project, {
+      range: exportRegion
+        ? { start: exportRegion.start, end: exportRegion.end }
+        : undefined,
+    });
+    // 未上传的本地素材（blob 地址）渲染端无法读取，提交前拦下，保持导出弹窗打开
+    const localOnlyIds = getLocalOnlyAssetIds(renderProject);
+    if (localOnlyIds.length > 0) {
+      const names = localOnlyIds.map(
+        (id) => project.assets.find((a) => a.id === id)?.name || id
+      );
+      showToast(
+        `以下素材尚未上传，无法导出：${names.join("、")}。请先上传到媒体库并重新添加到时间轴后再导出`,
+        "error"
+      );
+      return;
+    }
+    const { width, height } =
+      presetSize ??
+      getExportResolution(exportFormat, project.width, project.height);
     const exportOptions = {
       width,
       height,
@@ -382,6 +592,7 @@ export function Header() {
       audioCodec,
       audioBitrateKbps,
       audioSampleRate,
+      loudnessTarget: loudnessTarget ?? undefined,
     };
     setExportOpen(false);
 
@@ -433,6 +644,59 @@ export function Header() {
   // 是否允许导出
   const canExport = !!project && !loading;
 
+  // 保存当前工程到服务端
+  const handleSaveProject = async () => {
+    const rootProject = useProjectStore.getState().getRootProject();
+    if (!rootProject || saving) return;
+    setSaving(true);
+    try {
+      await saveProject(rootProject);
+      // 已保存到服务端，本地快照不再需要恢复
+      await clearProjectSnapshot().catch(() => undefined);
+      showToast(`已保存 ${rootProject.name}`, "info");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "保存工程失败", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 打开工程弹窗时拉取工程列表
+  const handleProjectsOpenChange = async (open: boolean) => {
+    setProjectsOpen(open);
+    if (!open) return;
+    setProjectListLoading(true);
+    try {
+      setProjectList(await getProjectList());
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "获取工程列表失败",
+        "error"
+      );
+    } finally {
+      setProjectListLoading(false);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      openProject(await getProject(id));
+      setProjectsOpen(false);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "打开工程失败", "error");
+    }
+  };
+
+  const handleDeleteProject = async (item: ProjectListItem) => {
+    if (!window.confirm(`确定删除工程「${item.name}」吗？`)) return;
+    try {
+      await deleteProject(item.id);
+      setProjectList((list) => list.filter((p) => p.id !== item.id));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "删除工程失败", "error");
+    }
+  };
+
   return (
     <header className="app-editor-layout__header">
       {/* 左侧：Logo及项目名 */}
@@ -447,7 +711,9 @@ export function Header() {
         <input
           type="text"
           className="app-editor-layout__project-name"
-          defaultValue={todayLabel}
+          value={project?.name ?? todayLabel}
+          disabled={!project}
+          onChange={(e) => setProjectName(e.target.value)}
         />
       </div>
       {/* 右侧：撤销、重做、导出、快捷键、GitHub等按钮 */}
@@ -474,10 +740,86 @@ export function Header() {
             <Redo size={16} />
           </button>
         </Tooltip>
+        {/* 保存工程 */}
+        <Tooltip content="保存工程">
+          <button
+            className="app-editor-layout__header-btn"
+            disabled={!project || saving}
+            onClick={handleSaveProject}
+            type="button"
+          >
+            <Save size={16} />
+          </button>
+        </Tooltip>
+        {/* 打开工程弹窗 */}
+        <Dialog.Root
+          open={projectsOpen}
+          onOpenChange={handleProjectsOpenChange}
+        >
+          <Tooltip content="打开工程">
+            <Dialog.Trigger>
+              <button type="button" className="app-editor-layout__header-btn">
+                <FolderOpen size={16} />
+              </button>
+            </Dialog.Trigger>
+          </Tooltip>
+          <Dialog.Content maxWidth="480px" className="projects-dialog">
+            <Flex justify="between" align="center" mb="4">
+              <Dialog.Title size="4" className="hotkeys-dialog__title">
+                打开工程
+              </Dialog.Title>
+              <Dialog.Close>
+                <button
+                  type="button"
+                  className="hotkeys-dialog__close"
+                  aria-label="关闭"
+                >
+                  <X size={18} />
+                </button>
+              </Dialog.Close>
+            </Flex>
+            <div className="projects-dialog__body">
+              {projectListLoading ? (
+                <Text size="2" color="gray">
+                  加载中…
+                </Text>
+              ) : projectList.length === 0 ? (
+                <Text size="2" color="gray">
+                  暂无已保存的工程
+                </Text>
+              ) : (
+                projectList.map((item) => (
+                  <div key={item.id} className="projects-dialog__row">
+                    <button
+                      type="button"
+                      className="projects-dialog__open"
+                      onClick={() => handleOpenProject(item.id)}
+                    >
+                      <Text size="2" className="projects-dialog__name">
+                        {item.name}
+                      </Text>
+                      <Text size="1" color="gray">
+                        {new Date(item.updatedAt).toLocaleString()}
+                      </Text>
+                    </button>
+                    <button
+                      type="button"
+                      className="hotkeys-dialog__close"
+                      aria-label="删除"
+                      onClick={() => handleDeleteProject(item)}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          </Dialog.Content>
+        </Dialog.Root>
         {/* 任务列表 */}
         <TaskList />
         {/* 导出弹窗触发 */}
-        <Popover.Root open={exportOpen} onOpenChange={setExportOpen}>
+        <Popover.Root open={exportOpen} onOpenChange={handleExportOpenChange}>
           <Popover.Trigger>
             <Button
               variant="solid"
@@ -514,6 +856,67 @@ export function Header() {
               <div className="export-panel">
                 <div className="export-panel-right">
                   {/* 导出参数设置表单区块 */}
+                  <div className="export-panel-row">
+                    <span className="export-panel-label">预设</span>
+                    <div className="export-panel-control export-panel-preset">
+                      <ExportSelect
+                        ariaLabel="导出预设"
+                        value={activePreset?.id ?? EXPORT_PRESET_CUSTOM}
+                        onValueChange={(id) => {
+                          const preset = exportPresets.find((p) => p.id === id);
+                          if (preset) applyExportPreset(preset);
+                        }}
+                        open={openSelectId === "preset"}
+                        onOpenChange={(isOpen) =>
+                          setOpenSelectId(isOpen ? "preset" : null)
+                        }
+                        options={[
+                          { value: EXPORT_PRESET_CUSTOM, label: "自定义" },
+                          ...exportPresets.map((p) => ({
+                            value: p.id,
+                            label: p.name,
+                            // 与画布面板选中的平台一致的预设优先提示
+                            subtitle:
+                              p.platform && p.platform === preferredCanvasPreset
+                                ? "当前画布平台"
+                                : p.builtin
+                                  ? undefined
+                                  : "自建预设",
+                          })),
+                        ]}
+                      />
+                      <Tooltip content="保存为预设">
+                        <button
+                          type="button"
+                          className="export-preset-btn"
+                          aria-label="保存为预设"
+                          disabled={!currentPresetOptions}
+                          onClick={handleSaveExportPreset}
+                        >
+                          <BookmarkPlus size={16} />
+                        </button>
+                      </Tooltip>
+                      {activePreset && !activePreset.builtin && (
+                        <Tooltip content="删除预设">
+                          <button
+                            type="button"
+                            className="export-preset-btn"
+                            aria-label="删除预设"
+                            onClick={() =>
+                              handleDeleteExportPreset(activePreset)
+                            }
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </Tooltip>
+                      )}
+                    </div>
+                  </div>
+                  {presetAspectMismatch && (
+                    <div className="export-panel-hint">
+                      预设画面比例与工程画布不一致，导出画面会被拉伸
+                    </div>
+                  )}
                   <div className="export-panel-row">
                     <span className="export-panel-label">标题</span>
                     <div className="export-panel-control">
@@ -527,24 +930,69 @@ export function Header() {
                       />
                     </div>
                   </div>
+                  {(project?.regions?.length ?? 0) > 0 && (
+                    <div className="export-panel-row">
+                      <span className="export-panel-label">导出范围</span>
+                      <div className="export-panel-control">
+                        <ExportSelect
+                          ariaLabel="导出范围"
+                          value={
+                            project?.regions?.some(
+                              (r) => r.id === exportRangeId
+                            )
+                              ? exportRangeId
+                              : EXPORT_RANGE_ALL
+                          }
+                          onValueChange={setExportRangeId}
+                          open={openSelectId === "range"}
+                          onOpenChange={(isOpen) =>
+                            setOpenSelectId(isOpen ? "range" : null)
+                          }
+                          options={[
+                            { value: EXPORT_RANGE_ALL, label: "整个工程" },
+                            ...(project?.regions ?? []).map((region) => ({
+                              value: region.id,
+                              label: region.name,
+                              subtitle: `${formatTime(region.start)} - ${formatTime(region.end)}`,
+                            })),
+                          ]}
+                        />
+                      </div>
+                    </div>
+                  )}
                   <div className="export-panel-row">
                     <span className="export-panel-label">分辨率</span>
                     <div className="export-panel-control">
                       <ExportSelect
                         ariaLabel="分辨率"
-                        value={exportFormat}
-                        onValueChange={(v) =>
-                          setExportFormat(v as ExportFormat)
+                        value={
+                          presetSize ? EXPORT_RESOLUTION_PRESET : exportFormat
                         }
+                        onValueChange={(v) => {
+                          if (v === EXPORT_RESOLUTION_PRESET) return;
+                          // 改选常规分辨率后按工程比例计算宽高
+                          setPresetSize(null);
+                          setExportFormat(v as ExportFormat);
+                        }}
                         open={openSelectId === "resolution"}
                         onOpenChange={(isOpen) =>
                           setOpenSelectId(isOpen ? "resolution" : null)
                         }
-                        options={RESOLUTION_OPTIONS.map((opt) => ({
-                          value: opt.value,
-                          label: opt.label,
-                          subtitle: opt.subtitle,
-                        }))}
+                        options={[
+                          ...(presetSize
+                            ? [
+                                {
+                                  value: EXPORT_RESOLUTION_PRESET,
+                                  label: `${presetSize.width} × ${presetSize.height}`,
+                                },
+                              ]
+                            : []),
+                          ...RESOLUTION_OPTIONS.map((opt) => ({
+                            value: opt.value,
+                            label: opt.label,
+                            subtitle: opt.subtitle,
+                          })),
+                        ]}
                       />
                     </div>
                   </div>
@@ -555,7 +1003,7 @@ export function Header() {
                         ariaLabel="导出格式"
                         value={exportContainer}
                         onValueChange={(v) =>
-                          setExportContainer(v as "mp4" | "mov")
+                          setExportContainer(v as ExportContainer)
                         }
                         open={openSelectId === "container"}
                         onOpenChange={(isOpen) =>
@@ -629,10 +1077,21 @@ export function Header() {
                         onOpenChange={(isOpen) =>
                           setOpenSelectId(isOpen ? "video-bitrate" : null)
                         }
-                        options={VIDEO_QUALITY_OPTIONS.map((opt) => ({
-                          value: opt.id,
-                          label: opt.label,
-                        }))}
+                        options={[
+                          ...VIDEO_QUALITY_OPTIONS.map((opt) => ({
+                            value: opt.id,
+                            label: opt.label,
+                          })),
+                          // 预设码率不在快捷项中时显示具体数值
+                          ...(videoQualityId === "custom"
+                            ? [
+                                {
+                                  value: "custom",
+                                  label: `${videoBitrateKbps} kbps`,
+                                },
+                              ]
+                            : []),
+                        ]}
                       />
                     </div>
                   </div>
@@ -703,6 +1162,27 @@ export function Header() {
                       />
                     </div>
                   </div>
+                  <div className="export-panel-row">
+                    <span className="export-panel-label">响度标准化</span>
+                    <div className="export-panel-control">
+                      <ExportSelect
+                        ariaLabel="响度标准化"
+                        value={String(loudnessTarget)}
+                        onValueChange={(v) =>
+                          setLoudnessTarget(v === "null" ? null : Number(v))
+                        }
+                        open={openSelectId === "loudness"}
+                        onOpenChange={(isOpen) =>
+                          setOpenSelectId(isOpen ? "loudness" : null)
+                        }
+                        options={LOUDNESS_TARGET_OPTIONS.map((opt) => ({
+                          value: String(opt.value),
+                          label: opt.label,
+                          subtitle: opt.subtitle,
+                        }))}
+                      />
+                    </div>
+                  </div>
                   {/* 项目信息与导出体积简单估算 */}
                   {project && (
                     <div className="export-panel-footer">
@@ -26,7 +26,7 @@
  */
 import { useEffect, useRef, useState } from "react";
 import { Play, Pause, SkipBack, SkipForward } from "lucide-react";
-import { findClipById } from "@vitecut/project";
+import { findClipById, hasDetachableAudio } from "@vitecut/project";
 import { usePreviewHotkeys } from "@vitecut/hotkeys";
 import { useProjectStore } from "@/stores";
 import { formatTime } from "@vitecut/utils";
@@ -40,6 +40,7 @@ import { useSelectionToolbarPosition } from "./useSelectionToolbarPosition";
 import { SelectionToolbarFixed } from "./SelectionToolbarFixed";
 import { SelectionToolbar } from "./SelectionToolbar";
 import { playbackClock } from "./playbackClock";
+import { getPreviewProject } from "./utils";
 import "./Preview.css";
 
 /**
@@ -68,10 +69,13 @@ export function Preview() {
   const setCurrentTime = useProjectStore((s) => s.setCurrentTime);
   const setIsPlaying = useProjectStore((s) => s.setIsPlaying);
 
+  // 画布渲染使用复合片段展开后的工程；选中、工具栏等编辑逻辑仍基于原始工程
+  const previewProject = getPreviewProject(project);
+
   // 同步当前帧所有可见文本片段进画布，自动处理增删改；播放时按 clip 时间显示/隐藏
   usePreviewTextSync(
     editorRef,
-    project,
+    previewProject,
     currentTime,
     isPlaying,
     duration,
@@ -81,7 +85,7 @@ export function Preview() {
   // 同步当前帧所有可见图片片段进画布，带缓存和异步加载；播放时按 clip 时间显示/隐藏
   usePreviewImageSync(
     editorRef,
-    project,
+    previewProject,
     currentTime,
     isPlaying,
     duration,
@@ -92,7 +96,13 @@ export function Preview() {
   usePreviewVideo(editorRef, rafIdRef, resizeTick);
 
   // 按轨道 order 设置元素叠放顺序，保证「上方轨道」显示在「下方轨道」上面
-  usePreviewElementOrder(editorRef, project, currentTime, isPlaying, duration);
+  usePreviewElementOrder(
+    editorRef,
+    previewProject,
+    currentTime,
+    isPlaying,
+    duration
+  );
 
   // 选中编辑功能（播放时禁用）
   usePreviewSelection(editorRef, { disabled: isPlaying });
@@ -108,6 +118,7 @@ export function Preview() {
     (s) => s.commitClipParamsChange
   );
   const updateClipTransform = useProjectStore((s) => s.updateClipTransform);
+  const updateClipTransforms = useProjectStore((s) => s.updateClipTransforms);
   const updateClipTransformTransient = useProjectStore(
     (s) => s.updateClipTransformTransient
   );
@@ -123,6 +134,15 @@ export function Preview() {
     (selectedClip.kind === "audio" ||
       (currentTime >= selectedClip.start && currentTime < selectedClip.end));
   const toolbarVisible = !!selectedClipId && isClipVisible;
+  const detachClipAudio = useProjectStore((s) => s.detachClipAudio);
+  const unlinkClip = useProjectStore((s) => s.unlinkClip);
+  const canDetachAudio =
+    !!selectedClip &&
+    !selectedClip.linkId &&
+    hasDetachableAudio(
+      selectedClip,
+      project?.assets.find((a) => a.id === selectedClip.assetId)
+    );
   const toolbarRef = useRef<HTMLDivElement | null>(null);
 
   // SelectionToolbar 跟随选中元素定位（音频 clip 无画布元素，跳过定位循环）
@@ -176,6 +196,28 @@ export function Preview() {
 
       event.preventDefault();
 
+      // 多选时整体平移全部非音频选中 clip，合并为一条历史记录
+      const { project: currentProject, selectedClipIds } =
+        useProjectStore.getState();
+      if (currentProject && selectedClipIds.length > 1) {
+        updateClipTransforms(
+          selectedClipIds.flatMap((id) => {
+            const clip = findClipById(currentProject, id);
+            if (!clip || clip.kind === "audio") return [];
+            return [
+              {
+                clipId: clip.id,
+                transform: {
+                  x: (clip.transform?.x ?? 0) + dx,
+                  y: (clip.transform?.y ?? 0) + dy,
+                },
+              },
+            ];
+          })
+        );
+        return;
+      }
+
       const currentTransform = selectedClip.transform ?? {};
       const nextX = (currentTransform.x ?? 0) + dx;
       const nextY = (currentTransform.y ?? 0) + dy;
@@ -252,8 +294,10 @@ export function Preview() {
         onUpdateTransformTransient={updateClipTransformTransient}
         onCommitTransformChange={commitClipTransformChange}
         getElementDimensions={() =>
-          editorRef.current?.getStage().size() ?? null
+          project ? { width: project.width, height: project.height } : null
         }
+        onDetachAudio={canDetachAudio ? detachClipAudio : undefined}
+        onUnlinkClip={selectedClip?.linkId ? unlinkClip : undefined}
       />
       {/* 跟随元素的操作工具栏：复制 / 删除 */}
       <SelectionToolbar
@@ -5,6 +5,7 @@
  * 选中元素时根据元素类型展示对应的编辑控件。
  * - 文本：加粗、斜体、删除线、下划线、字体、字号、颜色、不透明度、行高、字间距、对齐、镜像、旋转
  * - 视频/图片：画面调整（不透明度、亮度、对比度、饱和度、色调、模糊）、镜像、旋转；视频额外支持音量
+ * - 视频 / 音频：原声静音开关、分离音频（视频）、取消联动（已联动的片段）
  * - 其他：镜像、旋转
  */
 import { useRef, useCallback } from "react";
@@ -31,6 +32,8 @@ import {
   Volume1,
   Volume2,
   VolumeX,
+  AudioLines,
+  Unlink,
 } from "lucide-react";
 import { TipButton, TipToggleItem, TipWrap } from "./ToolbarTooltip";
 import "./SelectionToolbarFixed.css";
@@ -135,8 +138,12 @@ type SelectionToolbarFixedProps = {
     clipId: string,
     prevTransform: Record<string, unknown>
   ) => void;
-  /** 获取元素尺寸（视频需用于翻转时位置补偿） */
+  /** 获取元素尺寸（工程像素，视频需用于翻转时位置补偿） */
   getElementDimensions?: () => { width: number; height: number } | null;
+  /** 分离视频声音为联动音频片段；素材无音轨或已分离时不传 */
+  onDetachAudio?: (clipId: string) => void;
+  /** 取消片段联动；未联动时不传 */
+  onUnlinkClip?: (clipId: string) => void;
 };
 
 /** 将 fontStyle 字符串解析为 bold/italic 布尔 */
@@ -177,6 +184,8 @@ export const SelectionToolbarFixed = ({
   onUpdateTransformTransient,
   onCommitTransformChange,
   getElementDimensions,
+  onDetachAudio,
+  onUnlinkClip,
 }: SelectionToolbarFixedProps) => {
   if (!visible) {
     return null;
@@ -396,6 +405,41 @@ export const SelectionToolbarFixed = ({
     unknown
   > | null>(null);
 
+  const clipMuted = selectedClip?.params?.muted === true;
+
+  /** 声音按钮（视频 / 音频共用）：静音开关、分离音频、取消联动 */
+  const audioButtons = (
+    <>
+      <TipButton
+        label={clipMuted ? "取消静音" : "静音原声"}
+        className={
+          clipMuted ? `${BTN_CLS} selection-toolbar-fixed__btn--active` : BTN_CLS
+        }
+        onClick={() => updateVideoParams({ muted: !clipMuted })}
+      >
+        <VolumeX size={16} />
+      </TipButton>
+      {onDetachAudio && (
+        <TipButton
+          label="分离音频"
+          className={BTN_CLS}
+          onClick={() => onDetachAudio(clipId)}
+        >
+          <AudioLines size={16} />
+        </TipButton>
+      )}
+      {onUnlinkClip && (
+        <TipButton
+          label="取消联动"
+          className={BTN_CLS}
+          onClick={() => onUnlinkClip(clipId)}
+        >
+          <Unlink size={16} />
+        </TipButton>
+      )}
+    </>
+  );
+
   /** 镜像 / 旋转按钮（所有类型共用） */
   const transformButtons = (
     <>
@@ -1298,6 +1342,7 @@ export const SelectionToolbarFixed = ({
                 </Popover.Content>
               </Popover.Portal>
             </Popover.Root>
+            {audioButtons}
 
             <Toolbar.Separator className="selection-toolbar-fixed__separator" />
 
@@ -1435,6 +1480,7 @@ export const SelectionToolbarFixed = ({
                 </Popover.Content>
               </Popover.Portal>
             </Popover.Root>
+            {audioButtons}
           </>
         ) : (
           <>{transformButtons}</>
@@ -0,0 +1,145 @@
+import {
+  dbToLinear,
+  getActiveDuckings,
+  getDuckingGain,
+  type Project,
+} from "@vitecut/project";
+
+/**
+ * 预览中的音频闪避（见 @vitecut/project ducking.ts）。
+ *
+ * Web Audio 没有侧链压缩器，这里用电平检测近似导出端的 sidechaincompress：
+ * - 被闪避轨道的 clip GainNode 接到该轨道的总线 GainNode，再接到 destination；
+ * - 触发轨道的 clip GainNode 额外接入一个 AnalyserNode；
+ * - 播放循环每帧读取触发轨道的 RMS 电平，越过阈值时用 setTargetAtTime 按 attack / release 调整总线增益。
+ */
+export type PreviewDuckingGraph = {
+  /** 被闪避轨道 id → 轨道总线 */
+  busByTrackId: Map<string, GainNode>;
+  /** 触发轨道 id → 电平检测节点 */
+  analyserByTrackId: Map<string, AnalyserNode>;
+  rules: PreviewDuckingRule[];
+  /** 读取电平的复用缓冲区 */
+  samples: Float32Array<ArrayBuffer>;
+};
+
+type PreviewDuckingRule = {
+  trackId: string;
+  sourceTrackId: string;
+  /** 线性阈值 */
+  threshold: number;
+  /** 闪避时的总线增益 */
+  duckGain: number;
+  /** 秒 */
+  attack: number;
+  release: number;
+  /** 当前是否处于压低状态，状态切换时才重新排程 */
+  ducked: boolean;
+};
+
+/** 电平检测窗口（采样点数） */
+const ANALYSER_FFT_SIZE = 1024;
+
+/**
+ * 按工程中生效的闪避设置建立轨道总线与电平检测节点；没有闪避时返回 null。
+ */
+export function createPreviewDuckingGraph(
+  ctx: AudioContext,
+  project: Project
+): PreviewDuckingGraph | null {
+  const duckings = getActiveDuckings(project);
+  if (duckings.length === 0) {
+    return null;
+  }
+  const graph: PreviewDuckingGraph = {
+    busByTrackId: new Map(),
+    analyserByTrackId: new Map(),
+    rules: [],
+    samples: new Float32Array(ANALYSER_FFT_SIZE),
+  };
+  for (const { track, source, ducking } of duckings) {
+    const bus = ctx.createGain();
+    bus.connect(ctx.destination);
+    graph.busByTrackId.set(track.id, bus);
+    if (!graph.analyserByTrackId.has(source.id)) {
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = ANALYSER_FFT_SIZE;
+      graph.analyserByTrackId.set(source.id, analyser);
+    }
+    graph.rules.push({
+      trackId: track.id,
+      sourceTrackId: source.id,
+      threshold: dbToLinear(ducking.threshold),
+      duckGain: getDuckingGain(ducking),
+      attack: ducking.attack / 1000,
+      release: ducking.release / 1000,
+      ducked: false,
+    });
+  }
+  return graph;
+}
+
+/**
+ * 将 clip 的 GainNode 接入输出：被闪避轨道接到轨道总线，否则直接接 destination；
+ * 触发轨道的 clip 同时接入电平检测。
+ */
+export function connectClipGainNode(
+  graph: PreviewDuckingGraph | null,
+  ctx: AudioContext,
+  gainNode: GainNode,
+  trackId: string
+): void {
+  gainNode.connect(graph?.busByTrackId.get(trackId) ?? ctx.destination);
+  const analyser = graph?.analyserByTrackId.get(trackId);
+  if (analyser) {
+    gainNode.connect(analyser);
+  }
+}
+
+/** 触发轨道当前的 RMS 电平（线性） */
+function readLevel(graph: PreviewDuckingGraph, analyser: AnalyserNode): number {
+  const samples = graph.samples;
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * 每帧调用：按触发轨道电平切换各总线的压低 / 恢复状态。
+ * setTargetAtTime 约 3 个时间常数到达目标，故时间常数取 attack / release 的三分之一。
+ */
+export function updatePreviewDucking(
+  graph: PreviewDuckingGraph,
+  ctx: AudioContext
+): void {
+  for (const rule of graph.rules) {
+    const analyser = graph.analyserByTrackId.get(rule.sourceTrackId);
+    const bus = graph.busByTrackId.get(rule.trackId);
+    if (!analyser || !bus) continue;
+    const ducked = readLevel(graph, analyser) > rule.threshold;
+    if (ducked === rule.ducked) continue;
+    rule.ducked = ducked;
+    const now = ctx.currentTime;
+    bus.gain.cancelScheduledValues(now);
+    bus.gain.setTargetAtTime(
+      ducked ? rule.duckGain : 1,
+      now,
+      (ducked ? rule.attack : rule.release) / 3
+    );
+  }
+}
+
+/** 断开并释放闪避图中的所有节点 */
+export function disposePreviewDuckingGraph(graph: PreviewDuckingGraph): void {
+  for (const bus of graph.busByTrackId.values()) {
+    bus.disconnect();
+  }
+  for (const analyser of graph.analyserByTrackId.values()) {
+    analyser.disconnect();
+  }
+  graph.busByTrackId.clear();
+  graph.analyserByTrackId.clear();
+}
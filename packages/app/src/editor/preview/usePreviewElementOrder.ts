@@ -1,13 +1,14 @@
 import { useEffect, type RefObject } from "react";
 import type { CanvasEditor } from "@vitecut/canvas";
-import type { Project } from "@vitecut/project";
+import { getClipActiveRange, type Project } from "@vitecut/project";
 import { playbackClock } from "./playbackClock";
 
 const RENDERABLE_KINDS = ["text", "image", "video"] as const;
 
 /**
  * 按轨道 order 升序收集当前时刻可见的、可渲染的 clip id（从底到顶）。
- * 用于 setElementOrder，保证「上方轨道」显示在「下方轨道」上面。
+ * 用于 setElementOrder，保证「上方轨道」显示在「下方轨道」上面；
+ * 同一轨道内按 start 升序，转场时转入片段叠在转出片段之上。
  */
 export function getVisibleClipIdsInTrackOrder(
   project: Project | null,
@@ -26,7 +27,8 @@ export function getVisibleClipIdsInTrackOrder(
     if (track.hidden) {
       continue;
     }
-    for (const clip of track.clips) {
+    const clips = [...track.clips].sort((a, b) => a.start - b.start);
+    for (const clip of clips) {
       if (
         !RENDERABLE_KINDS.includes(
           clip.kind as (typeof RENDERABLE_KINDS)[number]
@@ -34,9 +36,12 @@ export function getVisibleClipIdsInTrackOrder(
       ) {
         continue;
       }
-      const inRange = clip.start <= t && clip.end > t;
+      const range = getClipActiveRange(track, clip);
+      const inRange = range.start <= t && range.end > t;
       const endFrame =
-        atEnd && clip.start < clip.end && clip.end >= (timelineDuration as number);
+        atEnd &&
+        clip.start < clip.end &&
+        range.end >= (timelineDuration as number);
       if (!inRange && !endFrame) {
         continue;
       }
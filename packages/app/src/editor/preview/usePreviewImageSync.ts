@@ -1,6 +1,10 @@
 import { useCallback, useEffect, useRef, type RefObject } from "react";
 import type { CanvasEditor } from "@vitecut/canvas";
-import type { Clip } from "@vitecut/project";
+import {
+  getClipActiveRange,
+  resolveTrackClipAtTime,
+  type Clip,
+} from "@vitecut/project";
 import type { Project } from "@vitecut/project";
 import { playbackClock } from "./playbackClock";
 import { getVisibleClipIdsInTrackOrder } from "./usePreviewElementOrder";
@@ -84,10 +88,20 @@ export function usePreviewImageSync(
       if (track.hidden) {
         continue;
       }
-      for (const clip of track.clips) {
+      for (const trackClip of track.clips) {
+        // 按当前时间求值关键帧动画与转场（无关键帧/转场时为原 clip）
+        const clip = resolveTrackClipAtTime(
+          track,
+          trackClip,
+          t,
+          project.width
+        );
+        // 转场会把片段的可见区间向前/向后延伸
+        const range = getClipActiveRange(track, trackClip);
         // 只处理 kind="image"&区间内的clip
-        const inRange = clip.start <= t && clip.end > t;
-        const endFrame = atEnd && clip.start < clip.end && clip.end >= duration;
+        const inRange = range.start <= t && range.end > t;
+        const endFrame =
+          atEnd && clip.start < clip.end && range.end >= duration;
         if (clip.kind !== "image" || (!inRange && !endFrame)) {
           continue;
         }
@@ -5,19 +5,131 @@
  *
  * 功能：
  * - 监听全局 selectedClipId，同步到 CanvasEditor 显示选中框
+ * - 多选（selectedClipIds 多于一项）时画布同时框住当前可见的选中元素，只能整体拖动
  * - 设置 CanvasEditor 回调，处理元素选中、变换过程、变换结束事件
  * - 变换结束时调用 updateClipTransform 写入工程数据并生成历史记录
+ * - 复合片段展开出的画布元素（id 带复合片段前缀）点击时选中外层复合片段，不响应变换
  */
 import { useEffect, useRef } from "react";
-import { findClipById } from "@vitecut/project";
+import {
+  COMPOUND_ID_SEPARATOR,
+  findClipById,
+  type Clip,
+  type Project,
+} from "@vitecut/project";
 import { useProjectStore } from "@/stores";
 import type { CanvasEditor, TransformEvent } from "@vitecut/canvas";
 
+/** 复合片段展开出的元素 id 带 `${复合片段 id}/` 前缀，不对应工程中的真实 clip */
+function isCompoundChildId(id: string): boolean {
+  return id.includes(COMPOUND_ID_SEPARATOR);
+}
+
 interface UsePreviewSelectionOptions {
   /** 是否禁用选中编辑（播放时禁用） */
   disabled?: boolean;
 }
 
+/**
+ * 将画布变换事件换算为工程坐标系下的 clip transform。
+ * 文本/图片/视频在画布上的坐标约定不同，需分别还原。
+ */
+function toClipTransformPatch(
+  event: TransformEvent,
+  proj: Project | null,
+  editor: CanvasEditor | null
+) {
+  const { id, x, y, scaleX, scaleY, rotation, width, height } = event;
+  let finalX = x;
+  let finalY = y;
+  let finalScaleX = scaleX;
+  let finalScaleY = scaleY;
+  if (proj && editor) {
+    const clip = findClipById(proj, id as Clip["id"]);
+    if (clip?.kind === "text") {
+      const stageSize = editor.getStage().size();
+      const scaleToProjX = proj.width / stageSize.width;
+      const scaleToProjY = proj.height / stageSize.height;
+      finalX = x * scaleToProjX;
+      finalY = y * scaleToProjY;
+    } else if (clip?.kind === "image") {
+      // 画布上图片使用中心点坐标 + offset，需要转回 project 坐标系的左上角
+      // 画布上：x/y = 中心点，width/height = node.width() * node.scaleX()（带符号）
+      // project 中：x/y = 左上角，scaleX/scaleY = 相对 project 比例（带符号表示翻转）
+      const stageSize = editor.getStage().size();
+      const stageW = Math.max(1, stageSize.width);
+      const stageH = Math.max(1, stageSize.height);
+      const scaleToProjX = proj.width / stageW;
+      const scaleToProjY = proj.height / stageH;
+      // 计算实际尺寸（绝对值）和翻转后的 scaleX/scaleY
+      const absW =
+        width !== undefined ? Math.abs(width) : stageW * Math.abs(scaleX);
+      const absH =
+        height !== undefined ? Math.abs(height) : stageH * Math.abs(scaleY);
+      // 中心点转左上角（画布坐标系）
+      const leftTopX = x - absW / 2;
+      const leftTopY = y - absH / 2;
+      finalX = leftTopX * scaleToProjX;
+      finalY = leftTopY * scaleToProjY;
+      // 将变换后的实际尺寸转换回 clip 的 scaleX/scaleY（保留符号）
+      if (width !== undefined) {
+        finalScaleX = width / stageW;
+      }
+      if (height !== undefined) {
+        finalScaleY = height / stageH;
+      }
+    } else if (clip?.kind === "video") {
+      const stageSize = editor.getStage().size();
+      const sW = Math.max(1, stageSize.width);
+      const sH = Math.max(1, stageSize.height);
+      // 还原 nodeW/nodeH：width = nodeW * scaleX → nodeW = width / scaleX
+      const nodeW =
+        width !== undefined && Math.abs(scaleX) > 1e-6
+          ? Math.abs(width / scaleX)
+          : sW;
+      const nodeH =
+        height !== undefined && Math.abs(scaleY) > 1e-6
+          ? Math.abs(height / scaleY)
+          : sH;
+      const centerOffsetX = (sW - nodeW) / 2;
+      const centerOffsetY = (sH - nodeH) / 2;
+      const halfW = width !== undefined ? Math.abs(width) / 2 : 0;
+      const halfH = height !== undefined ? Math.abs(height) / 2 : 0;
+      // 画布坐标换算回工程像素（与图片/文本一致，导出按工程像素解释）
+      finalX = (x - centerOffsetX - halfW) * (proj.width / sW);
+      finalY = (y - centerOffsetY - halfH) * (proj.height / sH);
+    }
+  }
+  return {
+    clipId: id,
+    transform: {
+      x: finalX,
+      y: finalY,
+      scaleX: finalScaleX,
+      scaleY: finalScaleY,
+      rotation,
+    },
+  };
+}
+
+/** 多选中当前时间可见、有画布元素（非音频）的 clip id */
+function getCanvasSelectableIds(
+  project: Project | null,
+  ids: string[],
+  currentTime: number
+): string[] {
+  if (!project) return [];
+  return ids.filter((id) => {
+    const clip = findClipById(project, id as Clip["id"]);
+    return (
+      !!clip &&
+      clip.kind !== "audio" &&
+      currentTime >= clip.start &&
+      currentTime < clip.end
+    );
+  });
+}
+
 /**
  * Preview 选中编辑同步 Hook
  * @param editorRef CanvasEditor 实例 ref
@@ -33,12 +145,15 @@ export function usePreviewSelection(
   const selectedClipId = useProjectStore((s) => s.selectedClipId);
   const setSelectedClipId = useProjectStore((s) => s.setSelectedClipId);
   const updateClipTransform = useProjectStore((s) => s.updateClipTransform);
+  const updateClipTransforms = useProjectStore((s) => s.updateClipTransforms);
+  const toggleClipSelection = useProjectStore((s) => s.toggleClipSelection);
+  const selectedClipIds = useProjectStore((s) => s.selectedClipIds);
   const project = useProjectStore((s) => s.project);
 
   // 使用 ref 缓存回调，避免重复设置
   const callbacksRef = useRef({
     onElementSelect: (id: string | null) => {
-      setSelectedClipId(id);
+      setSelectedClipId(id?.split(COMPOUND_ID_SEPARATOR)[0] ?? null);
     },
     onElementTransform: (_event: TransformEvent) => {
       // 变换过程中可以实时更新 UI（如属性面板），但不写入历史
@@ -46,78 +161,32 @@ export function usePreviewSelection(
       void _event;
     },
     onElementTransformEnd: (event: TransformEvent) => {
-      const { id, x, y, scaleX, scaleY, rotation, width, height } = event;
+      if (isCompoundChildId(event.id)) return;
+      const { clipId, transform } = toClipTransformPatch(
+        event,
+        useProjectStore.getState().project,
+        editorRef.current
+      );
+      updateClipTransform(clipId, transform);
+    },
+    onElementsTransformEnd: (events: TransformEvent[]) => {
+      // 多选整体拖动只改变位置，合并为一条历史记录
       const proj = useProjectStore.getState().project;
-      const editor = editorRef.current;
-      let finalX = x;
-      let finalY = y;
-      let finalScaleX = scaleX;
-      let finalScaleY = scaleY;
-      if (proj && editor) {
-        const clip = findClipById(
-          proj,
-          id as import("@vitecut/project").Clip["id"]
-        );
-        if (clip?.kind === "text") {
-          const stageSize = editor.getStage().size();
-          const scaleToProjX = proj.width / stageSize.width;
-          const scaleToProjY = proj.height / stageSize.height;
-          finalX = x * scaleToProjX;
-          finalY = y * scaleToProjY;
-        } else if (clip?.kind === "image") {
-          // 画布上图片使用中心点坐标 + offset，需要转回 project 坐标系的左上角
-          // 画布上：x/y = 中心点，width/height = node.width() * node.scaleX()（带符号）
-          // project 中：x/y = 左上角，scaleX/scaleY = 相对 project 比例（带符号表示翻转）
-          const stageSize = editor.getStage().size();
-          const stageW = Math.max(1, stageSize.width);
-          const stageH = Math.max(1, stageSize.height);
-          const scaleToProjX = proj.width / stageW;
-          const scaleToProjY = proj.height / stageH;
-          // 计算实际尺寸（绝对值）和翻转后的 scaleX/scaleY
-          const absW =
-            width !== undefined ? Math.abs(width) : stageW * Math.abs(scaleX);
-          const absH =
-            height !== undefined ? Math.abs(height) : stageH * Math.abs(scaleY);
-          // 中心点转左上角（画布坐标系）
-          const leftTopX = x - absW / 2;
-          const leftTopY = y - absH / 2;
-          finalX = leftTopX * scaleToProjX;
-          finalY = leftTopY * scaleToProjY;
-          // 将变换后的实际尺寸转换回 clip 的 scaleX/scaleY（保留符号）
-          if (width !== undefined) {
-            finalScaleX = width / stageW;
-          }
-          if (height !== undefined) {
-            finalScaleY = height / stageH;
-          }
-        } else if (clip?.kind === "video") {
-          const stageSize = editor.getStage().size();
-          const sW = Math.max(1, stageSize.width);
-          const sH = Math.max(1, stageSize.height);
-          // 还原 nodeW/nodeH：width = nodeW * scaleX → nodeW = width / scaleX
-          const nodeW =
-            width !== undefined && Math.abs(scaleX) > 1e-6
-              ? Math.abs(width / scaleX)
-              : sW;
-          const nodeH =
-            height !== undefined && Math.abs(scaleY) > 1e-6
-              ? Math.abs(height / scaleY)
-              : sH;
-          const centerOffsetX = (sW - nodeW) / 2;
-          const centerOffsetY = (sH - nodeH) / 2;
-          const halfW = width !== undefined ? Math.abs(width) / 2 : 0;
-          const halfH = height !== undefined ? Math.abs(height) / 2 : 0;
-          finalX = x - centerOffsetX - halfW;
-          finalY = y - centerOffsetY - halfH;
-        }
-      }
-      updateClipTransform(id, {
-        x: finalX,
-        y: finalY,
-        scaleX: finalScaleX,
-        scaleY: finalScaleY,
-        rotation,
-      });
+      updateClipTransforms(
+        events
+          .filter((event) => !isCompoundChildId(event.id))
+          .map((event) => {
+            const { clipId, transform } = toClipTransformPatch(
+              event,
+              proj,
+              editorRef.current
+            );
+            return { clipId, transform: { x: transform.x, y: transform.y } };
+          })
+      );
+    },
+    onElementToggleSelect: (id: string) => {
+      toggleClipSelection(id);
     },
   });
 
@@ -130,6 +199,8 @@ export function usePreviewSelection(
       onElementSelect: callbacksRef.current.onElementSelect,
       onElementTransform: callbacksRef.current.onElementTransform,
       onElementTransformEnd: callbacksRef.current.onElementTransformEnd,
+      onElementsTransformEnd: callbacksRef.current.onElementsTransformEnd,
+      onElementToggleSelect: callbacksRef.current.onElementToggleSelect,
     });
   }, [editorRef, disabled]);
 
@@ -140,6 +211,14 @@ export function usePreviewSelection(
     const editor = editorRef.current;
     if (!editor || disabled) return;
 
+    // 多选：框住当前时间下可见的全部选中元素
+    if (selectedClipIds.length > 1) {
+      editor.setSelectedElements(
+        getCanvasSelectableIds(project, selectedClipIds, currentTime)
+      );
+      return;
+    }
+
     // 检查 clip 是否仍然存在（可能已被删除）
     if (selectedClipId && project) {
       const clip = findClipById(project, selectedClipId);
@@ -163,6 +242,7 @@ export function usePreviewSelection(
     editor.setSelectedElement(selectedClipId);
   }, [
     selectedClipId,
+    selectedClipIds,
     project,
     currentTime,
     editorRef,
@@ -180,6 +260,13 @@ export function usePreviewSelection(
       return;
     }
 
+    if (selectedClipIds.length > 1) {
+      editor.setSelectedElements(
+        getCanvasSelectableIds(project, selectedClipIds, currentTime)
+      );
+      return;
+    }
+
     const clip = findClipById(project, selectedClipId);
     if (!clip || clip.kind === "audio") {
       editor.setSelectedElement(null);
@@ -188,5 +275,12 @@ export function usePreviewSelection(
     } else {
       editor.setSelectedElement(selectedClipId);
     }
-  }, [disabled, selectedClipId, project, currentTime, editorRef]);
+  }, [
+    disabled,
+    selectedClipId,
+    selectedClipIds,
+    project,
+    currentTime,
+    editorRef,
+  ]);
 }
@@ -1,6 +1,10 @@
 import { useCallback, useEffect, useRef, type RefObject } from "react";
 import type { CanvasEditor } from "@vitecut/canvas";
-import type { Project } from "@vitecut/project";
+import {
+  getClipActiveRange,
+  resolveTrackClipAtTime,
+  type Project,
+} from "@vitecut/project";
 import { playbackClock } from "./playbackClock";
 
 /**
@@ -55,10 +59,20 @@ export function usePreviewTextSync(
         continue;
       }
       // 遍历轨道的片段
-      for (const clip of track.clips) {
+      for (const trackClip of track.clips) {
+        // 按当前时间求值关键帧动画与转场（透明度写入 params.opacity）
+        const clip = resolveTrackClipAtTime(
+          track,
+          trackClip,
+          t,
+          project.width
+        );
+        // 转场会把片段的可见区间向前/向后延伸
+        const range = getClipActiveRange(track, trackClip);
         // 仅处理 kind 为 "text" 且在当前时间可见的片段
-        const inRange = clip.start <= t && clip.end > t;
-        const endFrame = atEnd && clip.start < clip.end && clip.end >= duration;
+        const inRange = range.start <= t && range.end > t;
+        const endFrame =
+          atEnd && clip.start < clip.end && range.end >= duration;
         if (clip.kind !== "text" || (!inRange && !endFrame)) {
           continue;
         }
@@ -1,6 +1,14 @@
 import { useEffect, type RefObject } from "react";
 import type { CanvasEditor } from "@vitecut/canvas";
-import type { Clip } from "@vitecut/project";
+import {
+  getClipActiveRange,
+  getClipGainAtTime,
+  getClipGainBreakpoints,
+  hasClipKeyframes,
+  hasClipTransition,
+  sampleGainRamp,
+  type Clip,
+} from "@vitecut/project";
 import { useProjectStore } from "@/stores";
 import { playbackClock } from "@/editor/preview/playbackClock";
 import { getVisibleClipIdsInTrackOrder } from "./usePreviewElementOrder";
@@ -9,21 +17,97 @@ import {
   ensureClipCanvasOnStage,
   drawVideoFrameToCanvasWithFilters,
 } from "./usePreviewVideo.shared";
-import { getActiveVideoClips, getActiveAudioClips } from "./utils";
+import {
+  getActiveVideoClips,
+  getActiveAudioClips,
+  getClipSourceTime,
+  getPreviewProject,
+} from "./utils";
 import type { Track } from "./utils";
+import {
+  connectClipGainNode,
+  createPreviewDuckingGraph,
+  disposePreviewDuckingGraph,
+  updatePreviewDucking,
+  type PreviewDuckingGraph,
+} from "./previewDucking";
 
 type PlaybackSetters = {
   setCurrentTime: (time: number) => void;
   setIsPlaying: (isPlaying: boolean) => void;
 };
 
-/** 计算 clip 的 gain 值：轨道静音为 0，否则为 clip.params.volume（0–1，默认 1） */
-function getClipGain(clip: Clip, track: Track): number {
-  if (track.muted ?? false) {
-    return 0;
+/** GainNode 上次排程所依据的 clip 与轨道；两者引用不变时无需重新排程 */
+const gainScheduleByNode = new WeakMap<
+  GainNode,
+  { clip: Clip; track: Track }
+>();
+
+/**
+ * 活跃 clip 列表里的 clip 已按当前时间求值了关键帧与转场，
+ * 排程增益曲线需要轨道上的原始 clip。
+ */
+function getSourceClip(track: Track, clip: Clip): Clip {
+  return track.clips.find((c) => c.id === clip.id) ?? clip;
+}
+
+/**
+ * 在 GainNode 上排程 clip 的增益曲线：轨道 / 片段静音为 0，否则按音量关键帧、
+ * 转场交叉淡化与淡入淡出（见 @vitecut/project audioEnvelope）折线化后
+ * 用 linearRampToValueAtTime 排到 clip 结束。
+ */
+function scheduleClipGain(
+  gainNode: GainNode,
+  clip: Clip,
+  track: Track,
+  ctx: AudioContext,
+  audioContextStartTime: number,
+  playbackTimeAtStart: number,
+  playbackTime: number
+): void {
+  gainScheduleByNode.set(gainNode, { clip, track });
+  const range = getClipActiveRange(track, clip);
+  const from = Math.max(playbackTime, range.start);
+  const points = sampleGainRamp(
+    (t) => getClipGainAtTime(track, clip, t),
+    from,
+    Math.max(from, range.end),
+    getClipGainBreakpoints(track, clip)
+  );
+  const now = ctx.currentTime;
+  const gain = gainNode.gain;
+  gain.cancelScheduledValues(now);
+  gain.setValueAtTime(points[0].gain, now);
+  for (const point of points.slice(1)) {
+    const when = audioContextStartTime + point.time - playbackTimeAtStart;
+    gain.linearRampToValueAtTime(point.gain, Math.max(now, when));
   }
-  const raw = Number(clip.params?.volume);
-  return Number.isFinite(raw) ? Math.min(1, Math.max(0, raw)) : 1;
+}
+
+/** clip 或轨道变化（音量、静音、淡入淡出等）后重新排程增益曲线 */
+function syncClipGain(
+  gainNode: GainNode,
+  clip: Clip,
+  track: Track,
+  ctx: AudioContext,
+  audioContextStartTime: number,
+  playbackTimeAtStart: number,
+  playbackTime: number
+): void {
+  const source = getSourceClip(track, clip);
+  const scheduled = gainScheduleByNode.get(gainNode);
+  if (scheduled?.clip === source && scheduled.track === track) {
+    return;
+  }
+  scheduleClipGain(
+    gainNode,
+    source,
+    track,
+    ctx,
+    audioContextStartTime,
+    playbackTimeAtStart,
+    playbackTime
+  );
 }
 
 /** 与 media-player 一致：遍历 AudioBufferSink.buffers()，按时间戳在 AudioContext 上排程播放；支持多轨（每 clip 一个 iterator、一个 GainNode） */
@@ -40,15 +124,24 @@ async function runAudioIterator(
   playbackTimeAtStart: number,
   queuedNodes: Set<AudioBufferSourceNode>,
   gainNodeByClipIdRef: RefObject<Map<string, GainNode>>,
+  duckingGraph: PreviewDuckingGraph | null,
   getPlaybackTime: () => number
 ): Promise<void> {
   const inPoint = clip.inPoint ?? 0;
   let gainNode = gainNodeByClipIdRef.current.get(clip.id);
   if (!gainNode) {
     gainNode = ctx.createGain();
-    gainNode.gain.value = getClipGain(clip, track);
-    gainNode.connect(ctx.destination);
+    connectClipGainNode(duckingGraph, ctx, gainNode, track.id);
     gainNodeByClipIdRef.current.set(clip.id, gainNode);
+    scheduleClipGain(
+      gainNode,
+      getSourceClip(track, clip),
+      track,
+      ctx,
+      audioContextStartTime,
+      playbackTimeAtStart,
+      getPlaybackTime()
+    );
   }
   for await (const { buffer, timestamp } of iterator) {
     const node = ctx.createBufferSource();
@@ -102,7 +195,7 @@ export function usePreviewVideoPlaybackInit(
     }
 
     const editor = editorRef.current;
-    const proj = useProjectStore.getState().project;
+    const proj = getPreviewProject(useProjectStore.getState().project);
     const dur = useProjectStore.getState().duration;
     if (!proj || !editor) {
       return;
@@ -124,6 +217,7 @@ export function usePreviewVideoPlaybackInit(
       queuedAudioNodesRef,
       audioIteratorsByClipIdRef,
       gainNodeByClipIdRef,
+      duckingGraphRef,
     } = runtime;
 
     // 若 effect 因 project 引用变化（如切换轨道静音）重跑而播放仍在进行，用当前真实播放时间，避免用 store 里未每帧同步的陈旧 currentTime 导致时间轴跳回本次起播位置
@@ -153,6 +247,8 @@ export function usePreviewVideoPlaybackInit(
       // 若为播放中重跑（如仅切换静音），用当前 ctx 时间作为新起点，使 getPlaybackTime() 从 t0 继续递增
       audioContextStartTimeRef.current = ctx.currentTime;
       audioClockReadyRef.current = true;
+      // 音频闪避：先建轨道总线，再启动各 clip 的迭代器（GainNode 需接到总线上）
+      duckingGraphRef.current = createPreviewDuckingGraph(ctx, proj);
 
       const getPlaybackTime = (): number => {
         if (
@@ -182,8 +278,7 @@ export function usePreviewVideoPlaybackInit(
           if (!sinkEntry?.audioSink) {
             continue;
           }
-          const inPoint = clip.inPoint ?? 0;
-          const sourceTime = inPoint + (Math.min(t0, clip.end) - clip.start);
+          const sourceTime = getClipSourceTime(clip, t0);
           const it = sinkEntry.audioSink.buffers(sourceTime, Infinity);
           audioIteratorsByClipIdRef.current.set(clip.id, it);
           void runAudioIterator(
@@ -195,6 +290,7 @@ export function usePreviewVideoPlaybackInit(
             playbackTimeAtStartRef.current,
             queuedAudioNodesRef.current,
             gainNodeByClipIdRef,
+            duckingGraphRef.current,
             getPlaybackTime
           );
         }
@@ -219,6 +315,7 @@ export function usePreviewVideoPlaybackInit(
       const canvas = ensureClipCanvasOnStage(
         editor,
         clip,
+        proj,
         clipCanvasesRef,
         syncedVideoClipIdsRef,
         videoNativeSize
@@ -226,8 +323,7 @@ export function usePreviewVideoPlaybackInit(
       if (!canvas) {
         continue;
       }
-      const inPoint = clip.inPoint ?? 0;
-      const sourceTime = inPoint + (Math.min(t0, clip.end) - clip.start);
+      const sourceTime = getClipSourceTime(clip, t0);
 
       // 优先使用暂停时预取的 iterator + 首帧，点击播放即同步画首帧
       const prefetched = playbackPrefetchRef.current.get(clip.id);
@@ -292,6 +388,10 @@ export function usePreviewVideoPlaybackInit(
         g.disconnect();
       }
       gainNodeByClipIdRef.current.clear();
+      if (duckingGraphRef.current) {
+        disposePreviewDuckingGraph(duckingGraphRef.current);
+        duckingGraphRef.current = null;
+      }
       for (const node of queuedAudioNodesRef.current) {
         try {
           node.stop();
@@ -340,6 +440,7 @@ export function usePreviewVideoPlaybackLoop(
       queuedAudioNodesRef,
       audioIteratorsByClipIdRef,
       gainNodeByClipIdRef,
+      duckingGraphRef,
     } = runtime;
 
     // 与 examples/media-player 一致：播放时用 AudioContext 时钟，避免主线程卡顿导致时快时慢
@@ -392,10 +493,10 @@ export function usePreviewVideoPlaybackLoop(
           }
 
           const playbackTime = getTime();
-          const inPoint = clip.inPoint ?? 0;
-          const sourceTime =
-            inPoint +
-            (Math.min(Math.min(playbackTime, dur), clip.end) - clip.start);
+          const sourceTime = getClipSourceTime(
+            clip,
+            Math.min(playbackTime, dur)
+          );
 
           if (newNext.timestamp <= sourceTime) {
             const canvas = clipCanvasesRef.current.get(clipId);
@@ -425,7 +526,7 @@ export function usePreviewVideoPlaybackLoop(
       const playbackTime = getPlaybackTime();
       // 每帧更新全局播放时钟，供 Timeline 读取，避免依赖 store.currentTime
       playbackClock.currentTime = playbackTime;
-      const proj = useProjectStore.getState().project;
+      const proj = getPreviewProject(useProjectStore.getState().project);
       const editor = editorRef.current;
 
       if (proj && editor) {
@@ -495,6 +596,7 @@ export function usePreviewVideoPlaybackLoop(
           const canvas = ensureClipCanvasOnStage(
             editor,
             clip,
+            proj,
             clipCanvasesRef,
             syncedVideoClipIdsRef,
             videoNativeSizeForClip
@@ -502,9 +604,7 @@ export function usePreviewVideoPlaybackLoop(
           if (!canvas) {
             continue;
           }
-          const inPoint = clip.inPoint ?? 0;
-          const sourceTime =
-            inPoint + (Math.min(playbackTime, clip.end) - clip.start);
+          const sourceTime = getClipSourceTime(clip, playbackTime);
 
           void (async () => {
             const it = videoSink.canvases(sourceTime);
@@ -550,9 +650,7 @@ export function usePreviewVideoPlaybackLoop(
             if (!sinkEntry?.audioSink) {
               continue;
             }
-            const inPoint = clip.inPoint ?? 0;
-            const sourceTime =
-              inPoint + (Math.min(playbackTime, clip.end) - clip.start);
+            const sourceTime = getClipSourceTime(clip, playbackTime);
             const it = sinkEntry.audioSink.buffers(sourceTime, Infinity);
             audioIteratorsByClipIdRef.current.set(clip.id, it);
             void runAudioIterator(
@@ -564,6 +662,7 @@ export function usePreviewVideoPlaybackLoop(
               playbackTimeAtStartRef.current,
               queuedAudioNodesRef.current,
               gainNodeByClipIdRef,
+              duckingGraphRef.current,
               getPlaybackTime
             );
           }
@@ -577,9 +676,7 @@ export function usePreviewVideoPlaybackLoop(
             if (!sinkEntry?.audioSink) {
               continue;
             }
-            const inPoint = clip.inPoint ?? 0;
-            const sourceTime =
-              inPoint + (Math.min(playbackTime, clip.end) - clip.start);
+            const sourceTime = getClipSourceTime(clip, playbackTime);
             const it = sinkEntry.audioSink.buffers(sourceTime, Infinity);
             audioIteratorsByClipIdRef.current.set(clip.id, it);
             void runAudioIterator(
@@ -591,32 +688,55 @@ export function usePreviewVideoPlaybackLoop(
               playbackTimeAtStartRef.current,
               queuedAudioNodesRef.current,
               gainNodeByClipIdRef,
+              duckingGraphRef.current,
               getPlaybackTime
             );
           }
 
-          // 播放中响应独立音频 clip 的轨道静音和音量变化
-          for (const { clip, track } of activeAudio) {
+          // 播放中响应轨道静音和 clip 音量 / 淡入淡出变化：重新排程该 clip 的 GainNode（每 clip 一个）
+          for (const { clip, track } of [...active, ...activeAudio]) {
             const g = gainNodeByClipIdRef.current.get(clip.id);
             if (g) {
-              g.gain.value = getClipGain(clip, track);
+              syncClipGain(
+                g,
+                clip,
+                track,
+                ctx,
+                audioContextStartTimeRef.current,
+                playbackTimeAtStartRef.current,
+                playbackTime
+              );
             }
           }
+          if (duckingGraphRef.current) {
+            updatePreviewDucking(duckingGraphRef.current, ctx);
+          }
         }
 
-        // 播放中响应轨道静音和 clip 音量变化：同步更新该 clip 的 GainNode（每 clip 一个）
-        for (const { clip, track } of active) {
-          const g = gainNodeByClipIdRef.current.get(clip.id);
-          if (g) {
-            g.gain.value = getClipGain(clip, track);
+        // 关键帧动画 / 转场：每帧按播放时间更新已挂载视频节点的位置/缩放/旋转/透明度
+        for (const { clip, asset, track } of active) {
+          if (
+            (!hasClipKeyframes(clip) && !hasClipTransition(track, clip.id)) ||
+            !clipCanvasesRef.current.has(clip.id)
+          ) {
+            continue;
           }
+          const sinkEntry = sinksByAssetRef.current.get(asset.id);
+          ensureClipCanvasOnStage(
+            editor,
+            clip,
+            proj,
+            clipCanvasesRef,
+            syncedVideoClipIdsRef,
+            sinkEntry?.videoWidth && sinkEntry.videoHeight
+              ? { width: sinkEntry.videoWidth, height: sinkEntry.videoHeight }
+              : undefined
+          );
         }
 
         // 消耗 nextFrame 并绘制，然后按 mediabunny 示例逻辑追帧
         for (const { clip } of active) {
-          const inPoint = clip.inPoint ?? 0;
-          const sourceTime =
-            inPoint + (Math.min(playbackTime, clip.end) - clip.start);
+          const sourceTime = getClipSourceTime(clip, playbackTime);
           const nextFrame = clipNextFrameRef.current.get(clip.id);
           if (nextFrame && nextFrame.timestamp <= sourceTime) {
             clipNextFrameRef.current.set(clip.id, null);
@@ -1,6 +1,11 @@
 import type { RefObject } from "react";
 import type { CanvasEditor } from "@vitecut/canvas";
-import type { Clip } from "@vitecut/project";
+import {
+  getClipColorAdjustments,
+  isDefaultClipColor,
+  type Clip,
+} from "@vitecut/project";
+import type { PreviewDuckingGraph } from "./previewDucking";
 import type {
   AudioBufferSink,
   CanvasSink,
@@ -66,6 +71,8 @@ export type VideoPreviewRuntime = {
   >;
   /** 各 clip 复用的单个 GainNode，用于播放中响应 track.muted 变化（一 clip 一节点，不随 buffer 创建） */
   gainNodeByClipIdRef: RefObject<Map<string, GainNode>>;
+  /** 音频闪避的轨道总线与电平检测节点，播放开始时按工程建立，无闪避时为 null */
+  duckingGraphRef: RefObject<PreviewDuckingGraph | null>;
 };
 
 export type StageSize = {
@@ -87,10 +94,14 @@ export const getStageSize = (editor: CanvasEditor): StageSize => {
  *
  * videoNativeSize: 视频旋转后的原始像素宽高。提供时离屏 canvas 使用原始尺寸，
  * Konva 节点按 contain 策略等比缩放到舞台内居中，不产生黑边。
+ *
+ * projectSize: 工程宽高。clip.transform.x/y 为工程像素，需按舞台比例换算（与图片/文本一致，
+ * 导出端 renderGraph.getLayerGeometry 按同一约定计算）。
  */
 export const ensureClipCanvasOnStage = (
   editor: CanvasEditor,
   clip: Clip,
+  projectSize: StageSize,
   clipCanvasesRef: RefObject<Map<string, HTMLCanvasElement>>,
   syncedVideoClipIdsRef: RefObject<Set<string>>,
   videoNativeSize?: { width: number; height: number }
@@ -120,8 +131,10 @@ export const ensureClipCanvasOnStage = (
     }
   }
 
-  const x = clip.transform?.x ?? 0;
-  const y = clip.transform?.y ?? 0;
+  const x =
+    (clip.transform?.x ?? 0) * (stageW / Math.max(1, projectSize.width));
+  const y =
+    (clip.transform?.y ?? 0) * (stageH / Math.max(1, projectSize.height));
   const scaleX = clip.transform?.scaleX ?? 1;
   const scaleY = clip.transform?.scaleY ?? 1;
   const rotation = clip.transform?.rotation ?? 0;
@@ -175,55 +188,27 @@ export const ensureClipCanvasOnStage = (
   return canvas;
 };
 
-const clampNumber = (
-  value: unknown,
-  min: number,
-  max: number,
-  fallback: number
-): number => {
-  const num = Number(value);
-  if (!Number.isFinite(num)) {
-    return fallback;
-  }
-  if (num < min) return min;
-  if (num > max) return max;
-  return num;
-};
-
-/** 从 clip.params 里解析视频画面调整参数，并转换为 Canvas 2D filter 字符串 */
+/**
+ * 从 clip.params 里解析视频画面调整参数，并转换为 Canvas 2D filter 字符串。
+ * 参数解析与取值范围由 @vitecut/project 的 getClipColorAdjustments 统一处理，
+ * 导出端（api/src/lib/clipColorFilters.ts）与此共用。
+ */
 export const getClipCanvasFilter = (clip: Clip): string => {
-  const params = (clip.params ?? {}) as Record<string, unknown>;
-
-  const brightnessPercent = clampNumber(params.brightness ?? 100, 0, 200, 100);
-  const contrastPercent = clampNumber(params.contrast ?? 100, 0, 200, 100);
-  const saturationPercent = clampNumber(params.saturation ?? 100, 0, 200, 100);
-  const hueRotateDeg = clampNumber(params.hueRotate ?? 0, 0, 360, 0);
-  const blurPx = clampNumber(params.blur ?? 0, 0, 30, 0);
-
-  const brightnessFactor = brightnessPercent / 100;
-  const contrastFactor = contrastPercent / 100;
-  const saturationFactor = saturationPercent / 100;
-
-  const parts: string[] = [];
+  const adj = getClipColorAdjustments(clip.params);
   // 默认值都为“无影响”时直接返回 "none"
-  if (
-    brightnessFactor === 1 &&
-    contrastFactor === 1 &&
-    saturationFactor === 1 &&
-    hueRotateDeg === 0 &&
-    blurPx === 0
-  ) {
+  if (isDefaultClipColor(adj)) {
     return "none";
   }
 
-  parts.push(`brightness(${brightnessFactor})`);
-  parts.push(`contrast(${contrastFactor})`);
-  parts.push(`saturate(${saturationFactor})`);
-  if (hueRotateDeg !== 0) {
-    parts.push(`hue-rotate(${hueRotateDeg}deg)`);
+  const parts: string[] = [];
+  parts.push(`brightness(${adj.brightness / 100})`);
+  parts.push(`contrast(${adj.contrast / 100})`);
+  parts.push(`saturate(${adj.saturation / 100})`);
+  if (adj.hueRotate !== 0) {
+    parts.push(`hue-rotate(${adj.hueRotate}deg)`);
   }
-  if (blurPx > 0) {
-    parts.push(`blur(${blurPx}px)`);
+  if (adj.blur > 0) {
+    parts.push(`blur(${adj.blur}px)`);
   }
 
   return parts.join(" ");
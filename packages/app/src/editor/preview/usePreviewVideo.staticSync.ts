@@ -7,7 +7,7 @@ import {
   ensureClipCanvasOnStage,
   drawVideoFrameToCanvasWithFilters,
 } from "./usePreviewVideo.shared";
-import { getActiveVideoClips } from "./utils";
+import { getActiveVideoClips, getClipSourceTime } from "./utils";
 
 /**
  * 非播放状态下的“静帧同步”：
@@ -81,8 +81,7 @@ export function usePreviewVideoStaticFrameSync(
       }
       const { sink, videoWidth, videoHeight } = sinkEntry;
 
-      const inPoint = clip.inPoint ?? 0;
-      const sourceTime = inPoint + (Math.min(t, clip.end) - clip.start);
+      const sourceTime = getClipSourceTime(clip, t);
 
       const videoNativeSize =
         videoWidth && videoHeight
@@ -91,6 +90,7 @@ export function usePreviewVideoStaticFrameSync(
       const canvas = ensureClipCanvasOnStage(
         editor,
         clip,
+        project,
         clipCanvasesRef,
         syncedVideoClipIdsRef,
         videoNativeSize
@@ -9,6 +9,8 @@ import {
   usePreviewVideoPlaybackLoop,
 } from "./usePreviewVideo.playback";
 import type { SinkEntry, VideoPreviewRuntime } from "./usePreviewVideo.shared";
+import type { PreviewDuckingGraph } from "./previewDucking";
+import { getPreviewProject } from "./utils";
 
 /**
  * usePreviewVideo
@@ -25,7 +27,7 @@ export function usePreviewVideo(
   resizeTick?: number
 ): void {
   // 从全局 store 获取 project 与播放状态
-  const project = useProjectStore((s) => s.project);
+  const project = getPreviewProject(useProjectStore((s) => s.project));
   const currentTime = useProjectStore((s) => s.currentTime);
   const isPlaying = useProjectStore((s) => s.isPlaying);
   const duration = useProjectStore((s) => s.duration);
@@ -70,6 +72,7 @@ export function usePreviewVideo(
     >
   >(new Map());
   const gainNodeByClipIdRef = useRef<Map<string, GainNode>>(new Map());
+  const duckingGraphRef = useRef<PreviewDuckingGraph | null>(null);
 
   // 用 useMemo 固定 runtime 的引用，避免作为依赖导致各模块 effect 反复重跑
   const runtime: VideoPreviewRuntime = useMemo(
@@ -90,6 +93,7 @@ export function usePreviewVideo(
       queuedAudioNodesRef,
       audioIteratorsByClipIdRef,
       gainNodeByClipIdRef,
+      duckingGraphRef,
     }),
     []
   );
@@ -1,4 +1,10 @@
-import type { Clip, Project } from "@vitecut/project";
+import {
+  flattenCompoundClips,
+  getClipActiveRange,
+  resolveTrackClipAtTime,
+  type Clip,
+  type Project,
+} from "@vitecut/project";
 
 export type Track = Project["tracks"][number];
 
@@ -11,10 +17,30 @@ export type ActiveClipEntry = {
 export type ActiveVideoClip = ActiveClipEntry;
 export type ActiveAudioClip = ActiveClipEntry;
 
+const previewProjectCache = new WeakMap<Project, Project>();
+
+/**
+ * 获取用于预览渲染的工程：复合片段展开为普通片段。
+ * 按 project 引用缓存，同一份工程在各同步 hook / 播放循环中只展开一次，
+ * 展开结果引用稳定，不会导致依赖它的 effect 重复执行。
+ */
+export function getPreviewProject(project: Project): Project;
+export function getPreviewProject(project: Project | null): Project | null;
+export function getPreviewProject(project: Project | null): Project | null {
+  if (!project) return null;
+  let flat = previewProjectCache.get(project);
+  if (!flat) {
+    flat = flattenCompoundClips(project);
+    previewProjectCache.set(project, flat);
+  }
+  return flat;
+}
+
 /**
  * 获取当前时间下可见的视频片段。
- * 仅包含 kind 为 video、时间区间 [start, end) 包含 t、且轨道未隐藏的 clip。
+ * 仅包含 kind 为 video、时间区间 [start, end)（含转场延伸部分）包含 t、且轨道未隐藏的 clip。
  * 当 t 等于 timelineDuration（Go to End）时，也包含 end === duration 的 clip，用于显示最后一帧。
+ * 返回的 clip 已按 t 求值关键帧与转场（transform / 音量为当前动画值）。
  * @param project 当前工程
  * @param t 当前时间（秒）
  * @param timelineDuration 时间轴总时长（可选），用于在 t === duration 时仍显示结束于末尾的 clip
@@ -33,13 +59,18 @@ export function getActiveVideoClips(
     if (track.hidden) continue;
     for (const clip of track.clips) {
       if (clip.kind !== "video") continue;
-      const inRange = clip.start <= t && clip.end > t;
+      const range = getClipActiveRange(track, clip);
+      const inRange = range.start <= t && range.end > t;
       const endFrame =
         atEnd && clip.start < clip.end && clip.end >= timelineDuration!;
       if (!inRange && !endFrame) continue;
       const asset = project.assets.find((a) => a.id === clip.assetId);
       if (!asset || asset.kind !== "video" || !asset.source) continue;
-      out.push({ clip, track, asset: { id: asset.id, source: asset.source } });
+      out.push({
+        clip: resolveTrackClipAtTime(track, clip, t, project.width),
+        track,
+        asset: { id: asset.id, source: asset.source },
+      });
     }
   }
   return out;
@@ -47,8 +78,9 @@ export function getActiveVideoClips(
 
 /**
  * 获取当前时间下活跃的音频片段（独立音频 clip，不含视频中的音轨）。
- * 仅包含 kind 为 audio、时间区间 [start, end) 包含 t 的 clip。
+ * 仅包含 kind 为 audio、时间区间 [start, end)（含转场延伸部分）包含 t 的 clip。
  * 注意：不过滤 track.muted，静音由播放层 GainNode 控制（gain 设为 0）。
+ * 返回的 clip 已按 t 求值关键帧（音量为当前动画值）。
  * @param project 当前工程
  * @param t 当前时间（秒）
  * @param timelineDuration 时间轴总时长（可选）
@@ -66,14 +98,28 @@ export function getActiveAudioClips(
   for (const track of tracksByOrder) {
     for (const clip of track.clips) {
       if (clip.kind !== "audio") continue;
-      const inRange = clip.start <= t && clip.end > t;
+      const range = getClipActiveRange(track, clip);
+      const inRange = range.start <= t && range.end > t;
       const endFrame =
         atEnd && clip.start < clip.end && clip.end >= timelineDuration!;
       if (!inRange && !endFrame) continue;
       const asset = project.assets.find((a) => a.id === clip.assetId);
       if (!asset || asset.kind !== "audio" || !asset.source) continue;
-      out.push({ clip, track, asset: { id: asset.id, source: asset.source } });
+      out.push({
+        clip: resolveTrackClipAtTime(track, clip, t, project.width),
+        track,
+        asset: { id: asset.id, source: asset.source },
+      });
     }
   }
   return out;
 }
+
+/**
+ * 时间轴时间 t 对应的片段素材时间（秒）。
+ * t 落在转场延伸部分（片段区间之外）时定格在片段首帧 / 尾帧，与导出端一致。
+ */
+export function getClipSourceTime(clip: Clip, t: number): number {
+  const inPoint = clip.inPoint ?? 0;
+  return inPoint + (Math.min(Math.max(t, clip.start), clip.end) - clip.start);
+}
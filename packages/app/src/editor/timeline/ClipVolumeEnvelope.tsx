@@ -0,0 +1,303 @@
+import { useRef, useState } from "react";
+import { getClipFade, type Clip, type Keyframe } from "@vitecut/project";
+import { useProjectStore } from "@/stores";
+
+/** 淡入淡出与包络点时间的保存精度（秒） */
+const TIME_PRECISION = 0.01;
+
+/** 相邻包络点之间的最小间隔（秒），拖拽时不允许越过相邻点 */
+const MIN_POINT_GAP = 0.02;
+
+interface ClipVolumeEnvelopeProps {
+  clip: Clip;
+  /** 片段在时间轴上的宽度（像素） */
+  widthPx: number;
+  /** 时间轴每秒像素 */
+  pxPerSecond: number;
+  /** 是否绘制可编辑的音量曲线（音频片段的波形上） */
+  showEnvelope: boolean;
+  /** 轨道锁定时只展示、不可编辑 */
+  locked: boolean;
+}
+
+/** 拖拽中的草稿：淡入淡出时长与音量曲线 */
+type EnvelopeDraft = {
+  fadeIn: number;
+  fadeOut: number;
+  points: Keyframe[];
+};
+
+type DragState =
+  | { kind: "fadeIn" | "fadeOut"; startX: number; startValue: number }
+  | {
+      kind: "point";
+      index: number;
+      startX: number;
+      startY: number;
+      startPoint: Keyframe;
+      heightPx: number;
+    };
+
+const roundTime = (t: number) =>
+  Math.round(t / TIME_PRECISION) * TIME_PRECISION;
+
+const clamp = (v: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, v));
+
+/**
+ * 片段上的音量叠加层：两端的淡入 / 淡出手柄与波形上的音量曲线。
+ *
+ * - 拖拽顶部两角的手柄调整淡入 / 淡出时长（写入 params.fadeIn / fadeOut）
+ * - 双击曲线添加包络点，双击包络点删除，拖拽包络点调整时间与音量（写入 volume 关键帧）
+ *
+ * 与转场块一致：拖拽过程中只更新本地草稿，松手后再写入 store，一次拖拽只产生一条历史记录。
+ */
+export function ClipVolumeEnvelope({
+  clip,
+  widthPx,
+  pxPerSecond,
+  showEnvelope,
+  locked,
+}: ClipVolumeEnvelopeProps) {
+  const updateClipParams = useProjectStore((s) => s.updateClipParams);
+  const setClipVolumeEnvelope = useProjectStore((s) => s.setClipVolumeEnvelope);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  /** 本次拖拽是否真正移动过，未移动时松手不写入历史 */
+  const movedRef = useRef(false);
+  const [draft, setDraft] = useState<EnvelopeDraft | null>(null);
+
+  const duration = Math.max(0, clip.end - clip.start);
+  const fade = getClipFade(clip);
+  const rawVolume = Number(clip.params?.volume);
+  const baseVolume = Number.isFinite(rawVolume) ? clamp(rawVolume, 0, 1) : 1;
+  const current: EnvelopeDraft = draft ?? {
+    fadeIn: fade.fadeIn,
+    fadeOut: fade.fadeOut,
+    points: clip.keyframes?.volume ?? [],
+  };
+
+  if (duration <= 0 || widthPx <= 0) return null;
+
+  const toX = (time: number) => time * pxPerSecond;
+  const toY = (value: number) => (1 - clamp(value, 0, 1)) * 100;
+
+  /** 曲线折线：没有包络点时为 params.volume 处的水平线，首尾点向两端水平延伸 */
+  const linePoints =
+    current.points.length === 0
+      ? [
+          { x: 0, y: toY(baseVolume) },
+          { x: widthPx, y: toY(baseVolume) },
+        ]
+      : [
+          { x: 0, y: toY(current.points[0].value) },
+          ...current.points.map((k) => ({ x: toX(k.time), y: toY(k.value) })),
+          {
+            x: widthPx,
+            y: toY(current.points[current.points.length - 1].value),
+          },
+        ];
+  const polyline = linePoints.map((p) => `${p.x},${p.y}`).join(" ");
+  const fadeInPx = toX(current.fadeIn);
+  const fadeOutPx = toX(current.fadeOut);
+
+  /** 指针位置换算为片段内时间（秒）与音量（0~1） */
+  const getPointerValue = (e: React.MouseEvent) => {
+    const rect = rootRef.current?.getBoundingClientRect();
+    if (!rect || rect.height <= 0) return null;
+    return {
+      time: clamp((e.clientX - rect.left) / pxPerSecond, 0, duration),
+      value: clamp(1 - (e.clientY - rect.top) / rect.height, 0, 1),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, state: DragState) => {
+    // 阻止时间轴把本次按下当作片段拖拽
+    e.stopPropagation();
+    if (locked || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = state;
+    movedRef.current = false;
+    setDraft(current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !draft) return;
+    movedRef.current = true;
+    const dt = (e.clientX - drag.startX) / pxPerSecond;
+    if (drag.kind !== "point") {
+      // 淡入向右拖、淡出向左拖为加长；两者之和不超过片段时长
+      const other = drag.kind === "fadeIn" ? draft.fadeOut : draft.fadeIn;
+      const delta = drag.kind === "fadeIn" ? dt : -dt;
+      setDraft({
+        ...draft,
+        [drag.kind]: roundTime(
+          clamp(drag.startValue + delta, 0, duration - other)
+        ),
+      });
+      return;
+    }
+    const prev = draft.points[drag.index - 1];
+    const next = draft.points[drag.index + 1];
+    const minTime = prev ? prev.time + MIN_POINT_GAP : 0;
+    const maxTime = next ? next.time - MIN_POINT_GAP : duration;
+    const dv = -(e.clientY - drag.startY) / drag.heightPx;
+    const points = [...draft.points];
+    points[drag.index] = {
+      ...drag.startPoint,
+      time: roundTime(clamp(drag.startPoint.time + dt, minTime, maxTime)),
+      value: Math.round(clamp(drag.startPoint.value + dv, 0, 1) * 100) / 100,
+    };
+    setDraft({ ...draft, points });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (draft && movedRef.current) {
+      if (drag.kind === "point") {
+        setClipVolumeEnvelope(clip.id, draft.points);
+      } else if (draft[drag.kind] !== fade[drag.kind]) {
+        updateClipParams(clip.id, { [drag.kind]: draft[drag.kind] });
+      }
+    }
+    setDraft(null);
+  };
+
+  /** 双击曲线添加包络点；原本没有包络点时同时在两端补上当前音量，使新点形成起伏 */
+  const handleLineDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (locked) return;
+    const pos = getPointerValue(e);
+    if (!pos) return;
+    const added: Keyframe = {
+      time: roundTime(pos.time),
+      value: Math.round(pos.value * 100) / 100,
+    };
+    const base: Keyframe[] =
+      current.points.length > 0
+        ? current.points
+        : [
+            { time: 0, value: baseVolume },
+            { time: roundTime(duration), value: baseVolume },
+          ];
+    setClipVolumeEnvelope(clip.id, [
+      ...base.filter((k) => Math.abs(k.time - added.time) >= MIN_POINT_GAP),
+      added,
+    ]);
+  };
+
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return (
+    <div
+      ref={rootRef}
+      className={`vitecut-timeline-envelope${
+        locked ? " vitecut-timeline-envelope--locked" : ""
+      }`}
+    >
+      <svg
+        className="vitecut-timeline-envelope__svg"
+        viewBox={`0 0 ${widthPx} 100`}
+        preserveAspectRatio="none"
+      >
+        {fadeInPx > 0 && (
+          <polygon
+            className="vitecut-timeline-envelope__fade"
+            points={`0,0 ${fadeInPx},0 0,100`}
+          />
+        )}
+        {fadeOutPx > 0 && (
+          <polygon
+            className="vitecut-timeline-envelope__fade"
+            points={`${widthPx},0 ${widthPx - fadeOutPx},0 ${widthPx},100`}
+          />
+        )}
+        {showEnvelope && (
+          <>
+            <polyline
+              className="vitecut-timeline-envelope__line"
+              points={polyline}
+            />
+            <polyline
+              className="vitecut-timeline-envelope__hit"
+              points={polyline}
+              onPointerDown={stopPropagation}
+              onMouseDown={stopPropagation}
+              onDoubleClick={handleLineDoubleClick}
+            />
+          </>
+        )}
+      </svg>
+      {showEnvelope &&
+        current.points.map((point, index) => (
+          <span
+            key={index}
+            className="vitecut-timeline-envelope__point"
+            style={{ left: toX(point.time), top: `${toY(point.value)}%` }}
+            title={`音量 ${Math.round(point.value * 100)}%`}
+            onPointerDown={(e) =>
+              startDrag(e, {
+                kind: "point",
+                index,
+                startX: e.clientX,
+                startY: e.clientY,
+                startPoint: point,
+                heightPx: rootRef.current?.getBoundingClientRect().height || 1,
+              })
+            }
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onMouseDown={stopPropagation}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              if (locked) return;
+              setClipVolumeEnvelope(
+                clip.id,
+                current.points.filter((_, i) => i !== index)
+              );
+            }}
+          />
+        ))}
+      {!locked && (
+        <>
+          <span
+            className="vitecut-timeline-envelope__fade-handle"
+            style={{ left: fadeInPx }}
+            title={`淡入 ${current.fadeIn.toFixed(2)}s`}
+            aria-label="拖拽调整淡入时长"
+            onPointerDown={(e) =>
+              startDrag(e, {
+                kind: "fadeIn",
+                startX: e.clientX,
+                startValue: current.fadeIn,
+              })
+            }
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onMouseDown={stopPropagation}
+          />
+          <span
+            className="vitecut-timeline-envelope__fade-handle"
+            style={{ left: widthPx - fadeOutPx }}
+            title={`淡出 ${current.fadeOut.toFixed(2)}s`}
+            aria-label="拖拽调整淡出时长"
+            onPointerDown={(e) =>
+              startDrag(e, {
+                kind: "fadeOut",
+                startX: e.clientX,
+                startValue: current.fadeOut,
+              })
+            }
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onMouseDown={stopPropagation}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,12 +6,24 @@ import {
   type TimelineRow,
   type TimelineState,
 } from "@vitecut/timeline";
-import type { Clip } from "@vitecut/project";
+import {
+  canAddTransition,
+  findNextAdjacentClip,
+  findNextMarker,
+  findPrevMarker,
+  getActiveTransitions,
+  getMaxTransitionDuration,
+  snapTimeToMarkers,
+  type Clip,
+} from "@vitecut/project";
 import { Button } from "@radix-ui/themes";
 import { Tooltip } from "@/components/Tooltip";
 import {
+  ChevronLeft,
   Eye,
   EyeOff,
+  Layers,
+  Link2,
   LockKeyhole,
   LockKeyholeOpen,
   Volume2,
@@ -28,7 +40,12 @@ import { getImageProxyUrl } from "@/utils/imageProxy";
 import { playbackClock } from "@/editor/preview/playbackClock";
 import { getThumbCellsForClip, useVideoThumbnails } from "./useVideoThumbnails";
 import { useAudioWaveform, getWaveformDataUrl } from "./useAudioWaveform";
+import { ClipVolumeEnvelope } from "./ClipVolumeEnvelope";
 import { useTimelinePlaybackSync } from "./useTimelinePlaybackSync";
+import { useTimelineMarquee } from "./useTimelineMarquee";
+import { AddTransitionButton, TransitionBlock } from "./TransitionBlock";
+import { TimelineMarkers } from "./TimelineMarkers";
+import { TrackDuckingButton } from "./TrackDuckingButton";
 import vctlLogoImg from "@/assets/vctl.png";
 import "./Timeline.css";
 
@@ -36,6 +53,8 @@ import "./Timeline.css";
 const TIMELINE_ROW_PREFIX_WIDTH_PX = 180;
 /** 时间轴结尾留白像素 */
 const TIMELINE_END_PADDING_PX = 240;
+/** 播放头、clip 边缘吸附到标记的距离阈值（px） */
+const MARKER_SNAP_THRESHOLD_PX = 8;
 /** 时间轴最小缩放比例 */
 const MIN_ZOOM = 0.1;
 /** 时间轴最大缩放比例 */
@@ -73,6 +92,7 @@ const TRACK_HEIGHT_PRESETS = {
   image: 40,
   text: 30,
   solid: 40,
+  compound: 40,
 };
 
 /** Timeline timeline 相关样式类名 */
@@ -135,9 +155,10 @@ export function Timeline() {
   const toggleTrackMuted = useProjectStore((s) => s.toggleTrackMuted);
   const toggleTrackLocked = useProjectStore((s) => s.toggleTrackLocked);
   const toggleTrackHidden = useProjectStore((s) => s.toggleTrackHidden);
-  const duplicateClip = useProjectStore((s) => s.duplicateClip);
+  const duplicateClips = useProjectStore((s) => s.duplicateClips);
   const cutClip = useProjectStore((s) => s.cutClip);
-  const deleteClip = useProjectStore((s) => s.deleteClip);
+  const deleteClips = useProjectStore((s) => s.deleteClips);
+  const moveClips = useProjectStore((s) => s.moveClips);
   const trimClipLeft = useProjectStore((s) => s.trimClipLeft);
   const trimClipRight = useProjectStore((s) => s.trimClipRight);
   const undo = useProjectStore((s) => s.undo);
@@ -146,6 +167,27 @@ export function Timeline() {
   const historyFuture = useProjectStore((s) => s.historyFuture);
   const selectedClipId = useProjectStore((s) => s.selectedClipId);
   const setSelectedClipId = useProjectStore((s) => s.setSelectedClipId);
+  const selectedClipIds = useProjectStore((s) => s.selectedClipIds);
+  const setSelectedClipIds = useProjectStore((s) => s.setSelectedClipIds);
+  const toggleClipSelection = useProjectStore((s) => s.toggleClipSelection);
+  const selectAllClipsOnTrack = useProjectStore((s) => s.selectAllClipsOnTrack);
+  const timelineRippleEnabled = useProjectStore((s) => s.timelineRippleEnabled);
+  const setTimelineRippleEnabled = useProjectStore(
+    (s) => s.setTimelineRippleEnabled
+  );
+  const timelineRippleAllTracks = useProjectStore(
+    (s) => s.timelineRippleAllTracks
+  );
+  const setTimelineRippleAllTracks = useProjectStore(
+    (s) => s.setTimelineRippleAllTracks
+  );
+  const timelineSnapEnabled = useProjectStore((s) => s.timelineSnapEnabled);
+  const addMarker = useProjectStore((s) => s.addMarker);
+  const addRegion = useProjectStore((s) => s.addRegion);
+  const compoundStack = useProjectStore((s) => s.compoundStack);
+  const createCompoundClip = useProjectStore((s) => s.createCompoundClip);
+  const openCompoundClip = useProjectStore((s) => s.openCompoundClip);
+  const closeCompoundClip = useProjectStore((s) => s.closeCompoundClip);
 
   // ================
   // ref & 本地 state
@@ -170,6 +212,8 @@ export function Timeline() {
   /** 时间轴设置配置 */
   const [timelineSettingsConfig, setTimelineSettingsConfig] =
     useState<TimelineSettingsConfig>(DEFAULT_TIMELINE_SETTINGS_CONFIG);
+  /** 已按下入点（I）、等待出点（O）生成区间的时间，null 表示未设置 */
+  const [inPoint, setInPoint] = useState<number | null>(null);
   /** 当前时间轴区域舞台宽度(px)，由resize监听实时更新 */
   const [stageWidth, setStageWidth] = useState(0);
   /** 当前每秒对应像素（用于渲染缩略图宽度、判断缩放等级） */
@@ -192,6 +236,7 @@ export function Timeline() {
     if (!project) {
       return [];
     }
+    const selectedIds = new Set(selectedClipIds);
 
     // 排序规则：非音频轨道最上，主轨道居中，音频轨道位于主轨道下方。
     const mainTrack =
@@ -227,13 +272,13 @@ export function Timeline() {
           inPoint: clip.inPoint,
           outPoint: clip.outPoint,
           effectId: clip.assetId, // 关联素材
-          selected: selectedClipId === clip.id, // 选中态
+          selected: selectedIds.has(clip.id), // 选中态（含多选）
           kind: clip.kind,
         };
         return base;
       }),
     }));
-  }, [project, selectedClipId]);
+  }, [project, selectedClipIds]);
 
   /**
    * clipId -> Clip 的快速索引（避免在自定义渲染里反复遍历 tracks）
@@ -251,8 +296,44 @@ export function Timeline() {
     return map;
   }, [project]);
 
-  /** 最近一次复制的 clip id，用于粘贴快捷键 */
-  const [copiedClipId, setCopiedClipId] = useState<string | null>(null);
+  /** 时间轴标记与命名区间 */
+  const markers = useMemo(() => project?.markers ?? [], [project?.markers]);
+  const regions = useMemo(() => project?.regions ?? [], [project?.regions]);
+
+  /**
+   * 吸附开启时将时间吸附到阈值范围内最近的标记（阈值按当前缩放换算为秒）
+   */
+  const snapToMarkers = useCallback(
+    (time: number) =>
+      timelineSnapEnabled
+        ? snapTimeToMarkers(
+            time,
+            markers,
+            pixelToTime(MARKER_SNAP_THRESHOLD_PX, zoom)
+          )
+        : time,
+    [markers, timelineSnapEnabled, zoom]
+  );
+
+  /**
+   * clip 整体移动时：起点或终点任一侧靠近标记即吸附（取更近的一侧），保持时长不变
+   */
+  const snapRangeToMarkers = (start: number, end: number) => {
+    const snappedStart = snapToMarkers(start);
+    const snappedEnd = snapToMarkers(end);
+    const startDelta = snappedStart - start;
+    const endDelta = snappedEnd - end;
+    if (startDelta === 0 && endDelta === 0) return { start, end };
+    const delta =
+      endDelta === 0 ||
+      (startDelta !== 0 && Math.abs(startDelta) <= Math.abs(endDelta))
+        ? startDelta
+        : endDelta;
+    return { start: Math.max(0, start + delta), end: end + delta };
+  };
+
+  /** 最近一次复制的 clip id 集合，用于粘贴快捷键 */
+  const [copiedClipIds, setCopiedClipIds] = useState<string[]>([]);
 
   /** 项目内容最后一个 clip 的结束时间 */
   const lastClipEnd = useMemo(() => {
@@ -287,6 +368,7 @@ export function Timeline() {
    * - 锁定图标：控制 track.locked，锁定后该轨道不可编辑
    * - 眼睛图标：控制 track.hidden，隐藏后预览不渲染该轨道，并整体降不透明度
    * - 音量图标：控制 track.muted，静音时按钮为主题色，未静音为灰色
+   * - 闪避图标：设置 track.ducking，已开启时为主题色
    */
   const renderTrackControls = useCallback(
     (row: { id: string }) => {
@@ -373,6 +455,24 @@ export function Timeline() {
               style={{ visibility: "hidden" }}
             />
           )}
+          {/* 音频闪避按钮 */}
+          {track && hasAudioContent ? (
+            <TrackDuckingButton
+              track={track}
+              tracks={project?.tracks ?? []}
+              disabled={locked}
+            />
+          ) : (
+            // 占位按钮
+            <Button
+              color="gray"
+              variant="soft"
+              size="1"
+              className="timeline-track-volume-btn"
+              aria-hidden="true"
+              style={{ visibility: "hidden" }}
+            />
+          )}
         </div>
       );
     },
@@ -382,7 +482,7 @@ export function Timeline() {
   /**
    * 自定义 action 渲染：视频 clip 显示缩略图网格；文本 clip 显示文本内容（靠左）。
    */
-  const getActionRender = (action: any) => {
+  const renderActionContent = (action: any) => {
     if (!project) {
       return undefined;
     }
@@ -413,6 +513,26 @@ export function Timeline() {
       );
     }
 
+    // 渲染复合片段：显示名称，双击进入内部编辑
+    if (clip.kind === "compound") {
+      return (
+        <div
+          className={`vitecut-timeline-compound-clip${
+            locked ? " vitecut-timeline-clip--locked" : ""
+          }${hidden ? " vitecut-timeline-clip--hidden" : ""}`}
+          data-vitecut-clip
+          data-vitecut-clip-locked={locked ? "true" : undefined}
+          data-vitecut-track-hidden={hidden ? "true" : undefined}
+          title="双击编辑复合片段"
+        >
+          <Layers size={14} />
+          <span className="vitecut-timeline-compound-clip__label">
+            {asset?.name ?? "复合片段"}
+          </span>
+        </div>
+      );
+    }
+
     // 渲染文本类型
     if (clip.kind === "text") {
       const asset = project.assets.find((a) => a.id === clip.assetId);
@@ -501,6 +621,7 @@ export function Timeline() {
               />
               <span className="vitecut-timeline-audio-clip__label">
                 <span className="vitecut-timeline-audio-clip__label-name">
+                  {clip.linkId && <Link2 size={12} aria-label="已联动" />}
                   {name}
                 </span>
                 <span className="vitecut-timeline-audio-clip__label-duration">
@@ -516,6 +637,7 @@ export function Timeline() {
               </div>
               <span className="vitecut-timeline-audio-clip__label">
                 <span className="vitecut-timeline-audio-clip__label-name">
+                  {clip.linkId && <Link2 size={12} aria-label="已联动" />}
                   {name}
                 </span>
                 <span className="vitecut-timeline-audio-clip__label-duration">
@@ -601,6 +723,10 @@ export function Timeline() {
         </div>
         <div className="vitecut-timeline-video-clip__label">
           <span className="vitecut-timeline-video-clip__label-name">
+            {clip.linkId && <Link2 size={12} aria-label="已联动" />}
+            {clip.params?.muted === true && (
+              <VolumeX size={12} aria-label="原声已静音" />
+            )}
             {name}
           </span>
           <span className="vitecut-timeline-video-clip__label-duration">
@@ -611,6 +737,95 @@ export function Timeline() {
     );
   };
 
+  /**
+   * 片段上的转场叠加层：转入片段左侧与转出片段右侧各画半个转场块，
+   * 与下一片段相接但尚无转场时在右侧显示「添加转场」按钮。
+   */
+  const renderTransitionOverlay = (clip: Clip) => {
+    const track = project?.tracks.find((t) => t.id === clip.trackId);
+    if (!track) {
+      return null;
+    }
+    const locked = track.locked ?? false;
+    const nodes: React.ReactNode[] = [];
+    const transitions = getActiveTransitions(track);
+    for (const transition of transitions) {
+      const role =
+        transition.toClipId === clip.id
+          ? "to"
+          : transition.fromClipId === clip.id
+            ? "from"
+            : null;
+      if (!role) continue;
+      const otherId =
+        role === "to" ? transition.fromClipId : transition.toClipId;
+      const other = clipById[otherId];
+      if (!other) continue;
+      nodes.push(
+        <TransitionBlock
+          key={`${transition.id}-${role}`}
+          transition={transition}
+          role={role}
+          pxPerSecond={pxPerSecond}
+          maxDuration={
+            role === "to"
+              ? getMaxTransitionDuration(other, clip)
+              : getMaxTransitionDuration(clip, other)
+          }
+          locked={locked}
+        />
+      );
+    }
+    if (!locked && !transitions.some((t) => t.fromClipId === clip.id)) {
+      const next = findNextAdjacentClip(track, clip);
+      if (next && canAddTransition(clip, next)) {
+        nodes.push(<AddTransitionButton key="add" clipId={clip.id} />);
+      }
+    }
+    return nodes.length > 0 ? nodes : null;
+  };
+
+  /**
+   * 音视频片段上的音量叠加层：淡入 / 淡出手柄；音频片段额外在波形上绘制音量曲线。
+   */
+  const renderVolumeOverlay = (
+    clip: Clip,
+    action: { start: number; end: number }
+  ) => {
+    if (clip.kind !== "audio" && clip.kind !== "video") {
+      return null;
+    }
+    const track = project?.tracks.find((t) => t.id === clip.trackId);
+    return (
+      <ClipVolumeEnvelope
+        clip={clip}
+        widthPx={(action.end - action.start) * pxPerSecond}
+        pxPerSecond={pxPerSecond}
+        showEnvelope={clip.kind === "audio"}
+        locked={track?.locked ?? false}
+      />
+    );
+  };
+
+  const getActionRender = (
+    action: Parameters<typeof renderActionContent>[0]
+  ) => {
+    const content = renderActionContent(action);
+    if (!content) {
+      return content;
+    }
+    const clip: Clip | undefined = clipById[action.id];
+    const overlay = clip ? renderTransitionOverlay(clip) : null;
+    // 外层带 clip id，供框选命中检测
+    return (
+      <div className="vitecut-timeline-action" data-vitecut-clip-id={action.id}>
+        {content}
+        {clip && renderVolumeOverlay(clip, action)}
+        {overlay}
+      </div>
+    );
+  };
+
   /**
    * 跳转到指定时间并暂停播放，同时同步本地与全局播放状态。
    * - `clearSelection` 为 true 时会取消选中 clip（例如点击轨道空白/背景）
@@ -657,14 +872,14 @@ export function Timeline() {
       time: number,
       _event: React.MouseEvent<HTMLDivElement, MouseEvent>
     ): boolean => {
-      jumpToTime(time, { clearSelection: false });
+      jumpToTime(snapToMarkers(time), { clearSelection: false });
       suppressNextTimeJumpRef.current = true;
       window.setTimeout(() => {
         suppressNextTimeJumpRef.current = false;
       }, 0);
       return false;
     },
-    [jumpToTime]
+    [jumpToTime, snapToMarkers]
   );
 
   /** 点击时间轴背景/轨道空白：移动时间线并取消选中 clip */
@@ -698,10 +913,11 @@ export function Timeline() {
   };
 
   /**
-   * 仅点击 clip（不包含拖拽）：选中该 clip；锁定轨道上的 clip 不可被选中
+   * 仅点击 clip（不包含拖拽）：选中该 clip；按住 Shift 时切换其多选状态。
+   * 锁定轨道上的 clip 不可被选中
    */
   const handleClickActionOnly = (
-    _e: React.MouseEvent,
+    e: React.MouseEvent,
     { action }: { action: { id: string } }
   ) => {
     if (!project) return;
@@ -713,12 +929,44 @@ export function Timeline() {
     if (track?.locked) {
       return;
     }
+    const additive = e.shiftKey;
     // 通过 requestAnimationFrame，使得在事件冒泡后再设置选中，避免状态更新和冒泡时的干扰
     requestAnimationFrame(() => {
-      setSelectedClipId(action.id);
+      if (additive) {
+        toggleClipSelection(action.id);
+      } else {
+        setSelectedClipId(action.id);
+      }
+    });
+  };
+
+  /**
+   * 框选结束：选中与矩形相交的 clip（锁定轨道除外），按住 Shift 时追加到现有选中集合。
+   * 松开指针后会触发轨道行点击，这里抑制随后的时间跳转与取消选中。
+   */
+  const handleMarqueeSelect = (clipIds: string[], additive: boolean) => {
+    if (!project) return;
+    const ids = clipIds.filter((id) => {
+      const clip: Clip | undefined = clipById[id];
+      const track = clip
+        ? project.tracks.find((t) => t.id === clip.trackId)
+        : undefined;
+      return !!track && !track.locked;
     });
+    setSelectedClipIds(additive ? [...selectedClipIds, ...ids] : ids);
+    suppressNextTimeJumpRef.current = true;
+    window.setTimeout(() => {
+      suppressNextTimeJumpRef.current = false;
+    }, 200);
   };
 
+  /** 框选矩形（视口坐标），未框选时为 null */
+  const marqueeRect = useTimelineMarquee({
+    containerRef: timelineContainerRef,
+    enabled: editorData.length > 0,
+    onSelect: handleMarqueeSelect,
+  });
+
   /**
    * 处理播放/暂停切换逻辑，仅更新 UI 跟全局 store，不直接操作媒体播放
    */
@@ -791,15 +1039,43 @@ export function Timeline() {
     if (isPlaying) {
       return;
     }
-    setCurrentTime(time);
+    setCurrentTime(snapToMarkers(time));
   };
 
   /**
    * 拖动播放头松手时，将当前时间同步到全局 store
    */
   const handleCursorDragEnd = (time: number) => {
-    setCurrentTime(time);
-    setCurrentTimeGlobal(time);
+    const snapped = snapToMarkers(time);
+    setCurrentTime(snapped);
+    setCurrentTimeGlobal(snapped);
+  };
+
+  /** 当前播放头时间：播放中读取播放时钟，暂停时读取本地 state */
+  const getPlayheadTime = () =>
+    isPlaying ? playbackClock.currentTime : currentTime;
+
+  /**
+   * 跳到上一个 / 下一个标记
+   */
+  const handleJumpToMarker = (direction: "prev" | "next") => {
+    const time = getPlayheadTime();
+    const marker =
+      direction === "next"
+        ? findNextMarker(markers, time)
+        : findPrevMarker(markers, time);
+    if (marker) {
+      jumpToTime(marker.time, { clearSelection: false });
+    }
+  };
+
+  /**
+   * 设置出点：已有入点时用入点与播放头围成命名区间
+   */
+  const handleSetOutPoint = () => {
+    if (inPoint == null) return;
+    addRegion(inPoint, getPlayheadTime());
+    setInPoint(null);
   };
 
   /**
@@ -911,22 +1187,34 @@ export function Timeline() {
   };
 
   /**
-   * 对选中 clip 进行复制
+   * 对选中 clip 进行复制（多选时复制整个集合）
    */
   const handleCopySelectedClip = () => {
-    if (!selectedClipId) return;
-    duplicateClip(selectedClipId);
+    if (selectedClipIds.length === 0) return;
+    duplicateClips(selectedClipIds);
   };
 
   /**
-   * 对选中 clip 进行删除
+   * 对选中 clip 进行删除（多选时删除整个集合）
    */
   const handleDeleteSelectedClip = () => {
-    if (!selectedClipId) return;
-    deleteClip(selectedClipId);
+    if (selectedClipIds.length === 0) return;
+    deleteClips(selectedClipIds);
     setSelectedClipId(null);
   };
 
+  /**
+   * 全选轨道：选中主选中 clip 所在轨道（无选中时为主轨道）上的全部 clip
+   */
+  const handleSelectAllOnTrack = () => {
+    if (!project) return;
+    const trackId =
+      (selectedClipId ? clipById[selectedClipId]?.trackId : undefined) ??
+      editorData.find((row) => row.role === "main")?.id;
+    if (!trackId) return;
+    selectAllClipsOnTrack(trackId);
+  };
+
   /** 当前选中的 clip 数据 */
   const selectedClip =
     selectedClipId != null ? clipById[selectedClipId] : undefined;
@@ -974,8 +1262,9 @@ export function Timeline() {
     targetRowId?: string;
     insertRowIndex?: number | null;
   }) => {
-    const { action, row, start, end, targetRowId, insertRowIndex } = params;
+    const { action, row, targetRowId, insertRowIndex } = params;
     if (!project) return;
+    const { start, end } = snapRangeToMarkers(params.start, params.end);
     if (insertRowIndex != null) {
       moveClipToNewTrack(action.id, start, end, insertRowIndex);
       setSelectedClipId(action.id);
@@ -990,8 +1279,24 @@ export function Timeline() {
     if (!track || track.locked) {
       return;
     }
-    updateClipTiming(action.id, start, end, nextRowId);
-    setSelectedClipId(action.id);
+    const clip: Clip | undefined = clipById[action.id];
+    if (
+      clip &&
+      nextRowId === clip.trackId &&
+      selectedClipIds.length > 1 &&
+      selectedClipIds.includes(action.id)
+    ) {
+      // 多选时在原轨道内拖动：整个选中集合按相同偏移平移
+      const projectBefore = useProjectStore.getState().project;
+      moveClips(selectedClipIds, start - clip.start);
+      if (useProjectStore.getState().project === projectBefore) {
+        // 平移被拒绝（与未选中 clip 重叠）：刷新 editorData，让被拖动的 clip 回到原位
+        setSelectedClipIds([...selectedClipIds]);
+      }
+    } else {
+      updateClipTiming(action.id, start, end, nextRowId);
+      setSelectedClipId(action.id);
+    }
     // 拖拽误点防抖
     suppressNextTimeJumpRef.current = true;
     window.setTimeout(() => {
@@ -1017,7 +1322,8 @@ export function Timeline() {
         return false;
       }
     }
-    if (clip.kind !== "audio") return;
+    // 音频与复合片段不能超出素材（子时间轴）时长
+    if (clip.kind !== "audio" && clip.kind !== "compound") return;
     const asset = project?.assets.find((a) => a.id === clip.assetId);
     const assetDuration = asset?.duration ?? clip.end - clip.start;
     const inPoint = clip.inPoint ?? 0;
@@ -1050,11 +1356,44 @@ export function Timeline() {
     }
     const clip: Clip | undefined = clipById[action.id];
     if (!clip) return;
-    const nextStart = dir === "left" ? start : clip.start;
-    const nextEnd = dir === "left" ? clip.end : end;
+    const nextStart = dir === "left" ? snapToMarkers(start) : clip.start;
+    const nextEnd = dir === "left" ? clip.end : snapToMarkers(end);
     updateClipTiming(action.id, nextStart, nextEnd, row.id);
   };
 
+  /**
+   * 将多选的 clip 折叠为复合片段
+   */
+  const handleCreateCompoundClip = () => {
+    if (selectedClipIds.length < 2) return;
+    createCompoundClip(selectedClipIds);
+  };
+
+  /** 嵌套编辑路径：根工程名 + 各层复合片段名 */
+  const compoundPath = useMemo(
+    () =>
+      compoundStack.length === 0
+        ? []
+        : [
+            compoundStack[0]!.project.name,
+            ...compoundStack.map(
+              (frame) =>
+                frame.project.assets.find((a) => a.id === frame.assetId)
+                  ?.name ?? "复合片段"
+            ),
+          ],
+    [compoundStack]
+  );
+
+  /**
+   * 逐层退出复合片段编辑，直到回到路径中第 level 层（0 为根工程）
+   */
+  const handleCloseCompoundTo = (level: number) => {
+    for (let i = compoundStack.length; i > level; i--) {
+      closeCompoundClip();
+    }
+  };
+
   // 全局快捷键：复制 / 粘贴 / 删除 / 撤销 / 重做 / 缩放
   // 仅在存在可执行操作时启用快捷键（有工程可播放/切断，或可撤销/重做，或存在选中/已复制 clip）
   // 缩放快捷键始终启用，不受此限制
@@ -1063,7 +1402,7 @@ export function Timeline() {
     historyPast.length > 0 ||
     historyFuture.length > 0 ||
     !!selectedClipId ||
-    !!copiedClipId;
+    copiedClipIds.length > 0;
 
   /**
    * 使用 timeline 区域的全局快捷键
@@ -1072,14 +1411,15 @@ export function Timeline() {
     enabled: hotkeysEnabled,
     onTogglePlay: handleTogglePlay,
     onCopyClip: () => {
-      if (!selectedClipId) return;
-      setCopiedClipId(selectedClipId);
+      if (selectedClipIds.length === 0) return;
+      setCopiedClipIds(selectedClipIds);
     },
     onPasteClip: () => {
-      // 粘贴时，复制当前粘贴板 clip 或选中 clip
-      const sourceId = copiedClipId ?? selectedClipId;
-      if (!sourceId) return;
-      duplicateClip(sourceId);
+      // 粘贴时，复制当前粘贴板 clip 集合或选中 clip 集合
+      const sourceIds =
+        copiedClipIds.length > 0 ? copiedClipIds : selectedClipIds;
+      if (sourceIds.length === 0) return;
+      duplicateClips(sourceIds);
     },
     onCutClip: () => {
       handleCutSelectedClip();
@@ -1094,10 +1434,18 @@ export function Timeline() {
       handleTrimClipRight();
     },
     onDeleteClip: () => {
-      if (!selectedClipId) return;
-      deleteClip(selectedClipId);
-      setSelectedClipId(null);
+      handleDeleteSelectedClip();
+    },
+    onSelectAllOnTrack: () => {
+      handleSelectAllOnTrack();
     },
+    onAddMarker: () => {
+      addMarker(getPlayheadTime());
+    },
+    onNextMarker: () => handleJumpToMarker("next"),
+    onPrevMarker: () => handleJumpToMarker("prev"),
+    onSetInPoint: () => setInPoint(getPlayheadTime()),
+    onSetOutPoint: handleSetOutPoint,
     onUndo: () => undo(),
     onRedo: () => redo(),
     onZoomIn: handleZoomIn,
@@ -1205,7 +1553,40 @@ export function Timeline() {
         }
         onCopyClip={selectedClipId ? handleCopySelectedClip : undefined}
         onDeleteClip={selectedClipId ? handleDeleteSelectedClip : undefined}
+        onCreateCompoundClip={
+          selectedClipIds.length > 1 ? handleCreateCompoundClip : undefined
+        }
+        rippleEnabled={timelineRippleEnabled}
+        onRippleEnabledChange={setTimelineRippleEnabled}
+        rippleAllTracks={timelineRippleAllTracks}
+        onRippleAllTracksChange={setTimelineRippleAllTracks}
       />
+      {compoundStack.length > 0 && (
+        <div className="vitecut-timeline-compound-bar">
+          <button
+            type="button"
+            className="vitecut-timeline-compound-bar__back"
+            onClick={closeCompoundClip}
+          >
+            <ChevronLeft size={14} />
+            返回
+          </button>
+          {compoundPath.map((name, index) => (
+            <span key={index} className="vitecut-timeline-compound-bar__crumb">
+              {index < compoundPath.length - 1 ? (
+                <button
+                  type="button"
+                  onClick={() => handleCloseCompoundTo(index)}
+                >
+                  {name}
+                </button>
+              ) : (
+                name
+              )}
+            </span>
+          ))}
+        </div>
+      )}
       <div className="app-editor-layout__timeline-content">
         {editorData.length === 0 ? (
           // 如果当前没内容，提示添加媒体
@@ -1262,10 +1643,33 @@ export function Timeline() {
               onClickTimeArea={handleClickTimeArea}
               onClickRow={handleClickRow}
               onClickActionOnly={handleClickActionOnly}
-              onDoubleClickAction={(_e, { time }) => {
+              onDoubleClickAction={(_e, { action, time }) => {
+                if (clipById[action.id]?.kind === "compound") {
+                  openCompoundClip(action.id);
+                  return;
+                }
                 jumpToTime(time, { clearSelection: false });
               }}
             />
+            <TimelineMarkers
+              containerRef={timelineContainerRef}
+              zoom={zoom}
+              markers={markers}
+              regions={regions}
+              inPoint={inPoint}
+              onJump={(time) => jumpToTime(time, { clearSelection: false })}
+            />
+            {marqueeRect && (
+              <div
+                className="vitecut-timeline-marquee"
+                style={{
+                  left: marqueeRect.left,
+                  top: marqueeRect.top,
+                  width: marqueeRect.width,
+                  height: marqueeRect.height,
+                }}
+              />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { Popover } from "radix-ui";
+import { Trash2 } from "lucide-react";
+import { timeToPixel } from "@vitecut/timeline";
+import {
+  DEFAULT_MARKER_COLOR,
+  MARKER_COLORS,
+  type Marker,
+  type Region,
+} from "@vitecut/project";
+import { formatTime } from "@vitecut/utils";
+import { useProjectStore } from "@/stores";
+
+/** 标记层相对时间轴容器的位置：水平方向对齐滚动容器，垂直方向对齐刻度尺 */
+type OverlayLayout = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  scrollLeft: number;
+};
+
+interface TimelineMarkersProps {
+  /** 时间轴容器（.timeline-editor），标记层相对其绝对定位 */
+  containerRef: { current: HTMLElement | null };
+  /** 时间轴缩放比例 */
+  zoom: number;
+  markers: Marker[];
+  regions: Region[];
+  /** 已设置但尚未生成区间的入点（秒） */
+  inPoint: number | null;
+  /** 点击标记 / 区间时跳转播放头 */
+  onJump: (time: number) => void;
+}
+
+/**
+ * 测量刻度尺与滚动容器的位置，并跟随滚动、尺寸变化更新。
+ *
+ * 刻度尺由 @vitecut/timeline 内部渲染，这里只能通过 DOM 类名定位。
+ */
+function useOverlayLayout(
+  containerRef: TimelineMarkersProps["containerRef"]
+): OverlayLayout | null {
+  const [layout, setLayout] = useState<OverlayLayout | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const scrollHost =
+      container?.querySelector<HTMLElement>(".timeline-scroll") ?? null;
+    const ruler =
+      container?.querySelector<HTMLElement>(".timeline-ruler-canvas") ?? null;
+    if (!container || !scrollHost || !ruler) return;
+
+    const sync = () => {
+      const containerRect = container.getBoundingClientRect();
+      const scrollRect = scrollHost.getBoundingClientRect();
+      const rulerRect = ruler.getBoundingClientRect();
+      setLayout({
+        left: scrollRect.left - containerRect.left,
+        top: rulerRect.top - containerRect.top,
+        width: scrollRect.width,
+        height: rulerRect.height,
+        scrollLeft: scrollHost.scrollLeft,
+      });
+    };
+    const frame = requestAnimationFrame(sync);
+    const observer = new ResizeObserver(sync);
+    observer.observe(container);
+    scrollHost.addEventListener("scroll", sync, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      scrollHost.removeEventListener("scroll", sync);
+    };
+  }, [containerRef]);
+
+  return layout;
+}
+
+/**
+ * 标记编辑弹层：名称、颜色、备注，以及删除。
+ *
+ * 名称与备注在失焦时提交，避免每次输入都产生一条历史记录。
+ */
+function MarkerPopoverContent({ marker }: { marker: Marker }) {
+  const updateMarker = useProjectStore((s) => s.updateMarker);
+  const removeMarker = useProjectStore((s) => s.removeMarker);
+  const [name, setName] = useState(marker.name);
+  const [note, setNote] = useState(marker.note ?? "");
+
+  const commitName = () => {
+    const next = name.trim() || marker.name;
+    setName(next);
+    if (next !== marker.name) updateMarker(marker.id, { name: next });
+  };
+
+  const commitNote = () => {
+    const next = note.trim();
+    if (next !== (marker.note ?? "")) {
+      updateMarker(marker.id, { note: next || undefined });
+    }
+  };
+
+  return (
+    <>
+      <div className="vitecut-timeline-marker__popover-title">
+        标记 · {formatTime(marker.time)}
+      </div>
+      <input
+        type="text"
+        className="vitecut-timeline-marker__input"
+        aria-label="标记名称"
+        value={name}
+        maxLength={50}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+      />
+      <div className="vitecut-timeline-marker__colors">
+        {MARKER_COLORS.map((color) => (
+          <button
+            key={color}
+            type="button"
+            className={`vitecut-timeline-marker__color${
+              color === marker.color
+                ? " vitecut-timeline-marker__color--active"
+                : ""
+            }`}
+            style={{ background: color }}
+            aria-label={`颜色 ${color}`}
+            onClick={() => updateMarker(marker.id, { color })}
+          />
+        ))}
+      </div>
+      <textarea
+        className="vitecut-timeline-marker__input vitecut-timeline-marker__note"
+        aria-label="备注"
+        placeholder="备注"
+        value={note}
+        rows={3}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={commitNote}
+      />
+      <button
+        type="button"
+        className="vitecut-timeline-transition__option vitecut-timeline-transition__option--danger"
+        onClick={() => removeMarker(marker.id)}
+      >
+        <Trash2 size={14} />
+        删除标记
+      </button>
+    </>
+  );
+}
+
+/**
+ * 区间编辑弹层：重命名与删除。
+ */
+function RegionPopoverContent({ region }: { region: Region }) {
+  const updateRegion = useProjectStore((s) => s.updateRegion);
+  const removeRegion = useProjectStore((s) => s.removeRegion);
+  const [name, setName] = useState(region.name);
+
+  const commitName = () => {
+    const next = name.trim() || region.name;
+    setName(next);
+    if (next !== region.name) updateRegion(region.id, { name: next });
+  };
+
+  return (
+    <>
+      <div className="vitecut-timeline-marker__popover-title">
+        区间 · {formatTime(region.start)} - {formatTime(region.end)}
+      </div>
+      <input
+        type="text"
+        className="vitecut-timeline-marker__input"
+        aria-label="区间名称"
+        value={name}
+        maxLength={50}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+      />
+      <button
+        type="button"
+        className="vitecut-timeline-transition__option vitecut-timeline-transition__option--danger"
+        onClick={() => removeRegion(region.id)}
+      >
+        <Trash2 size={14} />
+        删除区间
+      </button>
+    </>
+  );
+}
+
+/**
+ * 时间轴刻度尺上的标记层：绘制标记旗标、命名区间色带与待定入点。
+ * 点击标记 / 区间会跳转播放头并打开编辑弹层。
+ */
+export function TimelineMarkers({
+  containerRef,
+  zoom,
+  markers,
+  regions,
+  inPoint,
+  onJump,
+}: TimelineMarkersProps) {
+  const layout = useOverlayLayout(containerRef);
+  if (!layout) return null;
+
+  const toX = (time: number) => timeToPixel(time, zoom) - layout.scrollLeft;
+
+  return (
+    <div
+      className="vitecut-timeline-markers"
+      style={{
+        left: layout.left,
+        top: layout.top,
+        width: layout.width,
+        height: layout.height,
+      }}
+    >
+      {regions.map((region) => (
+        <Popover.Root key={region.id}>
+          <Popover.Trigger asChild>
+            <button
+              type="button"
+              className="vitecut-timeline-region"
+              style={
+                {
+                  left: toX(region.start),
+                  width: toX(region.end) - toX(region.start),
+                  "--vitecut-region-color":
+                    region.color ?? DEFAULT_MARKER_COLOR,
+                } as React.CSSProperties
+              }
+              title={region.name}
+              onClick={() => onJump(region.start)}
+            >
+              <span className="vitecut-timeline-region__label">
+                {region.name}
+              </span>
+            </button>
+          </Popover.Trigger>
+          <Popover.Portal>
+            <Popover.Content
+              className="vitecut-timeline-transition__popover"
+              side="top"
+              sideOffset={6}
+            >
+              <RegionPopoverContent region={region} />
+            </Popover.Content>
+          </Popover.Portal>
+        </Popover.Root>
+      ))}
+      {inPoint != null && (
+        <div
+          className="vitecut-timeline-in-point"
+          style={{ left: toX(inPoint) }}
+          title={`入点 ${formatTime(inPoint)}`}
+        />
+      )}
+      {markers.map((marker) => (
+        <Popover.Root key={marker.id}>
+          <Popover.Trigger asChild>
+            <button
+              type="button"
+              className="vitecut-timeline-marker"
+              style={{ left: toX(marker.time), color: marker.color }}
+              title={
+                marker.note ? `${marker.name}\n${marker.note}` : marker.name
+              }
+              aria-label={`标记：${marker.name}`}
+              onClick={() => onJump(marker.time)}
+            />
+          </Popover.Trigger>
+          <Popover.Portal>
+            <Popover.Content
+              className="vitecut-timeline-transition__popover vitecut-timeline-marker__popover"
+              side="top"
+              sideOffset={6}
+            >
+              <MarkerPopoverContent marker={marker} />
+            </Popover.Content>
+          </Popover.Portal>
+        </Popover.Root>
+      ))}
+    </div>
+  );
+}
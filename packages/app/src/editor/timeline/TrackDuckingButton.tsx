@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Popover, Slider } from "radix-ui";
+import { Button } from "@radix-ui/themes";
+import { ArrowDownToLine } from "lucide-react";
+import {
+  DEFAULT_DUCKING_PARAMS,
+  DUCKING_PARAM_RANGES,
+  type Track,
+  type TrackDuckingParams,
+} from "@vitecut/project";
+import { Tooltip } from "@/components/Tooltip";
+import { useProjectStore } from "@/stores";
+
+/** 闪避参数的名称与单位 */
+const DUCKING_PARAM_LABELS: Record<
+  keyof TrackDuckingParams,
+  { label: string; unit: string }
+> = {
+  threshold: { label: "触发阈值", unit: "dB" },
+  amount: { label: "压低幅度", unit: "dB" },
+  attack: { label: "压低时间", unit: "ms" },
+  release: { label: "恢复时间", unit: "ms" },
+};
+
+const DUCKING_PARAM_KEYS = Object.keys(
+  DUCKING_PARAM_LABELS
+) as (keyof TrackDuckingParams)[];
+
+interface TrackDuckingButtonProps {
+  track: Track;
+  /** 工程中的全部轨道，用于列出可选的触发轨道 */
+  tracks: Track[];
+  disabled?: boolean;
+}
+
+/** 轨道显示名称：未命名时按类型给出默认名 */
+function getTrackLabel(track: Track): string {
+  return track.name ?? (track.kind === "audio" ? "音频轨道" : "视频轨道");
+}
+
+/**
+ * 闪避设置面板：选择触发轨道与各项参数。
+ *
+ * 滑块拖动时只更新本地草稿，松手后再写入 store，一次拖动只产生一条历史记录。
+ */
+function TrackDuckingForm({ track, tracks }: TrackDuckingButtonProps) {
+  const setTrackDucking = useProjectStore((s) => s.setTrackDucking);
+  const [draft, setDraft] = useState<TrackDuckingParams>(() => ({
+    ...DEFAULT_DUCKING_PARAMS,
+    ...track.ducking,
+  }));
+  const ducking = track.ducking;
+
+  // 触发轨道：自身以外、带声音且自身未设置闪避的轨道（闪避只有一层）
+  const sources = tracks.filter(
+    (t) =>
+      t.id !== track.id &&
+      !t.ducking &&
+      t.clips.some((c) => c.kind === "audio" || c.kind === "video")
+  );
+  const isSourceOfOthers = tracks.some(
+    (t) => t.ducking?.sourceTrackId === track.id
+  );
+
+  return (
+    <>
+      <div className="vitecut-timeline-transition__popover-title">
+        音频闪避 · 触发轨道有声音时压低本轨道
+      </div>
+      <select
+        className="vitecut-timeline-marker__input"
+        aria-label="触发轨道"
+        value={ducking?.sourceTrackId ?? ""}
+        onChange={(e) => {
+          const sourceTrackId = e.target.value;
+          setTrackDucking(
+            track.id,
+            sourceTrackId ? { ...draft, sourceTrackId } : null
+          );
+        }}
+      >
+        <option value="">不闪避</option>
+        {sources.map((t) => (
+          <option key={t.id} value={t.id}>
+            {getTrackLabel(t)}
+          </option>
+        ))}
+      </select>
+      {isSourceOfOthers && (
+        <div className="vitecut-timeline-ducking__hint">
+          本轨道是其他轨道的触发轨道，开启闪避后那些轨道的闪避将不生效
+        </div>
+      )}
+      {ducking &&
+        DUCKING_PARAM_KEYS.map((key) => {
+          const { min, max, step } = DUCKING_PARAM_RANGES[key];
+          const { label, unit } = DUCKING_PARAM_LABELS[key];
+          return (
+            <div key={key} className="vitecut-timeline-ducking__row">
+              <span className="vitecut-timeline-ducking__label">{label}</span>
+              <Slider.Root
+                className="vitecut-timeline-ducking__slider"
+                value={[draft[key]]}
+                min={min}
+                max={max}
+                step={step}
+                aria-label={label}
+                onValueChange={([v]) => setDraft({ ...draft, [key]: v })}
+                onValueCommit={([v]) =>
+                  setTrackDucking(track.id, { ...ducking, [key]: v })
+                }
+              >
+                <Slider.Track className="vitecut-timeline-ducking__slider-track">
+                  <Slider.Range className="vitecut-timeline-ducking__slider-range" />
+                </Slider.Track>
+                <Slider.Thumb className="vitecut-timeline-ducking__slider-thumb" />
+              </Slider.Root>
+              <span className="vitecut-timeline-ducking__value">
+                {draft[key]} {unit}
+              </span>
+            </div>
+          );
+        })}
+    </>
+  );
+}
+
+/**
+ * 轨道头部的音频闪避按钮：已设置闪避时高亮，点击打开设置面板。
+ */
+export function TrackDuckingButton({
+  track,
+  tracks,
+  disabled,
+}: TrackDuckingButtonProps) {
+  const label = track.ducking ? "音频闪避（已开启）" : "音频闪避";
+  return (
+    <Popover.Root>
+      <Tooltip content={label}>
+        <Popover.Trigger asChild>
+          <Button
+            color={track.ducking ? "blue" : "gray"}
+            variant="soft"
+            size="1"
+            className="timeline-track-volume-btn"
+            aria-label={label}
+            disabled={disabled}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <ArrowDownToLine size={16} />
+          </Button>
+        </Popover.Trigger>
+      </Tooltip>
+      <Popover.Portal>
+        <Popover.Content
+          className="vitecut-timeline-transition__popover vitecut-timeline-ducking"
+          side="right"
+          sideOffset={6}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <TrackDuckingForm track={track} tracks={tracks} />
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+}
@@ -0,0 +1,198 @@
+import { useRef, useState } from "react";
+import { Popover } from "radix-ui";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  MIN_TRANSITION_DURATION,
+  TRANSITION_TYPES,
+  type Transition,
+  type TransitionType,
+} from "@vitecut/project";
+import { Tooltip } from "@/components/Tooltip";
+import { useProjectStore } from "@/stores";
+
+/** 转场类型的中文名称 */
+const TRANSITION_TYPE_LABELS: Record<TransitionType, string> = {
+  crossfade: "叠化",
+  wipe: "擦除",
+  slide: "滑动",
+  "dip-to-black": "闪黑",
+};
+
+/** 拖拽距离小于该像素数时视为点击（打开类型菜单） */
+const DRAG_THRESHOLD_PX = 3;
+
+interface TransitionBlockProps {
+  /** 生效中的转场（时长已按片段长度收紧） */
+  transition: Transition;
+  /**
+   * 当前渲染在哪个片段上：
+   * - to：画在转入片段左侧
+   * - from：画在转出片段右侧
+   * 两半合起来以接缝为中心。
+   */
+  role: "from" | "to";
+  /** 时间轴每秒像素 */
+  pxPerSecond: number;
+  /** 转场允许的最大时长（秒） */
+  maxDuration: number;
+  /** 轨道锁定时只展示、不可编辑 */
+  locked: boolean;
+}
+
+/**
+ * 时间轴上的转场块：拖拽外侧边缘调整时长，点击打开类型菜单。
+ *
+ * 拖拽过程中只更新本地草稿时长，松手后再写入 store，保证一次拖拽只产生一条历史记录。
+ */
+export function TransitionBlock({
+  transition,
+  role,
+  pxPerSecond,
+  maxDuration,
+  locked,
+}: TransitionBlockProps) {
+  const updateTransition = useProjectStore((s) => s.updateTransition);
+  const removeTransition = useProjectStore((s) => s.removeTransition);
+  const [open, setOpen] = useState(false);
+  /** 拖拽中的草稿时长，null 表示未在拖拽 */
+  const [draftDuration, setDraftDuration] = useState<number | null>(null);
+  const dragRef = useRef<{
+    startX: number;
+    startDuration: number;
+    moved: boolean;
+  } | null>(null);
+  /** 上一次指针操作是否为拖拽，用于抑制随后的 click 打开菜单 */
+  const draggedRef = useRef(false);
+
+  const duration = draftDuration ?? transition.duration;
+  const widthPx = (duration / 2) * pxPerSecond;
+
+  const clampDuration = (value: number) =>
+    Math.min(maxDuration, Math.max(MIN_TRANSITION_DURATION, value));
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    // 阻止时间轴把本次按下当作片段拖拽
+    e.stopPropagation();
+    if (locked || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      startX: e.clientX,
+      startDuration: transition.duration,
+      moved: false,
+    };
+    draggedRef.current = false;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    if (!drag.moved && Math.abs(dx) < DRAG_THRESHOLD_PX) return;
+    drag.moved = true;
+    // 转入侧向右拖、转出侧向左拖为加长；块宽度是时长的一半
+    const deltaSeconds = ((role === "to" ? dx : -dx) * 2) / pxPerSecond;
+    setDraftDuration(clampDuration(drag.startDuration + deltaSeconds));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (drag.moved && draftDuration != null) {
+      draggedRef.current = true;
+      updateTransition(transition.id, { duration: draftDuration });
+    }
+    setDraftDuration(null);
+  };
+
+  return (
+    <Popover.Root open={open} onOpenChange={setOpen}>
+      <Popover.Trigger asChild>
+        <button
+          type="button"
+          className={`vitecut-timeline-transition vitecut-timeline-transition--${role}${
+            locked ? " vitecut-timeline-transition--locked" : ""
+          }`}
+          style={{ width: widthPx }}
+          aria-label={`转场：${TRANSITION_TYPE_LABELS[transition.type]}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (locked || draggedRef.current) {
+              draggedRef.current = false;
+              e.preventDefault();
+            }
+          }}
+        />
+      </Popover.Trigger>
+      <Popover.Portal>
+        <Popover.Content
+          className="vitecut-timeline-transition__popover"
+          side="top"
+          sideOffset={6}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="vitecut-timeline-transition__popover-title">
+            转场 · {transition.duration.toFixed(1)}s
+          </div>
+          {TRANSITION_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              className={`vitecut-timeline-transition__option${
+                type === transition.type
+                  ? " vitecut-timeline-transition__option--active"
+                  : ""
+              }`}
+              onClick={() => {
+                updateTransition(transition.id, { type });
+                setOpen(false);
+              }}
+            >
+              {TRANSITION_TYPE_LABELS[type]}
+            </button>
+          ))}
+          <button
+            type="button"
+            className="vitecut-timeline-transition__option vitecut-timeline-transition__option--danger"
+            onClick={() => {
+              removeTransition(transition.id);
+              setOpen(false);
+            }}
+          >
+            <Trash2 size={14} />
+            删除转场
+          </button>
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+}
+
+/**
+ * 转出片段右侧的「添加转场」按钮，仅在与下一片段首尾相接且尚无转场时显示。
+ */
+export function AddTransitionButton({ clipId }: { clipId: string }) {
+  const addTransition = useProjectStore((s) => s.addTransition);
+  return (
+    <Tooltip content="添加转场">
+      <button
+        type="button"
+        className="vitecut-timeline-transition-add"
+        aria-label="添加转场"
+        onPointerDown={(e) => e.stopPropagation()}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          addTransition(clipId);
+        }}
+      >
+        <Plus size={12} />
+      </button>
+    </Tooltip>
+  );
+}
@@ -8,6 +8,7 @@ import {
   SquareSplitHorizontal,
   CopyPlus,
   Trash2,
+  Layers,
   SkipBack,
   Play,
   Pause,
@@ -63,6 +64,11 @@ type PlaybackControlsProps = {
   onCutClip?: () => void; // 在播放头处将选中 clip 切成两段，仅当播放头在该 clip 内时可用
   onCopyClip?: () => void; // 复制当前选中的 clip 到其上方新轨道并保持时间区间，无选中时可不传或置为 undefined
   onDeleteClip?: () => void; // 删除当前选中的 clip，无选中时可不传或置为 undefined
+  onCreateCompoundClip?: () => void; // 将多选的 clip 折叠为复合片段，选中不足两个时可不传
+  rippleEnabled?: boolean; // 是否开启波纹编辑（删除/裁剪收拢空隙，插入后推后续片段）
+  onRippleEnabledChange?: (value: boolean) => void; // 切换波纹编辑
+  rippleAllTracks?: boolean; // 波纹编辑是否作用于所有未锁定轨道
+  onRippleAllTracksChange?: (value: boolean) => void; // 切换波纹编辑作用范围
 };
 
 const TrimLeftIcon = () => (
@@ -129,6 +135,11 @@ export const PlaybackControls = ({
   onCutClip,
   onCopyClip,
   onDeleteClip,
+  onCreateCompoundClip,
+  rippleEnabled = false,
+  onRippleEnabledChange,
+  rippleAllTracks = false,
+  onRippleAllTracksChange,
 }: PlaybackControlsProps) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [timelineSettingsConfig, setTimelineSettingsConfig] =
@@ -221,6 +232,15 @@ export const PlaybackControls = ({
             <Trash2 size={16} />
           </button>
         </Tooltip>
+        <Tooltip content="创建复合片段">
+          <button
+            className="playback-controls__btn"
+            disabled={!onCreateCompoundClip}
+            onClick={onCreateCompoundClip}
+          >
+            <Layers size={16} />
+          </button>
+        </Tooltip>
       </div>
       {/* 中间播放主控区域 */}
       <div className="playback-controls__center">
@@ -287,6 +307,32 @@ export const PlaybackControls = ({
               sideOffset={6}
               align="end"
             >
+              <div className="playback-controls__popover-row">
+                <span className="playback-controls__popover-label">
+                  波纹编辑
+                </span>
+                <Switch.Root
+                  className="playback-controls__switch"
+                  checked={rippleEnabled}
+                  disabled={!onRippleEnabledChange}
+                  onCheckedChange={onRippleEnabledChange}
+                >
+                  <Switch.Thumb className="playback-controls__switch-thumb" />
+                </Switch.Root>
+              </div>
+              <div className="playback-controls__popover-row">
+                <span className="playback-controls__popover-label">
+                  波纹作用于所有轨道
+                </span>
+                <Switch.Root
+                  className="playback-controls__switch"
+                  checked={rippleAllTracks}
+                  disabled={!rippleEnabled || !onRippleAllTracksChange}
+                  onCheckedChange={onRippleAllTracksChange}
+                >
+                  <Switch.Thumb className="playback-controls__switch-thumb" />
+                </Switch.Root>
+              </div>
               <div className="playback-controls__popover-row">
                 <span className="playback-controls__popover-label">
                   次刻度线
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+
+/** 指针移动超过该距离（px）才视为框选，避免与点击空白跳转冲突 */
+const MARQUEE_THRESHOLD_PX = 4;
+
+/** 不触发框选的区域：clip、刻度尺、轨道面板、按钮等 */
+const MARQUEE_IGNORE_SELECTOR = [
+  "[data-vitecut-clip]",
+  "[data-vitecut-clip-id]",
+  ".timeline-editor-action",
+  ".timeline-ruler-canvas",
+  ".vitecut-timeline-track-panel",
+  ".vitecut-timeline-row-prefix-list",
+  "button",
+].join(",");
+
+/** 框选矩形（视口坐标） */
+export type TimelineMarqueeRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/** useTimelineMarquee 接收的参数类型定义 */
+type TimelineMarqueeParams = {
+  /** 时间轴容器，框选只在其内部空白处开始，并在其中查找 clip */
+  containerRef: { current: HTMLElement | null };
+  /** 是否启用（时间轴为空时容器会切换，需要重新绑定） */
+  enabled: boolean;
+  /**
+   * 框选结束时回调
+   * @param clipIds 与框选矩形相交的 clip id（按 DOM 顺序）
+   * @param additive 是否按住 Shift（追加到现有选中集合）
+   */
+  onSelect: (clipIds: string[], additive: boolean) => void;
+};
+
+const intersects = (a: TimelineMarqueeRect, b: DOMRect) =>
+  a.left < b.right &&
+  a.left + a.width > b.left &&
+  a.top < b.bottom &&
+  a.top + a.height > b.top;
+
+/**
+ * 时间轴框选：在轨道空白处按下并拖动，松开时选中与矩形相交的 clip。
+ * clip 通过 getActionRender 外层的 data-vitecut-clip-id 属性定位。
+ */
+export function useTimelineMarquee({
+  containerRef,
+  enabled,
+  onSelect,
+}: TimelineMarqueeParams): TimelineMarqueeRect | null {
+  const [rect, setRect] = useState<TimelineMarqueeRect | null>(null);
+  const onSelectRef = useRef(onSelect);
+
+  // 回调每次渲染都会变化，存入 ref 供指针事件读取最新值，避免重复绑定监听
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) {
+      return;
+    }
+
+    let origin: { x: number; y: number } | null = null;
+    let current: TimelineMarqueeRect | null = null;
+
+    const toRect = (e: PointerEvent): TimelineMarqueeRect => ({
+      left: Math.min(origin!.x, e.clientX),
+      top: Math.min(origin!.y, e.clientY),
+      width: Math.abs(e.clientX - origin!.x),
+      height: Math.abs(e.clientY - origin!.y),
+    });
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!origin) return;
+      const next = toRect(e);
+      if (
+        !current &&
+        Math.max(next.width, next.height) < MARQUEE_THRESHOLD_PX
+      ) {
+        return;
+      }
+      current = next;
+      setRect(next);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      const finalRect = current;
+      origin = null;
+      current = null;
+      if (!finalRect) return;
+      setRect(null);
+      const clipIds = Array.from(
+        container.querySelectorAll<HTMLElement>("[data-vitecut-clip-id]")
+      )
+        .filter((el) => intersects(finalRect, el.getBoundingClientRect()))
+        .map((el) => el.dataset.vitecutClipId!);
+      onSelectRef.current(clipIds, e.shiftKey);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      const target = e.target as HTMLElement;
+      if (target.closest?.(MARQUEE_IGNORE_SELECTOR)) return;
+      origin = { x: e.clientX, y: e.clientY };
+      window.addEventListener("pointermove", handlePointerMove);
+      window.addEventListener("pointerup", handlePointerUp);
+    };
+
+    container.addEventListener("pointerdown", handlePointerDown);
+    return () => {
+      container.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      setRect(null);
+    };
+  }, [containerRef, enabled]);
+
+  return rect;
+}
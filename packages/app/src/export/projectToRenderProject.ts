@@ -5,29 +5,94 @@ import type {
   RenderTrack,
   RenderClip,
 } from "@vitecut/project";
-import { getProjectDuration } from "@vitecut/project";
+import {
+  flattenCompoundClips,
+  getActiveDuckings,
+  getActiveTransitions,
+  getProjectDuration,
+  trimClipToRange,
+} from "@vitecut/project";
+
+/** 导出时间范围（时间轴绝对时间，秒） */
+export interface ExportRange {
+  start: number;
+  end: number;
+}
+
+/** projectToRenderProject 的可选参数 */
+export interface ProjectToRenderProjectOptions {
+  /** 只导出该时间范围（如命名区间），缺省导出整个工程 */
+  range?: ExportRange;
+}
+
+/**
+ * 将工程裁到 [range.start, range.end]：丢弃范围外的片段，跨边界的片段裁掉超出部分
+ * （被裁掉一端的淡入淡出一并去掉，见 trimClipToRange），再整体前移 range.start，使导出从 0 开始。
+ */
+function clipProjectToRange(project: Project, range: ExportRange): Project {
+  const tracks = project.tracks.map((track) => ({
+    ...track,
+    clips: track.clips.flatMap((clip) => {
+      const trimmed = trimClipToRange(clip, range.start, range.end);
+      return trimmed
+        ? [
+            {
+              ...trimmed,
+              start: trimmed.start - range.start,
+              end: trimmed.end - range.start,
+            },
+          ]
+        : [];
+    }),
+  }));
+  return { ...project, tracks };
+}
 
 /**
  * 将编辑态的 Project 转换为用于导出/后端渲染的 RenderProject。
  *
  * 说明：
  * - 当前实现主要是结构瘦身与补充 duration，字段基本一一映射；
- * - 资源的 source 直接透传，素材在添加时已通过 /api/media 上传为 HTTP URL，
- *   导出时无需再做 blob 上传。
+ * - 转场只保留当前生效的（两端片段仍相接），时长已按片段长度收紧；
+ * - 音频闪避只保留生效中的（见 getActiveDuckings），触发轨道静音时不发送；
+ * - 资源的 source 直接透传：上传素材为 HTTP URL，形状/表情为 SVG data URL，
+ *   由渲染端解析（见 api 的 assetSources.ts）；blob 地址渲染端无法读取，
+ *   提交前需用 getLocalOnlyAssetIds 检查并提示用户；
+ * - 复合片段先展开为普通片段（见 flattenCompoundClips），渲染端只处理扁平轨道；
+ * - 指定 range 时只导出该范围，片段按范围裁剪并平移到从 0 开始。
  */
-export function projectToRenderProject(project: Project): RenderProject {
-  const duration = getProjectDuration(project);
+export function projectToRenderProject(
+  sourceProject: Project,
+  options: ProjectToRenderProjectOptions = {}
+): RenderProject {
+  const flattened = flattenCompoundClips(sourceProject);
+  const project = options.range
+    ? clipProjectToRange(flattened, options.range)
+    : flattened;
+  // 指定范围时按范围长度导出，范围末尾没有片段的部分保留为黑场 / 静音
+  const duration = options.range
+    ? options.range.end - options.range.start
+    : getProjectDuration(project);
 
-  const assets: RenderAsset[] = project.assets.map((asset) => ({
-    id: asset.id,
-    source: asset.source,
-    kind: asset.kind,
-    duration: asset.duration,
-    videoMeta: asset.videoMeta,
-    audioMeta: asset.audioMeta,
-    imageMeta: asset.imageMeta,
-    textMeta: asset.textMeta,
-  }));
+  const assets: RenderAsset[] = project.assets
+    .filter((asset) => asset.kind !== "compound")
+    .map((asset) => ({
+      id: asset.id,
+      source: asset.source,
+      kind: asset.kind,
+      duration: asset.duration,
+      videoMeta: asset.videoMeta,
+      audioMeta: asset.audioMeta,
+      imageMeta: asset.imageMeta,
+      textMeta: asset.textMeta,
+    }));
+
+  // 只发送生效中的闪避：触发轨道在展开 / 裁剪后仍存在且未静音
+  const duckingByTrackId = new Map(
+    getActiveDuckings(project)
+      .filter(({ source }) => !source.muted)
+      .map(({ track, ducking }) => [track.id, ducking])
+  );
 
   const tracks: RenderTrack[] = project.tracks.map((track) => {
     const clips: RenderClip[] = track.clips.map((clip) => ({
@@ -41,7 +106,9 @@ export function projectToRenderProject(project: Project): RenderProject {
       outPoint: clip.outPoint,
       transform: clip.transform,
       params: clip.params,
+      keyframes: clip.keyframes,
     }));
+    const transitions = getActiveTransitions(track);
 
     return {
       id: track.id,
@@ -51,6 +118,8 @@ export function projectToRenderProject(project: Project): RenderProject {
       muted: track.muted,
       hidden: track.hidden,
       clips,
+      transitions: transitions.length > 0 ? transitions : undefined,
+      ducking: duckingByTrackId.get(track.id),
     };
   });
 
@@ -72,3 +141,18 @@ export function projectToRenderProject(project: Project): RenderProject {
 
   return renderProject;
 }
+
+/**
+ * 被片段引用、但 source 为 blob 地址（仅存在于当前浏览器，如直接拖入未上传的本地文件）的素材 id。
+ * 渲染端无法读取这类素材，导出前应提示用户先上传。
+ */
+export function getLocalOnlyAssetIds(renderProject: RenderProject): string[] {
+  const usedAssetIds = new Set(
+    renderProject.tracks.flatMap((t) => t.clips.map((c) => c.assetId))
+  );
+  return renderProject.assets
+    .filter(
+      (asset) => usedAssetIds.has(asset.id) && /^blob:/i.test(asset.source)
+    )
+    .map((asset) => asset.id);
+}
@@ -17,6 +17,7 @@ export type {
   ProjectStore,
   ProjectStoreState,
   ProjectStoreActions,
+  CompoundEditFrame,
 } from "./projectStore.types";
 
 export { useTaskStore } from "./taskStore";
@@ -15,12 +15,41 @@ import {
   removeClip,
   reorderTracks as reorderTracksProject,
   setTrackMuted,
+  setClipKeyframe as setClipKeyframeProject,
+  removeClipKeyframe as removeClipKeyframeProject,
+  shiftClipKeyframes,
+  type ClipKeyframes,
+  type Keyframe,
+  type KeyframeProperty,
+  type Transition,
+  type TrackDucking,
+  type TransitionType,
+  canAddTransition,
+  findNextAdjacentClip,
+  getMaxTransitionDuration,
+  setTrackTransitions,
+  setTrackDucking as setTrackDuckingProject,
+  normalizeTrackDucking,
+  DEFAULT_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  type Marker,
+  type Region,
+  setProjectMarkers,
+  setProjectRegions,
+  DEFAULT_MARKER_COLOR,
+  createCompoundSubProject,
+  getCompoundDuration,
+  setCompoundTracks,
+  getLinkedClips,
+  expandLinkedClipIds,
+  hasDetachableAudio,
 } from "@vitecut/project";
 import { probeMedia } from "@vitecut/media";
 import { uploadFileToMedia } from "@/utils/uploadFileToMedia";
+import { scheduleProjectAutosave } from "@/utils/projectAutosave";
 import type { MediaMeta } from "@/api/mediaApi";
 import { createId } from "@vitecut/utils";
-import { DEFAULT_MAX_HISTORY } from "@vitecut/history";
+import { DEFAULT_MAX_HISTORY, type Command } from "@vitecut/history";
 import {
   createUpdateClipTimingCommand,
   createDuplicateClipCommand,
@@ -41,8 +70,22 @@ import {
   createUpdateClipTransformCommand,
   createAddTextClipCommand,
   createUpdateClipParamsCommand,
+  createUpdateClipKeyframesCommand,
+  createSetTrackTransitionsCommand,
+  createSetTrackDuckingCommand,
+  createSetProjectMarkersCommand,
+  createSetProjectRegionsCommand,
+  createReplaceTracksCommand,
+  createSetCompoundTracksCommand,
+  createSetClipsLinkCommand,
+  createBatchCommand,
+  createRippleCloseGapCommand,
+  createRippleInsertCommand,
 } from "./projectStoreCommands";
-import type { ProjectStore } from "./projectStore.types";
+import type {
+  CompoundEditFrame,
+  ProjectStore,
+} from "./projectStore.types";
 
 /**
  * 将 [start, end] 约束到与同轨道其他 clip 不重叠的位置，保持时长不变。
@@ -259,6 +302,57 @@ function removeClipKeepMainTrack(
   };
 }
 
+/**
+ * 把子工程（复合片段子时间轴）合并回外层工程：写回内部轨道，
+ * 资源池与画布参数以子工程为准（嵌套编辑期间可能导入了新素材、改了画布）。
+ */
+function mergeCompoundFrame(frame: CompoundEditFrame, sub: Project): Project {
+  return setCompoundTracks(
+    {
+      ...frame.project,
+      name: sub.name,
+      width: sub.width,
+      height: sub.height,
+      backgroundColor: sub.backgroundColor,
+      assets: sub.assets,
+    },
+    frame.assetId,
+    sub.tracks
+  );
+}
+
+/**
+ * 将选中的 clip 移入复合片段子时间轴：按源轨道分组、时间平移到从 0 开始，
+ * 只保留两端 clip 都被选中的转场。内部轨道使用新 id，避免与外层轨道混淆。
+ */
+function buildCompoundTracks(
+  project: Project,
+  clipIds: Set<string>,
+  start: number
+): Track[] {
+  return project.tracks
+    .filter((track) => track.clips.some((clip) => clipIds.has(clip.id)))
+    .map((track) => {
+      const trackId = createId("track") as Track["id"];
+      return {
+        ...track,
+        id: trackId,
+        locked: false,
+        clips: track.clips
+          .filter((clip) => clipIds.has(clip.id))
+          .map((clip) => ({
+            ...clip,
+            trackId,
+            start: clip.start - start,
+            end: clip.end - start,
+          })),
+        transitions: track.transitions?.filter(
+          (t) => clipIds.has(t.fromClipId) && clipIds.has(t.toClipId)
+        ),
+      };
+    });
+}
+
 /**
  * ProjectStore（zustand）实现
  * ===========================
@@ -276,6 +370,267 @@ function removeClipKeepMainTrack(
  * - **时间轴拖拽不写回**：若 Timeline 上移动 clip 没有更新 `project` 的 start/end，
  *   Preview 与导出仍会按旧时间区间渲染。
  */
+/** 查找可编辑的 clip：不存在或位于锁定轨道时返回 undefined */
+function findEditableClip(project: Project, clipId: string): Clip | undefined {
+  const clip = findClipById(project, clipId as Clip["id"]);
+  if (!clip) return undefined;
+  const track = project.tracks.find((t) => t.id === clip.trackId);
+  return track && !track.locked ? clip : undefined;
+}
+
+/** 选中集合中的可编辑 clip（去重，保持原顺序） */
+function findEditableClips(project: Project, clipIds: string[]): Clip[] {
+  return [...new Set(clipIds)]
+    .map((id) => findEditableClip(project, id))
+    .filter((clip): clip is Clip => !!clip);
+}
+
+/** 波纹编辑参与的轨道：仅被编辑 clip 所在轨道，或全部未锁定轨道 */
+function getRippleTrackIds(
+  project: Project,
+  trackId: string,
+  allTracks: boolean
+): string[] {
+  if (!allTracks) return [trackId];
+  return project.tracks
+    .filter((t) => t.id === trackId || !t.locked)
+    .map((t) => t.id);
+}
+
+/**
+ * 开启波纹编辑时收拢空隙 [gapStart, gapEnd]：立即执行平移并返回命令，
+ * 供调用方与编辑命令合并为一条历史记录；未开启或无需平移时返回 null。
+ */
+function applyRippleClose(
+  get: () => ProjectStore,
+  set: (partial: Partial<ProjectStore>) => void,
+  trackId: string,
+  gapStart: number,
+  gapEnd: number
+): Command | null {
+  const { project, timelineRippleEnabled, timelineRippleAllTracks } = get();
+  if (!project || !timelineRippleEnabled) return null;
+  const cmd = createRippleCloseGapCommand(
+    get,
+    set,
+    getRippleTrackIds(project, trackId, timelineRippleAllTracks),
+    gapStart,
+    gapEnd
+  );
+  cmd?.execute();
+  return cmd;
+}
+
+/**
+ * 开启波纹编辑时为插入区间 [insertStart, insertEnd] 腾出位置：后推重叠的后续 clip，
+ * 立即执行并返回命令；未开启或无需平移时返回 null。
+ */
+function applyRippleInsert(
+  get: () => ProjectStore,
+  set: (partial: Partial<ProjectStore>) => void,
+  trackId: string,
+  clipId: string,
+  insertStart: number,
+  insertEnd: number
+): Command | null {
+  const { project, timelineRippleEnabled, timelineRippleAllTracks } = get();
+  if (!project || !timelineRippleEnabled) return null;
+  const cmd = createRippleInsertCommand(
+    get,
+    set,
+    getRippleTrackIds(project, trackId, timelineRippleAllTracks),
+    trackId,
+    clipId,
+    insertStart,
+    insertEnd
+  );
+  cmd?.execute();
+  return cmd;
+}
+
+/** 编辑命令后附带波纹平移时，合并为一条历史记录 */
+function withRipple(cmd: Command, rippleCmd: Command | null): Command {
+  return rippleCmd ? createBatchCommand([cmd, rippleCmd]) : cmd;
+}
+
+/**
+ * 联动片段跟随被编辑 clip 的起止变化：移动时整体平移，裁剪时同步调整入点 / 出点。
+ * 立即执行并返回命令；没有可编辑的联动片段或起止未变时返回 null。
+ * @param clip 被编辑 clip 修改前的状态
+ */
+function applyLinkedTiming(
+  get: () => ProjectStore,
+  set: (partial: Partial<ProjectStore>) => void,
+  clip: Clip,
+  nextStart: number,
+  nextEnd: number
+): Command | null {
+  const project = get().project;
+  if (!project || !clip.linkId) return null;
+  const deltaStart = nextStart - clip.start;
+  const deltaEnd = nextEnd - clip.end;
+  if (Math.abs(deltaStart) < 1e-6 && Math.abs(deltaEnd) < 1e-6) return null;
+  const resized = Math.abs(deltaStart - deltaEnd) > 1e-6;
+
+  const commands = getLinkedClips(project, clip).flatMap((linked) => {
+    if (!findEditableClip(project, linked.id)) return [];
+    const start = Math.max(0, linked.start + deltaStart);
+    const end = Math.max(start + 0.001, linked.end + deltaEnd);
+    let prevInPoint: number | undefined;
+    let prevOutPoint: number | undefined;
+    let nextInPoint: number | undefined;
+    let nextOutPoint: number | undefined;
+    if (resized) {
+      const asset = project.assets.find((a) => a.id === linked.assetId);
+      const assetDuration = asset?.duration ?? linked.end - linked.start;
+      prevInPoint = linked.inPoint ?? 0;
+      prevOutPoint = linked.outPoint ?? assetDuration;
+      nextInPoint = Math.max(
+        0,
+        Math.min(assetDuration, prevInPoint + (start - linked.start))
+      );
+      nextOutPoint = Math.max(
+        nextInPoint + 0.001,
+        Math.min(assetDuration, prevOutPoint + (end - linked.end))
+      );
+    }
+    const cmd = createUpdateClipTimingCommand(
+      get,
+      set,
+      linked.id,
+      linked.start,
+      linked.end,
+      undefined,
+      start,
+      end,
+      undefined,
+      prevInPoint,
+      prevOutPoint,
+      nextInPoint,
+      nextOutPoint
+    );
+    cmd.execute();
+    return [cmd];
+  });
+  return commands.length > 0 ? createBatchCommand(commands) : null;
+}
+
+/**
+ * 检查联动片段跟随被编辑 clip 的起止变化后，能否放进各自轨道而不与其他 clip 重叠。
+ * 移动时放不下则按 constrainClipNoOverlap 把整组位移吸附到联动片段可放下的位置，
+ * 裁剪时放不下、或吸附后整组仍有重叠则放弃本次编辑。
+ * @param clip 被编辑 clip 修改前的状态
+ * @param selfTrackId 被编辑 clip 的目标轨道，吸附后同样检查其是否重叠；为 null 时不检查（如波纹插入）
+ * @returns 被编辑 clip 最终的起止；无法放下时返回 null
+ */
+function fitLinkedTiming(
+  project: Project,
+  clip: Clip,
+  nextStart: number,
+  nextEnd: number,
+  selfTrackId: string | null
+): { start: number; end: number } | null {
+  const linked = getLinkedClips(project, clip).filter((other) =>
+    findEditableClip(project, other.id)
+  );
+  if (linked.length === 0) return { start: nextStart, end: nextEnd };
+
+  // 同组片段一起移动，彼此不算重叠
+  const groupIds = new Set<string>([clip.id, ...linked.map((c) => c.id)]);
+  const othersOnTrack = (trackId: string) =>
+    project.tracks
+      .find((t) => t.id === trackId)
+      ?.clips.filter((c) => !groupIds.has(c.id)) ?? [];
+  const overlaps = (trackId: string, start: number, end: number) =>
+    othersOnTrack(trackId).some(
+      (o) => start < o.end - 1e-6 && end > o.start + 1e-6
+    );
+  // 与 applyLinkedTiming 的计算保持一致
+  const linkedFits = (deltaStart: number, deltaEnd: number) =>
+    linked.every((other) => {
+      const start = Math.max(0, other.start + deltaStart);
+      const end = Math.max(start + 0.001, other.end + deltaEnd);
+      return !overlaps(other.trackId, start, end);
+    });
+
+  const deltaStart = nextStart - clip.start;
+  const deltaEnd = nextEnd - clip.end;
+  if (linkedFits(deltaStart, deltaEnd)) {
+    return { start: nextStart, end: nextEnd };
+  }
+  if (Math.abs(deltaStart - deltaEnd) > 1e-6) return null;
+
+  for (const other of linked) {
+    const snapped = constrainClipNoOverlap(
+      othersOnTrack(other.trackId),
+      other.id,
+      other.start + deltaStart,
+      other.end + deltaStart
+    );
+    const delta = snapped.start - other.start;
+    const start = clip.start + delta;
+    const end = clip.end + delta;
+    if (start < -1e-6) continue;
+    if (selfTrackId && overlaps(selfTrackId, start, end)) continue;
+    if (linkedFits(delta, delta)) return { start, end };
+  }
+  return null;
+}
+
+/** 去掉 params 中的某个字段；字段不存在时原样返回 */
+function omitClipParam(
+  params: Clip["params"],
+  key: string
+): Clip["params"] {
+  if (!params || !(key in params)) return params;
+  const next = { ...params };
+  delete next[key];
+  return next;
+}
+
+/**
+ * 在时间轴时间 time 处把 clip 分成左右两段：右半段使用新 id，
+ * 入点 / 出点与关键帧随之调整。
+ * @param rightLinkId 右半段的联动组 id
+ */
+function splitClipAt(
+  project: Project,
+  clip: Clip,
+  time: number,
+  rightLinkId: string | undefined
+): { leftClip: Clip; rightClip: Clip } {
+  const inPoint = clip.inPoint ?? 0;
+  // 获取 asset 的时长，用于计算 outPoint 的默认值
+  const asset = project.assets.find((a) => a.id === clip.assetId);
+  const assetDuration = asset?.duration ?? clip.end - clip.start;
+  const outPoint = clip.outPoint ?? assetDuration;
+
+  // 淡入只保留在左半段、淡出只保留在右半段
+  const leftClip: Clip = {
+    ...clip,
+    end: time,
+    outPoint: inPoint + (time - clip.start),
+    params: omitClipParam(clip.params, "fadeOut"),
+  };
+  const rightClip: Clip = {
+    ...clip,
+    id: createId("clip") as Clip["id"],
+    start: time,
+    inPoint: inPoint + (time - clip.start),
+    outPoint: outPoint, // 保持原始 clip 的 outPoint
+    params: omitClipParam(clip.params, "fadeIn"),
+    // 关键帧时间相对片段起点，右半段整体前移以保持动画不变
+    keyframes: shiftClipKeyframes(clip.keyframes, clip.start - time),
+    linkId: rightLinkId,
+  };
+  return { leftClip, rightClip };
+}
+
+/** 编辑命令后附带联动片段的修改时，合并为一条历史记录 */
+function withLinked(cmd: Command, linkedCmd: Command | null): Command {
+  return linkedCmd ? createBatchCommand([cmd, linkedCmd]) : cmd;
+}
+
 export const useProjectStore = create<ProjectStore>()(
   subscribeWithSelector((set, get) => ({
     // 当前正在编辑的项目数据（Project 对象），为 null 表示尚未载入或新建
@@ -298,15 +653,20 @@ export const useProjectStore = create<ProjectStore>()(
     preferredCanvasPreset: "16:9",
     // 当前选中的 clip id（画布选中编辑用）
     selectedClipId: null,
+    selectedClipIds: [],
     // 时间轴 clip 拖拽时是否启用吸附
     timelineSnapEnabled: true,
+    timelineRippleEnabled: false,
+    timelineRippleAllTracks: false,
     // 已完成的命令历史（用于撤销）
     historyPast: [],
     // 可重做的命令历史（用于重做）
     historyFuture: [],
+    // 复合片段嵌套编辑栈，为空时编辑的是根工程
+    compoundStack: [],
 
     /**
-     * 添加一条新的命令到历史，并清空可重做历史
+     * 添加一条新的命令到历史，并清空可重做历史；随后防抖写入自动保存快照
      * @param cmd 可撤销/重做的命令对象（必须实现 execute/undo）
      */
     pushHistory(cmd: { execute: () => void; undo: () => void }) {
@@ -314,6 +674,7 @@ export const useProjectStore = create<ProjectStore>()(
       // 限制历史长度为 DEFAULT_MAX_HISTORY
       const next = [...past, cmd].slice(-DEFAULT_MAX_HISTORY);
       set({ historyPast: next, historyFuture: [] });
+      scheduleProjectAutosave(() => get().getRootProject());
     },
 
     /**
@@ -337,6 +698,7 @@ export const useProjectStore = create<ProjectStore>()(
         historyFuture: [...get().historyFuture, cmd],
         ...(shouldClearSelection ? { selectedClipId: null } : {}),
       });
+      scheduleProjectAutosave(() => get().getRootProject());
     },
 
     /**
@@ -370,6 +732,7 @@ export const useProjectStore = create<ProjectStore>()(
         historyFuture: future.slice(0, -1),
         ...(shouldClearSelection ? { selectedClipId: null } : {}),
       });
+      scheduleProjectAutosave(() => get().getRootProject());
     },
 
     /**
@@ -971,6 +1334,40 @@ export const useProjectStore = create<ProjectStore>()(
       set({ isPlaying });
     },
 
+    /**
+     * 打开已有工程：替换当前工程并重置播放、选中与历史状态。
+     */
+    openProject(project: Project) {
+      const prevUrl = get().videoUrl;
+      if (prevUrl?.startsWith("blob:")) {
+        URL.revokeObjectURL(prevUrl);
+      }
+      set({
+        project,
+        duration: getProjectDuration(project),
+        currentTime: 0,
+        isPlaying: false,
+        videoUrl: null,
+        selectedClipId: null,
+        preferredCanvasSize: { width: project.width, height: project.height },
+        preferredCanvasPreset: null,
+        historyPast: [],
+        historyFuture: [],
+        compoundStack: [],
+      });
+    },
+
+    /**
+     * 修改工程名称（不进入撤销历史）。
+     */
+    setProjectName(name: string) {
+      const project = get().project;
+      if (!project || project.name === name) return;
+      set({
+        project: { ...project, name, updatedAt: new Date().toISOString() },
+      });
+    },
+
     /**
      * 设置画布背景色。写入 project.backgroundColor，并用于预览与导出。
      */
@@ -998,6 +1395,14 @@ export const useProjectStore = create<ProjectStore>()(
       set({ timelineSnapEnabled: true });
     },
 
+    setTimelineRippleEnabled(enabled: boolean) {
+      set({ timelineRippleEnabled: enabled });
+    },
+
+    setTimelineRippleAllTracks(allTracks: boolean) {
+      set({ timelineRippleAllTracks: allTracks });
+    },
+
     /**
      * 设置画布尺寸（width/height）。
      * - 有工程时：更新 project 并支持撤销；
@@ -1073,6 +1478,7 @@ export const useProjectStore = create<ProjectStore>()(
         trackId: newTrackId,
         start: clip.start,
         end: clip.end,
+        linkId: undefined,
       };
       let nextProject = addTrack(project, newTrack);
       nextProject = addClip(nextProject, newClip);
@@ -1097,24 +1503,21 @@ export const useProjectStore = create<ProjectStore>()(
       if (!clip) return;
       if (currentTime <= clip.start || currentTime >= clip.end) return;
 
-      const inPoint = clip.inPoint ?? 0;
-      // 获取 asset 的时长，用于计算 outPoint 的默认值
-      const asset = project.assets.find((a) => a.id === clip.assetId);
-      const assetDuration = asset?.duration ?? clip.end - clip.start;
-      const outPoint = clip.outPoint ?? assetDuration;
-
-      const leftClip: Clip = {
-        ...clip,
-        end: currentTime,
-        outPoint: inPoint + (currentTime - clip.start),
-      };
-      const rightClip: Clip = {
-        ...clip,
-        id: createId("clip") as Clip["id"],
-        start: currentTime,
-        inPoint: inPoint + (currentTime - clip.start),
-        outPoint: outPoint, // 保持原始 clip 的 outPoint
-      };
+      // 联动片段在同一时间点一起分割，右半段组成新的联动组
+      const linkedTargets = getLinkedClips(project, clip).filter(
+        (linked) =>
+          !!findEditableClip(project, linked.id) &&
+          currentTime > linked.start &&
+          currentTime < linked.end
+      );
+      const rightLinkId =
+        linkedTargets.length > 0 ? createId("link") : clip.linkId;
+      const { leftClip, rightClip } = splitClipAt(
+        project,
+        clip,
+        currentTime,
+        rightLinkId
+      );
 
       const tracks = project.tracks.map((track) => {
         if (track.id !== clip.trackId) return track;
@@ -1132,8 +1535,24 @@ export const useProjectStore = create<ProjectStore>()(
         project: nextProject,
         duration: getProjectDuration(nextProject),
       });
+      const cmd = createCutClipCommand(get, set, clip, leftClip, rightClip);
+      const linkedCommands = linkedTargets.map((linked) => {
+        const halves = splitClipAt(project, linked, currentTime, rightLinkId);
+        const linkedCmd = createCutClipCommand(
+          get,
+          set,
+          linked,
+          halves.leftClip,
+          halves.rightClip
+        );
+        linkedCmd.execute();
+        return linkedCmd;
+      });
       get().pushHistory(
-        createCutClipCommand(get, set, clip, leftClip, rightClip)
+        withLinked(
+          cmd,
+          linkedCommands.length > 0 ? createBatchCommand(linkedCommands) : null
+        )
       );
     },
 
@@ -1161,7 +1580,13 @@ export const useProjectStore = create<ProjectStore>()(
         nextInPoint
       );
       cmd.execute();
-      get().pushHistory(cmd);
+      const linkedCmd = applyLinkedTiming(get, set, clip, nextStart, clip.end);
+      get().pushHistory(
+        withRipple(
+          withLinked(cmd, linkedCmd),
+          applyRippleClose(get, set, clip.trackId, clip.start, nextStart)
+        )
+      );
     },
 
     /**
@@ -1194,7 +1619,13 @@ export const useProjectStore = create<ProjectStore>()(
         nextOutPoint
       );
       cmd.execute();
-      get().pushHistory(cmd);
+      const linkedCmd = applyLinkedTiming(get, set, clip, clip.start, nextEnd);
+      get().pushHistory(
+        withRipple(
+          withLinked(cmd, linkedCmd),
+          applyRippleClose(get, set, clip.trackId, nextEnd, clip.end)
+        )
+      );
     },
 
     /**
@@ -1220,16 +1651,163 @@ export const useProjectStore = create<ProjectStore>()(
         duration,
         currentTime,
       });
+      const cmd = createDeleteClipCommand(
+        get,
+        set,
+        clip,
+        currentTime,
+        willRemoveTrack ? track : undefined,
+        !hasContent ? project : undefined
+      );
       get().pushHistory(
-        createDeleteClipCommand(
+        withRipple(
+          cmd,
+          applyRippleClose(get, set, clip.trackId, clip.start, clip.end)
+        )
+      );
+    },
+
+    /**
+     * 批量删除 clip：逐个基于当前状态生成删除命令并执行，合并为一条历史记录。
+     */
+    deleteClips(clipIds: string[]) {
+      const project = get().project;
+      if (!project) return;
+      const targets = findEditableClips(project, clipIds);
+      if (targets.length === 0) return;
+
+      const commands = targets.flatMap((target) => {
+        const current = get().project;
+        // 前面的删除可能已波纹平移过该 clip，取当前位置
+        const clip = current && findClipById(current, target.id);
+        if (!current || !clip) return [];
+        const track = current.tracks.find((t) => t.id === clip.trackId);
+        const willRemoveTrack =
+          track && track.clips.length === 1 && track.clips[0]?.id === clip.id;
+        const nextProject = removeClipKeepMainTrack(current, clip.id);
+        const hasContent = nextProject.tracks.length > 0;
+        const duration = hasContent ? getProjectDuration(nextProject) : 0;
+        const cmd = createDeleteClipCommand(
           get,
           set,
           clip,
-          currentTime,
+          Math.min(get().currentTime, duration),
           willRemoveTrack ? track : undefined,
-          !hasContent ? project : undefined
-        )
+          !hasContent ? current : undefined
+        );
+        cmd.execute();
+        const rippleCmd = applyRippleClose(
+          get,
+          set,
+          clip.trackId,
+          clip.start,
+          clip.end
+        );
+        return rippleCmd ? [cmd, rippleCmd] : [cmd];
+      });
+      get().pushHistory(createBatchCommand(commands));
+    },
+
+    /**
+     * 批量复制 clip：同一源轨道上的片段复制到同一条新轨道（位于源轨道上方）。
+     * 只有每条新轨道的第一个复制命令携带轨道信息，undo 逆序执行时最后移除轨道。
+     */
+    duplicateClips(clipIds: string[]) {
+      const project = get().project;
+      if (!project) return [];
+      const sources = findEditableClips(project, clipIds);
+      if (sources.length === 0) return [];
+
+      const newTrackIdBySource = new Map<string, Track["id"]>();
+      const newClipIds: string[] = [];
+      const commands = sources.map((clip) => {
+        const current = get().project!;
+        let newTrack: Omit<Track, "clips"> | undefined;
+        let newTrackId = newTrackIdBySource.get(clip.trackId);
+        if (!newTrackId) {
+          const sourceTrack = current.tracks.find(
+            (t) => t.id === clip.trackId
+          )!;
+          newTrackId = createId("track") as Track["id"];
+          newTrackIdBySource.set(clip.trackId, newTrackId);
+          newTrack = {
+            id: newTrackId,
+            kind: sourceTrack.kind,
+            name:
+              sourceTrack.name === MAIN_TRACK_NAME
+                ? `${MAIN_TRACK_NAME}-副本`
+                : sourceTrack.name,
+            order: getOrderAboveTrack(current, sourceTrack.id),
+            muted: sourceTrack.muted ?? false,
+            hidden: sourceTrack.hidden ?? false,
+            locked: false,
+          };
+        }
+        const newClip: Clip = {
+          ...clip,
+          id: createId("clip") as Clip["id"],
+          trackId: newTrackId,
+          // 副本不与原片段的联动组关联
+          linkId: undefined,
+        };
+        newClipIds.push(newClip.id);
+        const cmd = createDuplicateClipCommand(get, set, newClip, newTrack);
+        cmd.execute();
+        return cmd;
+      });
+      get().pushHistory(createBatchCommand(commands));
+      get().setSelectedClipIds(newClipIds);
+      return newClipIds;
+    },
+
+    /**
+     * 多个 clip 整体平移：各自保持轨道与时长，逐个生成 timing 命令并合并为一条历史记录。
+     * 联动片段即使未被选中也一起平移。
+     */
+    moveClips(clipIds: string[], delta: number) {
+      const project = get().project;
+      if (!project) return;
+      const clips = findEditableClips(
+        project,
+        expandLinkedClipIds(project, clipIds)
       );
+      if (clips.length === 0) return;
+
+      // 最早的 clip 不能移到 0 之前
+      const minStart = Math.min(...clips.map((clip) => clip.start));
+      const offset = Math.max(delta, -minStart);
+      if (Math.abs(offset) < 1e-6) return;
+
+      if (get().timelineSnapEnabled) {
+        const movingIds = new Set(clips.map((clip) => clip.id));
+        const overlaps = clips.some((clip) => {
+          const track = project.tracks.find((t) => t.id === clip.trackId);
+          return track?.clips.some(
+            (other) =>
+              !movingIds.has(other.id) &&
+              clip.start + offset < other.end - 1e-6 &&
+              clip.end + offset > other.start + 1e-6
+          );
+        });
+        if (overlaps) return;
+      }
+
+      const commands = clips.map((clip) => {
+        const cmd = createUpdateClipTimingCommand(
+          get,
+          set,
+          clip.id,
+          clip.start,
+          clip.end,
+          clip.trackId,
+          clip.start + offset,
+          clip.end + offset,
+          clip.trackId
+        );
+        cmd.execute();
+        return cmd;
+      });
+      get().pushHistory(createBatchCommand(commands));
     },
 
     addMediaPlaceholder({
@@ -1796,6 +2374,7 @@ export const useProjectStore = create<ProjectStore>()(
      *
      * 同轨道不重叠：会先根据该轨道上其他 clip 的区间修正 start/end，再写回，
      * 保证同一轨道内 clip 之间不重叠（吸附到相邻 clip 边界），并保持 clip 时长不变。
+     * 开启波纹编辑时改为插入语义（后推后续 clip），同轨道裁短则收拢空隙。
      *
      * 为什么要写回：
      * - Preview 与导出都依赖 `project.tracks[].clips[].start/end` 判断可见性与渲染区间。
@@ -1822,10 +2401,42 @@ export const useProjectStore = create<ProjectStore>()(
         ? project.tracks.find((t) => t.id === effectiveTrackId)
         : undefined;
       const others = track ? track.clips.filter((c) => c.id !== clipId) : [];
-      const { start: constrainedStart, end: constrainedEnd } = get()
-        .timelineSnapEnabled
-        ? constrainClipNoOverlap(others, clipId, start, end)
-        : { start, end };
+      // 波纹模式：移动或向右拉长视为插入，后续 clip 随后被后推，不做不重叠约束；
+      // 移动落在已有 clip 中间时改为插到该 clip 之后
+      const { timelineSnapEnabled, timelineRippleEnabled } = get();
+      const isMove =
+        Math.abs(end - start - (prevEnd - prevStart)) < 1e-6 &&
+        (Math.abs(start - prevStart) > 1e-6 ||
+          (!!trackId && trackId !== prevTrackId));
+      const isGrowRight =
+        Math.abs(start - prevStart) < 1e-6 && end > prevEnd + 1e-6;
+      const rippleInsert =
+        timelineRippleEnabled && !!clipBefore && (isMove || isGrowRight);
+      const straddled = rippleInsert
+        ? others.find((c) => c.start < start - 1e-6 && c.end > start + 1e-6)
+        : undefined;
+      const snapped = rippleInsert
+        ? straddled && isMove
+          ? { start: straddled.end, end: straddled.end + (end - start) }
+          : { start, end }
+        : timelineSnapEnabled
+          ? constrainClipNoOverlap(others, clipId, start, end)
+          : { start, end };
+      // 联动片段同样不能与所在轨道的 clip 重叠：放不下时整组吸附，仍放不下则放弃本次编辑
+      const fitted =
+        clipBefore?.linkId && (timelineSnapEnabled || rippleInsert)
+          ? fitLinkedTiming(
+              project,
+              clipBefore,
+              snapped.start,
+              snapped.end,
+              rippleInsert ? null : (effectiveTrackId ?? null)
+            )
+          : snapped;
+      if (!fitted) {
+        return;
+      }
+      const { start: constrainedStart, end: constrainedEnd } = fitted;
 
       // clip 在 resize（时长变化）时同步更新 inPoint/outPoint
       // - 左侧 resize：仅调整 inPoint，使播放起点与 start 对齐
@@ -1877,22 +2488,64 @@ export const useProjectStore = create<ProjectStore>()(
         duration,
         currentTime,
       });
-      get().pushHistory(
-        createUpdateClipTimingCommand(
+      const timingCmd = createUpdateClipTimingCommand(
+        get,
+        set,
+        clipId,
+        prevStart,
+        prevEnd,
+        prevTrackId,
+        constrainedStart,
+        constrainedEnd,
+        effectiveTrackId,
+        prevInPointForHistory,
+        prevOutPointForHistory,
+        patchInPoint,
+        patchOutPoint
+      );
+      // 联动片段（如分离出的音频）跟随移动 / 裁剪
+      const linkedCmd = clipBefore
+        ? applyLinkedTiming(
+            get,
+            set,
+            clipBefore,
+            constrainedStart,
+            constrainedEnd
+          )
+        : null;
+
+      // 波纹：插入时后推后续 clip；同轨道裁短时收拢空出的区间
+      let rippleCmd: Command | null = null;
+      if (effectiveTrackId && rippleInsert) {
+        rippleCmd = applyRippleInsert(
           get,
           set,
+          effectiveTrackId,
           clipId,
-          prevStart,
-          prevEnd,
-          prevTrackId,
           constrainedStart,
-          constrainedEnd,
-          effectiveTrackId,
-          prevInPointForHistory,
-          prevOutPointForHistory,
-          patchInPoint,
-          patchOutPoint
-        )
+          constrainedEnd
+        );
+      } else if (effectiveTrackId === prevTrackId && prevTrackId) {
+        if (constrainedStart > prevStart + 1e-6 && !isMove) {
+          rippleCmd = applyRippleClose(
+            get,
+            set,
+            prevTrackId,
+            prevStart,
+            constrainedStart
+          );
+        } else if (constrainedEnd < prevEnd - 1e-6 && !isMove) {
+          rippleCmd = applyRippleClose(
+            get,
+            set,
+            prevTrackId,
+            constrainedEnd,
+            prevEnd
+          );
+        }
+      }
+      get().pushHistory(
+        withRipple(withLinked(timingCmd, linkedCmd), rippleCmd)
       );
     },
 
@@ -2042,6 +2695,32 @@ export const useProjectStore = create<ProjectStore>()(
       );
     },
 
+    /**
+     * 设置或清除（传 null）轨道的音频闪避，写入历史。
+     * 参数会被限制在取值范围内；触发轨道不能是自身。
+     */
+    setTrackDucking(trackId: string, ducking: TrackDucking | null) {
+      const project = get().project;
+      if (!project) return;
+      const track = project.tracks.find((t) => t.id === trackId);
+      if (!track) return;
+      if (ducking && ducking.sourceTrackId === trackId) return;
+
+      const nextDucking = ducking ? normalizeTrackDucking(ducking) : undefined;
+      set({
+        project: setTrackDuckingProject(project, trackId, nextDucking),
+      });
+      get().pushHistory(
+        createSetTrackDuckingCommand(
+          get,
+          set,
+          trackId,
+          track.ducking,
+          nextDucking
+        )
+      );
+    },
+
     /**
      * 切换指定轨道的可见状态（true/false）。
      * 隐藏后在 Preview 中不渲染该轨道内容，在时间轴上整体降不透明度。
@@ -2156,7 +2835,68 @@ export const useProjectStore = create<ProjectStore>()(
      * 设置当前选中的 clip id（画布选中编辑用）。
      */
     setSelectedClipId(id: string | null) {
-      set({ selectedClipId: id });
+      set({ selectedClipId: id, selectedClipIds: id ? [id] : [] });
+    },
+
+    setSelectedClipIds(ids: string[]) {
+      const nextIds = [...new Set(ids)];
+      const current = get().selectedClipId;
+      const primary =
+        current && nextIds.includes(current)
+          ? current
+          : (nextIds[nextIds.length - 1] ?? null);
+      set({ selectedClipId: primary, selectedClipIds: nextIds });
+    },
+
+    toggleClipSelection(id: string) {
+      const { selectedClipId, selectedClipIds } = get();
+      if (!selectedClipIds.includes(id)) {
+        set({ selectedClipId: id, selectedClipIds: [...selectedClipIds, id] });
+        return;
+      }
+      const nextIds = selectedClipIds.filter((item) => item !== id);
+      set({
+        selectedClipId:
+          selectedClipId === id
+            ? (nextIds[nextIds.length - 1] ?? null)
+            : selectedClipId,
+        selectedClipIds: nextIds,
+      });
+    },
+
+    selectAllClipsOnTrack(trackId: string) {
+      const track = get().project?.tracks.find((t) => t.id === trackId);
+      if (!track || track.locked) return;
+      const ids = [...track.clips]
+        .sort((a, b) => a.start - b.start)
+        .map((clip) => clip.id);
+      get().setSelectedClipIds(ids);
+    },
+
+    /**
+     * 批量更新 clip 的画布变换，合并为一条历史记录。
+     */
+    updateClipTransforms(
+      patches: { clipId: string; transform: { x?: number; y?: number } }[]
+    ) {
+      const project = get().project;
+      if (!project) return;
+
+      const commands = patches.flatMap(({ clipId, transform }) => {
+        const clip = findClipById(get().project!, clipId as Clip["id"]);
+        if (!clip) return [];
+        const cmd = createUpdateClipTransformCommand(
+          get,
+          set,
+          clipId,
+          { ...clip.transform },
+          { ...clip.transform, ...transform }
+        );
+        cmd.execute();
+        return [cmd];
+      });
+      if (commands.length === 0) return;
+      get().pushHistory(createBatchCommand(commands));
     },
 
     /**
@@ -2271,6 +3011,10 @@ export const useProjectStore = create<ProjectStore>()(
         string,
         unknown
       >;
+      // 复合片段的子时间轴始终按原速展开（见 flattenCompoundClips），不支持变速
+      if (clip.kind === "compound") {
+        delete mergedParams.speed;
+      }
       let patch: Parameters<typeof updateClip>[2] = { params: mergedParams };
       const prevEnd = clip.end;
 
@@ -2340,6 +3084,9 @@ export const useProjectStore = create<ProjectStore>()(
         string,
         unknown
       >;
+      if (clip.kind === "compound") {
+        delete mergedParams.speed;
+      }
       const nextProject = updateClip(project, clipId as Clip["id"], {
         params: mergedParams,
       });
@@ -2362,22 +3109,723 @@ export const useProjectStore = create<ProjectStore>()(
         createUpdateClipParamsCommand(get, set, clipId, prevParams, nextParams)
       );
     },
+
+    /**
+     * 为 clip 的某个属性添加（或替换同一时间的）关键帧，写入历史。
+     */
+    setClipKeyframe(
+      clipId: string,
+      property: KeyframeProperty,
+      keyframe: Keyframe
+    ) {
+      const project = get().project;
+      if (!project) return;
+      const clip = findClipById(project, clipId as Clip["id"]);
+      // 复合片段展开时只使用其静态 transform，不支持关键帧
+      if (!clip || clip.kind === "compound") return;
+
+      const nextKeyframes = setClipKeyframeProject(
+        clip.keyframes,
+        property,
+        keyframe
+      );
+      set({
+        project: updateClip(project, clipId as Clip["id"], {
+          keyframes: nextKeyframes,
+        }),
+      });
+      get().pushHistory(
+        createUpdateClipKeyframesCommand(
+          get,
+          set,
+          clipId,
+          clip.keyframes,
+          nextKeyframes
+        )
+      );
+    },
+
+    /**
+     * 删除 clip 某属性在指定时间的关键帧，写入历史。
+     */
+    removeClipKeyframe(
+      clipId: string,
+      property: KeyframeProperty,
+      time: number
+    ) {
+      const project = get().project;
+      if (!project) return;
+      const clip = findClipById(project, clipId as Clip["id"]);
+      if (!clip?.keyframes?.[property]) return;
+
+      const nextKeyframes = removeClipKeyframeProject(
+        clip.keyframes,
+        property,
+        time
+      );
+      set({
+        project: updateClip(project, clipId as Clip["id"], {
+          keyframes: nextKeyframes,
+        }),
+      });
+      get().pushHistory(
+        createUpdateClipKeyframesCommand(
+          get,
+          set,
+          clipId,
+          clip.keyframes,
+          nextKeyframes
+        )
+      );
+    },
+
+    /**
+     * 清空 clip 的关键帧（或某一属性的关键帧），写入历史。
+     */
+    clearClipKeyframes(clipId: string, property?: KeyframeProperty) {
+      const project = get().project;
+      if (!project) return;
+      const clip = findClipById(project, clipId as Clip["id"]);
+      if (!clip?.keyframes) return;
+
+      const nextKeyframes: ClipKeyframes = property
+        ? { ...clip.keyframes }
+        : {};
+      if (property) {
+        delete nextKeyframes[property];
+      }
+      set({
+        project: updateClip(project, clipId as Clip["id"], {
+          keyframes: nextKeyframes,
+        }),
+      });
+      get().pushHistory(
+        createUpdateClipKeyframesCommand(
+          get,
+          set,
+          clipId,
+          clip.keyframes,
+          nextKeyframes
+        )
+      );
+    },
+
+    /**
+     * 整体替换 clip 的音量曲线（volume 关键帧），写入历史。
+     * 时间轴波形上拖拽包络点时一次提交整条曲线，保证一次拖拽只产生一条历史记录。
+     */
+    setClipVolumeEnvelope(clipId: string, points: Keyframe[]) {
+      const project = get().project;
+      if (!project) return;
+      const clip = findClipById(project, clipId as Clip["id"]);
+      if (!clip || (clip.kind !== "audio" && clip.kind !== "video")) return;
+
+      const nextKeyframes: ClipKeyframes = { ...clip.keyframes };
+      if (points.length > 0) {
+        nextKeyframes.volume = [...points].sort((a, b) => a.time - b.time);
+      } else {
+        delete nextKeyframes.volume;
+      }
+      set({
+        project: updateClip(project, clipId as Clip["id"], {
+          keyframes: nextKeyframes,
+        }),
+      });
+      get().pushHistory(
+        createUpdateClipKeyframesCommand(
+          get,
+          set,
+          clipId,
+          clip.keyframes,
+          nextKeyframes
+        )
+      );
+    },
+
+    /**
+     * 在 clip 与其后相接的 clip 之间添加转场，写入历史。
+     * 同一对 clip 已有转场时只替换类型，保留原时长。
+     */
+    addTransition(fromClipId: string, type: TransitionType = "crossfade") {
+      const project = get().project;
+      if (!project) return null;
+      const from = findClipById(project, fromClipId as Clip["id"]);
+      const track = from
+        ? project.tracks.find((t) => t.id === from.trackId)
+        : undefined;
+      if (!from || !track || track.locked) return null;
+      const to = findNextAdjacentClip(track, from);
+      if (!to || !canAddTransition(from, to)) return null;
+      const maxDuration = getMaxTransitionDuration(from, to);
+      if (maxDuration < MIN_TRANSITION_DURATION) return null;
+
+      const prevTransitions = track.transitions ?? [];
+      const existing = prevTransitions.find(
+        (t) => t.fromClipId === from.id && t.toClipId === to.id
+      );
+      const transition: Transition = existing
+        ? { ...existing, type }
+        : {
+            id: createId("transition"),
+            fromClipId: from.id,
+            toClipId: to.id,
+            type,
+            duration: Math.min(DEFAULT_TRANSITION_DURATION, maxDuration),
+          };
+      // 同一 clip 只保留一个转出、一个转入转场（含已失效的旧数据）
+      const nextTransitions = [
+        ...prevTransitions.filter(
+          (t) =>
+            t.id !== transition.id &&
+            t.fromClipId !== from.id &&
+            t.toClipId !== to.id
+        ),
+        transition,
+      ];
+      set({
+        project: setTrackTransitions(project, track.id, nextTransitions),
+      });
+      get().pushHistory(
+        createSetTrackTransitionsCommand(
+          get,
+          set,
+          track.id,
+          prevTransitions,
+          nextTransitions
+        )
+      );
+      return transition.id;
+    },
+
+    /**
+     * 更新转场类型或时长，写入历史。时长限制在最短时长与两 clip 较短者之间。
+     */
+    updateTransition(
+      transitionId: string,
+      patch: Partial<Pick<Transition, "type" | "duration">>
+    ) {
+      const project = get().project;
+      if (!project) return;
+      const track = project.tracks.find((t) =>
+        t.transitions?.some((tr) => tr.id === transitionId)
+      );
+      if (!track || track.locked) return;
+      const prevTransitions = track.transitions ?? [];
+      const transition = prevTransitions.find((t) => t.id === transitionId)!;
+      const from = track.clips.find((c) => c.id === transition.fromClipId);
+      const to = track.clips.find((c) => c.id === transition.toClipId);
+      if (!from || !to) return;
+
+      let duration = patch.duration ?? transition.duration;
+      duration = Math.min(
+        getMaxTransitionDuration(from, to),
+        Math.max(MIN_TRANSITION_DURATION, duration)
+      );
+      const next: Transition = {
+        ...transition,
+        type: patch.type ?? transition.type,
+        duration,
+      };
+      if (
+        next.type === transition.type &&
+        next.duration === transition.duration
+      ) {
+        return;
+      }
+      const nextTransitions = prevTransitions.map((t) =>
+        t.id === transitionId ? next : t
+      );
+      set({
+        project: setTrackTransitions(project, track.id, nextTransitions),
+      });
+      get().pushHistory(
+        createSetTrackTransitionsCommand(
+          get,
+          set,
+          track.id,
+          prevTransitions,
+          nextTransitions
+        )
+      );
+    },
+
+    /**
+     * 删除转场，写入历史。
+     */
+    removeTransition(transitionId: string) {
+      const project = get().project;
+      if (!project) return;
+      const track = project.tracks.find((t) =>
+        t.transitions?.some((tr) => tr.id === transitionId)
+      );
+      if (!track || track.locked) return;
+      const prevTransitions = track.transitions ?? [];
+      const nextTransitions = prevTransitions.filter(
+        (t) => t.id !== transitionId
+      );
+      set({
+        project: setTrackTransitions(project, track.id, nextTransitions),
+      });
+      get().pushHistory(
+        createSetTrackTransitionsCommand(
+          get,
+          set,
+          track.id,
+          prevTransitions,
+          nextTransitions
+        )
+      );
+    },
+
+    /**
+     * 在指定时间（缺省为当前播放头）添加标记，写入历史。
+     */
+    addMarker(time?: number, patch?: Partial<Omit<Marker, "id" | "time">>) {
+      const project = get().project;
+      if (!project) return null;
+      const prevMarkers = project.markers ?? [];
+      const marker: Marker = {
+        id: createId("marker"),
+        time: Math.max(0, time ?? get().currentTime),
+        name: `标记 ${prevMarkers.length + 1}`,
+        color: DEFAULT_MARKER_COLOR,
+        ...patch,
+      };
+      const nextMarkers = [...prevMarkers, marker];
+      set({ project: setProjectMarkers(project, nextMarkers) });
+      get().pushHistory(
+        createSetProjectMarkersCommand(get, set, prevMarkers, nextMarkers)
+      );
+      return marker.id;
+    },
+
+    /**
+     * 更新标记的时间、名称、颜色或备注，写入历史。
+     */
+    updateMarker(markerId: string, patch: Partial<Omit<Marker, "id">>) {
+      const project = get().project;
+      if (!project) return;
+      const prevMarkers = project.markers ?? [];
+      if (!prevMarkers.some((m) => m.id === markerId)) return;
+      const nextMarkers = prevMarkers.map((m) =>
+        m.id === markerId
+          ? { ...m, ...patch, time: Math.max(0, patch.time ?? m.time) }
+          : m
+      );
+      set({ project: setProjectMarkers(project, nextMarkers) });
+      get().pushHistory(
+        createSetProjectMarkersCommand(get, set, prevMarkers, nextMarkers)
+      );
+    },
+
+    /**
+     * 删除标记，写入历史。
+     */
+    removeMarker(markerId: string) {
+      const project = get().project;
+      if (!project) return;
+      const prevMarkers = project.markers ?? [];
+      const nextMarkers = prevMarkers.filter((m) => m.id !== markerId);
+      if (nextMarkers.length === prevMarkers.length) return;
+      set({ project: setProjectMarkers(project, nextMarkers) });
+      get().pushHistory(
+        createSetProjectMarkersCommand(get, set, prevMarkers, nextMarkers)
+      );
+    },
+
+    /**
+     * 添加命名区间（入点 / 出点顺序不限，会自动调整），写入历史。
+     * @returns 新区间 id；区间长度为 0 时返回 null
+     */
+    addRegion(start: number, end: number, name?: string) {
+      const project = get().project;
+      if (!project) return null;
+      const from = Math.max(0, Math.min(start, end));
+      const to = Math.max(start, end);
+      if (to - from < 1e-3) return null;
+      const prevRegions = project.regions ?? [];
+      const region: Region = {
+        id: createId("region"),
+        name: name ?? `区间 ${prevRegions.length + 1}`,
+        start: from,
+        end: to,
+      };
+      const nextRegions = [...prevRegions, region];
+      set({ project: setProjectRegions(project, nextRegions) });
+      get().pushHistory(
+        createSetProjectRegionsCommand(get, set, prevRegions, nextRegions)
+      );
+      return region.id;
+    },
+
+    /**
+     * 更新区间名称、颜色或范围（范围无效时忽略该次修改），写入历史。
+     */
+    updateRegion(regionId: string, patch: Partial<Omit<Region, "id">>) {
+      const project = get().project;
+      if (!project) return;
+      const prevRegions = project.regions ?? [];
+      const region = prevRegions.find((r) => r.id === regionId);
+      if (!region) return;
+      const next: Region = { ...region, ...patch };
+      if (next.start < 0 || next.end - next.start < 1e-3) return;
+      const nextRegions = prevRegions.map((r) =>
+        r.id === regionId ? next : r
+      );
+      set({ project: setProjectRegions(project, nextRegions) });
+      get().pushHistory(
+        createSetProjectRegionsCommand(get, set, prevRegions, nextRegions)
+      );
+    },
+
+    /**
+     * 删除区间，写入历史。
+     */
+    removeRegion(regionId: string) {
+      const project = get().project;
+      if (!project) return;
+      const prevRegions = project.regions ?? [];
+      const nextRegions = prevRegions.filter((r) => r.id !== regionId);
+      if (nextRegions.length === prevRegions.length) return;
+      set({ project: setProjectRegions(project, nextRegions) });
+      get().pushHistory(
+        createSetProjectRegionsCommand(get, set, prevRegions, nextRegions)
+      );
+    },
+
+    createCompoundClip(clipIds: string[]) {
+      const project = get().project;
+      if (!project) return null;
+      const clips = findEditableClips(project, clipIds);
+      if (clips.length === 0) return null;
+
+      const selectedIds = new Set<string>(clips.map((clip) => clip.id));
+      const start = Math.min(...clips.map((clip) => clip.start));
+      const end = Math.max(...clips.map((clip) => clip.end));
+      const innerTracks = buildCompoundTracks(project, selectedIds, start);
+      const compoundCount =
+        project.assets.filter((a) => a.kind === "compound").length + 1;
+      const asset: Asset = {
+        id: createId("asset") as Asset["id"],
+        name: `复合片段 ${compoundCount}`,
+        source: "",
+        kind: "compound",
+        duration: getCompoundDuration(innerTracks),
+        compoundMeta: { tracks: innerTracks },
+      };
+
+      // 复合片段放在所选 clip 中最上方的非音频轨道（全是音频时取最上方轨道）
+      const sourceTracks = project.tracks
+        .filter((track) => track.clips.some((c) => selectedIds.has(c.id)))
+        .sort((a, b) => b.order - a.order);
+      const targetTrack =
+        sourceTracks.find((track) => track.kind !== "audio") ??
+        sourceTracks[0]!;
+
+      let tracks: Track[] = project.tracks.map((track) => ({
+        ...track,
+        clips: track.clips.filter((clip) => !selectedIds.has(clip.id)),
+        transitions: track.transitions?.filter(
+          (t) => !selectedIds.has(t.fromClipId) && !selectedIds.has(t.toClipId)
+        ),
+      }));
+      let trackId = targetTrack.id;
+      const blocked = tracks
+        .find((track) => track.id === trackId)
+        ?.clips.some(
+          (clip) => clip.start < end - 1e-6 && clip.end > start + 1e-6
+        );
+      if (blocked) {
+        trackId = createId("track") as Track["id"];
+        tracks = [
+          ...tracks,
+          {
+            id: trackId,
+            kind: targetTrack.kind,
+            name: "素材轨道",
+            order: getOrderAboveTrack(project, targetTrack.id),
+            muted: false,
+            hidden: false,
+            locked: false,
+            clips: [],
+          },
+        ];
+      }
+      const compoundClip: Clip = {
+        id: createId("clip") as Clip["id"],
+        trackId,
+        assetId: asset.id,
+        kind: "compound",
+        start,
+        end,
+        inPoint: 0,
+        outPoint: end - start,
+      };
+      tracks = tracks.map((track) =>
+        track.id === trackId
+          ? { ...track, clips: [...track.clips, compoundClip] }
+          : track
+      );
+
+      const nextProject = removeEmptyTracks({
+        ...project,
+        assets: [...project.assets, asset],
+        tracks,
+        updatedAt: new Date().toISOString(),
+      });
+      const cmd = createReplaceTracksCommand(
+        get,
+        set,
+        project.tracks,
+        nextProject.tracks,
+        asset
+      );
+      cmd.execute();
+      get().pushHistory(cmd);
+      get().setSelectedClipId(compoundClip.id);
+      return compoundClip.id;
+    },
+
+    openCompoundClip(clipId: string) {
+      const project = get().project;
+      if (!project) return;
+      const clip = findClipById(project, clipId as Clip["id"]);
+      if (!clip || clip.kind !== "compound") return;
+      const sub = createCompoundSubProject(project, clip.assetId);
+      if (!sub) return;
+
+      const frame: CompoundEditFrame = {
+        project,
+        clipId: clip.id,
+        assetId: clip.assetId,
+        historyPast: get().historyPast,
+        historyFuture: get().historyFuture,
+        currentTime: get().currentTime,
+      };
+      const duration = getProjectDuration(sub);
+      // 播放头映射到子时间轴上的对应位置
+      const innerTime = get().currentTime - clip.start + (clip.inPoint ?? 0);
+      set({
+        compoundStack: [...get().compoundStack, frame],
+        project: sub,
+        duration,
+        currentTime: Math.min(Math.max(0, innerTime), duration),
+        isPlaying: false,
+        selectedClipId: null,
+        historyPast: [],
+        historyFuture: [],
+      });
+    },
+
+    closeCompoundClip() {
+      const stack = get().compoundStack;
+      const frame = stack[stack.length - 1];
+      const sub = get().project;
+      if (!frame || !sub) return;
+
+      const prevTracks =
+        frame.project.assets.find((a) => a.id === frame.assetId)
+          ?.compoundMeta?.tracks ?? [];
+      const nextProject = mergeCompoundFrame(frame, sub);
+      const duration = getProjectDuration(nextProject);
+      set({
+        compoundStack: stack.slice(0, -1),
+        project: nextProject,
+        duration,
+        currentTime: Math.min(frame.currentTime, duration),
+        isPlaying: false,
+        selectedClipId: frame.clipId,
+        historyPast: frame.historyPast,
+        historyFuture: frame.historyFuture,
+      });
+      if (sub.tracks !== prevTracks) {
+        get().pushHistory(
+          createSetCompoundTracksCommand(
+            get,
+            set,
+            frame.assetId,
+            prevTracks,
+            sub.tracks
+          )
+        );
+      }
+    },
+
+    getRootProject() {
+      const stack = get().compoundStack;
+      let project = get().project;
+      for (let i = stack.length - 1; i >= 0 && project; i--) {
+        project = mergeCompoundFrame(stack[i]!, project);
+      }
+      return project;
+    },
+
+    detachClipAudio(clipId: string) {
+      const project = get().project;
+      if (!project) return null;
+      const clip = findEditableClip(project, clipId);
+      if (!clip || clip.linkId) return null;
+      const videoAsset = project.assets.find((a) => a.id === clip.assetId);
+      if (!videoAsset || !hasDetachableAudio(clip, videoAsset)) return null;
+
+      // 同一视频文件再次分离时复用已有的音频资源
+      const existingAsset = project.assets.find(
+        (a) => a.kind === "audio" && a.source === videoAsset.source
+      );
+      const rawName = videoAsset.name ?? "视频";
+      const newAsset: Asset | undefined = existingAsset
+        ? undefined
+        : {
+            id: createId("asset") as Asset["id"],
+            name: `${rawName.replace(/\.[^.]+$/, "") || rawName} 音频`,
+            source: videoAsset.source,
+            kind: "audio",
+            duration: videoAsset.duration,
+            audioMeta: videoAsset.audioMeta,
+          };
+      const audioAsset = (existingAsset ?? newAsset)!;
+
+      // 放到区间空闲的音频轨道上（优先靠近主轨道的一条），没有则新建音频轨道
+      const freeTrack = [...project.tracks]
+        .filter(
+          (track) =>
+            track.kind === "audio" &&
+            !track.locked &&
+            !track.clips.some(
+              (c) => c.start < clip.end - 1e-6 && c.end > clip.start + 1e-6
+            )
+        )
+        .sort((a, b) => b.order - a.order)[0];
+      const mainTrack = findMainTrack(project);
+      const trackId = freeTrack?.id ?? (createId("track") as Track["id"]);
+      const tracks: Track[] = freeTrack
+        ? project.tracks
+        : [
+            ...project.tracks,
+            {
+              id: trackId,
+              kind: "audio",
+              name: "音频轨道",
+              order: mainTrack
+                ? getAudioTrackOrder(project, mainTrack)
+                : Math.min(0, ...project.tracks.map((t) => t.order)) - 1,
+              muted: false,
+              hidden: false,
+              locked: false,
+              clips: [],
+            },
+          ];
+
+      const linkId = createId("link");
+      const params: Record<string, unknown> = {};
+      if (clip.params?.volume !== undefined) {
+        params.volume = clip.params.volume;
+      }
+      if (clip.params?.speed !== undefined) params.speed = clip.params.speed;
+      const audioClip: Clip = {
+        id: createId("clip") as Clip["id"],
+        trackId,
+        assetId: audioAsset.id,
+        kind: "audio",
+        start: clip.start,
+        end: clip.end,
+        inPoint: clip.inPoint,
+        outPoint: clip.outPoint,
+        params,
+        keyframes: clip.keyframes?.volume
+          ? { volume: clip.keyframes.volume }
+          : undefined,
+        linkId,
+      };
+      // 原视频片段静音，声音改由分离出的音频片段播放
+      const nextTracks = tracks.map((track) => ({
+        ...track,
+        clips: [
+          ...track.clips.map((c) =>
+            c.id === clip.id
+              ? { ...c, linkId, params: { ...c.params, muted: true } }
+              : c
+          ),
+          ...(track.id === trackId ? [audioClip] : []),
+        ],
+      }));
+
+      const cmd = createReplaceTracksCommand(
+        get,
+        set,
+        project.tracks,
+        nextTracks,
+        newAsset
+      );
+      cmd.execute();
+      get().pushHistory(cmd);
+      return audioClip.id;
+    },
+
+    unlinkClip(clipId: string) {
+      const project = get().project;
+      if (!project) return;
+      const clip = findClipById(project, clipId as Clip["id"]);
+      if (!clip?.linkId) return;
+      const clipIds = [
+        clip.id,
+        ...getLinkedClips(project, clip).map((c) => c.id),
+      ];
+      const cmd = createSetClipsLinkCommand(
+        get,
+        set,
+        clipIds,
+        clip.linkId,
+        undefined
+      );
+      cmd.execute();
+      get().pushHistory(cmd);
+    },
   }))
 );
 
 // 当选中的 clip 已不在 project 中时，自动清除选中态（如被删除、裁剪、undo 等）。clip 不在当前时间范围内仍可选中，便于在 timeline 中操作。
+// 同时维护多选集合：剔除已删除或位于锁定轨道的 clip，并保证始终包含主选中项
+// （主选中项被直接改写时集合回到单选；主选中项被删除时改用集合中剩余的最后一项）。
 useProjectStore.subscribe(
   (state) => ({
     selectedClipId: state.selectedClipId,
+    selectedClipIds: state.selectedClipIds,
     project: state.project,
   }),
   (slice) => {
-    const { selectedClipId, project } = slice;
-    if (!selectedClipId || !project) return;
+    const { selectedClipId, selectedClipIds, project } = slice;
+    if (!selectedClipId) {
+      if (selectedClipIds.length > 0) {
+        useProjectStore.setState({ selectedClipIds: [] });
+      }
+      return;
+    }
+    if (!project) return;
 
     const clip = findClipById(project, selectedClipId as Clip["id"]);
+    const remainingIds = selectedClipIds.filter(
+      (id) => id !== selectedClipId && !!findEditableClip(project, id)
+    );
     if (!clip) {
-      useProjectStore.setState({ selectedClipId: null });
+      const nextPrimary = remainingIds[remainingIds.length - 1] ?? null;
+      useProjectStore.setState({
+        selectedClipId: nextPrimary,
+        selectedClipIds: remainingIds,
+      });
+      return;
+    }
+
+    const nextIds = selectedClipIds.includes(selectedClipId)
+      ? selectedClipIds.filter(
+          (id) => id === selectedClipId || remainingIds.includes(id)
+        )
+      : [selectedClipId];
+    if (
+      nextIds.length !== selectedClipIds.length ||
+      nextIds.some((id, i) => id !== selectedClipIds[i])
+    ) {
+      useProjectStore.setState({ selectedClipIds: nextIds });
     }
   },
   { equalityFn: shallow }
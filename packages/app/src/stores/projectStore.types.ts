@@ -1,4 +1,14 @@
-import type { Project } from "@vitecut/project";
+import type {
+  Asset,
+  Keyframe,
+  KeyframeProperty,
+  Marker,
+  Project,
+  Region,
+  TrackDucking,
+  Transition,
+  TransitionType,
+} from "@vitecut/project";
 import type { Command } from "@vitecut/history";
 import type { MediaMeta } from "@/api/mediaApi";
 
@@ -91,11 +101,30 @@ export interface ProjectStoreState {
    */
   selectedClipId: string | null;
 
+  /**
+   * 当前选中的全部 clip id（时间轴多选：Shift 点击、框选、全选轨道）。
+   *
+   * - 始终包含 `selectedClipId`（作为主选中项）；`selectedClipId` 为 `null` 时为空数组。
+   * - 只有一项时与单选行为一致；多于一项时移动/删除/复制作用于整个集合。
+   */
+  selectedClipIds: string[];
+
   /**
    * 时间轴 clip 拖拽时是否启用吸附（吸附到相邻 clip 边界）。
    */
   timelineSnapEnabled: boolean;
 
+  /**
+   * 波纹编辑开关：开启后删除/裁剪 clip 会把后续 clip 前移收拢空隙，
+   * 拖入（插入）clip 与已有 clip 重叠时会把后续 clip 后推。
+   */
+  timelineRippleEnabled: boolean;
+
+  /**
+   * 波纹编辑是否作用于所有未锁定轨道（false 时仅作用于被编辑 clip 所在轨道）。
+   */
+  timelineRippleAllTracks: boolean;
+
   /**
    * 撤销栈（命令模式）。不直接修改，仅通过 undo/redo 与各 action 内部 push 使用。
    */
@@ -105,6 +134,31 @@ export interface ProjectStoreState {
    * 重做栈。撤销后再次编辑会清空。
    */
   historyFuture: Command[];
+
+  /**
+   * 复合片段嵌套编辑栈：为空表示正在编辑根工程。
+   *
+   * 打开复合片段后 `project` 被替换为其子时间轴构成的子工程，外层状态压入此栈；
+   * 退出时把子工程的轨道写回外层复合资源。
+   */
+  compoundStack: CompoundEditFrame[];
+}
+
+/**
+ * 进入复合片段编辑前保存的外层状态。
+ */
+export interface CompoundEditFrame {
+  /** 外层工程（进入时的快照，子时间轴的修改在退出时写回） */
+  project: Project;
+  /** 被打开的复合片段 id（位于外层工程） */
+  clipId: string;
+  /** 复合片段引用的复合资源 id */
+  assetId: Asset["id"];
+  /** 外层的撤销 / 重做栈，退出时恢复 */
+  historyPast: Command[];
+  historyFuture: Command[];
+  /** 外层播放头位置，退出时恢复 */
+  currentTime: number;
 }
 
 /**
@@ -147,6 +201,21 @@ export interface ProjectStoreActions {
    */
   loadAudioFile(file: File, options?: { skipHistory?: boolean }): Promise<void>;
 
+  /**
+   * 打开一个已有工程（如从服务端读取的工程），替换当前工程。
+   *
+   * 副作用：
+   * - 重置 currentTime/isPlaying/选中态，并清空撤销/重做栈（历史命令只对原工程有效）。
+   * - 退出复合片段嵌套编辑（清空 `compoundStack`）。
+   * - 同步画布尺寸偏好到新工程的宽高。
+   */
+  openProject(project: Project): void;
+
+  /**
+   * 修改工程名称（不记录撤销历史）。
+   */
+  setProjectName(name: string): void;
+
   /**
    * 更新当前预览时间（秒）。
    */
@@ -168,6 +237,16 @@ export interface ProjectStoreActions {
    */
   setTimelineSnapEnabled(enabled: boolean): void;
 
+  /**
+   * 设置波纹编辑开关（不记录撤销历史）。
+   */
+  setTimelineRippleEnabled(enabled: boolean): void;
+
+  /**
+   * 设置波纹编辑是否作用于所有未锁定轨道（不记录撤销历史）。
+   */
+  setTimelineRippleAllTracks(allTracks: boolean): void;
+
   /**
    * 设置画布尺寸（width/height）。
    * - 有工程时：更新 project 并支持撤销；
@@ -185,6 +264,7 @@ export interface ProjectStoreActions {
   /**
    * 在当前播放头位置将指定 clip 切成两段（左段 [start, currentTime]、右段 [currentTime, end]）。
    * 仅当 currentTime 严格位于该 clip 的 (start, end) 内时生效；否则 no-op。
+   * 联动 clip 在同一时间点一起分割，两个右半段组成新的联动组。
    */
   cutClip(clipId: string): void;
 
@@ -206,6 +286,26 @@ export interface ProjectStoreActions {
    */
   deleteClip(clipId: string): void;
 
+  /**
+   * 批量删除 clip（多选删除），整体作为一条历史记录，一次撤销全部恢复。
+   * 锁定轨道上的 clip 会被跳过。
+   */
+  deleteClips(clipIds: string[]): void;
+
+  /**
+   * 批量复制 clip（多选复制/粘贴）：每条源轨道上方新增一条轨道，
+   * 复制片段保持原时间区间；整体作为一条历史记录，并选中新片段。
+   * @returns 新 clip 的 id 列表
+   */
+  duplicateClips(clipIds: string[]): string[];
+
+  /**
+   * 将多个 clip 整体平移 delta 秒（保持各自轨道不变），整体作为一条历史记录。
+   * 平移量会被收紧到最早的 clip 不早于 0；开启吸附时若与未选中的 clip 重叠则不移动。
+   * 未选中的联动 clip 一并平移。
+   */
+  moveClips(clipIds: string[], delta: number): void;
+
   /**
    * 在播放头位置添加文字片段。默认 5 秒时长，文案为「标题文字」。
    * 无工程时会先创建空工程（使用 preferredCanvasSize）。
@@ -254,7 +354,7 @@ export interface ProjectStoreActions {
 
   /**
    * 更新指定 clip 的 params（如文本内容的 text、fontSize、fill）。
-   * 支持历史记录。
+   * 支持历史记录。复合片段不支持变速，传入的 speed 会被忽略。
    */
   updateClipParams(clipId: string, params: Record<string, unknown>): void;
 
@@ -283,6 +383,7 @@ export interface ProjectStoreActions {
    *
    * 说明：
    * - `trackId` 可选：若时间轴支持把 clip 拖到其它轨道（row），可一并更新归属轨道。
+   * - 联动 clip 按相同的起止偏移跟随（不换轨道），与本次修改合并为一条历史记录。
    */
   updateClipTiming(
     clipId: string,
@@ -313,6 +414,12 @@ export interface ProjectStoreActions {
    */
   toggleTrackMuted(trackId: string): void;
 
+  /**
+   * 设置轨道的音频闪避：sourceTrackId 轨道有声音时自动压低本轨道；传 null 时清除。
+   * 支持历史记录。
+   */
+  setTrackDucking(trackId: string, ducking: TrackDucking | null): void;
+
   /**
    * 切换指定轨道的可见状态。
    * 隐藏后该轨道上的内容在预览中不显示，时间轴上会降不透明度。
@@ -341,7 +448,7 @@ export interface ProjectStoreActions {
    */
   redo(): void | Promise<void>;
 
-  /** 内部使用：将一条命令压入撤销栈，并清空重做栈。 */
+  /** 内部使用：将一条命令压入撤销栈，并清空重做栈；随后防抖写入自动保存快照。 */
   pushHistory(cmd: Command): void;
 
   /**
@@ -350,6 +457,31 @@ export interface ProjectStoreActions {
    */
   setSelectedClipId(id: string | null): void;
 
+  /**
+   * 设置多选集合（框选、全选轨道）。原主选中项仍在集合中时保留，否则以最后一项为主选中项。
+   */
+  setSelectedClipIds(ids: string[]): void;
+
+  /**
+   * 切换单个 clip 的选中状态（Shift 点击）：未选中则加入并设为主选中项，已选中则移出。
+   */
+  toggleClipSelection(id: string): void;
+
+  /**
+   * 选中指定轨道上的全部 clip；锁定轨道不生效。
+   */
+  selectAllClipsOnTrack(trackId: string): void;
+
+  /**
+   * 批量更新 clip 的画布变换（多选整体拖动/方向键微调），整体作为一条历史记录。
+   */
+  updateClipTransforms(
+    patches: {
+      clipId: string;
+      transform: { x?: number; y?: number };
+    }[]
+  ): void;
+
   /**
    * 瞬时更新 clip 变换（如透明度），不写入历史。用于调整面板内拖动时的实时预览。
    */
@@ -386,6 +518,139 @@ export interface ProjectStoreActions {
       opacity?: number;
     }
   ): void;
+
+  /**
+   * 为 clip 的某个属性添加关键帧；同一时间已有关键帧时替换。支持历史记录。
+   *
+   * @param clipId clip id
+   * @param property 动画属性（x/y/scaleX/scaleY/rotation/opacity/volume）
+   * @param keyframe 关键帧，time 为相对 clip.start 的秒数
+   */
+  setClipKeyframe(
+    clipId: string,
+    property: KeyframeProperty,
+    keyframe: Keyframe
+  ): void;
+
+  /**
+   * 删除 clip 某属性在 time（相对 clip.start）处的关键帧。支持历史记录。
+   */
+  removeClipKeyframe(
+    clipId: string,
+    property: KeyframeProperty,
+    time: number
+  ): void;
+
+  /**
+   * 清空 clip 的关键帧；传入 property 时只清空该属性。支持历史记录。
+   */
+  clearClipKeyframes(clipId: string, property?: KeyframeProperty): void;
+
+  /**
+   * 整体替换 clip 的音量曲线（volume 关键帧，time 为相对 clip.start 的秒数）；
+   * 传入空数组时清除曲线。仅音频 / 视频 clip 有效。支持历史记录。
+   */
+  setClipVolumeEnvelope(clipId: string, points: Keyframe[]): void;
+
+  /**
+   * 在 clip 与其后首尾相接的 clip 之间添加转场；已有转场时替换类型。支持历史记录。
+   *
+   * @param fromClipId 转出 clip id
+   * @param type 转场类型，默认 crossfade
+   * @returns 新转场 id；两 clip 不相接或类型不兼容时返回 null
+   */
+  addTransition(fromClipId: string, type?: TransitionType): string | null;
+
+  /**
+   * 更新转场类型或时长（时长会限制在 [MIN_TRANSITION_DURATION, 两 clip 较短者]）。支持历史记录。
+   */
+  updateTransition(
+    transitionId: string,
+    patch: Partial<Pick<Transition, "type" | "duration">>
+  ): void;
+
+  /**
+   * 删除转场。支持历史记录。
+   */
+  removeTransition(transitionId: string): void;
+
+  /**
+   * 在指定时间（缺省为当前播放头）添加时间轴标记。支持历史记录。
+   * @param patch 名称 / 颜色 / 备注，缺省使用自动编号名称与默认颜色
+   * @returns 新标记 id；没有工程时返回 null
+   */
+  addMarker(
+    time?: number,
+    patch?: Partial<Omit<Marker, "id" | "time">>
+  ): string | null;
+
+  /**
+   * 更新标记的时间、名称、颜色或备注。支持历史记录。
+   */
+  updateMarker(markerId: string, patch: Partial<Omit<Marker, "id">>): void;
+
+  /**
+   * 删除标记。支持历史记录。
+   */
+  removeMarker(markerId: string): void;
+
+  /**
+   * 添加命名区间（入点 / 出点）。支持历史记录。
+   * @returns 新区间 id；区间长度为 0 时返回 null
+   */
+  addRegion(start: number, end: number, name?: string): string | null;
+
+  /**
+   * 更新区间名称、颜色或范围。支持历史记录。
+   */
+  updateRegion(regionId: string, patch: Partial<Omit<Region, "id">>): void;
+
+  /**
+   * 删除区间。支持历史记录。
+   */
+  removeRegion(regionId: string): void;
+
+  /**
+   * 把选中的 clip 折叠为一个复合片段。支持历史记录。
+   *
+   * - 复合片段覆盖所选 clip 的整体时间范围，放在其中最上方的非音频轨道上，
+   *   该位置被未选中的 clip 占用时在其上方新建轨道；
+   * - 原 clip（及两端都被选中的转场）按原轨道结构移入复合资源的子时间轴。
+   * @returns 新复合片段 id；没有可编辑 clip 时返回 null
+   */
+  createCompoundClip(clipIds: string[]): string | null;
+
+  /**
+   * 进入复合片段的子时间轴编辑：`project` 切换为子工程，撤销栈从空开始。
+   */
+  openCompoundClip(clipId: string): void;
+
+  /**
+   * 退出当前复合片段编辑，把子时间轴写回外层并恢复外层撤销栈；
+   * 有修改时外层记录一条可撤销的历史。
+   */
+  closeCompoundClip(): void;
+
+  /**
+   * 把视频 clip 的声音分离为一个联动的音频 clip。支持历史记录。
+   *
+   * - 音频 clip 引用同一媒体文件的音频资源（已有则复用），时间、入点 / 出点、
+   *   倍速与音量与视频一致，放在区间空闲的音频轨道上，没有则新建音频轨道；
+   * - 原视频 clip 标记为静音（params.muted），两者共享 linkId，移动 / 裁剪 / 分割时联动。
+   * @returns 新音频 clip id；素材不含音轨或 clip 已联动时返回 null
+   */
+  detachClipAudio(clipId: string): string | null;
+
+  /**
+   * 取消 clip 所在联动组，组内 clip 之后各自独立编辑。支持历史记录。
+   */
+  unlinkClip(clipId: string): void;
+
+  /**
+   * 获取根工程：嵌套编辑中时把各层子时间轴的当前修改合并回去。
+   * 保存、导出、自动保存应使用此结果而非 `project`。
+   */
+  getRootProject(): Project | null;
 }
 
 /**
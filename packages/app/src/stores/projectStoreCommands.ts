@@ -10,6 +10,11 @@ import {
   type Track,
   type Clip,
   type ClipTransform,
+  type ClipKeyframes,
+  type Transition,
+  type TrackDucking,
+  type Marker,
+  type Region,
   updateClip,
   getProjectDuration,
   removeClip,
@@ -17,6 +22,16 @@ import {
   addTrack,
   reorderTracks as reorderTracksProject,
   setTrackMuted,
+  setTrackTransitions,
+  setTrackDucking,
+  setProjectMarkers,
+  setProjectRegions,
+  setCompoundTracks,
+  setClipsLinkId,
+  expandLinkedClipIds,
+  getRippleClipIds,
+  getRippleCloseDistance,
+  shiftClips,
 } from "@vitecut/project";
 
 type GetState = () => { project: Project | null; currentTime: number };
@@ -878,3 +893,366 @@ export function createUpdateClipTransformCommand(
     },
   };
 }
+
+/** 关键帧编辑（增/改/删/清空）：存前后整份 keyframes，undo/redo 对调 */
+export function createUpdateClipKeyframesCommand(
+  get: GetState,
+  set: SetState,
+  clipId: string,
+  prevKeyframes: ClipKeyframes | undefined,
+  nextKeyframes: ClipKeyframes
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      const next = updateClip(p, clipId as Clip["id"], {
+        keyframes: nextKeyframes,
+      });
+      set({ project: next });
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      const prev = updateClip(p, clipId as Clip["id"], {
+        keyframes: prevKeyframes ?? {},
+      });
+      set({ project: prev });
+    },
+  };
+}
+
+/** 转场编辑（增/改/删）：存轨道前后整份 transitions，undo/redo 对调 */
+export function createSetTrackTransitionsCommand(
+  get: GetState,
+  set: SetState,
+  trackId: string,
+  prevTransitions: Transition[],
+  nextTransitions: Transition[]
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setTrackTransitions(p, trackId, nextTransitions) });
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setTrackTransitions(p, trackId, prevTransitions) });
+    },
+  };
+}
+
+/** 音频闪避设置：存轨道前后两份 ducking，undo/redo 对调 */
+export function createSetTrackDuckingCommand(
+  get: GetState,
+  set: SetState,
+  trackId: string,
+  prevDucking: TrackDucking | undefined,
+  nextDucking: TrackDucking | undefined
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setTrackDucking(p, trackId, nextDucking) });
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setTrackDucking(p, trackId, prevDucking) });
+    },
+  };
+}
+
+/** 时间轴标记：存前后两份标记列表（数据量很小） */
+export function createSetProjectMarkersCommand(
+  get: GetState,
+  set: SetState,
+  prevMarkers: Marker[],
+  nextMarkers: Marker[]
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setProjectMarkers(p, nextMarkers) });
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setProjectMarkers(p, prevMarkers) });
+    },
+  };
+}
+
+/** 命名区间：存前后两份区间列表 */
+export function createSetProjectRegionsCommand(
+  get: GetState,
+  set: SetState,
+  prevRegions: Region[],
+  nextRegions: Region[]
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setProjectRegions(p, nextRegions) });
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setProjectRegions(p, prevRegions) });
+    },
+  };
+}
+
+/**
+ * 轨道结构整体替换（创建复合片段、分离音频等）：存前后两份轨道列表与新建的资源。
+ * undo 恢复原轨道并移除该资源；redo 重新写入。
+ */
+export function createReplaceTracksCommand(
+  get: GetState,
+  set: SetState,
+  prevTracks: Track[],
+  nextTracks: Track[],
+  asset?: Asset
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      const assets =
+        !asset || p.assets.some((a) => a.id === asset.id)
+          ? p.assets
+          : [...p.assets, asset];
+      syncDurationAndCurrentTime(
+        set,
+        {
+          ...p,
+          assets,
+          tracks: nextTracks,
+          updatedAt: new Date().toISOString(),
+        },
+        get
+      );
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      syncDurationAndCurrentTime(
+        set,
+        {
+          ...p,
+          assets: asset ? p.assets.filter((a) => a.id !== asset.id) : p.assets,
+          tracks: prevTracks,
+          updatedAt: new Date().toISOString(),
+        },
+        get
+      );
+    },
+  };
+}
+
+/** 复合片段子时间轴整体修改（退出嵌套编辑时提交）：存前后两份内部轨道 */
+export function createSetCompoundTracksCommand(
+  get: GetState,
+  set: SetState,
+  assetId: Asset["id"],
+  prevTracks: Track[],
+  nextTracks: Track[]
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setCompoundTracks(p, assetId, nextTracks) });
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setCompoundTracks(p, assetId, prevTracks) });
+    },
+  };
+}
+
+/** 取消 / 建立片段联动：存片段 id 与前后 linkId */
+export function createSetClipsLinkCommand(
+  get: GetState,
+  set: SetState,
+  clipIds: string[],
+  prevLinkId: string | undefined,
+  nextLinkId: string | undefined
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setClipsLinkId(p, clipIds, nextLinkId) });
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      set({ project: setClipsLinkId(p, clipIds, prevLinkId) });
+    },
+  };
+}
+
+/** 波纹平移：存被平移的 clip id 与平移量，undo 反向平移同一批 clip */
+export function createRippleShiftCommand(
+  get: GetState,
+  set: SetState,
+  clipIds: string[],
+  delta: number
+): Command {
+  return {
+    execute: () => {
+      const p = get().project;
+      if (!p) return;
+      const next = shiftClips(p, clipIds as Clip["id"][], delta);
+      syncDurationAndCurrentTime(set, next, get);
+    },
+    undo: () => {
+      const p = get().project;
+      if (!p) return;
+      const prev = shiftClips(p, clipIds as Clip["id"][], -delta);
+      syncDurationAndCurrentTime(set, prev, get);
+    },
+  };
+}
+
+/**
+ * 波纹平移的联动扩展：被平移 clip 的联动片段一起平移，
+ * 联动片段所在轨道从其起点开始的后续 clip 也一起平移，避免与该轨道上的 clip 重叠。
+ * 新加入的 clip 可能又带出联动片段，反复扩展直到稳定。
+ * @param excludeClipIds 不参与平移的 clip（如正在插入的 clip 及其联动片段）
+ * @returns 全部需平移的 clip id，以及因联动额外参与平移的轨道与各自的起点
+ */
+function expandRippleLinkedClipIds(
+  p: Project,
+  ids: string[],
+  excludeClipIds: string[] = []
+): { ids: string[]; linkedTracks: Map<string, number> } {
+  const linkedTracks = new Map<string, number>();
+  let current = ids;
+  for (;;) {
+    const added = expandLinkedClipIds(p, current).filter(
+      (id) => !current.includes(id) && !excludeClipIds.includes(id)
+    );
+    if (added.length === 0) break;
+    for (const track of p.tracks) {
+      for (const clip of track.clips) {
+        if (!added.includes(clip.id)) continue;
+        linkedTracks.set(
+          track.id,
+          Math.min(linkedTracks.get(track.id) ?? Infinity, clip.start)
+        );
+      }
+    }
+    const next = [...current, ...added];
+    for (const [trackId, from] of linkedTracks) {
+      for (const id of getRippleClipIds(
+        p,
+        [trackId as Track["id"]],
+        from,
+        excludeClipIds as Clip["id"][]
+      )) {
+        if (!next.includes(id)) next.push(id);
+      }
+    }
+    current = next;
+  }
+  return { ids: current, linkedTracks };
+}
+
+/**
+ * 波纹收拢：基于当前工程计算空隙 [gapStart, gapEnd] 之后需前移的 clip 与距离，
+ * 生成平移命令（不执行）；无需平移时返回 null。
+ * 联动片段随之前移，其所在轨道同样不能越过前面的 clip。
+ */
+export function createRippleCloseGapCommand(
+  get: GetState,
+  set: SetState,
+  trackIds: string[],
+  gapStart: number,
+  gapEnd: number
+): Command | null {
+  const p = get().project;
+  if (!p) return null;
+  const { ids, linkedTracks } = expandRippleLinkedClipIds(
+    p,
+    getRippleClipIds(p, trackIds as Track["id"][], gapEnd)
+  );
+  let distance = getRippleCloseDistance(
+    p,
+    trackIds as Track["id"][],
+    gapStart,
+    gapEnd
+  );
+  for (const [trackId, from] of linkedTracks) {
+    distance = Math.min(
+      distance,
+      getRippleCloseDistance(
+        p,
+        [trackId as Track["id"]],
+        from - distance,
+        from,
+        ids as Clip["id"][]
+      )
+    );
+  }
+  if (ids.length === 0 || distance < 1e-6) return null;
+  return createRippleShiftCommand(get, set, ids, -distance);
+}
+
+/**
+ * 波纹插入：区间 [insertStart, insertEnd] 放入 trackId 后，把编辑点之后的 clip 后推到不再重叠，
+ * 生成平移命令（不执行）；不重叠时返回 null。
+ * 联动片段及其所在轨道的后续 clip 随之后推。
+ */
+export function createRippleInsertCommand(
+  get: GetState,
+  set: SetState,
+  trackIds: string[],
+  trackId: string,
+  clipId: string,
+  insertStart: number,
+  insertEnd: number
+): Command | null {
+  const p = get().project;
+  if (!p) return null;
+  // 插入的 clip 自身的联动片段由 applyLinkedTiming 跟随，不参与波纹平移
+  const excludeClipIds = expandLinkedClipIds(p, [clipId]);
+  const { ids } = expandRippleLinkedClipIds(
+    p,
+    getRippleClipIds(
+      p,
+      trackIds as Track["id"][],
+      insertStart,
+      excludeClipIds as Clip["id"][]
+    ),
+    excludeClipIds
+  );
+  const targetTrack = p.tracks.find((track) => track.id === trackId);
+  const firstStart = Math.min(
+    ...(targetTrack?.clips ?? [])
+      .filter((clip) => ids.includes(clip.id))
+      .map((clip) => clip.start)
+  );
+  const distance = insertEnd - firstStart;
+  if (!Number.isFinite(distance) || distance < 1e-6) return null;
+  return createRippleShiftCommand(get, set, ids, distance);
+}
+
+/** 批量操作（多选移动/删除/复制）：按顺序执行子命令，undo 逆序撤销，整体占一条历史记录 */
+export function createBatchCommand(commands: Command[]): Command {
+  return {
+    execute: () => {
+      commands.forEach((cmd) => cmd.execute());
+    },
+    undo: () => {
+      [...commands].reverse().forEach((cmd) => cmd.undo());
+    },
+  };
+}
@@ -1,11 +1,14 @@
 /**
  * 媒体面板本地存储：使用 IndexedDB 存储媒体列表，配额远大于 localStorage。
  * 单条结构：id, name, type, addedAt；远程资源用 url，本地上传用 blob（直接存文件，不转 base64）。
+ * 同一数据库中还有工程自动保存快照（见 projectAutosave.ts）。
  */
 
 const DB_NAME = "ViteCutMediaDB";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = "records";
+/** 工程自动保存快照的 object store */
+export const PROJECT_SNAPSHOT_STORE_NAME = "projectSnapshots";
 
 export type MediaRecord = {
   id: string;
@@ -21,7 +24,7 @@ export type MediaRecord = {
   duration?: number;
 };
 
-function openDB(): Promise<IDBDatabase> {
+export function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const req = indexedDB.open(DB_NAME, DB_VERSION);
     req.onerror = () => reject(req.error);
@@ -31,6 +34,9 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: "id" });
       }
+      if (!db.objectStoreNames.contains(PROJECT_SNAPSHOT_STORE_NAME)) {
+        db.createObjectStore(PROJECT_SNAPSHOT_STORE_NAME, { keyPath: "id" });
+      }
     };
   });
 }
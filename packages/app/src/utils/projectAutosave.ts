@@ -0,0 +1,96 @@
+/**
+ * 工程自动保存：把 projectStore 中的工程快照写入 IndexedDB，浏览器崩溃或误关页面后可恢复。
+ * 每次命令进入 pushHistory（以及撤销/重做）后防抖写入，只保留最近一份快照；
+ * 工程成功保存到服务端后清除快照，表示没有未保存的改动。
+ */
+import { serializeProject, type Project } from "@vitecut/project";
+import { openDB, PROJECT_SNAPSHOT_STORE_NAME } from "./mediaStorage";
+
+/** 只保留一份快照，固定主键 */
+const SNAPSHOT_ID = "latest";
+/** 最后一次修改后多久写入快照（ms） */
+const AUTOSAVE_DELAY_MS = 1000;
+
+export type ProjectSnapshot = {
+  id: typeof SNAPSHOT_ID;
+  projectId: string;
+  projectName: string;
+  /** serializeProject 的输出，恢复时用 deserializeProject 迁移与校验 */
+  data: string;
+  savedAt: number;
+};
+
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function cancelScheduledAutosave(): void {
+  if (autosaveTimer !== null) {
+    clearTimeout(autosaveTimer);
+    autosaveTimer = null;
+  }
+}
+
+export function saveProjectSnapshot(project: Project): Promise<void> {
+  const snapshot: ProjectSnapshot = {
+    id: SNAPSHOT_ID,
+    projectId: project.id,
+    projectName: project.name,
+    data: serializeProject(project),
+    savedAt: Date.now(),
+  };
+  return openDB().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(PROJECT_SNAPSHOT_STORE_NAME, "readwrite");
+        tx.objectStore(PROJECT_SNAPSHOT_STORE_NAME).put(snapshot);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      })
+  );
+}
+
+export function getProjectSnapshot(): Promise<ProjectSnapshot | null> {
+  return openDB().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(PROJECT_SNAPSHOT_STORE_NAME, "readonly");
+        const req = tx
+          .objectStore(PROJECT_SNAPSHOT_STORE_NAME)
+          .get(SNAPSHOT_ID);
+        req.onsuccess = () =>
+          resolve((req.result as ProjectSnapshot | undefined) ?? null);
+        req.onerror = () => reject(req.error);
+      })
+  );
+}
+
+/** 清除快照，同时取消尚未写入的防抖保存 */
+export function clearProjectSnapshot(): Promise<void> {
+  cancelScheduledAutosave();
+  return openDB().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(PROJECT_SNAPSHOT_STORE_NAME, "readwrite");
+        tx.objectStore(PROJECT_SNAPSHOT_STORE_NAME).delete(SNAPSHOT_ID);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      })
+  );
+}
+
+/**
+ * 防抖调度一次快照写入。写入时才读取工程，连续编辑只落盘最后的状态。
+ * @param getProject 返回当前工程；为 null 时跳过
+ */
+export function scheduleProjectAutosave(
+  getProject: () => Project | null
+): void {
+  cancelScheduledAutosave();
+  autosaveTimer = setTimeout(() => {
+    autosaveTimer = null;
+    const project = getProject();
+    if (!project) return;
+    saveProjectSnapshot(project).catch((err) => {
+      console.error("Autosave failed:", err);
+    });
+  }, AUTOSAVE_DELAY_MS);
+}